@@ -24,6 +24,8 @@ export default [
         require: "readonly",
         module: "readonly",
         fetch: "readonly",
+        setTimeout: "readonly",
+        clearTimeout: "readonly",
         // Browser globals for base64 encoding/decoding (used in browser adapters)
         atob: "readonly",
         btoa: "readonly",
@@ -7,7 +7,12 @@
 
 import { FileSystemAdapter } from "./pure-core/abstractions/filesystem";
 import { GlobAdapter } from "./pure-core/abstractions/glob";
-import { CodebaseViewsStore } from "./pure-core/stores/CodebaseViewsStore";
+import {
+  CodebaseViewsStore,
+  MigrateViewsOptions,
+  ViewMigrationReport,
+} from "./pure-core/stores/CodebaseViewsStore";
+import { CURRENT_VIEW_VERSION } from "./pure-core/stores/CodebaseViewMigrations";
 import { DrawingStore, DrawingMetadata } from "./pure-core/stores/DrawingStore";
 import { ExcalidrawData } from "./pure-core/types/drawing";
 import {
@@ -15,6 +20,21 @@ import {
   ValidationResult,
 } from "./pure-core/validation/CodebaseViewValidator";
 import { ALEXANDRIA_DIRS } from "./constants/paths";
+import { loadAlexandriaIgnore } from "./pure-core/utils/ignore";
+import {
+  AnchorDrift,
+  detectAnchorDrift,
+  fingerprintAnchors,
+} from "./pure-core/utils/anchors";
+import { ViewGraph } from "./pure-core/utils/viewGraph";
+import {
+  proposeViewSync,
+  ViewSyncProposal,
+} from "./pure-core/utils/overviewSync";
+import {
+  resolveReferenceGroups,
+  ResolvedReferenceGroups,
+} from "./pure-core/utils/referenceGroups";
 import type {
   CodebaseView,
   ValidatedRepositoryPath,
@@ -230,6 +250,71 @@ export class MemoryPalace {
     return this.viewsStore.saveView(this.repositoryRoot, view);
   }
 
+  /**
+   * Resolve the files of a view's reference groups, expanding their patterns
+   * and directories and settling files claimed by several groups by priority
+   */
+  async resolveReferenceGroups(
+    view: CodebaseView,
+    globAdapter: GlobAdapter,
+  ): Promise<ResolvedReferenceGroups> {
+    return resolveReferenceGroups(
+      view,
+      globAdapter,
+      this.fs,
+      this.repositoryRoot,
+    );
+  }
+
+  /**
+   * Build the graph of links between all views, for neighbors, backlinks,
+   * paths and connected components
+   */
+  getViewGraph(): ViewGraph {
+    return new ViewGraph(this.listViews());
+  }
+
+  /**
+   * Find where the content of each fingerprinted line range of a view is now,
+   * reporting whether it is intact, moved, changed or deleted
+   */
+  getAnchorDrift(view: CodebaseView): AnchorDrift[] {
+    return detectAnchorDrift(view, (path) => this.readRepositoryFile(path));
+  }
+
+  /**
+   * Propose changes to a view's reference groups from the files its overview
+   * links to or names in inline code, mapping each section of the overview
+   * to a reference group. Nothing is written; save `proposal.view` to accept.
+   */
+  syncViewFromOverview(viewId: string): ViewSyncProposal {
+    const view = this.getView(viewId);
+    if (!view) {
+      throw new Error(`View "${viewId}" not found`);
+    }
+    const content = view.overviewPath
+      ? this.readRepositoryFile(view.overviewPath)
+      : null;
+    if (content === null) {
+      throw new Error(
+        `Overview "${view.overviewPath}" of view "${viewId}" not found`,
+      );
+    }
+
+    return proposeViewSync(view, view.overviewPath, content, (path) => {
+      const fullPath = this.fs.join(this.repositoryRoot, path);
+      return this.fs.exists(fullPath) && !this.fs.isDirectory(fullPath);
+    });
+  }
+
+  /**
+   * Upgrade all stored views to the current view version, rewriting their
+   * files unless `dryRun` is set
+   */
+  migrateAllViews(options: MigrateViewsOptions = {}): ViewMigrationReport {
+    return this.viewsStore.migrateAllViews(this.repositoryRoot, options);
+  }
+
   /**
    * Validate a codebase view
    */
@@ -256,10 +341,15 @@ export class MemoryPalace {
     if (!viewToSave.version) {
       viewToSave = {
         ...viewToSave,
-        version: "1.0.0",
+        version: CURRENT_VIEW_VERSION,
       };
     }
 
+    // Fingerprint new line ranges so they can be found again as code moves
+    viewToSave = fingerprintAnchors(viewToSave, (path) =>
+      this.readRepositoryFile(path),
+    );
+
     // Add timestamp if missing
     if (!viewToSave.timestamp) {
       viewToSave = {
@@ -280,6 +370,7 @@ export class MemoryPalace {
   /**
    * Get an overview of all markdown documents in the repository
    * with their Alexandria tracking status and associated files.
+   * Paths matched by `.alexandriaignore` are skipped.
    *
    * @param globAdapter - Glob adapter for finding markdown files
    * @param options - Options for filtering documents
@@ -301,11 +392,16 @@ export class MemoryPalace {
     const allExcludes = [...defaultExcludes, ...excludePatterns];
 
     // Find all markdown files using the glob adapter
-    const markdownFiles = await globAdapter.findFiles(["**/*.md", "**/*.mdx"], {
+    const foundFiles = await globAdapter.findFiles(["**/*.md", "**/*.mdx"], {
       cwd: this.repositoryRoot,
       ignore: allExcludes,
       onlyFiles: true,
     });
+    const markdownFiles = loadAlexandriaIgnore(
+      this.fs,
+      this.repositoryRoot,
+      foundFiles,
+    ).filter(foundFiles);
 
     // Load all views and build a map of overviewPath -> view
     // Use async version to support browser environments with async file access
@@ -345,13 +441,13 @@ export class MemoryPalace {
       // Get associated files from the view's reference groups
       let associatedFiles: string[] | undefined;
       if (view?.referenceGroups) {
-        const files: string[] = [];
-        for (const groupName in view.referenceGroups) {
-          const group = view.referenceGroups[groupName];
-          if ("files" in group && Array.isArray(group.files)) {
-            files.push(...group.files);
-          }
-        }
+        const resolved = await resolveReferenceGroups(
+          view,
+          globAdapter,
+          this.fs,
+          this.repositoryRoot,
+        );
+        const files = Object.values(resolved.files).flat();
         if (files.length > 0) {
           associatedFiles = [...new Set(files)]; // Deduplicate
         }
@@ -381,6 +477,14 @@ export class MemoryPalace {
     return results;
   }
 
+  /**
+   * Read a file relative to the repository root, or null when it does not exist
+   */
+  private readRepositoryFile(relativePath: string): string | null {
+    const fullPath = this.fs.join(this.repositoryRoot, relativePath);
+    return this.fs.exists(fullPath) ? this.fs.readFile(fullPath) : null;
+  }
+
   /**
    * Extract a human-readable title from a filename
    */
@@ -0,0 +1,102 @@
+/**
+ * Config file formats
+ *
+ * Configs can be written as JSON, YAML or a JavaScript module. JSON and YAML
+ * are parsed from text; modules are evaluated through a module loader.
+ */
+
+import { LineCounter, parseDocument } from "yaml";
+
+export type ConfigFileFormat = "json" | "yaml" | "module";
+
+/** A config file that could not be parsed, with its 1-based location */
+export interface ConfigSyntaxError {
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+type ParsedConfigText =
+  | { value: unknown; error?: undefined }
+  | { value?: undefined; error: ConfigSyntaxError };
+
+/**
+ * Format of a config file, from its extension. Files without a known
+ * extension, such as `.alexandriarc`, are JSON.
+ */
+export function getConfigFormat(path: string): ConfigFileFormat {
+  if (/\.ya?ml$/i.test(path)) {
+    return "yaml";
+  }
+  if (/\.(c|m)?js$/i.test(path)) {
+    return "module";
+  }
+  return "json";
+}
+
+/**
+ * Parse the text of a JSON or YAML config file.
+ */
+export function parseConfigText(
+  content: string,
+  format: Exclude<ConfigFileFormat, "module">,
+): ParsedConfigText {
+  return format === "yaml" ? parseYaml(content) : parseJson(content);
+}
+
+/**
+ * Describe a syntax error as `path:line:column: message`.
+ */
+export function formatConfigSyntaxError(
+  path: string,
+  error: ConfigSyntaxError,
+): string {
+  const location =
+    error.line !== undefined
+      ? `:${error.line}${error.column !== undefined ? `:${error.column}` : ""}`
+      : "";
+  return `${path}${location}: ${error.message}`;
+}
+
+function parseYaml(content: string): ParsedConfigText {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(content, {
+    lineCounter,
+    prettyErrors: false,
+  });
+  const [error] = document.errors;
+  if (error) {
+    const position = lineCounter.linePos(error.pos[0]);
+    return {
+      error: {
+        message: error.message,
+        line: position.line,
+        column: position.col,
+      },
+    };
+  }
+  // An empty document is an empty config
+  return { value: document.toJS() ?? {} };
+}
+
+function parseJson(content: string): ParsedConfigText {
+  try {
+    return { value: JSON.parse(content) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const offset = /at position (\d+)/.exec(message);
+    if (!offset) {
+      return { error: { message } };
+    }
+
+    const before = content.slice(0, Number(offset[1]));
+    const lines = before.split("\n");
+    return {
+      error: {
+        message: message.replace(/\s*(in JSON )?at position \d+.*$/, ""),
+        line: lines.length,
+        column: lines[lines.length - 1].length + 1,
+      },
+    };
+  }
+}
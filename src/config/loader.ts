@@ -1,13 +1,101 @@
-import { AlexandriaConfig } from "./types";
-import { CONFIG_FILENAMES, DEFAULT_CONFIG } from "./schema";
+import { Document, isScalar, parseDocument } from "yaml";
+import { AlexandriaConfig, ValidationResult } from "./types";
+import { CONFIG_FILENAME, CONFIG_FILENAMES, DEFAULT_CONFIG } from "./schema";
+import {
+  ConfigLayer,
+  ConfigProvenance,
+  DEFAULT_CONFIG_SOURCE,
+  mergeConfigLayers,
+} from "./merge";
+import { BUILT_IN_PRESETS, PRESET_PREFIX } from "./presets";
+import {
+  formatConfigSyntaxError,
+  getConfigFormat,
+  parseConfigText,
+} from "./formats";
+import {
+  ConfigMigrationRegistry,
+  ConfigMigrationResult,
+  RawConfig,
+} from "./migrations";
+import { buildOverrideLayers, ConfigOverrides } from "./overrides";
+import { ConfigValidator } from "./validator";
 import { FileSystemAdapter } from "../pure-core/abstractions/filesystem";
+import { PluginLoader } from "../pure-core/abstractions/plugins";
+
+export interface LoadedConfig {
+  config: AlexandriaConfig;
+  /** Effective setting path -> "defaults", preset name, config file path or override */
+  provenance: ConfigProvenance;
+}
+
+/** What alexandria.config.js may export as its default export */
+export type ConfigFactory = (
+  environment: ConfigEnvironment,
+) => Partial<AlexandriaConfig> | Promise<Partial<AlexandriaConfig>>;
+
+/** What a config function exported by alexandria.config.js receives */
+export interface ConfigEnvironment {
+  /** Absolute path of the config module */
+  configPath: string;
+  env: Record<string, string | undefined>;
+}
+
+export interface ConfigLoaderOptions {
+  /**
+   * Evaluates alexandria.config.js/.mjs modules. Without it, finding one of
+   * those configs is reported as an error.
+   */
+  moduleLoader?: PluginLoader;
+  /** Environment passed to config functions (default: process.env where available) */
+  env?: Record<string, string | undefined>;
+  /** Migrations applied to old configs (default: the built-in migrations) */
+  migrations?: ConfigMigrationRegistry;
+  /**
+   * Settings applied on top of every loaded config, after the `ALEXANDRIA_*`
+   * variables in `env`, e.g. `{ "reporting.format": "json" }`
+   */
+  overrides?: ConfigOverrides;
+}
+
+export interface MigrateConfigOptions {
+  /** Rewrite the config file when it was migrated (default: false) */
+  write?: boolean;
+}
+
+/**
+ * Thrown while loading synchronously when a JavaScript config has not been
+ * evaluated yet. The async methods evaluate it and retry.
+ */
+class UnloadedModuleError extends Error {
+  constructor(readonly path: string) {
+    super(`${path} is a JavaScript config; load it with loadConfigAsync()`);
+  }
+}
 
 export class ConfigLoader {
-  private configCache: Map<string, AlexandriaConfig> = new Map();
+  private configCache: Map<string, LoadedConfig> = new Map();
+  /** Configs exported by JavaScript config modules, by file path */
+  private moduleConfigs: Map<string, unknown> = new Map();
+  /** Config files whose migration warnings have been shown */
+  private warnedPaths: Set<string> = new Set();
   private fsAdapter: FileSystemAdapter;
+  private moduleLoader: PluginLoader | undefined;
+  private env: Record<string, string | undefined>;
+  private migrations: ConfigMigrationRegistry;
+  private overrides: ConfigOverrides;
+  private warnedOverrides = false;
 
-  constructor(fsAdapter: FileSystemAdapter) {
+  constructor(fsAdapter: FileSystemAdapter, options: ConfigLoaderOptions = {}) {
     this.fsAdapter = fsAdapter;
+    this.moduleLoader = options.moduleLoader;
+    this.env =
+      options.env ??
+      (globalThis as { process?: { env?: Record<string, string | undefined> } })
+        .process?.env ??
+      {};
+    this.migrations = options.migrations ?? new ConfigMigrationRegistry();
+    this.overrides = options.overrides ?? {};
   }
 
   findConfigFile(startDir: string): string | null {
@@ -15,11 +103,9 @@ export class ConfigLoader {
 
     // Walk up the directory tree looking for config files
     while (currentDir) {
-      for (const filename of CONFIG_FILENAMES) {
-        const configPath = this.fsAdapter.join(currentDir, filename);
-        if (this.fsAdapter.exists(configPath)) {
-          return configPath;
-        }
+      const configPath = this.findConfigInDir(currentDir);
+      if (configPath) {
+        return configPath;
       }
 
       const parentDir = this.fsAdapter.dirname(currentDir);
@@ -31,67 +117,564 @@ export class ConfigLoader {
     return null;
   }
 
+  /**
+   * Find every config file that applies to a directory, outermost first.
+   * The search walks up from `startDir` and stops after a config with
+   * `root: true`.
+   */
+  findConfigFiles(startDir: string): string[] {
+    const configPaths: string[] = [];
+    let currentDir = startDir;
+
+    while (currentDir) {
+      const configPath = this.findConfigInDir(currentDir);
+      if (configPath) {
+        configPaths.unshift(configPath);
+        if (this.isRootConfig(configPath)) break;
+      }
+
+      const parentDir = this.fsAdapter.dirname(currentDir);
+      if (parentDir === currentDir) break;
+      currentDir = parentDir;
+    }
+
+    return configPaths;
+  }
+
+  private findConfigInDir(dir: string): string | null {
+    for (const filename of CONFIG_FILENAMES) {
+      const configPath = this.fsAdapter.join(dir, filename);
+      if (this.fsAdapter.exists(configPath)) {
+        return configPath;
+      }
+    }
+    return null;
+  }
+
+  private isRootConfig(configPath: string): boolean {
+    try {
+      const config = this.readConfigFile(configPath) as { root?: unknown };
+      return config?.root === true;
+    } catch (error) {
+      if (error instanceof UnloadedModuleError) throw error;
+      // Unreadable configs are reported when they are loaded
+      return false;
+    }
+  }
+
   /**
    * Load configuration from a specific path or search from a starting directory.
+   * When searching, configs in parent directories cascade: each one is merged
+   * over the configs above it, up to a config with `root: true`.
+   * `ALEXANDRIA_*` environment variables and the `overrides` option are
+   * applied last.
    *
    * @param configPathOrStartDir - Either a direct path to a config file, or a directory to start searching from
    * @returns The loaded configuration, or null if not found
    */
   loadConfig(configPathOrStartDir?: string): AlexandriaConfig | null {
+    return this.loadConfigWithProvenance(configPathOrStartDir)?.config ?? null;
+  }
+
+  /**
+   * Load configuration like loadConfig, along with where each effective
+   * setting came from: "defaults", a preset name, a config file path, or
+   * `env:<VARIABLE>` / `override:<path>` for overrides.
+   *
+   * @param configPathOrStartDir - Either a direct path to a config file, or a directory to start searching from
+   * @returns The loaded configuration and its provenance, or null if not found
+   */
+  loadConfigWithProvenance(configPathOrStartDir?: string): LoadedConfig | null {
+    try {
+      return this.resolveConfig(configPathOrStartDir);
+    } catch (error) {
+      if (!(error instanceof UnloadedModuleError)) throw error;
+      console.error(`Failed to load config from ${error.path}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Load configuration like loadConfig, evaluating JavaScript configs
+   * (alexandria.config.js/.mjs) through the module loader.
+   *
+   * @param configPathOrStartDir - Either a direct path to a config file, or a directory to start searching from
+   * @returns The loaded configuration, or null if not found
+   */
+  async loadConfigAsync(
+    configPathOrStartDir?: string,
+  ): Promise<AlexandriaConfig | null> {
+    return (
+      (await this.loadConfigWithProvenanceAsync(configPathOrStartDir))
+        ?.config ?? null
+    );
+  }
+
+  /**
+   * Load configuration and its provenance like loadConfigWithProvenance,
+   * evaluating JavaScript configs through the module loader.
+   *
+   * @param configPathOrStartDir - Either a direct path to a config file, or a directory to start searching from
+   * @returns The loaded configuration and its provenance, or null if not found
+   */
+  async loadConfigWithProvenanceAsync(
+    configPathOrStartDir?: string,
+  ): Promise<LoadedConfig | null> {
+    // Each pass evaluates one more module until every config file is readable
+    for (;;) {
+      try {
+        return this.resolveConfig(configPathOrStartDir);
+      } catch (error) {
+        if (!(error instanceof UnloadedModuleError)) throw error;
+        const { path } = error;
+        try {
+          this.moduleConfigs.set(path, await this.evaluateModule(path));
+        } catch (loadError) {
+          console.error(`Failed to load config from ${path}:`, loadError);
+          return null;
+        }
+      }
+    }
+  }
+
+  /**
+   * Upgrade a config file to the current schema version. With `write`, a
+   * migrated JSON config is written back with its keys in their original
+   * order, and a YAML config keeps its comments and formatting outside the
+   * changed settings; JavaScript configs have to be updated by hand.
+   *
+   * @throws Error when the file cannot be read, its version is newer than
+   *         this library supports, or no migration path exists
+   */
+  migrate(
+    configPath: string,
+    options: MigrateConfigOptions = {},
+  ): ConfigMigrationResult {
+    const format = getConfigFormat(configPath);
+    if (options.write && format === "module") {
+      throw new Error(
+        `Cannot rewrite ${configPath}; update JavaScript configs by hand`,
+      );
+    }
+
+    const config = this.readRawConfigFile(configPath);
+    if (!this.isRawConfig(config)) {
+      throw new Error(`${configPath} does not contain a config object`);
+    }
+
+    const result = this.migrations.migrate(config);
+    if (options.write && result.migrated) {
+      const original = this.fsAdapter.readFile(configPath);
+      this.fsAdapter.writeFile(
+        configPath,
+        format === "yaml"
+          ? this.stringifyYaml(result.config, original)
+          : this.stringifyJson(result.config, original),
+      );
+      this.configCache.clear();
+      this.warnedPaths.delete(configPath);
+    }
+    return result;
+  }
+
+  /**
+   * Serialize JSON with the indentation and final newline of the original file.
+   */
+  private stringifyJson(config: RawConfig, original: string): string {
+    const indent = /^([ \t]+)\S/m.exec(original)?.[1] ?? "  ";
+    const json = JSON.stringify(config, null, indent);
+    return original.endsWith("\n") ? `${json}\n` : json;
+  }
+
+  /**
+   * Serialize YAML by editing the original document, so comments and
+   * formatting survive everywhere the migration did not change a value.
+   */
+  private stringifyYaml(config: RawConfig, original: string): string {
+    const doc = parseDocument(original);
+    this.updateYamlNode(doc, [], doc.toJS(), config);
+    return String(doc);
+  }
+
+  /**
+   * Bring the node at `path` from `before` to `after`, descending into
+   * mappings and same-length sequences, changing scalar values in place and
+   * replacing anything else.
+   */
+  private updateYamlNode(
+    doc: Document,
+    path: Array<string | number>,
+    before: unknown,
+    after: unknown,
+  ): void {
+    if (this.isRawConfig(before) && this.isRawConfig(after)) {
+      for (const key of Object.keys(before)) {
+        if (!(key in after)) doc.deleteIn([...path, key]);
+      }
+      for (const [key, value] of Object.entries(after)) {
+        this.updateYamlNode(doc, [...path, key], before[key], value);
+      }
+    } else if (
+      Array.isArray(before) &&
+      Array.isArray(after) &&
+      before.length === after.length
+    ) {
+      after.forEach((value, index) =>
+        this.updateYamlNode(doc, [...path, index], before[index], value),
+      );
+    } else if (JSON.stringify(before) !== JSON.stringify(after)) {
+      // Scalars change in place to keep their comments
+      const node = doc.getIn(path, true);
+      if (isScalar(node) && (after === null || typeof after !== "object")) {
+        node.value = after;
+      } else {
+        doc.setIn(path, doc.createNode(after));
+      }
+    }
+  }
+
+  /**
+   * Read a single config file and check it with ConfigValidator. Syntax
+   * errors are reported with their line and column.
+   */
+  async validateConfigFile(path: string): Promise<ValidationResult> {
+    const format = getConfigFormat(path);
+    let config: unknown;
+
+    if (format === "module") {
+      try {
+        config = await this.evaluateModule(path);
+      } catch (error) {
+        return {
+          valid: false,
+          errors: [
+            {
+              path: "root",
+              message: error instanceof Error ? error.message : String(error),
+              file: path,
+            },
+          ],
+          warnings: [],
+        };
+      }
+    } else {
+      const parsed = parseConfigText(this.fsAdapter.readFile(path), format);
+      if (parsed.error) {
+        return {
+          valid: false,
+          errors: [{ path: "root", file: path, ...parsed.error }],
+          warnings: [],
+        };
+      }
+      config = parsed.value;
+    }
+
+    // Old configs are validated as they will be loaded: migrated
+    const migrationWarnings: string[] = [];
+    if (this.isRawConfig(config)) {
+      try {
+        const migration = this.migrations.migrate(config);
+        config = migration.config;
+        migrationWarnings.push(...migration.warnings);
+      } catch (error) {
+        return {
+          valid: false,
+          errors: [
+            {
+              path: "version",
+              message: error instanceof Error ? error.message : String(error),
+              file: path,
+            },
+          ],
+          warnings: [],
+        };
+      }
+    }
+
+    const result = new ConfigValidator().validate(config);
+    return {
+      valid: result.valid,
+      errors: result.errors.map((error) => ({ ...error, file: path })),
+      warnings: [
+        ...migrationWarnings.map((message) => ({
+          path: "version",
+          message,
+          file: path,
+        })),
+        ...result.warnings.map((warning) => ({ ...warning, file: path })),
+      ],
+    };
+  }
+
+  /**
+   * Find and merge the config files for a path.
+   *
+   * @throws UnloadedModuleError when a JavaScript config has not been evaluated
+   */
+  private resolveConfig(configPathOrStartDir?: string): LoadedConfig | null {
     if (!configPathOrStartDir) {
       return null;
     }
 
     // Check if this is a direct config file path or a directory to search from
-    const path = this.fsAdapter.exists(configPathOrStartDir) &&
+    const paths =
+      this.fsAdapter.exists(configPathOrStartDir) &&
       !this.fsAdapter.isDirectory(configPathOrStartDir)
-      ? configPathOrStartDir
-      : this.findConfigFile(configPathOrStartDir);
+        ? [configPathOrStartDir]
+        : this.findConfigFiles(configPathOrStartDir);
 
-    if (!path) {
+    if (paths.length === 0) {
       return null;
     }
 
-    if (this.configCache.has(path)) {
-      return this.configCache.get(path)!;
+    // Directories governed by the same config files share one cached config
+    const cacheKey = paths.join("\n");
+    if (this.configCache.has(cacheKey)) {
+      return this.configCache.get(cacheKey)!;
     }
 
-    try {
-      const content = this.fsAdapter.readFile(path);
-      const config = JSON.parse(content) as AlexandriaConfig;
+    const layers: ConfigLayer[] = [
+      { source: DEFAULT_CONFIG_SOURCE, config: DEFAULT_CONFIG },
+    ];
+    for (const path of paths) {
+      try {
+        layers.push(...this.collectLayers(path, []));
+      } catch (error) {
+        if (error instanceof UnloadedModuleError) throw error;
+        console.error(`Failed to load config from ${path}:`, error);
+        return null;
+      }
+    }
 
-      const merged = this.mergeWithDefaults(config);
-      this.configCache.set(path, merged);
+    layers.push(...this.getOverrideLayers());
 
-      return merged;
-    } catch (error) {
-      console.error(`Failed to load config from ${path}:`, error);
-      return null;
+    const loaded = mergeConfigLayers(layers);
+    this.configCache.set(cacheKey, loaded);
+    return loaded;
+  }
+
+  /**
+   * Layers for the `ALEXANDRIA_*` environment variables and the `overrides`
+   * option. Unknown variables and invalid overrides are skipped and reported
+   * once.
+   */
+  private getOverrideLayers(): ConfigLayer[] {
+    const { layers, warnings } = buildOverrideLayers(this.env, this.overrides);
+    if (!this.warnedOverrides) {
+      this.warnedOverrides = true;
+      for (const warning of warnings) {
+        console.warn(warning);
+      }
     }
+    return layers;
   }
 
-  private mergeWithDefaults(
-    config: Partial<AlexandriaConfig>,
-  ): AlexandriaConfig {
-    return {
-      ...DEFAULT_CONFIG,
-      ...config,
-      context: {
-        ...DEFAULT_CONFIG.context,
-        ...config.context,
-        patterns: {
-          ...DEFAULT_CONFIG.context?.patterns,
-          ...config.context?.patterns,
-        },
-      },
-      reporting: {
-        ...DEFAULT_CONFIG.reporting,
-        ...config.reporting,
-      },
-    } as AlexandriaConfig;
+  /**
+   * Read a config file and everything it extends, in merge order.
+   *
+   * @param chain - Config files being resolved, to detect circular extends
+   */
+  private collectLayers(path: string, chain: string[]): ConfigLayer[] {
+    if (chain.includes(path)) {
+      throw new Error(`Circular extends: ${[...chain, path].join(" -> ")}`);
+    }
+
+    const config = this.readConfigFile(path) as Partial<AlexandriaConfig>;
+    const layers: ConfigLayer[] = [];
+
+    for (const specifier of this.getExtends(config)) {
+      if (specifier.startsWith(PRESET_PREFIX)) {
+        const preset = BUILT_IN_PRESETS[specifier];
+        if (!preset) {
+          throw new Error(
+            `Unknown preset "${specifier}" in ${path}. Available presets: ${Object.keys(BUILT_IN_PRESETS).join(", ")}`,
+          );
+        }
+        layers.push({ source: specifier, config: preset });
+      } else {
+        const extendedPath = this.resolveExtends(specifier, path);
+        layers.push(...this.collectLayers(extendedPath, [...chain, path]));
+      }
+    }
+
+    layers.push({ source: path, config });
+    return layers;
+  }
+
+  /**
+   * Parse a JSON or YAML config file, or return an evaluated module's config,
+   * upgraded to the current schema version.
+   */
+  private readConfigFile(path: string): unknown {
+    const config = this.readRawConfigFile(path);
+    if (!this.isRawConfig(config)) {
+      return config;
+    }
+
+    const result = this.migrations.migrate(config);
+    if (!this.warnedPaths.has(path)) {
+      this.warnedPaths.add(path);
+      for (const warning of result.warnings) {
+        console.warn(`${path}: ${warning}`);
+      }
+    }
+    return result.config;
+  }
+
+  private readRawConfigFile(path: string): unknown {
+    const format = getConfigFormat(path);
+    if (format === "module") {
+      if (!this.moduleConfigs.has(path)) {
+        throw new UnloadedModuleError(path);
+      }
+      return this.moduleConfigs.get(path);
+    }
+
+    const parsed = parseConfigText(this.fsAdapter.readFile(path), format);
+    if (parsed.error) {
+      throw new Error(formatConfigSyntaxError(path, parsed.error));
+    }
+    return parsed.value;
+  }
+
+  /**
+   * Import a JavaScript config. It exports a config object, or a function of
+   * the environment returning one, as its default export.
+   */
+  private async evaluateModule(path: string): Promise<unknown> {
+    if (!this.moduleLoader) {
+      throw new Error(
+        `Cannot load ${path} without a module loader; pass moduleLoader to ConfigLoader`,
+      );
+    }
+
+    const exports = await this.moduleLoader.load(
+      path,
+      this.fsAdapter.dirname(path),
+    );
+    const exported =
+      exports && typeof exports === "object" && "default" in exports
+        ? exports.default
+        : exports;
+    const config =
+      typeof exported === "function"
+        ? await (exported as ConfigFactory)({ configPath: path, env: this.env })
+        : exported;
+
+    if (!config || typeof config !== "object" || Array.isArray(config)) {
+      throw new Error(
+        `${path} must export a config object or a function returning one`,
+      );
+    }
+    return config;
+  }
+
+  private isRawConfig(value: unknown): value is RawConfig {
+    return !!value && typeof value === "object" && !Array.isArray(value);
+  }
+
+  private getExtends(config: Partial<AlexandriaConfig>): string[] {
+    if (config.extends === undefined) {
+      return [];
+    }
+    return Array.isArray(config.extends) ? config.extends : [config.extends];
+  }
+
+  /**
+   * Resolve an extended config file path or package to a config file.
+   * Packages are looked up in node_modules directories above the extending
+   * file. A package provides its config as a JSON `main`, or as a
+   * .alexandriarc.json at its root.
+   */
+  private resolveExtends(specifier: string, fromPath: string): string {
+    const fromDir = this.fsAdapter.dirname(fromPath);
+
+    if (
+      specifier.startsWith("./") ||
+      specifier.startsWith("../") ||
+      this.fsAdapter.isAbsolute(specifier)
+    ) {
+      const resolved = this.fsAdapter.isAbsolute(specifier)
+        ? specifier
+        : this.normalizePath(this.fsAdapter.join(fromDir, specifier));
+      if (!this.fsAdapter.exists(resolved)) {
+        throw new Error(
+          `Cannot find config "${specifier}" extended by ${fromPath}`,
+        );
+      }
+      return resolved;
+    }
+
+    let currentDir = fromDir;
+    while (currentDir) {
+      const candidate = this.fsAdapter.join(
+        currentDir,
+        "node_modules",
+        specifier,
+      );
+      if (this.fsAdapter.exists(candidate)) {
+        if (!this.fsAdapter.isDirectory(candidate)) {
+          return candidate;
+        }
+        const packageConfig = this.getPackageConfigPath(candidate);
+        if (packageConfig) {
+          return packageConfig;
+        }
+        throw new Error(
+          `Package "${specifier}" extended by ${fromPath} has no JSON main or ${CONFIG_FILENAME}`,
+        );
+      }
+
+      const parentDir = this.fsAdapter.dirname(currentDir);
+      if (parentDir === currentDir) break;
+      currentDir = parentDir;
+    }
+
+    throw new Error(
+      `Cannot find package "${specifier}" extended by ${fromPath}`,
+    );
+  }
+
+  private getPackageConfigPath(packageDir: string): string | null {
+    const packageJsonPath = this.fsAdapter.join(packageDir, "package.json");
+    if (this.fsAdapter.exists(packageJsonPath)) {
+      const { main } = JSON.parse(this.fsAdapter.readFile(packageJsonPath)) as {
+        main?: unknown;
+      };
+      if (typeof main === "string" && main.endsWith(".json")) {
+        const mainPath = this.normalizePath(
+          this.fsAdapter.join(packageDir, main),
+        );
+        if (this.fsAdapter.exists(mainPath)) {
+          return mainPath;
+        }
+      }
+    }
+
+    const configPath = this.fsAdapter.join(packageDir, CONFIG_FILENAME);
+    return this.fsAdapter.exists(configPath) ? configPath : null;
+  }
+
+  /**
+   * Collapse "." and ".." segments, which not every adapter's join resolves.
+   */
+  private normalizePath(path: string): string {
+    const segments: string[] = [];
+    for (const segment of path.split("/")) {
+      if (segment === "..") {
+        if (segments.length > 1 || (segments.length === 1 && segments[0])) {
+          segments.pop();
+        }
+      } else if (segment !== "." && (segment !== "" || segments.length === 0)) {
+        segments.push(segment);
+      }
+    }
+    return segments.join("/") || "/";
   }
 
   clearCache(): void {
     this.configCache.clear();
+    this.moduleConfigs.clear();
+    this.warnedPaths.clear();
   }
 }
@@ -0,0 +1,201 @@
+/**
+ * Layered config merging with provenance.
+ *
+ * Layers are merged in order, later layers winning:
+ * - objects are merged key by key
+ * - `context.rules` are merged by id and `context.patterns.priority` by pattern
+ * - `context.patterns.include`/`exclude` and `plugins` are combined without
+ *   duplicates, except that built-in defaults are replaced rather than extended
+ * - any other value, including arrays, replaces the previous one
+ *
+ * Provenance maps each effective setting to the layer that set it. Paths use
+ * dots for object keys and brackets for rule ids, priority patterns and list
+ * entries, e.g. `context.rules[stale-references].severity` or
+ * `context.patterns.exclude[**\/dist/**]`.
+ */
+
+import { AlexandriaConfig } from "./types";
+
+/** Source name recorded for settings that come from DEFAULT_CONFIG */
+export const DEFAULT_CONFIG_SOURCE = "defaults";
+
+export interface ConfigLayer {
+  /** Preset name, file path or other description of where the layer came from */
+  source: string;
+  config: Partial<AlexandriaConfig>;
+}
+
+/** Effective setting path -> source of its value */
+export type ConfigProvenance = Record<string, string>;
+
+type ConfigObject = Record<string, unknown>;
+
+// Lists that accumulate across layers instead of being replaced
+const COMBINED_LISTS = new Set([
+  "plugins",
+  "context.patterns.include",
+  "context.patterns.exclude",
+]);
+
+// Lists of objects merged by an identity key
+const KEYED_LISTS: Record<string, string> = {
+  "context.rules": "id",
+  "context.patterns.priority": "pattern",
+};
+
+// Keys that describe how a layer is composed rather than settings
+const LAYER_KEYS = new Set(["extends", "root"]);
+
+function isPlainObject(value: unknown): value is ConfigObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function clearProvenance(provenance: ConfigProvenance, path: string): void {
+  for (const key of Object.keys(provenance)) {
+    if (
+      key === path ||
+      key.startsWith(`${path}.`) ||
+      key.startsWith(`${path}[`)
+    ) {
+      delete provenance[key];
+    }
+  }
+}
+
+function mergeValue(
+  target: ConfigObject,
+  key: string,
+  value: unknown,
+  path: string,
+  source: string,
+  provenance: ConfigProvenance,
+): void {
+  if (value === undefined) {
+    return;
+  }
+
+  if (COMBINED_LISTS.has(path) && Array.isArray(value)) {
+    mergeCombinedList(target, key, value, path, source, provenance);
+  } else if (path in KEYED_LISTS && Array.isArray(value)) {
+    mergeKeyedList(target, key, value, path, source, provenance);
+  } else if (isPlainObject(value)) {
+    if (!isPlainObject(target[key])) {
+      clearProvenance(provenance, path);
+      target[key] = {};
+    }
+    mergeObject(target[key] as ConfigObject, value, path, source, provenance);
+  } else {
+    clearProvenance(provenance, path);
+    target[key] = clone(value);
+    provenance[path] = source;
+  }
+}
+
+function mergeObject(
+  target: ConfigObject,
+  layer: ConfigObject,
+  path: string,
+  source: string,
+  provenance: ConfigProvenance,
+): void {
+  for (const [key, value] of Object.entries(layer)) {
+    mergeValue(
+      target,
+      key,
+      value,
+      path ? `${path}.${key}` : key,
+      source,
+      provenance,
+    );
+  }
+}
+
+function mergeCombinedList(
+  target: ConfigObject,
+  key: string,
+  values: unknown[],
+  path: string,
+  source: string,
+  provenance: ConfigProvenance,
+): void {
+  const existing = Array.isArray(target[key]) ? (target[key] as unknown[]) : [];
+  const fromDefaults = existing.every(
+    (item) => provenance[`${path}[${String(item)}]`] === DEFAULT_CONFIG_SOURCE,
+  );
+  if (fromDefaults) {
+    clearProvenance(provenance, path);
+  }
+
+  const merged = fromDefaults ? [] : [...existing];
+  for (const item of values) {
+    if (!merged.includes(item)) {
+      merged.push(clone(item));
+      provenance[`${path}[${String(item)}]`] = source;
+    }
+  }
+  target[key] = merged;
+}
+
+function mergeKeyedList(
+  target: ConfigObject,
+  key: string,
+  values: unknown[],
+  path: string,
+  source: string,
+  provenance: ConfigProvenance,
+): void {
+  const identity = KEYED_LISTS[path];
+  const merged = Array.isArray(target[key])
+    ? (target[key] as ConfigObject[])
+    : [];
+  target[key] = merged;
+
+  for (const item of values) {
+    if (!isPlainObject(item) || typeof item[identity] !== "string") {
+      continue;
+    }
+    const id = item[identity] as string;
+    let entry = merged.find((existing) => existing[identity] === id);
+    if (!entry) {
+      entry = {};
+      merged.push(entry);
+    }
+    mergeObject(entry, item, `${path}[${id}]`, source, provenance);
+  }
+}
+
+/**
+ * Merge config layers in order, later layers winning.
+ *
+ * @returns The effective config and the source of each of its settings
+ */
+export function mergeConfigLayers(layers: ConfigLayer[]): {
+  config: AlexandriaConfig;
+  provenance: ConfigProvenance;
+} {
+  const config: ConfigObject = {};
+  const provenance: ConfigProvenance = {};
+
+  for (const { source, config: layer } of layers) {
+    for (const [key, value] of Object.entries(layer)) {
+      if (!LAYER_KEYS.has(key)) {
+        mergeValue(config, key, value, key, source, provenance);
+      }
+    }
+  }
+
+  // Identity fields are implied by their bracketed path
+  for (const [path, identity] of Object.entries(KEYED_LISTS)) {
+    for (const key of Object.keys(provenance)) {
+      if (key.startsWith(`${path}[`) && key.endsWith(`].${identity}`)) {
+        delete provenance[key];
+      }
+    }
+  }
+
+  return { config: config as unknown as AlexandriaConfig, provenance };
+}
@@ -0,0 +1,163 @@
+/**
+ * Config migrations
+ *
+ * Each migration upgrades a config from one schema version to the next.
+ * ConfigLoader migrates old configs in memory as it loads them, and
+ * ConfigLoader.migrate() can write the upgraded config back to its file.
+ */
+
+import { compareVersions, VERSION_PATTERN } from "../pure-core/utils/version";
+
+export { compareVersions };
+
+/** Schema version of configs written by this library */
+export const CURRENT_CONFIG_VERSION = "1.0.0";
+
+/** A config as read from its file, before validation */
+export type RawConfig = Record<string, unknown>;
+
+export interface ConfigMigration {
+  /** Version this migration upgrades from */
+  from: string;
+  /** Version the migrated config has */
+  to: string;
+  /** What changes, shown to users whose config is migrated */
+  description: string;
+  /**
+   * Upgrade a config. Change it in place or return a new object; use
+   * renameConfigKey to keep the file's key order. Anything users need to act
+   * on goes in `warnings`. The `version` field is updated afterwards.
+   */
+  migrate(config: RawConfig, warnings: string[]): RawConfig | void;
+}
+
+export interface ConfigMigrationResult {
+  config: RawConfig;
+  fromVersion: string;
+  toVersion: string;
+  /** Whether any migration ran */
+  migrated: boolean;
+  warnings: string[];
+}
+
+/** Migrations shipped with the library, oldest first */
+export const BUILT_IN_MIGRATIONS: ConfigMigration[] = [];
+
+/**
+ * Versioned config migrators, chained to upgrade a config step by step.
+ */
+export class ConfigMigrationRegistry {
+  private migrations: ConfigMigration[] = [];
+
+  constructor(migrations: ConfigMigration[] = BUILT_IN_MIGRATIONS) {
+    for (const migration of migrations) {
+      this.register(migration);
+    }
+  }
+
+  /**
+   * Add a migration. There can only be one migration from each version.
+   */
+  register(migration: ConfigMigration): this {
+    if (compareVersions(migration.from, migration.to) >= 0) {
+      throw new Error(
+        `Config migration from ${migration.from} must upgrade to a newer version, not ${migration.to}`,
+      );
+    }
+    if (this.find(migration.from)) {
+      throw new Error(
+        `A config migration from ${migration.from} is already registered`,
+      );
+    }
+    this.migrations.push(migration);
+    return this;
+  }
+
+  getMigrations(): ConfigMigration[] {
+    return [...this.migrations];
+  }
+
+  /**
+   * Upgrade a config to `targetVersion`. The input is not modified. Configs
+   * without a version are taken to be current.
+   *
+   * @throws Error when the version is invalid, newer than `targetVersion`, or
+   *         has no migration path
+   */
+  migrate(
+    config: RawConfig,
+    targetVersion: string = CURRENT_CONFIG_VERSION,
+  ): ConfigMigrationResult {
+    const fromVersion = config.version ?? targetVersion;
+    if (typeof fromVersion !== "string" || !VERSION_PATTERN.test(fromVersion)) {
+      throw new Error(
+        `Invalid config version ${JSON.stringify(fromVersion)}; expected a version like "${CURRENT_CONFIG_VERSION}"`,
+      );
+    }
+    if (compareVersions(fromVersion, targetVersion) > 0) {
+      throw new Error(
+        `Config version ${fromVersion} is newer than ${targetVersion}, the newest version this library supports. Upgrade @principal-ai/alexandria-core-library to use this config.`,
+      );
+    }
+
+    const warnings: string[] = [];
+    // Configs are plain JSON data
+    let migrated = JSON.parse(JSON.stringify(config)) as RawConfig;
+    let version = fromVersion;
+    while (compareVersions(version, targetVersion) < 0) {
+      const migration = this.find(version);
+      if (!migration) {
+        throw new Error(
+          `No config migration from version ${version} towards ${targetVersion}`,
+        );
+      }
+
+      warnings.push(
+        `Migrated config from ${migration.from} to ${migration.to}: ${migration.description}`,
+      );
+      migrated = migration.migrate(migrated, warnings) ?? migrated;
+      if ("version" in migrated) {
+        migrated.version = migration.to;
+      } else {
+        migrated = { version: migration.to, ...migrated };
+      }
+      version = migration.to;
+    }
+
+    return {
+      config: migrated,
+      fromVersion,
+      toVersion: version,
+      migrated: version !== fromVersion,
+      warnings,
+    };
+  }
+
+  private find(version: string): ConfigMigration | undefined {
+    return this.migrations.find(
+      (migration) => compareVersions(migration.from, version) === 0,
+    );
+  }
+}
+
+/**
+ * Rename a key in place, keeping its position among the object's keys.
+ */
+export function renameConfigKey(
+  object: RawConfig,
+  from: string,
+  to: string,
+): void {
+  if (!(from in object)) {
+    return;
+  }
+  const entries = Object.entries(object).map(
+    ([key, value]): [string, unknown] => [key === from ? to : key, value],
+  );
+  for (const key of Object.keys(object)) {
+    delete object[key];
+  }
+  for (const [key, value] of entries) {
+    object[key] = value;
+  }
+}
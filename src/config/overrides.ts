@@ -0,0 +1,252 @@
+/**
+ * Config overrides from the environment and from `key.path=value` maps.
+ *
+ * Override paths use the provenance syntax: dots for object keys and the rule
+ * id in brackets, e.g. `reporting.format` or
+ * `context.rules[codebase-coverage].options.minimumCoverage`. Each path is
+ * also available as an `ALEXANDRIA_*` environment variable named after it:
+ * `ALEXANDRIA_REPORTING_FORMAT`, `ALEXANDRIA_CONTEXT_MAX_DEPTH` or
+ * `ALEXANDRIA_RULES_CODEBASE_COVERAGE_MINIMUM_COVERAGE`.
+ *
+ * Values are checked against the setting's schema. String values are parsed
+ * to the setting's type; lists are comma separated or a JSON array.
+ */
+
+import { ConfigLayer } from "./merge";
+import {
+  BUILT_IN_RULE_OPTIONS_SCHEMAS,
+  RuleOptionSchema,
+  validateRuleOptions,
+} from "./rule-options";
+
+export const ENV_OVERRIDE_PREFIX = "ALEXANDRIA_";
+
+/** Setting path -> value; strings are parsed to the setting's type */
+export type ConfigOverrides = Record<
+  string,
+  string | number | boolean | string[]
+>;
+
+const SEVERITY_SCHEMA: RuleOptionSchema = {
+  type: "string",
+  enum: ["error", "warning", "info"],
+};
+
+/** Settings outside `context.rules` that can be overridden */
+export const OVERRIDABLE_SETTINGS: Record<string, RuleOptionSchema> = {
+  "project.name": { type: "string" },
+  "project.type": {
+    type: "string",
+    enum: ["library", "application", "monorepo", "service"],
+  },
+  "context.patterns.include": { type: "string[]" },
+  "context.patterns.exclude": { type: "string[]" },
+  "context.useGitignore": { type: "boolean" },
+  "context.maxDepth": { type: "number", minimum: 0 },
+  "context.followSymlinks": { type: "boolean" },
+  "context.escalateSeverity.critical": SEVERITY_SCHEMA,
+  "context.escalateSeverity.high": SEVERITY_SCHEMA,
+  "context.escalateSeverity.medium": SEVERITY_SCHEMA,
+  "context.escalateSeverity.low": SEVERITY_SCHEMA,
+  "context.suppressions.requireReason": { type: "boolean" },
+  "context.suppressions.reportUnused": { type: "boolean" },
+  plugins: { type: "string[]" },
+  "reporting.output": { type: "string", enum: ["console", "file", "both"] },
+  "reporting.format": {
+    type: "string",
+    enum: ["text", "json", "html", "sarif", "junit"],
+  },
+  "reporting.path": { type: "string" },
+  "reporting.verbose": { type: "boolean" },
+};
+
+const RULE_PATH =
+  /^context\.rules\[([^\]]+)\]\.(severity|enabled|options\.(\w+))$/;
+
+/**
+ * Turn environment variables and an override map into config layers, applied
+ * in that order on top of the file configs. Each override is its own layer,
+ * so provenance names the variable or key that set a value.
+ *
+ * Overrides with an unknown path or an invalid value are skipped, so one bad
+ * variable does not discard the rest of the config.
+ *
+ * @returns The layers, and warnings for `ALEXANDRIA_*` variables that name no
+ * setting and for skipped overrides
+ */
+export function buildOverrideLayers(
+  env: Record<string, string | undefined>,
+  overrides: ConfigOverrides = {},
+): { layers: ConfigLayer[]; warnings: string[] } {
+  const layers: ConfigLayer[] = [];
+  const warnings: string[] = [];
+
+  const envPaths = new Map(
+    getOverridablePaths().map((path) => [toEnvName(path), path]),
+  );
+  const entries: Array<{ source: string; path: string; value: unknown }> = [];
+  for (const [name, value] of Object.entries(env)) {
+    if (!name.startsWith(ENV_OVERRIDE_PREFIX) || value === undefined) {
+      continue;
+    }
+    const path = envPaths.get(name);
+    if (path) {
+      entries.push({ source: `env:${name}`, path, value });
+    } else {
+      warnings.push(`${name} does not name a config setting and is ignored`);
+    }
+  }
+  for (const [path, value] of Object.entries(overrides)) {
+    entries.push({ source: `override:${path}`, path, value });
+  }
+
+  for (const { source, path, value } of entries) {
+    const schema = getSettingSchema(path);
+    if (schema === null) {
+      warnings.push(`${source}: Unknown setting "${path}"; ignored`);
+      continue;
+    }
+
+    const parsed = parseValue(value, schema);
+    const key = path.slice(path.lastIndexOf(".") + 1);
+    const problems = !schema
+      ? []
+      : parsed === undefined
+        ? [{ message: `${key} must be ${describeType(schema)}` }]
+        : validateRuleOptions({ [key]: schema }, { [key]: parsed }, path);
+    if (problems.length > 0) {
+      warnings.push(
+        ...problems.map((problem) => `${source}: ${problem.message}; ignored`),
+      );
+      continue;
+    }
+
+    layers.push({ source, config: toLayerConfig(path, parsed) });
+  }
+
+  return { layers, warnings };
+}
+
+/**
+ * Environment variable that overrides a setting path.
+ */
+export function toEnvName(path: string): string {
+  const rule = RULE_PATH.exec(path);
+  const name = rule
+    ? `rules_${rule[1]}_${rule[3] ?? rule[2]}`
+    : path.replace(/\./g, "_");
+  return (
+    ENV_OVERRIDE_PREFIX +
+    name
+      .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+      .replace(/[^A-Za-z0-9]+/g, "_")
+      .toUpperCase()
+  );
+}
+
+/**
+ * Every setting path with an environment variable: the settings in
+ * OVERRIDABLE_SETTINGS and the severity, enablement and options of the
+ * built-in rules.
+ */
+function getOverridablePaths(): string[] {
+  const paths = Object.keys(OVERRIDABLE_SETTINGS);
+  for (const [ruleId, schema] of Object.entries(
+    BUILT_IN_RULE_OPTIONS_SCHEMAS,
+  )) {
+    const rulePath = `context.rules[${ruleId}]`;
+    paths.push(`${rulePath}.severity`, `${rulePath}.enabled`);
+    for (const option of Object.keys(schema)) {
+      paths.push(`${rulePath}.options.${option}`);
+    }
+  }
+  return paths;
+}
+
+/**
+ * Schema of a setting path; undefined for options of rules that are not
+ * built in, whose schema is only known once their plugin is loaded, and
+ * null for unknown paths.
+ */
+function getSettingSchema(path: string): RuleOptionSchema | undefined | null {
+  const rule = RULE_PATH.exec(path);
+  if (!rule) {
+    return OVERRIDABLE_SETTINGS[path] ?? null;
+  }
+  if (rule[2] === "severity") return SEVERITY_SCHEMA;
+  if (rule[2] === "enabled") return { type: "boolean" };
+
+  const ruleSchema = BUILT_IN_RULE_OPTIONS_SCHEMAS[rule[1]];
+  return ruleSchema ? (ruleSchema[rule[3]] ?? null) : undefined;
+}
+
+/**
+ * Parse a string to the schema's type. Without a schema, JSON literals are
+ * parsed and anything else stays a string. Returns undefined when the value
+ * cannot have the schema's type.
+ */
+function parseValue(
+  value: unknown,
+  schema: RuleOptionSchema | undefined,
+): unknown {
+  if (typeof value !== "string") {
+    return value;
+  }
+
+  switch (schema?.type) {
+    case "string":
+      return value;
+    case "number": {
+      const number = value.trim() === "" ? NaN : Number(value);
+      return Number.isFinite(number) ? number : undefined;
+    }
+    case "boolean":
+      return value === "true" ? true : value === "false" ? false : undefined;
+    case "string[]":
+      if (value.trim().startsWith("[")) {
+        return parseJson(value);
+      }
+      return value
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean);
+    default: {
+      const parsed = parseJson(value);
+      return parsed === undefined ? value : parsed;
+    }
+  }
+}
+
+function parseJson(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+function describeType(schema: RuleOptionSchema): string {
+  return schema.type === "string[]"
+    ? "a comma separated list or a JSON array of strings"
+    : `a ${schema.type}`;
+}
+
+/**
+ * The partial config that sets `path` to `value`.
+ */
+function toLayerConfig(path: string, value: unknown): ConfigLayer["config"] {
+  const rule = RULE_PATH.exec(path);
+  if (rule) {
+    const entry = rule[3]
+      ? { id: rule[1], options: { [rule[3]]: value } }
+      : { id: rule[1], [rule[2]]: value };
+    return { context: { rules: [entry] } } as ConfigLayer["config"];
+  }
+
+  const keys = path.split(".");
+  let config: Record<string, unknown> = { [keys.pop()!]: value };
+  while (keys.length > 0) {
+    config = { [keys.pop()!]: config };
+  }
+  return config as ConfigLayer["config"];
+}
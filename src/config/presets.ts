@@ -0,0 +1,82 @@
+/**
+ * Built-in config presets for `extends`.
+ *
+ * Presets are referenced as `alexandria:<name>` and are merged like any other
+ * extended config, so projects only list the settings they change.
+ */
+
+import { AlexandriaConfig, ContextRule, RuleSeverity } from "./types";
+
+export const PRESET_PREFIX = "alexandria:";
+
+const BUILT_IN_RULES: Array<Pick<ContextRule, "id" | "name" | "severity">> = [
+  { id: "require-references", name: "Require References", severity: "error" },
+  {
+    id: "orphaned-references",
+    name: "Orphaned File References",
+    severity: "error",
+  },
+  { id: "minimum-references", name: "Minimum References", severity: "error" },
+  { id: "stale-references", name: "Stale References", severity: "warning" },
+  { id: "broken-anchors", name: "Broken Anchors", severity: "warning" },
+  { id: "anchor-drift", name: "Anchor Drift", severity: "warning" },
+  {
+    id: "document-organization",
+    name: "Document Organization",
+    severity: "warning",
+  },
+  {
+    id: "filename-convention",
+    name: "Filename Convention",
+    severity: "warning",
+  },
+  { id: "codebase-coverage", name: "Codebase Coverage", severity: "warning" },
+  { id: "broken-view-links", name: "Broken View Links", severity: "error" },
+  { id: "unlinked-views", name: "Unlinked Views", severity: "info" },
+  { id: "broken-doc-links", name: "Broken Doc Links", severity: "warning" },
+];
+
+function rulesWith(
+  severity: (rule: ContextRule) => RuleSeverity,
+  enabled: (rule: ContextRule) => boolean = () => true,
+): ContextRule[] {
+  return BUILT_IN_RULES.map((rule) => ({
+    ...rule,
+    severity: severity(rule),
+    enabled: enabled(rule),
+  }));
+}
+
+// Rules that catch views pointing at files that are gone
+const MINIMAL_RULES = ["orphaned-references", "minimum-references"];
+
+export const BUILT_IN_PRESETS: Record<string, Partial<AlexandriaConfig>> = {
+  /** Every built-in rule at its default severity */
+  [`${PRESET_PREFIX}recommended`]: {
+    context: {
+      rules: rulesWith((rule) => rule.severity),
+    },
+  },
+
+  /** Every built-in rule as an error, higher coverage and explained suppressions */
+  [`${PRESET_PREFIX}strict`]: {
+    context: {
+      rules: rulesWith(() => "error").map((rule) =>
+        rule.id === "codebase-coverage"
+          ? { ...rule, options: { minimumCoverage: 80 } }
+          : rule,
+      ),
+      suppressions: { requireReason: true },
+    },
+  },
+
+  /** Only the rules that catch broken view references */
+  [`${PRESET_PREFIX}minimal`]: {
+    context: {
+      rules: rulesWith(
+        (rule) => rule.severity,
+        (rule) => MINIMAL_RULES.includes(rule.id),
+      ),
+    },
+  },
+};
@@ -0,0 +1,223 @@
+/**
+ * Option schemas for rules.
+ *
+ * A schema lists every option a rule accepts and its type. The rules engine
+ * validates configured options against it before running a rule, and
+ * ConfigValidator reports problems with built-in rule options as errors.
+ */
+
+import {
+  CodebaseCoverageOptions,
+  DocumentOrganizationOptions,
+  FilenameConventionOptions,
+  MinimumReferencesOptions,
+  RequireReferencesOptions,
+  StaleReferencesOptions,
+  UnlinkedViewsOptions,
+  ValidationError,
+} from "./types";
+
+export type RuleOptionType = "string" | "number" | "boolean" | "string[]";
+
+export interface RuleOptionSchema {
+  type: RuleOptionType;
+  /** Allowed values for string options */
+  enum?: readonly string[];
+  /** Inclusive bounds for number options */
+  minimum?: number;
+  maximum?: number;
+}
+
+/**
+ * Schema for a rule's options. When `T` is given, every option of `T` must be described.
+ */
+export type RuleOptionsSchema<T = Record<string, unknown>> = {
+  [K in keyof T]-?: RuleOptionSchema;
+};
+
+export const CODEBASE_COVERAGE_OPTIONS_SCHEMA: RuleOptionsSchema<CodebaseCoverageOptions> =
+  {
+    minimumCoverage: { type: "number", minimum: 0, maximum: 100 },
+    includePatterns: { type: "string[]" },
+    excludePatterns: { type: "string[]" },
+    reportByDirectory: { type: "boolean" },
+    minimumDirectoryCoverage: { type: "number", minimum: 0, maximum: 100 },
+    weightByPriority: { type: "boolean" },
+  };
+
+export const DOCUMENT_ORGANIZATION_OPTIONS_SCHEMA: RuleOptionsSchema<DocumentOrganizationOptions> =
+  {
+    documentFolders: { type: "string[]" },
+    rootExceptions: { type: "string[]" },
+    checkNested: { type: "boolean" },
+  };
+
+export const FILENAME_CONVENTION_OPTIONS_SCHEMA: RuleOptionsSchema<FilenameConventionOptions> =
+  {
+    style: {
+      type: "string",
+      enum: [
+        "snake_case",
+        "kebab-case",
+        "camelCase",
+        "PascalCase",
+        "lowercase",
+        "UPPERCASE",
+      ],
+    },
+    separator: { type: "string", enum: ["_", "-", " ", "."] },
+    caseStyle: { type: "string", enum: ["lower", "upper", "mixed"] },
+    extensions: { type: "string[]" },
+    exclude: { type: "string[]" },
+    exceptions: { type: "string[]" },
+    documentFoldersOnly: { type: "boolean" },
+    autoFix: { type: "boolean" },
+  };
+
+export const MINIMUM_REFERENCES_OPTIONS_SCHEMA: RuleOptionsSchema<MinimumReferencesOptions> =
+  {
+    minFiles: { type: "number", minimum: 0 },
+    excludeCategories: { type: "string[]" },
+    excludeViews: { type: "string[]" },
+  };
+
+export const REQUIRE_REFERENCES_OPTIONS_SCHEMA: RuleOptionsSchema<RequireReferencesOptions> =
+  {
+    excludeFiles: { type: "string[]" },
+    minimumPriority: {
+      type: "string",
+      enum: ["critical", "high", "medium", "low"],
+    },
+  };
+
+export const STALE_REFERENCES_OPTIONS_SCHEMA: RuleOptionsSchema<StaleReferencesOptions> =
+  {
+    maxAgeDays: { type: "number", minimum: 0 },
+  };
+
+export const UNLINKED_VIEWS_OPTIONS_SCHEMA: RuleOptionsSchema<UnlinkedViewsOptions> =
+  {
+    excludeCategories: { type: "string[]" },
+    excludeViews: { type: "string[]" },
+  };
+
+/** Rules that accept no options */
+export const NO_OPTIONS_SCHEMA: RuleOptionsSchema = {};
+
+/**
+ * Option schemas of the built-in rules, keyed by rule id.
+ */
+export const BUILT_IN_RULE_OPTIONS_SCHEMAS: Record<string, RuleOptionsSchema> =
+  {
+    "anchor-drift": NO_OPTIONS_SCHEMA,
+    "broken-anchors": NO_OPTIONS_SCHEMA,
+    "broken-doc-links": NO_OPTIONS_SCHEMA,
+    "broken-view-links": NO_OPTIONS_SCHEMA,
+    "codebase-coverage": CODEBASE_COVERAGE_OPTIONS_SCHEMA,
+    "document-organization": DOCUMENT_ORGANIZATION_OPTIONS_SCHEMA,
+    "filename-convention": FILENAME_CONVENTION_OPTIONS_SCHEMA,
+    "minimum-references": MINIMUM_REFERENCES_OPTIONS_SCHEMA,
+    "orphaned-references": NO_OPTIONS_SCHEMA,
+    "require-references": REQUIRE_REFERENCES_OPTIONS_SCHEMA,
+    "stale-references": STALE_REFERENCES_OPTIONS_SCHEMA,
+    "unlinked-views": UNLINKED_VIEWS_OPTIONS_SCHEMA,
+  };
+
+function describeType(option: RuleOptionSchema): string {
+  switch (option.type) {
+    case "string[]":
+      return "an array of strings";
+    case "boolean":
+      return "a boolean";
+    case "number":
+      return "a number";
+    default:
+      return "a string";
+  }
+}
+
+function matchesType(value: unknown, type: RuleOptionType): boolean {
+  switch (type) {
+    case "string[]":
+      return (
+        Array.isArray(value) && value.every((item) => typeof item === "string")
+      );
+    case "number":
+      return typeof value === "number" && !Number.isNaN(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Check rule options against a schema.
+ *
+ * @param schema - The rule's option schema
+ * @param options - Options as written in the config
+ * @param path - Config path of the options object, used in error paths
+ * @returns One error per unknown or ill-typed option
+ */
+export function validateRuleOptions(
+  schema: RuleOptionsSchema,
+  options: unknown,
+  path: string,
+): ValidationError[] {
+  if (
+    typeof options !== "object" ||
+    options === null ||
+    Array.isArray(options)
+  ) {
+    return [{ path, message: "Rule options must be an object" }];
+  }
+
+  const errors: ValidationError[] = [];
+  for (const [key, value] of Object.entries(options)) {
+    const option = schema[key];
+    const optionPath = `${path}.${key}`;
+
+    if (!option) {
+      const known = Object.keys(schema);
+      errors.push({
+        path: optionPath,
+        message:
+          known.length > 0
+            ? `Unknown option "${key}". Expected one of: ${known.join(", ")}`
+            : `Unknown option "${key}". This rule has no options`,
+      });
+      continue;
+    }
+
+    if (value === undefined) {
+      continue;
+    }
+
+    if (!matchesType(value, option.type)) {
+      errors.push({
+        path: optionPath,
+        message: `${key} must be ${describeType(option)}`,
+        value: Array.isArray(value) ? JSON.stringify(value) : (value as string),
+      });
+    } else if (option.enum && !option.enum.includes(value as string)) {
+      errors.push({
+        path: optionPath,
+        message: `Invalid ${key}. Must be one of: ${option.enum.join(", ")}`,
+        value: value as string,
+      });
+    } else if (
+      (option.minimum !== undefined && (value as number) < option.minimum) ||
+      (option.maximum !== undefined && (value as number) > option.maximum)
+    ) {
+      const bounds = [
+        option.minimum !== undefined && `at least ${option.minimum}`,
+        option.maximum !== undefined && `at most ${option.maximum}`,
+      ].filter(Boolean);
+      errors.push({
+        path: optionPath,
+        message: `${key} must be ${bounds.join(" and ")}`,
+        value: value as number,
+      });
+    }
+  }
+
+  return errors;
+}
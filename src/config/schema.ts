@@ -38,4 +38,8 @@ export const CONFIG_FILENAMES = [
   ".alexandriarc",
   "alexandria.config.json",
   "alexandria.json",
+  ".alexandriarc.yaml",
+  ".alexandriarc.yml",
+  "alexandria.config.js",
+  "alexandria.config.mjs",
 ];
@@ -1,7 +1,7 @@
 export type ProjectType = "library" | "application" | "monorepo" | "service";
 export type RuleSeverity = "error" | "warning" | "info";
 export type ReportingOutput = "console" | "file" | "both";
-export type ReportingFormat = "text" | "json" | "html";
+export type ReportingFormat = "text" | "json" | "html" | "sarif" | "junit";
 export type PriorityLevel = "critical" | "high" | "medium" | "low";
 export type FixType = "replace" | "remove" | "add";
 export type ConfigValue = string | number | boolean | null | undefined;
@@ -10,6 +10,19 @@ export interface AlexandriaConfig {
   $schema?: string;
   version: "1.0.0";
 
+  /**
+   * Configs to build on, merged in order before this one: built-in presets
+   * (`alexandria:recommended`), config file paths relative to this file, or
+   * package names
+   */
+  extends?: string | string[];
+
+  /**
+   * Stop looking for configs in parent directories. Configs in nested
+   * directories otherwise cascade over the ones above them.
+   */
+  root?: boolean;
+
   project?: {
     name: string;
     description?: string;
@@ -27,10 +40,30 @@ export interface AlexandriaConfig {
       priority?: PriorityPattern[];
     };
     useGitignore?: boolean;
+    /** Directory levels below the project root to scan (0 = root files only) */
     maxDepth?: number;
     followSymlinks?: boolean;
+    /**
+     * Minimum severity of violations on files of each priority, e.g.
+     * `{ "critical": "error" }`. Violations are never downgraded.
+     */
+    escalateSeverity?: {
+      critical?: RuleSeverity;
+      high?: RuleSeverity;
+      medium?: RuleSeverity;
+      low?: RuleSeverity;
+    };
+    suppressions?: {
+      /** Ignore and report inline suppressions that don't give a reason */
+      requireReason?: boolean;
+      /** Report inline suppressions that match no violation (default: true) */
+      reportUnused?: boolean;
+    };
   };
 
+  /** Rule plugins: package names or paths relative to the project root */
+  plugins?: string[];
+
   reporting?: {
     output?: ReportingOutput;
     format?: ReportingFormat;
@@ -52,6 +85,8 @@ export interface StaleReferencesOptions {
 
 export interface RequireReferencesOptions {
   excludeFiles?: string[];
+  /** Only require references for files at or above this priority */
+  minimumPriority?: PriorityLevel;
 }
 
 export type FilenameStyle =
@@ -94,6 +129,8 @@ export interface CodebaseCoverageOptions {
   reportByDirectory?: boolean;
   /** Minimum coverage per directory (if reportByDirectory is true) */
   minimumDirectoryCoverage?: number;
+  /** Count files by their `context.patterns.priority` weight instead of equally */
+  weightByPriority?: boolean;
 }
 
 export interface MinimumReferencesOptions {
@@ -105,6 +142,13 @@ export interface MinimumReferencesOptions {
   excludeViews?: string[];
 }
 
+export interface UnlinkedViewsOptions {
+  /** View categories whose views need no links to them (e.g., "planning") */
+  excludeCategories?: string[];
+  /** Specific view names that need no links to them, such as entry points */
+  excludeViews?: string[];
+}
+
 export type RuleOptions =
   | DocumentOrganizationOptions
   | StaleReferencesOptions
@@ -112,6 +156,7 @@ export type RuleOptions =
   | FilenameConventionOptions
   | CodebaseCoverageOptions
   | MinimumReferencesOptions
+  | UnlinkedViewsOptions
   | Record<string, string | number | boolean | string[]>;
 
 export interface ContextRule {
@@ -145,10 +190,17 @@ export interface ValidationError {
   path: string;
   message: string;
   value?: ConfigValue;
+  /** Config file the error was found in, when validating a file */
+  file?: string;
+  /** 1-based location of a syntax error */
+  line?: number;
+  column?: number;
 }
 
 export interface ValidationWarning {
   path: string;
   message: string;
   suggestion?: string;
+  /** Config file the warning was found in, when validating a file */
+  file?: string;
 }
@@ -1,4 +1,9 @@
 import { ValidationResult, ValidationError, ValidationWarning } from "./types";
+import {
+  BUILT_IN_RULE_OPTIONS_SCHEMAS,
+  validateRuleOptions,
+} from "./rule-options";
+import { CURRENT_CONFIG_VERSION } from "./migrations";
 
 export class ConfigValidator {
   validate(config: unknown): ValidationResult {
@@ -22,10 +27,10 @@ export class ConfigValidator {
         message: "Version field is missing (defaulting to 1.0.0)",
         suggestion: 'Add "version": "1.0.0" to your config',
       });
-    } else if (cfg.version !== "1.0.0") {
+    } else if (cfg.version !== CURRENT_CONFIG_VERSION) {
       errors.push({
         path: "version",
-        message: `Unsupported version: ${cfg.version}. Expected "1.0.0"`,
+        message: `Unsupported version: ${cfg.version}. Expected "${CURRENT_CONFIG_VERSION}"`,
         value: cfg.version as string,
       });
     }
@@ -71,7 +76,12 @@ export class ConfigValidator {
           value: cfg.context as string,
         });
       } else {
-        this.validateContext(cfg.context as Record<string, unknown>, errors);
+        // Rules can override an extended config by id, so only the id is required
+        this.validateContext(
+          cfg.context as Record<string, unknown>,
+          errors,
+          cfg.extends !== undefined,
+        );
       }
     }
 
@@ -91,8 +101,61 @@ export class ConfigValidator {
       }
     }
 
+    // Validate plugins
+    if (cfg.plugins !== undefined) {
+      if (!Array.isArray(cfg.plugins)) {
+        errors.push({
+          path: "plugins",
+          message: "Plugins must be an array of module names or paths",
+          value: cfg.plugins as string,
+        });
+      } else {
+        cfg.plugins.forEach((plugin: unknown, index: number) => {
+          if (typeof plugin !== "string" || plugin === "") {
+            errors.push({
+              path: `plugins[${index}]`,
+              message: "Each plugin must be a non-empty string",
+              value: plugin as string,
+            });
+          }
+        });
+      }
+    }
+
+    // Validate extends
+    if (cfg.extends !== undefined) {
+      const entries = Array.isArray(cfg.extends) ? cfg.extends : [cfg.extends];
+      entries.forEach((entry: unknown, index: number) => {
+        if (typeof entry !== "string" || entry === "") {
+          errors.push({
+            path: Array.isArray(cfg.extends) ? `extends[${index}]` : "extends",
+            message:
+              "Extends must be a preset, config path or package name, or an array of them",
+            value: entry as string,
+          });
+        }
+      });
+    }
+
+    if (cfg.root !== undefined && typeof cfg.root !== "boolean") {
+      errors.push({
+        path: "root",
+        message: "Root must be a boolean",
+        value: cfg.root as string,
+      });
+    }
+
     // Check for unknown top-level keys
-    const knownKeys = ["$schema", "version", "project", "context", "reporting"];
+    const knownKeys = [
+      "$schema",
+      "version",
+      "extends",
+      "root",
+      "project",
+      "context",
+      "plugins",
+      "reporting",
+    ];
     const unknownKeys = Object.keys(cfg).filter(
       (key) => !knownKeys.includes(key),
     );
@@ -114,6 +177,7 @@ export class ConfigValidator {
   private validateContext(
     context: Record<string, unknown>,
     errors: ValidationError[],
+    partialRules = false,
   ): void {
     // Validate rules
     if (context.rules !== undefined) {
@@ -140,7 +204,7 @@ export class ConfigValidator {
               });
             }
 
-            if (!r.name) {
+            if (!r.name && !partialRules) {
               errors.push({
                 path: `context.rules[${index}].name`,
                 message: "Rule name is required",
@@ -148,10 +212,12 @@ export class ConfigValidator {
             }
 
             if (!r.severity) {
-              errors.push({
-                path: `context.rules[${index}].severity`,
-                message: "Rule severity is required",
-              });
+              if (!partialRules) {
+                errors.push({
+                  path: `context.rules[${index}].severity`,
+                  message: "Rule severity is required",
+                });
+              }
             } else {
               const validSeverities = ["error", "warning", "info"];
               if (!validSeverities.includes(r.severity as string)) {
@@ -170,6 +236,21 @@ export class ConfigValidator {
                 value: r.enabled as string,
               });
             }
+
+            if (r.options !== undefined) {
+              const optionsPath = `context.rules[${index}].options`;
+              const schema = BUILT_IN_RULE_OPTIONS_SCHEMAS[r.id as string];
+              if (schema) {
+                errors.push(
+                  ...validateRuleOptions(schema, r.options, optionsPath),
+                );
+              } else if (!this.isObject(r.options)) {
+                errors.push({
+                  path: optionsPath,
+                  message: "Rule options must be an object",
+                });
+              }
+            }
           }
         });
       }
@@ -207,6 +288,10 @@ export class ConfigValidator {
             value: patterns.exclude as string,
           });
         }
+
+        if (patterns.priority !== undefined) {
+          this.validatePriorityPatterns(patterns.priority, errors);
+        }
       }
     }
 
@@ -242,6 +327,69 @@ export class ConfigValidator {
         message: "maxDepth must be a number",
         value: context.maxDepth as string,
       });
+    } else if (
+      typeof context.maxDepth === "number" &&
+      (!Number.isInteger(context.maxDepth) || context.maxDepth < 0)
+    ) {
+      errors.push({
+        path: "context.maxDepth",
+        message: "maxDepth must be a non-negative integer",
+        value: context.maxDepth,
+      });
+    }
+
+    if (context.escalateSeverity !== undefined) {
+      if (!this.isObject(context.escalateSeverity)) {
+        errors.push({
+          path: "context.escalateSeverity",
+          message: "escalateSeverity must map priority levels to severities",
+          value: context.escalateSeverity as string,
+        });
+      } else {
+        const validLevels = ["critical", "high", "medium", "low"];
+        const validSeverities = ["error", "warning", "info"];
+        for (const [level, severity] of Object.entries(
+          context.escalateSeverity as Record<string, unknown>,
+        )) {
+          const path = `context.escalateSeverity.${level}`;
+          if (!validLevels.includes(level)) {
+            errors.push({
+              path,
+              message: `Unknown priority level. Must be one of: ${validLevels.join(", ")}`,
+            });
+          } else if (!validSeverities.includes(severity as string)) {
+            errors.push({
+              path,
+              message: `Invalid severity. Must be one of: ${validSeverities.join(", ")}`,
+              value: severity as string,
+            });
+          }
+        }
+      }
+    }
+
+    if (context.suppressions !== undefined) {
+      if (!this.isObject(context.suppressions)) {
+        errors.push({
+          path: "context.suppressions",
+          message: "Suppressions must be an object",
+          value: context.suppressions as string,
+        });
+      } else {
+        const suppressions = context.suppressions as Record<string, unknown>;
+        for (const key of ["requireReason", "reportUnused"]) {
+          if (
+            suppressions[key] !== undefined &&
+            typeof suppressions[key] !== "boolean"
+          ) {
+            errors.push({
+              path: `context.suppressions.${key}`,
+              message: `${key} must be a boolean`,
+              value: suppressions[key] as string,
+            });
+          }
+        }
+      }
     }
   }
 
@@ -261,7 +409,7 @@ export class ConfigValidator {
     }
 
     if (reporting.format !== undefined) {
-      const validFormats = ["text", "json", "html"];
+      const validFormats = ["text", "json", "html", "sarif", "junit"];
       if (!validFormats.includes(reporting.format as string)) {
         errors.push({
           path: "reporting.format",
@@ -271,6 +419,14 @@ export class ConfigValidator {
       }
     }
 
+    if (reporting.path !== undefined && typeof reporting.path !== "string") {
+      errors.push({
+        path: "reporting.path",
+        message: "path must be a string",
+        value: reporting.path as string,
+      });
+    }
+
     if (
       reporting.verbose !== undefined &&
       typeof reporting.verbose !== "boolean"
@@ -283,6 +439,47 @@ export class ConfigValidator {
     }
   }
 
+  private validatePriorityPatterns(
+    priority: unknown,
+    errors: ValidationError[],
+  ): void {
+    if (!Array.isArray(priority)) {
+      errors.push({
+        path: "context.patterns.priority",
+        message: "Priority patterns must be an array",
+        value: priority as string,
+      });
+      return;
+    }
+
+    const validLevels = ["critical", "high", "medium", "low"];
+    priority.forEach((entry: unknown, index: number) => {
+      const path = `context.patterns.priority[${index}]`;
+      if (!this.isObject(entry)) {
+        errors.push({
+          path,
+          message: "Each priority pattern must be an object",
+        });
+        return;
+      }
+      const p = entry as Record<string, unknown>;
+      if (typeof p.pattern !== "string" || p.pattern === "") {
+        errors.push({
+          path: `${path}.pattern`,
+          message: "Priority pattern must be a non-empty string",
+          value: p.pattern as string,
+        });
+      }
+      if (!validLevels.includes(p.priority as string)) {
+        errors.push({
+          path: `${path}.priority`,
+          message: `Invalid priority. Must be one of: ${validLevels.join(", ")}`,
+          value: p.priority as string,
+        });
+      }
+    });
+  }
+
   private isObject(value: unknown): value is object {
     return typeof value === "object" && value !== null && !Array.isArray(value);
   }
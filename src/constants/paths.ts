@@ -10,6 +10,7 @@ export const ALEXANDRIA_DIRS = {
   VIEWS: "views",
   OVERVIEWS: "overviews",
   CONFIG: "config",
+  CACHE: "cache",
 
   // Global paths
   GLOBAL_DIR: "~/.alexandria",
@@ -17,6 +18,9 @@ export const ALEXANDRIA_DIRS = {
 
   // Config filenames
   CONFIG_FILES: [".alexandriarc.json", ".alexandriarc", "alexandria.json"],
+
+  // Gitignore-style file excluding paths from scans; may be nested
+  IGNORE_FILE: ".alexandriaignore",
 } as const;
 
 export type AlexandriaDir =
@@ -47,7 +47,12 @@ export class FileTreeGlobAdapter implements GlobAdapter {
   }
 
   findFilesSync(patterns: string[], options: GlobOptions = {}): string[] {
-    const { ignore = [], dot = false, onlyFiles = true } = options;
+    const {
+      ignore = [],
+      dot = false,
+      onlyFiles = true,
+      maxDepth = Infinity,
+    } = options;
 
     // Get all paths from FileTree directly - no traversal needed
     let candidates: string[];
@@ -67,6 +72,11 @@ export class FileTreeGlobAdapter implements GlobAdapter {
         return false;
       }
 
+      // Check depth (number of directories between the root and the entry)
+      if (path.split("/").length - 1 > maxDepth) {
+        return false;
+      }
+
       // Check if it matches any ignore pattern
       if (ignore.some((pattern) => this.matchesPathFn(pattern, path))) {
         return false;
@@ -15,6 +15,10 @@ export type {
   CodebaseView,
   CodebaseViewCell,
   CodebaseViewFileCell,
+  CodebaseViewFileReference,
+  CodebaseViewFileEntry,
+  CodebaseViewPatternCell,
+  CodebaseViewReferenceGroup,
   CodebaseViewScope,
   CodebaseViewLinks,
   ViewValidationResult,
@@ -62,12 +66,25 @@ export type {
 export type { ValidationResult as ConfigValidationResult } from "./config/types";
 
 // Filesystem adapter for dependency injection
-export type { FileSystemAdapter } from "./pure-core/abstractions/filesystem";
+export type {
+  FileSystemAdapter,
+  FileWatchEvent,
+  FileWatchEventType,
+  FileWatcher,
+} from "./pure-core/abstractions/filesystem";
 export { InMemoryFileSystemAdapter } from "./test-adapters/InMemoryFileSystemAdapter";
 
 // Glob adapter for pattern matching
 export type { GlobAdapter, GlobOptions } from "./pure-core/abstractions/glob";
 
+// Git adapter for file history
+export type { GitAdapter, GitCommitInfo } from "./pure-core/abstractions/git";
+export { InMemoryGitAdapter } from "./test-adapters/InMemoryGitAdapter";
+
+// Plugin loader for third-party rules
+export type { PluginLoader } from "./pure-core/abstractions/plugins";
+export { InMemoryPluginLoader } from "./test-adapters/InMemoryPluginLoader";
+
 // FileTree-based adapters for browser environments
 export {
   FileTreeFileSystemAdapter,
@@ -110,6 +127,80 @@ export {
   CodebaseViewsStore,
   generateViewIdFromName,
 } from "./pure-core/stores/CodebaseViewsStore";
+export type {
+  MigrateViewsOptions,
+  ViewMigrationReport,
+  ViewMigrationReportEntry,
+} from "./pure-core/stores/CodebaseViewsStore";
+export {
+  CodebaseViewMigrationRegistry,
+  BUILT_IN_VIEW_MIGRATIONS,
+  CURRENT_VIEW_VERSION,
+  LEGACY_VIEW_VERSION,
+  isCodebaseView,
+} from "./pure-core/stores/CodebaseViewMigrations";
+export type {
+  CodebaseViewMigration,
+  CodebaseViewMigrationResult,
+  RawCodebaseView,
+} from "./pure-core/stores/CodebaseViewMigrations";
+export {
+  resolveReferenceGroups,
+  getReferenceGroupPatterns,
+  getFileEntryPath,
+  getReferenceGroupFilePaths,
+} from "./pure-core/utils/referenceGroups";
+export {
+  countLines,
+  checkLineRange,
+  isLineRange,
+  findSymbolDeclarations,
+  fingerprintLines,
+  isAnchorFingerprint,
+  locateAnchor,
+  detectAnchorDrift,
+  reanchorView,
+  fingerprintAnchors,
+} from "./pure-core/utils/anchors";
+export { ViewGraph } from "./pure-core/utils/viewGraph";
+export {
+  extractMarkdownLinks,
+  extractInlineCode,
+  getMarkdownHeadings,
+  getMarkdownAnchors,
+  slugifyHeading,
+  isExternalLink,
+  findBrokenMarkdownLinks,
+  resolveLinkPath,
+  relativeLinkPath,
+  findClosestPath,
+  findClosestAnchor,
+  decodeLinkTarget,
+} from "./pure-core/utils/markdownLinks";
+export type {
+  MarkdownLink,
+  MarkdownHeading,
+  MarkdownInlineCode,
+  BrokenMarkdownLink,
+} from "./pure-core/utils/markdownLinks";
+export {
+  proposeViewSync,
+  OVERVIEW_SYNC_DEFAULT_GROUP,
+} from "./pure-core/utils/overviewSync";
+export type {
+  ViewSyncChange,
+  ViewSyncProposal,
+} from "./pure-core/utils/overviewSync";
+export type { ViewLink } from "./pure-core/utils/viewGraph";
+export type {
+  AnchorStatus,
+  AnchorLocation,
+  AnchorDrift,
+} from "./pure-core/utils/anchors";
+export type {
+  ResolvedReferenceGroups,
+  ReferenceGroupPattern,
+} from "./pure-core/utils/referenceGroups";
 export { DrawingStore } from "./pure-core/stores/DrawingStore";
 export type { DrawingMetadata } from "./pure-core/stores/DrawingStore";
 export type { ExcalidrawData } from "./pure-core/types/drawing";
@@ -117,8 +208,90 @@ export type { ExcalidrawData } from "./pure-core/types/drawing";
 // Utilities and rules
 export { LibraryRulesEngine } from "./rules/index";
 export { OverviewPathAutoFix } from "./pure-core/autofixes/OverviewPathAutoFix";
+export type {
+  AutoFixChange,
+  AutoFixPreview,
+  AutoFixSeverity,
+} from "./pure-core/autofixes/types";
+export { createUnifiedDiff } from "./pure-core/utils/diff";
+export { hashContent } from "./pure-core/utils/hash";
+export { IgnoreMatcher, loadAlexandriaIgnore } from "./pure-core/utils/ignore";
 export { ConfigValidator } from "./config/validator";
+export {
+  validateRuleOptions,
+  BUILT_IN_RULE_OPTIONS_SCHEMAS,
+} from "./config/rule-options";
+export type {
+  RuleOptionType,
+  RuleOptionSchema,
+  RuleOptionsSchema,
+} from "./config/rule-options";
+export { resolveRuleOptions } from "./rules/options";
+export {
+  parseMarkdownSuppressions,
+  getViewSuppressions,
+  applySuppressions,
+  UNUSED_SUPPRESSION_RULE_ID,
+  MISSING_SUPPRESSION_REASON_RULE_ID,
+} from "./rules/suppressions";
+export type { Suppression } from "./rules/suppressions";
+export { PLUGIN_ERROR_RULE_ID, loadPlugin } from "./rules/plugins";
+export type { LoadedPlugin } from "./rules/plugins";
+export {
+  LintBaseline,
+  BASELINE_FILENAME,
+  fingerprintViolation,
+  normalizeViolationMessage,
+} from "./rules/baseline";
+
+// Lint result reporting
+export { LintReporter, getDefaultReportPath } from "./reporting/reporter";
+export type {
+  LintReport,
+  LintReporterOptions,
+  ReportingConfig,
+} from "./reporting/reporter";
+export {
+  formatLintResult,
+  formatText,
+  formatJson,
+  formatHtml,
+  formatSarif,
+  formatJunit,
+  LINT_FORMATTERS,
+  REPORT_FILE_EXTENSIONS,
+} from "./reporting/formatters";
+export type { LintFormatter, LintFormatOptions } from "./reporting/formatters";
 export { ConfigLoader } from "./config/loader";
+export type {
+  LoadedConfig,
+  ConfigLoaderOptions,
+  ConfigEnvironment,
+  ConfigFactory,
+  MigrateConfigOptions,
+} from "./config/loader";
+export {
+  ConfigMigrationRegistry,
+  BUILT_IN_MIGRATIONS,
+  CURRENT_CONFIG_VERSION,
+  compareVersions,
+  renameConfigKey,
+} from "./config/migrations";
+export type {
+  ConfigMigration,
+  ConfigMigrationResult,
+  RawConfig,
+} from "./config/migrations";
+export {
+  buildOverrideLayers,
+  toEnvName,
+  ENV_OVERRIDE_PREFIX,
+  OVERRIDABLE_SETTINGS,
+} from "./config/overrides";
+export type { ConfigOverrides } from "./config/overrides";
+export { BUILT_IN_PRESETS, PRESET_PREFIX } from "./config/presets";
+export { mergeConfigLayers, DEFAULT_CONFIG_SOURCE } from "./config/merge";
+export type { ConfigLayer, ConfigProvenance } from "./config/merge";
 
 // Pattern utilities
 export {
@@ -126,6 +299,13 @@ export {
   getExcludePatterns,
   filterByExcludePatterns,
 } from "./rules/utils/patterns";
+export {
+  PRIORITY_LEVELS,
+  PRIORITY_WEIGHTS,
+  DEFAULT_PRIORITY,
+  getPathPriority,
+  isAtLeastPriority,
+} from "./rules/utils/priority";
 
 // Rule types for CLI and external consumers
 export type {
@@ -136,6 +316,12 @@ export type {
   LibraryRuleContext,
   LibraryRuleSet,
   LibraryLintResult,
+  LibraryFixFailure,
+  LibraryFixSummary,
+  LibraryFixPlan,
+  LibraryFixPlanResult,
+  LibraryBaselineEntry,
+  LibraryBaselineSummary,
   FileInfo,
   GitFileHistory,
 } from "./rules/types";
@@ -185,5 +371,3 @@ export { CONFIG_FILENAME } from "./config/schema";
 
 // Project utilities
 export { hasAlexandriaWorkflow } from "./projects-core/workflow-utils";
-
-
@@ -7,7 +7,14 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
 
-import { FileSystemAdapter } from "../pure-core/abstractions/filesystem";
+import {
+  FileSystemAdapter,
+  FileWatchEvent,
+  FileWatcher,
+} from "../pure-core/abstractions/filesystem";
+
+// Directories whose changes are not reported by watch()
+const UNWATCHED_DIRECTORIES = new Set(["node_modules", ".git"]);
 
 /**
  * Node.js implementation using built-in fs and path modules
@@ -134,6 +141,104 @@ export class NodeFileSystemAdapter implements FileSystemAdapter {
     const segments = repositoryPath.split(path.sep).filter((s) => s);
     return segments[segments.length - 1] || "root";
   }
+
+  // Change notifications
+  /**
+   * Watch a directory tree with one recursive `fs.watch`, or with a watcher
+   * per directory where recursive watching is unavailable (Linux before
+   * Node 20). Changes inside `node_modules` and `.git` are not reported.
+   * Watcher errors, such as running out of watch handles, are reported with
+   * a warning and stop the affected watcher.
+   */
+  watch(
+    dirPath: string,
+    listener: (event: FileWatchEvent) => void,
+  ): FileWatcher {
+    const watchers = new Map<string, fs.FSWatcher>();
+    let recursive = true;
+
+    const unwatch = (dir: string): void => {
+      for (const [watched, watcher] of watchers) {
+        if (watched === dir || watched.startsWith(dir + path.sep)) {
+          watcher.close();
+          watchers.delete(watched);
+        }
+      }
+    };
+
+    const report = (dir: string, eventType: string, filename: string) => {
+      const fullPath = path.join(dir, filename);
+      const segments = path.relative(dirPath, fullPath).split(path.sep);
+      if (segments.some((segment) => UNWATCHED_DIRECTORIES.has(segment))) {
+        return;
+      }
+
+      // fs.watch reports creation and deletion as "rename"
+      let type: FileWatchEvent["type"] = "changed";
+      if (eventType === "rename") {
+        type = fs.existsSync(fullPath) ? "created" : "deleted";
+      }
+      if (!recursive) {
+        if (type === "created" && this.isDirectory(fullPath)) {
+          watchTree(fullPath);
+        } else if (type === "deleted") {
+          unwatch(fullPath);
+        }
+      }
+      listener({ type, path: fullPath });
+    };
+
+    const add = (dir: string): void => {
+      const watcher = fs.watch(
+        dir,
+        { recursive, persistent: true },
+        (eventType, filename) => {
+          if (filename) report(dir, eventType, filename.toString());
+        },
+      );
+      watcher.on("error", (error) => {
+        console.warn(`Stopped watching ${dir}:`, error);
+        watcher.close();
+        watchers.delete(dir);
+      });
+      watchers.set(dir, watcher);
+    };
+
+    const watchTree = (dir: string): void => {
+      if (watchers.has(dir)) return;
+      let entries: fs.Dirent[];
+      try {
+        add(dir);
+        entries = fs.readdirSync(dir, { withFileTypes: true });
+      } catch (error) {
+        // A directory removed before it could be watched needs no report
+        if ((error as { code?: string }).code !== "ENOENT") {
+          console.warn(`Unable to watch ${dir}:`, error);
+        }
+        return;
+      }
+      for (const entry of entries) {
+        if (entry.isDirectory() && !UNWATCHED_DIRECTORIES.has(entry.name)) {
+          watchTree(path.join(dir, entry.name));
+        }
+      }
+    };
+
+    try {
+      add(dirPath);
+    } catch (error) {
+      if (
+        (error as { code?: string }).code !==
+        "ERR_FEATURE_UNAVAILABLE_ON_PLATFORM"
+      ) {
+        throw error;
+      }
+      recursive = false;
+      watchTree(dirPath);
+    }
+
+    return { close: () => unwatch(dirPath) };
+  }
 }
 
 export function findGitRoot(startPath: string): string | null {
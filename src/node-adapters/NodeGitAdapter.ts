@@ -0,0 +1,223 @@
+/**
+ * Node.js implementation of GitAdapter
+ *
+ * This adapter shells out to the git CLI via child_process.
+ * It should only be imported in Node.js environments where git is installed.
+ */
+import { execFile, spawn } from "node:child_process";
+
+import { GitAdapter, GitCommitInfo } from "../pure-core/abstractions/git";
+
+// Separators used in the `git log` format so commit headers can't be
+// confused with file names. The format string uses git's %x escapes since
+// process arguments can't contain NUL bytes.
+const RECORD_SEPARATOR = "\x1e";
+const FIELD_SEPARATOR = "\x00";
+const LOG_FORMAT = "%x1e%H%x00%ct%x00%s";
+
+// Paths are passed to `git log` as arguments, in batches short enough for
+// every platform's command line limit
+const MAX_PATHSPEC_LENGTH = 30_000;
+
+/**
+ * Node.js implementation using the git command line
+ */
+export class NodeGitAdapter implements GitAdapter {
+  /**
+   * @param gitBinary - Name or path of the git executable
+   * @param timeoutMs - How long each `git log` may run before it is stopped
+   */
+  constructor(
+    private gitBinary: string = "git",
+    private timeoutMs: number = 30_000,
+  ) {}
+
+  isRepository(repositoryPath: string): Promise<boolean> {
+    return new Promise((resolve) => {
+      execFile(
+        this.gitBinary,
+        ["rev-parse", "--is-inside-work-tree"],
+        { cwd: repositoryPath },
+        (error, stdout) => resolve(!error && stdout.trim() === "true"),
+      );
+    });
+  }
+
+  /**
+   * Walks `git log` of the requested tracked paths newest-first and records
+   * the first commit seen for each, stopping as soon as every path has been
+   * found. Untracked paths are left out up front, since looking for them
+   * would walk the whole history. When a `git log` runs longer than the
+   * timeout, the commits found so far are kept and the paths still missing
+   * are reported with a warning.
+   *
+   * @throws Error when git fails
+   */
+  async getLastCommits(
+    repositoryPath: string,
+    relativePaths: string[],
+  ): Promise<Map<string, GitCommitInfo>> {
+    const result = new Map<string, GitCommitInfo>();
+    let batch: string[] = [];
+    let length = 0;
+    for (const path of new Set(relativePaths)) {
+      if (batch.length > 0 && length + path.length > MAX_PATHSPEC_LENGTH) {
+        await this.logLastCommits(repositoryPath, batch, result);
+        batch = [];
+        length = 0;
+      }
+      batch.push(path);
+      length += path.length + 1;
+    }
+    if (batch.length > 0) {
+      await this.logLastCommits(repositoryPath, batch, result);
+    }
+    return result;
+  }
+
+  /**
+   * Record the last commit of each tracked path in `result`.
+   */
+  private async logLastCommits(
+    repositoryPath: string,
+    relativePaths: string[],
+    result: Map<string, GitCommitInfo>,
+  ): Promise<void> {
+    const tracked = await this.listTrackedFiles(repositoryPath, relativePaths);
+    const pending = new Set(relativePaths.filter((path) => tracked.has(path)));
+    if (pending.size === 0) {
+      return;
+    }
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(
+        this.gitBinary,
+        [
+          "-c",
+          "core.quotePath=false",
+          "--literal-pathspecs",
+          "log",
+          `--format=${LOG_FORMAT}`,
+          "--name-only",
+          "--relative",
+          "--",
+          ...pending,
+        ],
+        { cwd: repositoryPath },
+      );
+
+      let buffer = "";
+      let current: GitCommitInfo | null = null;
+      let stderr = "";
+      let done = false;
+
+      const processLine = (line: string): void => {
+        if (line.startsWith(RECORD_SEPARATOR)) {
+          const [hash, timestamp, message] = line
+            .slice(RECORD_SEPARATOR.length)
+            .split(FIELD_SEPARATOR);
+          current = {
+            hash,
+            date: new Date(Number(timestamp) * 1000),
+            message: message ?? "",
+          };
+        } else if (line && current && pending.has(line)) {
+          pending.delete(line);
+          result.set(line, current);
+        }
+      };
+
+      const finish = (): void => {
+        if (!done) {
+          done = true;
+          clearTimeout(timer);
+          resolve();
+        }
+      };
+
+      const fail = (error: Error): void => {
+        if (!done) {
+          done = true;
+          clearTimeout(timer);
+          reject(error);
+        }
+      };
+
+      const timer = setTimeout(() => {
+        child.kill();
+        const missing = [...pending];
+        console.warn(
+          `git log timed out after ${this.timeoutMs}ms in ${repositoryPath}; no history for ${missing.length} file(s): ${missing.slice(0, 10).join(", ")}${missing.length > 10 ? ", ..." : ""}`,
+        );
+        finish();
+      }, this.timeoutMs);
+
+      child.stdout.setEncoding("utf8");
+      child.stdout.on("data", (chunk: string) => {
+        if (done) return;
+        buffer += chunk;
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        for (const line of lines) {
+          processLine(line);
+        }
+        if (pending.size === 0) {
+          child.kill();
+          finish();
+        }
+      });
+
+      child.stderr.setEncoding("utf8");
+      child.stderr.on("data", (chunk: string) => {
+        stderr += chunk;
+      });
+
+      child.on("error", fail);
+
+      child.on("close", (code) => {
+        if (done) return;
+        if (code !== 0) {
+          fail(
+            new Error(
+              `git log failed in ${repositoryPath}: ${stderr.trim() || `exit code ${code}`}`,
+            ),
+          );
+          return;
+        }
+        processLine(buffer);
+        finish();
+      });
+    });
+  }
+
+  /**
+   * The given paths that git tracks.
+   */
+  private listTrackedFiles(
+    repositoryPath: string,
+    relativePaths: string[],
+  ): Promise<Set<string>> {
+    return new Promise((resolve, reject) => {
+      execFile(
+        this.gitBinary,
+        ["--literal-pathspecs", "ls-files", "-z", "--", ...relativePaths],
+        {
+          cwd: repositoryPath,
+          timeout: this.timeoutMs,
+          maxBuffer: 64 * 1024 * 1024,
+        },
+        (error, stdout, stderr) => {
+          if (error) {
+            reject(
+              new Error(
+                `git ls-files failed in ${repositoryPath}: ${stderr.trim() || error.message}`,
+              ),
+            );
+            return;
+          }
+          resolve(new Set(stdout.split("\0").filter(Boolean)));
+        },
+      );
+    });
+  }
+}
@@ -21,6 +21,12 @@ export class NodeGlobAdapter implements GlobAdapter {
       ...(options?.gitignore !== undefined && { gitignore: options.gitignore }),
       ...(options?.dot !== undefined && { dot: options.dot }),
       ...(options?.onlyFiles !== undefined && { onlyFiles: options.onlyFiles }),
+      // globby counts deep from each pattern's base, so this only prunes the
+      // walk; the depth below cwd is checked on the results
+      ...(options?.maxDepth !== undefined && { deep: options.maxDepth + 1 }),
+      ...(options?.followSymbolicLinks !== undefined && {
+        followSymbolicLinks: options.followSymbolicLinks,
+      }),
     };
 
     // Enhanced gitignore handling - add common exclusions when gitignore is enabled
@@ -46,7 +52,8 @@ export class NodeGlobAdapter implements GlobAdapter {
     }
 
     // Ensure we get strings, not Entry objects
-    return globby(patterns, globbyOptions) as Promise<string[]>;
+    const paths = (await globby(patterns, globbyOptions)) as string[];
+    return filterByDepth(paths, options?.maxDepth);
   }
 
   findFilesSync(patterns: string[], options?: GlobOptions): string[] {
@@ -56,6 +63,12 @@ export class NodeGlobAdapter implements GlobAdapter {
       ...(options?.gitignore !== undefined && { gitignore: options.gitignore }),
       ...(options?.dot !== undefined && { dot: options.dot }),
       ...(options?.onlyFiles !== undefined && { onlyFiles: options.onlyFiles }),
+      // globby counts deep from each pattern's base, so this only prunes the
+      // walk; the depth below cwd is checked on the results
+      ...(options?.maxDepth !== undefined && { deep: options.maxDepth + 1 }),
+      ...(options?.followSymbolicLinks !== undefined && {
+        followSymbolicLinks: options.followSymbolicLinks,
+      }),
     };
 
     // Enhanced gitignore handling - add common exclusions when gitignore is enabled
@@ -81,7 +94,8 @@ export class NodeGlobAdapter implements GlobAdapter {
     }
 
     // Ensure we get strings, not Entry objects
-    return globbySync(patterns, globbyOptions) as string[];
+    const paths = globbySync(patterns, globbyOptions) as string[];
+    return filterByDepth(paths, options?.maxDepth);
   }
 
   matchesPath(patterns: string[] | undefined, candidate: string): boolean {
@@ -93,6 +107,14 @@ export class NodeGlobAdapter implements GlobAdapter {
   }
 }
 
+// Keep paths at most maxDepth directories below cwd, like the other adapters
+function filterByDepth(paths: string[], maxDepth?: number): string[] {
+  if (maxDepth === undefined) {
+    return paths;
+  }
+  return paths.filter((path) => path.split("/").length - 1 <= maxDepth);
+}
+
 function globToRegex(pattern: string): RegExp {
   let regex = pattern
     .replace(/[.+^${}()|[\]\\]/g, "\\$&")
@@ -0,0 +1,29 @@
+/**
+ * Node.js implementation of PluginLoader
+ *
+ * Local paths are resolved against the project root. Package names are
+ * resolved from the project root's node_modules, so plugins are installed as
+ * dependencies of the project being linted rather than of this library.
+ */
+
+import { createRequire } from "module";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { PluginLoader } from "../pure-core/abstractions/plugins";
+
+export class NodePluginLoader implements PluginLoader {
+  async load(specifier: string, fromDirectory: string): Promise<unknown> {
+    const isPath =
+      specifier.startsWith("./") ||
+      specifier.startsWith("../") ||
+      path.isAbsolute(specifier);
+
+    const resolved = isPath
+      ? path.resolve(fromDirectory, specifier)
+      : createRequire(path.join(fromDirectory, "package.json")).resolve(
+          specifier,
+        );
+
+    return import(pathToFileURL(resolved).href);
+  }
+}
@@ -11,6 +11,19 @@ export { NodeFileSystemAdapter } from "./node-adapters/NodeFileSystemAdapter";
 // Glob adapter for pattern matching in Node.js
 export { NodeGlobAdapter } from "./node-adapters/NodeGlobAdapter";
 
+// Git adapter that reads file history from the git CLI
+export { NodeGitAdapter } from "./node-adapters/NodeGitAdapter";
+
+// Plugin loader that imports rule plugins from the project's node_modules
+export { NodePluginLoader } from "./node-adapters/NodePluginLoader";
+
 // Re-export the adapter interfaces for convenience
-export type { FileSystemAdapter } from "./pure-core/abstractions/filesystem";
+export type {
+  FileSystemAdapter,
+  FileWatchEvent,
+  FileWatchEventType,
+  FileWatcher,
+} from "./pure-core/abstractions/filesystem";
 export type { GlobAdapter, GlobOptions } from "./pure-core/abstractions/glob";
+export type { GitAdapter, GitCommitInfo } from "./pure-core/abstractions/git";
+export type { PluginLoader } from "./pure-core/abstractions/plugins";
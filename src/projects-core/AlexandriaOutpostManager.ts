@@ -11,6 +11,7 @@ import { extractCodebaseViewSummary } from "../pure-core/types/summary.js";
 import type { ValidatedRepositoryPath } from "../pure-core/types/index.js";
 import { ConfigLoader } from "../config/loader.js";
 import { extractPurlFromRemoteUrl, type Purl } from "../pure-core/utils/purl.js";
+import { loadAlexandriaIgnore } from "../pure-core/utils/ignore.js";
 
 import { FileSystemAdapter } from "../pure-core/abstractions/filesystem.js";
 import { GlobAdapter } from "../pure-core/abstractions/glob.js";
@@ -240,7 +241,8 @@ export class AlexandriaOutpostManager {
   }
 
   /**
-   * Get all markdown documentation files in a repository
+   * Get all markdown documentation files in a repository, skipping paths
+   * matched by `.alexandriaignore`
    * @param entry - The AlexandriaEntry for the local repository
    * @param useGitignore - Whether to respect .gitignore files (default: true)
    * @returns Array of all markdown file paths relative to repository root
@@ -261,7 +263,11 @@ export class AlexandriaOutpostManager {
         },
       );
 
-      return markdownFiles;
+      return loadAlexandriaIgnore(
+        this.fsAdapter,
+        entry.path,
+        markdownFiles,
+      ).filter(markdownFiles);
     } catch (error) {
       console.debug(`Could not scan markdown files for ${entry.name}:`, error);
       return [];
@@ -6,6 +6,19 @@
  * any file system adapter (Node.js, in-memory, browser, Deno, etc.)
  */
 
+export type FileWatchEventType = "created" | "changed" | "deleted";
+
+export interface FileWatchEvent {
+  type: FileWatchEventType;
+  /** Absolute path of the file or directory that changed */
+  path: string;
+}
+
+export interface FileWatcher {
+  /** Stop watching and release any underlying resources */
+  close(): void;
+}
+
 export interface FileSystemAdapter {
   // File operations
   exists(path: string): boolean;
@@ -37,6 +50,13 @@ export interface FileSystemAdapter {
   normalizeRepositoryPath(inputPath: string): string;
   findProjectRoot(inputPath: string): string;
   getRepositoryName(repositoryPath: string): string;
+
+  // Change notifications
+  /**
+   * Watch a directory recursively for changes.
+   * Optional: adapters that cannot observe changes omit it.
+   */
+  watch?(path: string, listener: (event: FileWatchEvent) => void): FileWatcher;
 }
 
 // Note: The InMemoryFileSystemAdapter implementation has been moved to
@@ -0,0 +1,44 @@
+/**
+ * Pure git abstraction interfaces
+ *
+ * These interfaces define the contract for reading repository history without
+ * any platform-specific implementations. This allows the pure-core to work
+ * with any git backend (git CLI, isomorphic-git, GitHub API, in-memory, etc.)
+ */
+
+export interface GitCommitInfo {
+  /**
+   * Full commit hash
+   */
+  hash: string;
+
+  /**
+   * Commit timestamp
+   */
+  date: Date;
+
+  /**
+   * First line of the commit message
+   */
+  message: string;
+}
+
+export interface GitAdapter {
+  /**
+   * Check whether a directory is inside a git working tree
+   * @param repositoryPath - Directory to check
+   */
+  isRepository(repositoryPath: string): Promise<boolean>;
+
+  /**
+   * Find the most recent commit that touched each of the given files
+   * @param repositoryPath - Root of the project the paths are relative to
+   * @param relativePaths - File paths relative to repositoryPath
+   * @returns Map from relative path to its last commit; files with no
+   *          history (e.g. untracked files) are omitted
+   */
+  getLastCommits(
+    repositoryPath: string,
+    relativePaths: string[],
+  ): Promise<Map<string, GitCommitInfo>>;
+}
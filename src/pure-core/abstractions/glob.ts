@@ -31,6 +31,17 @@ export interface GlobOptions {
    * Return only files (not directories)
    */
   onlyFiles?: boolean;
+
+  /**
+   * Maximum number of directory levels below cwd to descend into.
+   * 0 only matches entries directly in cwd. Unlimited when omitted.
+   */
+  maxDepth?: number;
+
+  /**
+   * Descend into symlinked directories
+   */
+  followSymbolicLinks?: boolean;
 }
 
 export interface GlobAdapter {
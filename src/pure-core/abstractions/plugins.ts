@@ -0,0 +1,17 @@
+/**
+ * Pure plugin loading abstraction
+ *
+ * Rule plugins are loaded through this interface so the rules engine never
+ * imports modules itself. This allows plugins to come from Node's module
+ * system, a bundler's registry or an in-memory map in tests.
+ */
+
+export interface PluginLoader {
+  /**
+   * Load a plugin module
+   * @param specifier - Package name, or a path relative to `fromDirectory`
+   * @param fromDirectory - Directory specifiers are resolved from (the project root)
+   * @returns The module's exports
+   */
+  load(specifier: string, fromDirectory: string): Promise<unknown>;
+}
@@ -6,6 +6,7 @@
 import type { FileSystemAdapter } from "../abstractions/filesystem";
 import type { MemoryPalace } from "../../MemoryPalace";
 import { CodebaseView } from "../types";
+import { createUnifiedDiff } from "../utils/diff";
 import {
   AutoFixProvider,
   AutoFixSuggestion,
@@ -97,17 +98,21 @@ export class OverviewPathAutoFix implements AutoFixProvider {
       action: `Create missing overview file at ${overviewPath}`,
       apply: async () => this.createMissingOverview(view),
       canApply: async () => this.options.createMissing === true,
-      preview: async () => ({
-        description: `Create new markdown file at ${overviewPath}`,
-        changes: [
-          {
-            type: "file_created",
-            path: overviewPath,
-            after: this.generateOverviewContent(view),
-          },
-        ],
-        risk: "safe",
-      }),
+      preview: async () => {
+        const content = this.generateOverviewContent(view);
+        return {
+          description: `Create new markdown file at ${overviewPath}`,
+          changes: [
+            {
+              type: "file_created",
+              path: overviewPath,
+              after: content,
+              diff: createUnifiedDiff(null, overviewPath, "", content),
+            },
+          ],
+          risk: "safe",
+        };
+      },
     };
   }
 
@@ -147,6 +152,7 @@ export class OverviewPathAutoFix implements AutoFixProvider {
             path: overviewPath,
             before: overviewPath,
             after: newPath,
+            diff: createUnifiedDiff(overviewPath, newPath, "", ""),
           },
           {
             type: "property_updated",
@@ -206,6 +212,7 @@ export class OverviewPathAutoFix implements AutoFixProvider {
             path: overviewPath,
             before: overviewPath,
             after: newPath,
+            diff: createUnifiedDiff(overviewPath, newPath, "", ""),
           },
           {
             type: "property_updated",
@@ -54,6 +54,8 @@ export interface AutoFixChange {
   after?: string | Record<string, unknown>;
   /** Path affected by the change */
   path: string;
+  /** Unified diff of the change, for text files and view JSON */
+  diff?: string;
 }
 
 export interface AutoFixPreview {
@@ -0,0 +1,203 @@
+/**
+ * CodebaseView migrations
+ *
+ * Each migration upgrades a stored view from one schema version to the next.
+ * CodebaseViewsStore upgrades old views as it reads them, and
+ * CodebaseViewsStore.migrateAllViews() writes the upgraded views back.
+ */
+
+import { CodebaseView } from "../types";
+import { compareVersions, VERSION_PATTERN } from "../utils/version";
+
+/** Schema version of views written by this library */
+export const CURRENT_VIEW_VERSION = "1.1.0";
+
+/** Version of stored views that have none; they predate versioning */
+export const LEGACY_VIEW_VERSION = "1.0.0";
+
+/** A view as read from its file, before migration */
+export type RawCodebaseView = Record<string, unknown>;
+
+export interface CodebaseViewMigration {
+  /** Version this migration upgrades from */
+  from: string;
+  /** Version the migrated view has */
+  to: string;
+  /** What changes, shown in migration reports */
+  description: string;
+  /**
+   * Upgrade a view. Change it in place or return a new object, and describe
+   * each change in `changes`. The `version` field is updated afterwards.
+   */
+  migrate(view: RawCodebaseView, changes: string[]): RawCodebaseView | void;
+}
+
+export interface CodebaseViewMigrationResult {
+  view: CodebaseView;
+  fromVersion: string;
+  toVersion: string;
+  /** Whether any migration ran */
+  migrated: boolean;
+  changes: string[];
+}
+
+/**
+ * Whether a stored view has the fields every reader relies on: a string id
+ * and name and a referenceGroups object. The other required fields are
+ * filled in by migrations and checked by CodebaseViewValidator; views from
+ * a newer version may lack them.
+ */
+export function isCodebaseView(
+  view: RawCodebaseView,
+): view is RawCodebaseView & CodebaseView {
+  return (
+    typeof view.id === "string" &&
+    typeof view.name === "string" &&
+    typeof view.referenceGroups === "object" &&
+    view.referenceGroups !== null &&
+    !Array.isArray(view.referenceGroups)
+  );
+}
+
+/**
+ * Views saved before `category`, `displayOrder` and `overviewPath` were
+ * required get the defaults readers used to fill in for them.
+ */
+const REQUIRED_FIELDS_MIGRATION: CodebaseViewMigration = {
+  from: "1.0.0",
+  to: "1.1.0",
+  description: "Fill in category, displayOrder and overviewPath",
+  migrate(view, changes) {
+    const defaults: Record<string, unknown> = {
+      category: "other",
+      displayOrder: 0,
+      overviewPath: "",
+    };
+    for (const [key, value] of Object.entries(defaults)) {
+      if (view[key] === undefined || view[key] === null) {
+        view[key] = value;
+        changes.push(`Set ${key} to ${JSON.stringify(value)}`);
+      }
+    }
+  },
+};
+
+/** Migrations shipped with the library, oldest first */
+export const BUILT_IN_VIEW_MIGRATIONS: CodebaseViewMigration[] = [
+  REQUIRED_FIELDS_MIGRATION,
+];
+
+/**
+ * Versioned view migrators, chained to upgrade a view step by step.
+ */
+export class CodebaseViewMigrationRegistry {
+  private migrations: CodebaseViewMigration[] = [];
+
+  constructor(
+    migrations: CodebaseViewMigration[] = BUILT_IN_VIEW_MIGRATIONS,
+    private currentVersion: string = CURRENT_VIEW_VERSION,
+  ) {
+    for (const migration of migrations) {
+      this.register(migration);
+    }
+  }
+
+  /**
+   * Add a migration. There can only be one migration from each version.
+   */
+  register(migration: CodebaseViewMigration): this {
+    if (compareVersions(migration.from, migration.to) >= 0) {
+      throw new Error(
+        `View migration from ${migration.from} must upgrade to a newer version, not ${migration.to}`,
+      );
+    }
+    if (this.find(migration.from)) {
+      throw new Error(
+        `A view migration from ${migration.from} is already registered`,
+      );
+    }
+    this.migrations.push(migration);
+    return this;
+  }
+
+  getMigrations(): CodebaseViewMigration[] {
+    return [...this.migrations];
+  }
+
+  /** Newest view version this registry reads and writes */
+  getCurrentVersion(): string {
+    return this.currentVersion;
+  }
+
+  /**
+   * Whether a view was written by a newer version of the library. Such views
+   * can be read as they are but must not be written.
+   */
+  isNewer(view: { version?: unknown }): boolean {
+    return (
+      typeof view.version === "string" &&
+      VERSION_PATTERN.test(view.version) &&
+      compareVersions(view.version, this.currentVersion) > 0
+    );
+  }
+
+  /**
+   * Upgrade a view to the current version. The input is not modified. Views
+   * without a version are taken to be LEGACY_VIEW_VERSION.
+   *
+   * @throws Error when the version is invalid, newer than the current
+   *         version, or has no migration path, or when the migrated view
+   *         lacks required fields
+   */
+  migrate(view: RawCodebaseView): CodebaseViewMigrationResult {
+    const fromVersion = view.version || LEGACY_VIEW_VERSION;
+    const id = JSON.stringify(view.id);
+    if (typeof fromVersion !== "string" || !VERSION_PATTERN.test(fromVersion)) {
+      throw new Error(
+        `View ${id} has an invalid version ${JSON.stringify(fromVersion)}; expected a version like "${this.currentVersion}"`,
+      );
+    }
+    if (compareVersions(fromVersion, this.currentVersion) > 0) {
+      throw new Error(
+        `View ${id} has version ${fromVersion}, newer than ${this.currentVersion}, the newest version this library supports. Upgrade @principal-ai/alexandria-core-library to change this view.`,
+      );
+    }
+
+    const changes: string[] = [];
+    // Views are plain JSON data
+    let migrated = JSON.parse(JSON.stringify(view)) as RawCodebaseView;
+    let version = fromVersion;
+    while (compareVersions(version, this.currentVersion) < 0) {
+      const migration = this.find(version);
+      if (!migration) {
+        throw new Error(
+          `No view migration from version ${version} towards ${this.currentVersion}`,
+        );
+      }
+
+      migrated = migration.migrate(migrated, changes) ?? migrated;
+      migrated.version = migration.to;
+      version = migration.to;
+    }
+
+    if (!isCodebaseView(migrated)) {
+      throw new Error(
+        `View ${id} is not a valid view: it needs a string id and name and a referenceGroups object`,
+      );
+    }
+
+    return {
+      view: migrated,
+      fromVersion,
+      toVersion: version,
+      migrated: version !== fromVersion,
+      changes,
+    };
+  }
+
+  private find(version: string): CodebaseViewMigration | undefined {
+    return this.migrations.find(
+      (migration) => compareVersions(migration.from, version) === 0,
+    );
+  }
+}
@@ -12,6 +12,32 @@ import {
   CodebaseViewCell,
 } from "../types";
 import { ValidatedAlexandriaPath } from "../types/repository";
+import {
+  CodebaseViewMigrationRegistry,
+  isCodebaseView,
+  RawCodebaseView,
+} from "./CodebaseViewMigrations";
+
+export interface MigrateViewsOptions {
+  /** Report what would change without writing any files */
+  dryRun?: boolean;
+}
+
+export interface ViewMigrationReportEntry {
+  viewId: string;
+  fromVersion: string;
+  toVersion: string;
+  /** Whether the view is (or, in a dry run, would be) rewritten */
+  migrated: boolean;
+  changes: string[];
+  /** Why the view could not be migrated */
+  error?: string;
+}
+
+export interface ViewMigrationReport {
+  dryRun: boolean;
+  views: ViewMigrationReportEntry[];
+}
 
 /**
  * Compute grid dimensions from reference group coordinates.
@@ -43,13 +69,16 @@ export class CodebaseViewsStore {
   private fs: FileSystemAdapter;
   private alexandriaPath: ValidatedAlexandriaPath;
   private viewsDir: string;
+  private migrations: CodebaseViewMigrationRegistry;
 
   constructor(
     fileSystemAdapter: FileSystemAdapter,
     alexandriaPath: ValidatedAlexandriaPath,
+    migrations: CodebaseViewMigrationRegistry = new CodebaseViewMigrationRegistry(),
   ) {
     this.fs = fileSystemAdapter;
     this.alexandriaPath = alexandriaPath;
+    this.migrations = migrations;
     this.viewsDir = this.fs.join(alexandriaPath, "views");
     // Note: Directory creation is deferred to write operations via ensureViewsDirectory()
   }
@@ -106,13 +135,46 @@ export class CodebaseViewsStore {
     return maxOrder + 1;
   }
 
+  /**
+   * Parse a stored view and upgrade it to the current version. Views from a
+   * newer version, and views whose version cannot be migrated, are returned
+   * as they are; validateView() and migrateAllViews() report the problem.
+   *
+   * @throws Error when the file does not hold a usable view
+   */
+  private parseView(content: string): CodebaseView {
+    const view = JSON.parse(content) as RawCodebaseView;
+    if (!this.migrations.isNewer(view)) {
+      try {
+        return this.migrations.migrate(view).view;
+      } catch (error) {
+        if (!isCodebaseView(view)) throw error;
+        return view;
+      }
+    }
+    if (!isCodebaseView(view)) {
+      throw new Error(
+        `View ${JSON.stringify(view.id)} is not a valid view: it needs a string id and name and a referenceGroups object`,
+      );
+    }
+    return view;
+  }
+
   /**
    * Save a view configuration to storage.
+   *
+   * @throws Error when the view is from a newer version than this library supports
    */
   saveView(
     repositoryRootPath: ValidatedRepositoryPath,
     view: CodebaseView,
   ): void {
+    if (this.migrations.isNewer(view)) {
+      throw new Error(
+        `Cannot save view "${view.id}": its version ${view.version} is newer than ${this.migrations.getCurrentVersion()}, the newest version this library supports. Upgrade @principal-ai/alexandria-core-library to change this view.`,
+      );
+    }
+
     this.ensureViewsDirectory();
 
     const filePath = this.getViewFilePath(repositoryRootPath, view.id);
@@ -129,7 +191,7 @@ export class CodebaseViewsStore {
     // Add defaults for required fields if not present
     const viewToSave = {
       ...view,
-      version: view.version || "1.0.0", // Default to 1.0.0 if not specified
+      version: view.version || this.migrations.getCurrentVersion(),
       timestamp: view.timestamp || new Date().toISOString(),
       displayOrder,
     };
@@ -152,7 +214,7 @@ export class CodebaseViewsStore {
 
     try {
       const content = this.fs.readFile(filePath);
-      return JSON.parse(content) as CodebaseView;
+      return this.parseView(content);
     } catch (error) {
       console.error(`Error reading view ${viewId}:`, error);
       return null;
@@ -177,7 +239,7 @@ export class CodebaseViewsStore {
       const content = this.fs.readFileAsync
         ? await this.fs.readFileAsync(filePath)
         : this.fs.readFile(filePath);
-      return JSON.parse(content) as CodebaseView;
+      return this.parseView(content);
     } catch (error) {
       console.error(`Error reading view ${viewId}:`, error);
       return null;
@@ -270,6 +332,58 @@ export class CodebaseViewsStore {
     });
   }
 
+  /**
+   * Upgrade every stored view to the current version and rewrite the files
+   * of views that changed. Views that cannot be migrated, such as views from
+   * a newer version, are reported and left untouched.
+   */
+  migrateAllViews(
+    repositoryRootPath: ValidatedRepositoryPath,
+    options: MigrateViewsOptions = {},
+  ): ViewMigrationReport {
+    const dryRun = options.dryRun ?? false;
+    const report: ViewMigrationReport = { dryRun, views: [] };
+    const viewsDir = this.getViewsDirectory();
+
+    if (!this.fs.exists(viewsDir)) {
+      return report;
+    }
+
+    const files = this.fs.readDir(viewsDir).filter((f) => f.endsWith(".json"));
+    for (const file of files.sort()) {
+      const viewId = file.replace(/\.json$/, "");
+      const filePath = this.getViewFilePath(repositoryRootPath, viewId);
+      let raw: RawCodebaseView | undefined;
+
+      try {
+        raw = JSON.parse(this.fs.readFile(filePath)) as RawCodebaseView;
+        const result = this.migrations.migrate(raw);
+        if (result.migrated && !dryRun) {
+          this.fs.writeFile(filePath, JSON.stringify(result.view, null, 2));
+        }
+        report.views.push({
+          viewId,
+          fromVersion: result.fromVersion,
+          toVersion: result.toVersion,
+          migrated: result.migrated,
+          changes: result.changes,
+        });
+      } catch (error) {
+        const version = typeof raw?.version === "string" ? raw.version : "";
+        report.views.push({
+          viewId,
+          fromVersion: version,
+          toVersion: version,
+          migrated: false,
+          changes: [],
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return report;
+  }
+
   /**
    * Delete a view configuration.
    */
@@ -289,6 +403,8 @@ export class CodebaseViewsStore {
 
   /**
    * Update an existing view configuration.
+   *
+   * @throws Error when the view is from a newer version than this library supports
    */
   updateView(
     repositoryRootPath: ValidatedRepositoryPath,
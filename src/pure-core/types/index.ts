@@ -71,6 +71,38 @@ export interface CodebaseViewCell {
   experimentalMetadata?: Record<string, unknown>;
 }
 
+/**
+ * A file reference anchored to part of the file.
+ */
+export interface CodebaseViewFileReference {
+  /**
+   * File path (relative to repository root).
+   */
+  path: string;
+
+  /**
+   * 1-based, inclusive line range the reference is about, as [start, end].
+   */
+  lines?: [number, number];
+
+  /**
+   * Fingerprint of the content at `lines` when the anchor was saved, used to
+   * find the range again after the file changes. Written by the library.
+   */
+  fingerprint?: string;
+
+  /**
+   * Name of the function, class or other symbol the reference is about.
+   * Use "Class.method" for members.
+   */
+  symbol?: string;
+}
+
+/**
+ * An entry in a reference group's files: a path, or a path with an anchor.
+ */
+export type CodebaseViewFileEntry = string | CodebaseViewFileReference;
+
 /**
  * A cell that contains an explicit list of files.
  * Each cell represents a logical grouping of related files in the codebase.
@@ -80,10 +112,44 @@ export interface CodebaseViewFileCell extends CodebaseViewCell {
    * List of file paths (relative to repository root).
    * Examples: 'src/index.ts', 'README.md', 'package.json'
    * No glob patterns or directories - just explicit file paths.
+   * Use a CodebaseViewPatternCell for those. Entries can anchor a line
+   * range or symbol within the file.
    */
-  files: string[];
+  files: CodebaseViewFileEntry[];
 }
 
+/**
+ * A cell whose files are matched by glob patterns and directories, optionally
+ * alongside explicit files. Matches are expanded when the view is resolved,
+ * so new files are picked up without editing the view.
+ */
+export interface CodebaseViewPatternCell extends CodebaseViewCell {
+  /**
+   * Explicit file paths (relative to repository root), optionally anchored.
+   */
+  files?: CodebaseViewFileEntry[];
+
+  /**
+   * Glob patterns relative to the repository root.
+   * Examples: 'src/rules/**\/*.ts', 'docs/*.md'
+   */
+  patterns?: string[];
+
+  /**
+   * Directories (relative to repository root) whose files, at any depth,
+   * belong to this cell.
+   * Examples: 'src/config', 'scripts'
+   */
+  directories?: string[];
+}
+
+/**
+ * Any reference group in a view.
+ */
+export type CodebaseViewReferenceGroup =
+  | CodebaseViewFileCell
+  | CodebaseViewPatternCell;
+
 /**
  * Scope configuration for filtering the file tree before grid layout.
  * Allows focusing on specific parts of the repository.
@@ -154,7 +220,7 @@ export interface CodebaseView {
    * Reference group configurations mapped by group name/identifier.
    * Each entry defines what files belong in that reference group.
    */
-  referenceGroups: Record<string, CodebaseViewFileCell>;
+  referenceGroups: Record<string, CodebaseViewReferenceGroup>;
 
   /**
    * Links to other views from this view.
@@ -261,4 +327,3 @@ export interface FileListValidationResult {
     referenceGroups: string[];
   }>;
 }
-
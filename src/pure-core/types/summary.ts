@@ -65,9 +65,9 @@ export function extractCodebaseViewSummary(
     description: view.description || "",
     referenceGroupCount,
     gridSize: [maxRow + 1, maxCol + 1], // +1 because coordinates are 0-indexed
-    overviewPath: view.overviewPath || "",
-    category: view.category || "other", // Default to 'other' for backward compatibility
-    displayOrder: view.displayOrder || 0, // Default to 0 for backward compatibility
+    overviewPath: view.overviewPath,
+    category: view.category,
+    displayOrder: view.displayOrder,
   };
 }
 
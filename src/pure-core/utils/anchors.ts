@@ -0,0 +1,442 @@
+/**
+ * Anchors within referenced files: line ranges and symbol names.
+ *
+ * Symbols are found with language-agnostic patterns for common declaration
+ * forms (functions, classes, methods, variables, types), so a symbol is
+ * "found" when a line looks like it declares it.
+ *
+ * Line ranges carry a fingerprint of the lines they covered: a short hash of
+ * each line with its whitespace normalized. When the file changes, the range
+ * is found again by looking for the region holding most of those lines.
+ * Pure JavaScript so it works in every environment.
+ */
+
+import { CodebaseView, CodebaseViewFileReference } from "../types";
+import { hashContent } from "./hash";
+
+const DECLARATION_KEYWORDS = [
+  "function",
+  "class",
+  "interface",
+  "type",
+  "enum",
+  "struct",
+  "trait",
+  "impl",
+  "module",
+  "namespace",
+  "const",
+  "let",
+  "var",
+  "val",
+  "def",
+  "fn",
+  "func",
+];
+
+// Hex characters of each line's hash in a fingerprint
+const LINE_HASH_LENGTH = 8;
+
+const BLANK_LINE_HASH = hashLine("");
+
+// Share of the fingerprinted lines a region must hold to be the anchored content
+const MIN_SIMILARITY = 0.5;
+
+/** Where the content of a fingerprinted line range is now */
+export type AnchorStatus = "intact" | "moved" | "changed" | "deleted";
+
+export interface AnchorLocation {
+  status: AnchorStatus;
+  /** Current range of the anchored content; absent when it was deleted */
+  lines?: [number, number];
+  /** Share of the fingerprinted lines found at `lines`, from 0 to 1 */
+  similarity: number;
+}
+
+/** A fingerprinted anchor of a view and where its content is now */
+export interface AnchorDrift extends AnchorLocation {
+  referenceGroup: string;
+  /** Index of the entry in the reference group's files */
+  index: number;
+  path: string;
+  /** Range stored in the view */
+  anchoredLines: [number, number];
+  /** Fingerprint of the content at `lines`, to store when re-anchoring */
+  fingerprint?: string;
+}
+
+const METHOD_MODIFIERS = [
+  "public",
+  "private",
+  "protected",
+  "static",
+  "async",
+  "readonly",
+  "override",
+  "abstract",
+  "get",
+  "set",
+];
+
+/**
+ * Number of lines in a file's content. A trailing newline does not start a
+ * new line.
+ */
+export function countLines(content: string): number {
+  if (content === "") {
+    return 0;
+  }
+  const lines = content.split("\n").length;
+  return content.endsWith("\n") ? lines - 1 : lines;
+}
+
+/**
+ * Why a reference's line range is invalid for a file with `lineCount` lines,
+ * or null when it is valid or there is no range.
+ */
+export function checkLineRange(
+  lines: CodebaseViewFileReference["lines"] | undefined,
+  lineCount: number,
+): string | null {
+  if (lines === undefined) {
+    return null;
+  }
+  if (!isLineRange(lines)) {
+    return "Line range must be [start, end] with 1 <= start <= end";
+  }
+  if (lines[1] > lineCount) {
+    return `Line range ${lines[0]}-${lines[1]} is outside the file, which has ${lineCount} line${lineCount === 1 ? "" : "s"}`;
+  }
+  return null;
+}
+
+/**
+ * Whether a value is a [start, end] pair of 1-based line numbers.
+ */
+export function isLineRange(value: unknown): value is [number, number] {
+  return (
+    Array.isArray(value) &&
+    value.length === 2 &&
+    value.every((line) => Number.isInteger(line) && line >= 1) &&
+    value[0] <= value[1]
+  );
+}
+
+/**
+ * Fingerprint of a file's content within a line range.
+ */
+export function fingerprintLines(
+  content: string,
+  lines: [number, number],
+): string {
+  return splitLines(content)
+    .slice(lines[0] - 1, lines[1])
+    .map(hashLine)
+    .join("");
+}
+
+/**
+ * Whether a value is a fingerprint of a range as long as `lines`.
+ */
+export function isAnchorFingerprint(
+  value: unknown,
+  lines: [number, number],
+): value is string {
+  return (
+    typeof value === "string" &&
+    /^[0-9a-f]+$/.test(value) &&
+    value.length === (lines[1] - lines[0] + 1) * LINE_HASH_LENGTH
+  );
+}
+
+/**
+ * Find the content of a fingerprinted line range in the file's current
+ * content. The same lines at the same place are "intact" and elsewhere
+ * "moved"; otherwise the region holding most of the fingerprinted lines is
+ * "changed", or "deleted" when no region holds at least half of them.
+ * Whitespace changes within lines are ignored, and of equally good regions
+ * the one closest to the stored range wins.
+ *
+ * @returns null when the reference has no valid range and fingerprint
+ */
+export function locateAnchor(
+  content: string,
+  reference: CodebaseViewFileReference,
+): AnchorLocation | null {
+  const { lines, fingerprint } = reference;
+  if (!isLineRange(lines) || !isAnchorFingerprint(fingerprint, lines)) {
+    return null;
+  }
+
+  const expected: string[] = [];
+  for (let i = 0; i < fingerprint.length; i += LINE_HASH_LENGTH) {
+    expected.push(fingerprint.slice(i, i + LINE_HASH_LENGTH));
+  }
+  const current = splitLines(content).map(hashLine);
+  const anchoredStart = lines[0] - 1;
+  const distance = (start: number) => Math.abs(start - anchoredStart);
+  const toRange = (start: number, end: number): [number, number] => [
+    start + 1,
+    end + 1,
+  ];
+
+  let exact = -1;
+  for (let start = 0; start + expected.length <= current.length; start++) {
+    if (
+      expected.every((hash, i) => current[start + i] === hash) &&
+      (exact === -1 || distance(start) < distance(exact))
+    ) {
+      exact = start;
+    }
+  }
+  if (exact !== -1) {
+    return {
+      status: exact === anchoredStart ? "intact" : "moved",
+      lines: toRange(exact, exact + expected.length - 1),
+      similarity: 1,
+    };
+  }
+
+  // Slide windows as long as the range, and up to twice as long for content
+  // that grew, over the file, counting how many of the fingerprinted lines
+  // each holds; blank lines do not count. The tightest best window wins.
+  const wanted = new Map<string, number>();
+  for (const hash of expected) {
+    if (hash !== BLANK_LINE_HASH) {
+      wanted.set(hash, (wanted.get(hash) ?? 0) + 1);
+    }
+  }
+  const total = [...wanted.values()].reduce((sum, count) => sum + count, 0);
+  const minSize = Math.min(expected.length, current.length);
+  const maxSize = Math.min(expected.length * 2, current.length);
+  if (total === 0 || minSize === 0) {
+    return { status: "deleted", similarity: 0 };
+  }
+
+  let bestStart = 0;
+  let bestSize = minSize;
+  let bestMatches = -1;
+  for (let size = minSize; size <= maxSize; size++) {
+    const inWindow = new Map<string, number>();
+    let matches = 0;
+    const add = (hash: string) => {
+      const count = inWindow.get(hash) ?? 0;
+      if (count < (wanted.get(hash) ?? 0)) matches++;
+      inWindow.set(hash, count + 1);
+    };
+    const remove = (hash: string) => {
+      const count = inWindow.get(hash)! - 1;
+      if (count < (wanted.get(hash) ?? 0)) matches--;
+      inWindow.set(hash, count);
+    };
+
+    for (let start = 0; start + size <= current.length; start++) {
+      if (start === 0) {
+        current.slice(0, size).forEach(add);
+      } else {
+        remove(current[start - 1]);
+        add(current[start + size - 1]);
+      }
+      if (
+        matches > bestMatches ||
+        (matches === bestMatches &&
+          size === bestSize &&
+          distance(start) < distance(bestStart))
+      ) {
+        bestStart = start;
+        bestSize = size;
+        bestMatches = matches;
+      }
+    }
+  }
+
+  const similarity = bestMatches / total;
+  if (similarity < MIN_SIMILARITY) {
+    return { status: "deleted", similarity };
+  }
+
+  // Drop lines at the edges of the window that are not anchored content
+  let start = bestStart;
+  let end = bestStart + bestSize - 1;
+  while (!wanted.has(current[start])) start++;
+  while (!wanted.has(current[end])) end--;
+  return { status: "changed", lines: toRange(start, end), similarity };
+}
+
+/**
+ * Locate every fingerprinted anchor of a view in its file.
+ *
+ * @param readFile - Content of a file relative to the repository root, or
+ *                   null when it does not exist; those anchors are skipped
+ */
+export function detectAnchorDrift(
+  view: CodebaseView,
+  readFile: (path: string) => string | null,
+): AnchorDrift[] {
+  const drifts: AnchorDrift[] = [];
+  for (const [groupName, group] of Object.entries(view.referenceGroups ?? {})) {
+    if (!Array.isArray(group.files)) continue;
+
+    group.files.forEach((entry, index) => {
+      if (typeof entry !== "object" || entry === null) return;
+      const content = readFile(entry.path);
+      const location = content === null ? null : locateAnchor(content, entry);
+      if (!location) return;
+
+      drifts.push({
+        referenceGroup: groupName,
+        index,
+        path: entry.path,
+        anchoredLines: entry.lines!,
+        ...location,
+        fingerprint: location.lines
+          ? fingerprintLines(content!, location.lines)
+          : undefined,
+      });
+    });
+  }
+  return drifts;
+}
+
+/**
+ * Move anchors to where their content is now and fingerprint it again.
+ * Deleted anchors are left as they are.
+ */
+export function reanchorView(
+  view: CodebaseView,
+  drifts: AnchorDrift[],
+): CodebaseView {
+  const referenceGroups = { ...view.referenceGroups };
+  for (const drift of drifts) {
+    const group = referenceGroups[drift.referenceGroup];
+    const entry = group?.files?.[drift.index];
+    if (!drift.lines || typeof entry !== "object" || entry === null) continue;
+
+    const files = [...group.files!];
+    files[drift.index] = {
+      ...entry,
+      lines: drift.lines,
+      fingerprint: drift.fingerprint,
+    };
+    referenceGroups[drift.referenceGroup] = { ...group, files };
+  }
+  return { ...view, referenceGroups };
+}
+
+/**
+ * Fingerprint anchors whose line range has no fingerprint yet. Ranges in
+ * files that do not exist or that run past the end of the file are skipped.
+ *
+ * @param readFile - Content of a file relative to the repository root, or
+ *                   null when it does not exist
+ */
+export function fingerprintAnchors(
+  view: CodebaseView,
+  readFile: (path: string) => string | null,
+): CodebaseView {
+  const referenceGroups = { ...view.referenceGroups };
+  for (const [groupName, group] of Object.entries(view.referenceGroups ?? {})) {
+    if (!Array.isArray(group.files)) continue;
+
+    let changed = false;
+    const files = group.files.map((entry) => {
+      if (
+        typeof entry !== "object" ||
+        entry === null ||
+        entry.fingerprint !== undefined ||
+        !isLineRange(entry.lines)
+      ) {
+        return entry;
+      }
+      const content = readFile(entry.path);
+      if (
+        content === null ||
+        checkLineRange(entry.lines, countLines(content))
+      ) {
+        return entry;
+      }
+      changed = true;
+      return { ...entry, fingerprint: fingerprintLines(content, entry.lines) };
+    });
+    if (changed) {
+      referenceGroups[groupName] = { ...group, files };
+    }
+  }
+  return { ...view, referenceGroups };
+}
+
+/**
+ * 1-based lines that declare a symbol. For "Class.method" the method must be
+ * declared after the class.
+ */
+export function findSymbolDeclarations(
+  content: string,
+  symbol: string,
+): number[] {
+  const names = symbol.split(".").filter(Boolean);
+  if (names.length === 0) {
+    return [];
+  }
+
+  const lines = content.split("\n");
+  const declares = (line: string, name: string, patterns: RegExp[]) =>
+    line.includes(name) && patterns.some((pattern) => pattern.test(line));
+
+  let from = 0;
+  for (const owner of names.slice(0, -1)) {
+    const patterns = declarationPatterns(owner);
+    const index = lines.findIndex(
+      (line, i) => i >= from && declares(line, owner, patterns),
+    );
+    if (index === -1) {
+      return [];
+    }
+    from = index;
+  }
+
+  const name = names[names.length - 1];
+  const patterns = declarationPatterns(name);
+  const found: number[] = [];
+  lines.forEach((line, index) => {
+    if (index >= from && declares(line, name, patterns)) {
+      found.push(index + 1);
+    }
+  });
+  return found;
+}
+
+function declarationPatterns(name: string): RegExp[] {
+  const id = escapeRegex(name);
+  const keywords = DECLARATION_KEYWORDS.join("|");
+  const modifiers = METHOD_MODIFIERS.join("|");
+  return [
+    // function refreshToken, class Auth, def refresh_token, const x = ...
+    new RegExp(`(?:^|[^\\w$.])(?:${keywords})\\s*\\*?\\s+${id}(?![\\w$])`),
+    // Go methods: func (s *Service) refreshToken(
+    new RegExp(`\\bfunc\\s*\\([^)]*\\)\\s*${id}\\s*\\(`),
+    // Class members: async refreshToken(...) { — not calls ending in ";"
+    new RegExp(
+      `^\\s*(?:(?:${modifiers})\\s+)*\\*?${id}\\s*(?:<[^>]*>)?\\s*\\([^;]*$`,
+    ),
+    // Assigned functions: refreshToken: async () =>, refreshToken = function
+    new RegExp(
+      `(?:^|[^\\w$.])${id}\\s*[:=]\\s*(?:async\\s+)?(?:function\\b|\\([^)]*\\)[^=]*=>|[\\w$]+\\s*=>)`,
+    ),
+  ];
+}
+
+// Lines of a file; a trailing newline does not start a new line
+function splitLines(content: string): string[] {
+  return content.split("\n").slice(0, countLines(content));
+}
+
+function hashLine(line: string): string {
+  return hashContent(line.trim().replace(/\s+/g, " ")).slice(
+    0,
+    LINE_HASH_LENGTH,
+  );
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
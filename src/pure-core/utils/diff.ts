@@ -0,0 +1,174 @@
+/**
+ * Minimal line-based unified diff generator.
+ *
+ * Produces output compatible with `diff -u` / `git diff` so previews can be
+ * rendered by any tool that understands unified diffs. No external dependencies.
+ */
+
+interface DiffOp {
+  type: " " | "-" | "+";
+  line: string;
+}
+
+/**
+ * Split text into lines, ignoring the empty entry produced by a trailing newline.
+ */
+function splitLines(text: string): string[] {
+  if (text === "") {
+    return [];
+  }
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Compute the line-level edit script between two line arrays using an LCS table.
+ * Common prefix and suffix are trimmed first to keep the table small.
+ */
+function diffLines(before: string[], after: string[]): DiffOp[] {
+  let prefix = 0;
+  while (
+    prefix < before.length &&
+    prefix < after.length &&
+    before[prefix] === after[prefix]
+  ) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = before.slice(prefix, before.length - suffix);
+  const b = after.slice(prefix, after.length - suffix);
+  const n = a.length;
+  const m = b.length;
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: Uint32Array[] = [];
+  for (let i = 0; i <= n; i++) {
+    lcs.push(new Uint32Array(m + 1));
+  }
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = before
+    .slice(0, prefix)
+    .map((line) => ({ type: " " as const, line }));
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      ops.push({ type: " ", line: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: "-", line: a[i] });
+      i++;
+    } else {
+      ops.push({ type: "+", line: b[j] });
+      j++;
+    }
+  }
+  while (i < n) {
+    ops.push({ type: "-", line: a[i++] });
+  }
+  while (j < m) {
+    ops.push({ type: "+", line: b[j++] });
+  }
+
+  for (const line of before.slice(before.length - suffix)) {
+    ops.push({ type: " ", line });
+  }
+
+  return ops;
+}
+
+/**
+ * Create a unified diff between two versions of a file.
+ *
+ * @param oldPath - Path of the original file, or null when the file is being created
+ * @param newPath - Path of the new file, or null when the file is being deleted
+ * @param before - Original content
+ * @param after - New content
+ * @param contextLines - Number of unchanged lines to show around each change
+ * @returns The unified diff text; only the header when the contents are identical
+ */
+export function createUnifiedDiff(
+  oldPath: string | null,
+  newPath: string | null,
+  before: string,
+  after: string,
+  contextLines: number = 3,
+): string {
+  const header = [
+    `--- ${oldPath === null ? "/dev/null" : `a/${oldPath}`}`,
+    `+++ ${newPath === null ? "/dev/null" : `b/${newPath}`}`,
+  ];
+
+  const ops = diffLines(splitLines(before), splitLines(after));
+  const changed = ops
+    .map((op, index) => (op.type === " " ? -1 : index))
+    .filter((index) => index >= 0);
+
+  if (changed.length === 0) {
+    return header.join("\n") + "\n";
+  }
+
+  // Group changes into hunks, merging those whose context would overlap
+  const ranges: Array<[number, number]> = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - contextLines);
+    const end = Math.min(ops.length - 1, index + contextLines);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = end;
+    } else {
+      ranges.push([start, end]);
+    }
+  }
+
+  // Line numbers (1-based) of the old and new file at the start of each op
+  const oldLineAt: number[] = [];
+  const newLineAt: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const op of ops) {
+    oldLineAt.push(oldLine);
+    newLineAt.push(newLine);
+    if (op.type !== "+") oldLine++;
+    if (op.type !== "-") newLine++;
+  }
+
+  const output = [...header];
+  for (const [start, end] of ranges) {
+    const hunk = ops.slice(start, end + 1);
+    const oldCount = hunk.filter((op) => op.type !== "+").length;
+    const newCount = hunk.filter((op) => op.type !== "-").length;
+    // An empty side is reported at the line preceding the hunk, as `diff -u` does
+    const oldStart = oldCount === 0 ? oldLineAt[start] - 1 : oldLineAt[start];
+    const newStart = newCount === 0 ? newLineAt[start] - 1 : newLineAt[start];
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const op of hunk) {
+      output.push(`${op.type}${op.line}`);
+    }
+  }
+
+  return output.join("\n") + "\n";
+}
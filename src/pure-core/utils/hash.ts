@@ -0,0 +1,29 @@
+/**
+ * Fast non-cryptographic content hashing.
+ *
+ * Used to detect content changes (e.g. for caching), not for security.
+ * Pure JavaScript so it works in every environment.
+ */
+
+/**
+ * Hash a string into a 16 character hex digest.
+ * Based on cyrb53, which gives 53 bits of well-mixed output from two 32-bit lanes.
+ */
+export function hashContent(content: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < content.length; i++) {
+    const char = content.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (
+    (h2 >>> 0).toString(16).padStart(8, "0") +
+    (h1 >>> 0).toString(16).padStart(8, "0")
+  );
+}
@@ -0,0 +1,235 @@
+/**
+ * `.alexandriaignore` matching with gitignore semantics.
+ *
+ * Supports comments, `!` negation, anchored patterns, directory-only patterns
+ * (trailing `/`), `*`, `?`, `[...]`, `**` and backslash escapes. Patterns in
+ * a nested ignore file are relative to that file's directory and override the
+ * files above it. As in git, a file cannot be re-included once one of its
+ * parent directories is ignored.
+ *
+ * Pure JavaScript so it works in every environment.
+ */
+
+import { FileSystemAdapter } from "../abstractions/filesystem";
+import { ALEXANDRIA_DIRS } from "../../constants/paths";
+
+interface IgnoreRule {
+  /** Directory of the ignore file, relative to the root ("" for the root) */
+  base: string;
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+/**
+ * Matches root-relative paths against gitignore-style patterns.
+ */
+export class IgnoreMatcher {
+  private rules: IgnoreRule[] = [];
+  private directories = new Map<string, boolean>();
+
+  /**
+   * Add the contents of an ignore file.
+   * Files must be added from the shallowest directory to the deepest.
+   *
+   * @param content - Ignore file contents, one pattern per line
+   * @param baseDir - Directory of the ignore file relative to the root
+   */
+  add(content: string, baseDir: string = ""): this {
+    const base = trimSlashes(baseDir);
+    for (const line of content.split(/\r?\n/)) {
+      const rule = parseRule(line, base);
+      if (rule) {
+        this.rules.push(rule);
+      }
+    }
+    this.directories.clear();
+    return this;
+  }
+
+  /**
+   * Whether a root-relative path is ignored, either itself or through one of
+   * its parent directories.
+   */
+  ignores(relativePath: string, isDirectory: boolean = false): boolean {
+    const path = trimSlashes(relativePath.replace(/^\.\//, ""));
+    if (!path || this.rules.length === 0) {
+      return false;
+    }
+
+    const segments = path.split("/");
+    for (let i = 1; i < segments.length; i++) {
+      if (this.ignoresDirectory(segments.slice(0, i).join("/"))) {
+        return true;
+      }
+    }
+    return isDirectory
+      ? this.ignoresDirectory(path)
+      : this.matches(path, false);
+  }
+
+  /**
+   * The paths that are not ignored, in their original order.
+   */
+  filter(relativePaths: string[]): string[] {
+    return relativePaths.filter((path) => !this.ignores(path));
+  }
+
+  private ignoresDirectory(path: string): boolean {
+    let ignored = this.directories.get(path);
+    if (ignored === undefined) {
+      ignored = this.matches(path, true);
+      this.directories.set(path, ignored);
+    }
+    return ignored;
+  }
+
+  /** The last matching rule decides */
+  private matches(path: string, isDirectory: boolean): boolean {
+    let ignored = false;
+    for (const rule of this.rules) {
+      if (rule.directoryOnly && !isDirectory) continue;
+
+      let candidate = path;
+      if (rule.base) {
+        if (!path.startsWith(`${rule.base}/`)) continue;
+        candidate = path.slice(rule.base.length + 1);
+      }
+
+      if (rule.regex.test(candidate)) {
+        ignored = !rule.negated;
+      }
+    }
+    return ignored;
+  }
+}
+
+/**
+ * Load the `.alexandriaignore` files that apply to the given paths: the one at
+ * the repository root and any in the paths' parent directories.
+ *
+ * @param repositoryRoot - Absolute path of the repository
+ * @param relativePaths - Root-relative paths that will be matched
+ */
+export function loadAlexandriaIgnore(
+  fs: FileSystemAdapter,
+  repositoryRoot: string,
+  relativePaths: string[],
+): IgnoreMatcher {
+  const directories = new Set<string>([""]);
+  for (const path of relativePaths) {
+    const segments = trimSlashes(path.replace(/^\.\//, "")).split("/");
+    for (let i = 1; i < segments.length; i++) {
+      directories.add(segments.slice(0, i).join("/"));
+    }
+  }
+
+  const depth = (dir: string) => (dir ? dir.split("/").length : 0);
+  const ordered = [...directories].sort(
+    (a, b) => depth(a) - depth(b) || a.localeCompare(b),
+  );
+
+  const matcher = new IgnoreMatcher();
+  for (const dir of ordered) {
+    const ignorePath = fs.join(
+      repositoryRoot,
+      dir,
+      ALEXANDRIA_DIRS.IGNORE_FILE,
+    );
+    if (fs.exists(ignorePath) && !fs.isDirectory(ignorePath)) {
+      matcher.add(fs.readFile(ignorePath), dir);
+    }
+  }
+  return matcher;
+}
+
+function parseRule(line: string, base: string): IgnoreRule | null {
+  // Trailing spaces are ignored unless escaped
+  let pattern = line;
+  while (pattern.endsWith(" ") && !pattern.endsWith("\\ ")) {
+    pattern = pattern.slice(0, -1);
+  }
+  if (!pattern || pattern.startsWith("#")) {
+    return null;
+  }
+
+  let negated = false;
+  if (pattern.startsWith("!")) {
+    negated = true;
+    pattern = pattern.slice(1);
+  }
+
+  let directoryOnly = false;
+  if (pattern.endsWith("/") && !pattern.endsWith("\\/")) {
+    directoryOnly = true;
+    pattern = pattern.replace(/\/+$/, "");
+  }
+
+  // A slash anywhere but the end anchors the pattern to the ignore file's
+  // directory; otherwise it matches a name at any depth
+  const anchored = pattern.includes("/");
+  pattern = pattern.replace(/^\/+/, "");
+  if (!pattern) {
+    return null;
+  }
+
+  const source = (anchored ? "" : "(?:.*/)?") + globToRegexSource(pattern);
+  return {
+    base,
+    regex: new RegExp(`^${source}$`),
+    negated,
+    directoryOnly,
+  };
+}
+
+function globToRegexSource(pattern: string): string {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === "\\" && i + 1 < pattern.length) {
+      source += escapeRegex(pattern[++i]);
+    } else if (char === "*") {
+      const wholeSegment = i === 0 || pattern[i - 1] === "/";
+      if (pattern[i + 1] === "*" && wholeSegment && pattern[i + 2] === "/") {
+        // "**/" matches zero or more directories
+        source += "(?:.*/)?";
+        i += 2;
+      } else if (
+        pattern[i + 1] === "*" &&
+        wholeSegment &&
+        i + 2 === pattern.length
+      ) {
+        // A trailing "**" matches everything inside
+        source += ".*";
+        i += 1;
+      } else {
+        // Any other run of asterisks stays within one path segment
+        while (pattern[i + 1] === "*") i++;
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = pattern.indexOf("]", i + 2);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        const range = pattern.slice(i + 1, end);
+        source += `[${range.startsWith("!") ? `^${range.slice(1)}` : range}]`;
+        i = end;
+      }
+    } else {
+      source += escapeRegex(char);
+    }
+  }
+  return source;
+}
+
+function escapeRegex(char: string): string {
+  return char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+function trimSlashes(path: string): string {
+  return path.replace(/^\/+|\/+$/g, "");
+}
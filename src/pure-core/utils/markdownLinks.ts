@@ -0,0 +1,474 @@
+/**
+ * Markdown link analysis
+ *
+ * Extracts the links of a markdown document and checks its relative links
+ * against the repository: the linked file must exist, and a `#heading`
+ * anchor into a markdown file must name one of its headings. Headings are
+ * turned into anchors the way GitHub does. Links with a scheme (`https:`,
+ * `mailto:`) and links that leave the repository are not checked.
+ */
+
+import { FileSystemAdapter } from "../abstractions/filesystem";
+
+/** A link or image in a markdown document */
+export interface MarkdownLink {
+  text: string;
+  /** Destination as written, e.g. "../src/auth.ts" or "guide.md#setup" */
+  target: string;
+  image: boolean;
+  /** 1-based position of the link's opening bracket */
+  line: number;
+  column: number;
+  /** Offset of `target` in the document, for rewriting it */
+  targetOffset: number;
+}
+
+/** A heading of a markdown document */
+export interface MarkdownHeading {
+  text: string;
+  /** 1 for `#`, 2 for `##` and so on */
+  level: number;
+  /** 1-based line of the heading text */
+  line: number;
+  /** Anchor that links to the heading, without "#" */
+  anchor: string;
+}
+
+/** An inline code span of a markdown document */
+export interface MarkdownInlineCode {
+  /** Code between the backticks, trimmed */
+  code: string;
+  /** 1-based position of the opening backtick */
+  line: number;
+  column: number;
+}
+
+/** A relative link whose file or heading does not exist */
+export interface BrokenMarkdownLink {
+  link: MarkdownLink;
+  reason: "missing_file" | "missing_anchor";
+  /** Linked path relative to the repository root */
+  path: string;
+  /** The `#heading` anchor of the link, decoded */
+  anchor?: string;
+  /** Anchors of the linked document, for missing anchors */
+  headings?: string[];
+}
+
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const INLINE_LINK_PATTERN =
+  /(!?)\[((?:[^[\]]|\[[^[\]]*\])*)\]\(\s*(<[^>\n]*>|[^\s)]+)(?:\s+(?:"[^"\n]*"|'[^'\n]*'))?\s*\)/g;
+// Footnote definitions ("[^1]: ...") are not links
+const REFERENCE_DEFINITION_PATTERN =
+  /^ {0,3}\[(?!\^)([^\]]+)\]:[ \t]*(<[^>\n]*>|\S+)/;
+const ATX_HEADING_PATTERN = /^ {0,3}(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const CODE_SPAN_PATTERN = /(?<!`)(`+)(?!`)(.*?)\1(?!`)/g;
+const SETEXT_UNDERLINE_PATTERN = /^ {0,3}(?:=+|-+)[ \t]*$/;
+const HTML_ANCHOR_PATTERN =
+  /<[a-z][^>]*?\s(?:id|name)\s*=\s*["']([^"']+)["']/gi;
+const MARKDOWN_FILE_PATTERN = /\.mdx?$/i;
+
+/**
+ * Links, images and link reference definitions of a markdown document.
+ * Fenced code blocks and inline code are skipped.
+ */
+export function extractMarkdownLinks(content: string): MarkdownLink[] {
+  const links: MarkdownLink[] = [];
+  const rawLines = content.split("\n");
+  let offset = 0;
+
+  proseLines(content).forEach((line, index) => {
+    const lineOffset = offset;
+    offset += rawLines[index].length + 1;
+    if (line === null) return;
+
+    const definition = REFERENCE_DEFINITION_PATTERN.exec(line);
+    if (definition) {
+      const raw = definition[2];
+      const start = definition.index + definition[0].length - raw.length;
+      links.push(
+        toLink(
+          definition[1],
+          raw,
+          false,
+          index,
+          definition.index,
+          lineOffset,
+          start,
+        ),
+      );
+      return;
+    }
+
+    INLINE_LINK_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = INLINE_LINK_PATTERN.exec(line))) {
+      const image = match[1] === "!";
+      const bracket = match.index + match[1].length;
+      const raw = match[3];
+      const start = line.indexOf(raw, bracket + match[2].length + 2);
+      links.push(
+        toLink(match[2], raw, image, index, bracket, lineOffset, start),
+      );
+      // Continue inside the link text to find images within links
+      INLINE_LINK_PATTERN.lastIndex = bracket + 1;
+    }
+  });
+
+  return links;
+}
+
+/**
+ * Headings of a markdown document, ATX (`## Title`) and setext (underlined),
+ * with the anchors GitHub gives them. Repeated headings get "-1", "-2" and
+ * so on.
+ */
+export function getMarkdownHeadings(content: string): MarkdownHeading[] {
+  const headings: MarkdownHeading[] = [];
+  const counts = new Map<string, number>();
+  const addHeading = (text: string, level: number, line: number) => {
+    const slug = slugifyHeading(text);
+    const count = counts.get(slug) ?? 0;
+    counts.set(slug, count + 1);
+    headings.push({
+      text,
+      level,
+      line,
+      anchor: count === 0 ? slug : `${slug}-${count}`,
+    });
+  };
+
+  // Headings keep their inline code, so read them from the raw lines
+  const lines = rawProseLines(content);
+  lines.forEach((line, index) => {
+    if (line === null) return;
+
+    const heading = ATX_HEADING_PATTERN.exec(line);
+    const previous = index > 0 ? lines[index - 1] : null;
+    if (heading) {
+      addHeading(heading[2], heading[1].length, index + 1);
+    } else if (
+      SETEXT_UNDERLINE_PATTERN.test(line) &&
+      previous !== null &&
+      previous.trim() !== "" &&
+      !ATX_HEADING_PATTERN.test(previous)
+    ) {
+      addHeading(previous.trim(), line.trim().startsWith("=") ? 1 : 2, index);
+    }
+  });
+
+  return headings;
+}
+
+/**
+ * Anchors of a markdown document's headings and of HTML elements with an
+ * `id` or `name`.
+ */
+export function getMarkdownAnchors(content: string): string[] {
+  const anchors = getMarkdownHeadings(content).map((heading) => heading.anchor);
+  for (const line of rawProseLines(content)) {
+    for (const match of line?.matchAll(HTML_ANCHOR_PATTERN) ?? []) {
+      anchors.push(match[1]);
+    }
+  }
+  return anchors;
+}
+
+/**
+ * Inline code spans of a markdown document outside fenced code blocks.
+ */
+export function extractInlineCode(content: string): MarkdownInlineCode[] {
+  const spans: MarkdownInlineCode[] = [];
+  rawProseLines(content).forEach((line, index) => {
+    for (const match of line?.matchAll(CODE_SPAN_PATTERN) ?? []) {
+      spans.push({
+        code: match[2].trim(),
+        line: index + 1,
+        column: match.index! + 1,
+      });
+    }
+  });
+  return spans;
+}
+
+/**
+ * The anchor GitHub gives a heading: lowercase, punctuation removed and
+ * spaces turned into hyphens. Inline markup is reduced to its text.
+ */
+export function slugifyHeading(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/<[^>]+>/g, "")
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, "")
+    .replace(/\s/g, "-");
+}
+
+/**
+ * Whether a link target leaves the repository's files: a URL with a scheme
+ * or a protocol-relative URL.
+ */
+export function isExternalLink(target: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:/i.test(target) || target.startsWith("//");
+}
+
+/**
+ * Check the relative links of a markdown document.
+ *
+ * @param documentPath - Path of the document relative to the repository root
+ * @param content - The document's content
+ */
+export function findBrokenMarkdownLinks(
+  fs: FileSystemAdapter,
+  repositoryRoot: string,
+  documentPath: string,
+  content: string,
+): BrokenMarkdownLink[] {
+  const broken: BrokenMarkdownLink[] = [];
+  const anchorsByPath = new Map<string, string[]>([
+    [documentPath, getMarkdownAnchors(content)],
+  ]);
+
+  for (const link of extractMarkdownLinks(content)) {
+    if (isExternalLink(link.target)) continue;
+
+    const [pathPart, ...anchorParts] = link.target.split("#");
+    const anchor =
+      anchorParts.length > 0
+        ? decodeLinkTarget(anchorParts.join("#"))
+        : undefined;
+    const linkPath = decodeLinkTarget(pathPart.split("?")[0]);
+    const path =
+      linkPath === "" ? documentPath : resolveLinkPath(documentPath, linkPath);
+    if (path === null) continue;
+
+    const fullPath = fs.join(repositoryRoot, path);
+    if (linkPath !== "" && !fs.exists(fullPath)) {
+      broken.push({ link, reason: "missing_file", path, anchor });
+      continue;
+    }
+
+    // Only anchors into markdown documents name headings
+    if (
+      !anchor ||
+      !MARKDOWN_FILE_PATTERN.test(path) ||
+      fs.isDirectory(fullPath)
+    ) {
+      continue;
+    }
+    let anchors = anchorsByPath.get(path);
+    if (!anchors) {
+      anchors = getMarkdownAnchors(fs.readFile(fullPath));
+      anchorsByPath.set(path, anchors);
+    }
+    if (!anchors.includes(anchor.toLowerCase()) && !anchors.includes(anchor)) {
+      broken.push({
+        link,
+        reason: "missing_anchor",
+        path,
+        anchor,
+        headings: anchors,
+      });
+    }
+  }
+
+  return broken;
+}
+
+/**
+ * Repository path a link from a document points at. Links starting with "/"
+ * are relative to the repository root.
+ *
+ * @returns null when the link leaves the repository
+ */
+export function resolveLinkPath(
+  documentPath: string,
+  linkPath: string,
+): string | null {
+  const segments = linkPath.startsWith("/")
+    ? []
+    : documentPath.split("/").slice(0, -1);
+  for (const segment of linkPath.split("/")) {
+    if (segment === "" || segment === ".") continue;
+    if (segment === "..") {
+      if (segments.length === 0) return null;
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments.join("/");
+}
+
+/**
+ * Link target from a document to a repository path, relative to the
+ * document's directory.
+ */
+export function relativeLinkPath(documentPath: string, path: string): string {
+  const from = documentPath.split("/").slice(0, -1);
+  const to = path.split("/");
+  let common = 0;
+  while (
+    common < from.length &&
+    common < to.length - 1 &&
+    from[common] === to[common]
+  ) {
+    common++;
+  }
+  const up = from.slice(common).map(() => "..");
+  return [...up, ...to.slice(common)].join("/");
+}
+
+/**
+ * The candidate a missing path was most likely renamed or moved to: a file
+ * with the same name, or else one whose name is only a few edits away.
+ * Candidates sharing more directories with the missing path win ties.
+ */
+export function findClosestPath(
+  missing: string,
+  candidates: string[],
+): string | null {
+  const name = basename(missing);
+  const directories = new Set(missing.split("/").slice(0, -1));
+  const shared = (candidate: string) =>
+    candidate
+      .split("/")
+      .slice(0, -1)
+      .filter((segment) => directories.has(segment)).length;
+
+  const sameName = candidates.filter((c) => basename(c) === name);
+  const pool =
+    sameName.length > 0
+      ? sameName.map((candidate) => ({ candidate, distance: 0 }))
+      : candidates
+          .filter((c) => extension(c) === extension(name))
+          .map((candidate) => ({
+            candidate,
+            distance: editDistance(basename(candidate), name),
+          }))
+          .filter(({ distance }) => distance <= maxEdits(name));
+
+  let best: { candidate: string; distance: number } | null = null;
+  for (const entry of pool) {
+    if (
+      !best ||
+      entry.distance < best.distance ||
+      (entry.distance === best.distance &&
+        shared(entry.candidate) > shared(best.candidate))
+    ) {
+      best = entry;
+    }
+  }
+  return best?.candidate ?? null;
+}
+
+/**
+ * The anchor a missing anchor most likely became, when one is only a few
+ * edits away.
+ */
+export function findClosestAnchor(
+  missing: string,
+  anchors: string[],
+): string | null {
+  const wanted = missing.toLowerCase();
+  let best: { anchor: string; distance: number } | null = null;
+  for (const anchor of anchors) {
+    const distance = editDistance(anchor, wanted);
+    if (distance <= maxEdits(wanted) && (!best || distance < best.distance)) {
+      best = { anchor, distance };
+    }
+  }
+  return best?.anchor ?? null;
+}
+
+// Lines outside fenced code blocks with inline code blanked out, or null
+// for lines inside fenced code
+function proseLines(content: string): Array<string | null> {
+  let fence: string | undefined;
+  return content.split("\n").map((line) => {
+    const marker = FENCE_PATTERN.exec(line)?.[1];
+    if (fence) {
+      if (marker === fence) {
+        fence = undefined;
+      }
+      return null;
+    }
+    if (marker) {
+      fence = marker;
+      return null;
+    }
+    // Keep offsets: replace code spans with spaces of the same length
+    return line.replace(CODE_SPAN_PATTERN, (span) => " ".repeat(span.length));
+  });
+}
+
+// Lines outside fenced code blocks as written, or null for lines inside
+function rawProseLines(content: string): Array<string | null> {
+  const rawLines = content.split("\n");
+  return proseLines(content).map((line, index) =>
+    line === null ? null : rawLines[index],
+  );
+}
+
+function toLink(
+  text: string,
+  raw: string,
+  image: boolean,
+  lineIndex: number,
+  bracket: number,
+  lineOffset: number,
+  start: number,
+): MarkdownLink {
+  const angled = raw.startsWith("<") && raw.endsWith(">");
+  return {
+    text,
+    target: angled ? raw.slice(1, -1) : raw,
+    image,
+    line: lineIndex + 1,
+    column: bracket + 1,
+    targetOffset: lineOffset + start + (angled ? 1 : 0),
+  };
+}
+
+/**
+ * Percent-decode a link target, leaving targets that are not valid escapes
+ * as they are.
+ */
+export function decodeLinkTarget(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function basename(path: string): string {
+  return path.slice(path.lastIndexOf("/") + 1);
+}
+
+function extension(name: string): string {
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? name.slice(dot) : "";
+}
+
+// Edits a name may be away from a candidate to count as a rename
+function maxEdits(name: string): number {
+  return Math.max(2, Math.floor(name.length * 0.3));
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
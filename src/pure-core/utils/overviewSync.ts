@@ -0,0 +1,262 @@
+/**
+ * Overview sync
+ *
+ * Proposes reference group changes from the code a view's overview document
+ * talks about: links to files and inline code that names a file. Each `##`
+ * section of the document maps to the reference group named after its
+ * heading; deeper headings belong to their `##` section, and text before the
+ * first one to an "overview" group.
+ */
+
+import { ALEXANDRIA_DIRS } from "../../constants/paths";
+import { AutoFixPreview } from "../autofixes/types";
+import { CodebaseView, CodebaseViewReferenceGroup } from "../types";
+import { createUnifiedDiff } from "./diff";
+import {
+  decodeLinkTarget,
+  extractInlineCode,
+  extractMarkdownLinks,
+  getMarkdownHeadings,
+  isExternalLink,
+  resolveLinkPath,
+  slugifyHeading,
+} from "./markdownLinks";
+import {
+  getFileEntryPath,
+  getReferenceGroupFilePaths,
+  getReferenceGroupPatterns,
+} from "./referenceGroups";
+
+/** Group for files mentioned before the overview's first section */
+export const OVERVIEW_SYNC_DEFAULT_GROUP = "overview";
+
+/** A file to add to or remove from a reference group */
+export interface ViewSyncChange {
+  type: "add_file" | "remove_file";
+  referenceGroup: string;
+  path: string;
+  /** Whether the reference group is created by the proposal */
+  newGroup?: boolean;
+  /** Heading of the section that mentions an added file */
+  heading?: string;
+  /** 1-based line in the overview that mentions an added file */
+  line?: number;
+}
+
+/** Changes that would bring a view in line with its overview */
+export interface ViewSyncProposal {
+  viewId: string;
+  changes: ViewSyncChange[];
+  /** The view with the changes applied */
+  view: CodebaseView;
+  /** The changes as an update of the view file, for review before saving */
+  preview: AutoFixPreview;
+}
+
+/** A file the overview mentions, by section */
+interface Mention {
+  path: string;
+  line: number;
+  /** Reference group of the section the mention is in */
+  group: string;
+  heading?: string;
+}
+
+const MARKDOWN_FILE_PATTERN = /\.mdx?$/i;
+// Inline code that looks like a file path, with an optional :line or #L suffix
+const INLINE_PATH_PATTERN =
+  /^(\.{0,2}\/)?([\w@.-]+\/)*[\w@-][\w@.-]*\.\w+(?::\d+(?:-\d+)?|#L\d+(?:-L?\d+)?)?$/;
+
+/**
+ * Work out how a view's reference groups should change to match its
+ * overview. Files the overview mentions that no group lists are added to
+ * the group of their section, creating it when needed; files listed in a
+ * group whose section is in the overview, but mentioned nowhere in it, are
+ * removed. Links to markdown files are not code, so markdown files are
+ * neither added nor removed. Files inside a group's `directories` count as
+ * listed; `patterns` are not expanded.
+ *
+ * @param overviewPath - Path of the overview relative to the repository root
+ * @param fileExists - Whether a path relative to the repository root is a file
+ */
+export function proposeViewSync(
+  view: CodebaseView,
+  overviewPath: string,
+  content: string,
+  fileExists: (path: string) => boolean,
+): ViewSyncProposal {
+  const mentions = findMentions(overviewPath, content, fileExists);
+  const mentioned = new Set(mentions.map((mention) => mention.path));
+  const sections = new Set(mentions.map((mention) => mention.group));
+  for (const heading of getMarkdownHeadings(content)) {
+    if (heading.level === 2) {
+      sections.add(slugifyHeading(heading.text));
+    }
+  }
+
+  // Existing groups by the section they belong to
+  const groupNames = new Map<string, string>();
+  for (const name of Object.keys(view.referenceGroups ?? {})) {
+    groupNames.set(slugifyHeading(name), name);
+  }
+
+  const referenceGroups: Record<string, CodebaseViewReferenceGroup> = {
+    ...view.referenceGroups,
+  };
+  const isListed = (path: string) =>
+    Object.values(referenceGroups).some(
+      (group) =>
+        getReferenceGroupFilePaths(group).includes(path) ||
+        getReferenceGroupPatterns(group).some(
+          ({ field, pattern }) =>
+            field === "directories" && path.startsWith(pattern.slice(0, -2)),
+        ),
+    );
+
+  const changes: ViewSyncChange[] = [];
+  const createdGroups = new Set<string>();
+  let nextRow =
+    Math.max(
+      -1,
+      ...Object.values(referenceGroups).map((group) => group.coordinates[0]),
+    ) + 1;
+
+  for (const mention of mentions) {
+    if (isListed(mention.path)) continue;
+
+    let name = groupNames.get(mention.group);
+    if (name === undefined) {
+      name = mention.group;
+      groupNames.set(mention.group, name);
+      createdGroups.add(name);
+      referenceGroups[name] = { coordinates: [nextRow++, 0], files: [] };
+    }
+    const group = referenceGroups[name];
+    referenceGroups[name] = {
+      ...group,
+      files: [...(group.files ?? []), mention.path],
+    };
+
+    const change: ViewSyncChange = {
+      type: "add_file",
+      referenceGroup: name,
+      path: mention.path,
+      line: mention.line,
+    };
+    if (createdGroups.has(name)) change.newGroup = true;
+    if (mention.heading !== undefined) change.heading = mention.heading;
+    changes.push(change);
+  }
+
+  // Markdown files are never mentions, so they are never removed either
+  const isKept = (path: string) =>
+    mentioned.has(path) || MARKDOWN_FILE_PATTERN.test(path);
+  for (const [name, group] of Object.entries(view.referenceGroups ?? {})) {
+    if (!sections.has(slugifyHeading(name)) || !Array.isArray(group.files)) {
+      continue;
+    }
+    const removed = group.files
+      .map(getFileEntryPath)
+      .filter((path) => !isKept(path));
+    if (removed.length === 0) continue;
+
+    for (const path of removed) {
+      changes.push({ type: "remove_file", referenceGroup: name, path });
+    }
+    // Filter the group as updated above, so added files stay
+    const updated = referenceGroups[name];
+    referenceGroups[name] = {
+      ...updated,
+      files: (updated.files ?? []).filter((entry) =>
+        isKept(getFileEntryPath(entry)),
+      ),
+    };
+  }
+
+  const synced: CodebaseView = {
+    ...view,
+    ...(view.rows !== undefined && { rows: Math.max(view.rows, nextRow) }),
+    referenceGroups,
+  };
+  const path = `${ALEXANDRIA_DIRS.PRIMARY}/${ALEXANDRIA_DIRS.VIEWS}/${view.id}.json`;
+  const before = JSON.stringify(view, null, 2);
+  const after = JSON.stringify(synced, null, 2);
+  const added = changes.filter((change) => change.type === "add_file").length;
+
+  return {
+    viewId: view.id,
+    changes,
+    view: synced,
+    preview: {
+      description: `Add ${added} and remove ${changes.length - added} files in view "${view.id}" to match ${overviewPath}`,
+      changes:
+        changes.length === 0
+          ? []
+          : [
+              {
+                type: "file_updated",
+                path,
+                before,
+                after,
+                diff: createUnifiedDiff(path, path, before, after),
+              },
+            ],
+      risk: "moderate",
+    },
+  };
+}
+
+// Files the overview links to or names in inline code, in document order
+function findMentions(
+  overviewPath: string,
+  content: string,
+  fileExists: (path: string) => boolean,
+): Mention[] {
+  const sections = getMarkdownHeadings(content).filter(
+    (heading) => heading.level === 2,
+  );
+  const sectionAt = (line: number) =>
+    sections.filter((section) => section.line <= line).pop();
+
+  const found: Array<{ path: string; line: number; column: number }> = [];
+  for (const link of extractMarkdownLinks(content)) {
+    if (link.image || isExternalLink(link.target)) continue;
+    const linkPath = decodeLinkTarget(link.target.split("#")[0].split("?")[0]);
+    const path = linkPath ? resolveLinkPath(overviewPath, linkPath) : null;
+    if (path && !MARKDOWN_FILE_PATTERN.test(path) && fileExists(path)) {
+      found.push({ path, line: link.line, column: link.column });
+    }
+  }
+  for (const span of extractInlineCode(content)) {
+    if (!INLINE_PATH_PATTERN.test(span.code)) continue;
+    const code = span.code.replace(/(?::\d+(?:-\d+)?|#L.*)$/, "");
+    // Paths in docs are usually written from the repository root
+    const path = [
+      resolveLinkPath("", code),
+      resolveLinkPath(overviewPath, code),
+    ].find((candidate) => candidate && fileExists(candidate));
+    if (path && !MARKDOWN_FILE_PATTERN.test(path)) {
+      found.push({ path, line: span.line, column: span.column });
+    }
+  }
+  found.sort((a, b) => a.line - b.line || a.column - b.column);
+
+  const mentions: Mention[] = [];
+  const seen = new Set<string>();
+  for (const { path, line } of found) {
+    if (seen.has(path)) continue;
+    seen.add(path);
+
+    const section = sectionAt(line);
+    const mention: Mention = {
+      path,
+      line,
+      group: section
+        ? slugifyHeading(section.text)
+        : OVERVIEW_SYNC_DEFAULT_GROUP,
+    };
+    if (section) mention.heading = section.text;
+    mentions.push(mention);
+  }
+  return mentions;
+}
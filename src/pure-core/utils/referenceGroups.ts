@@ -0,0 +1,182 @@
+/**
+ * Reference group resolution
+ *
+ * Expands the `patterns` and `directories` of reference groups into files
+ * through a GlobAdapter. A file listed explicitly stays in the groups that
+ * list it. A file only matched by patterns goes to the groups with the
+ * highest `priority`; when groups tie, it stays in each and is reported as a
+ * conflict.
+ */
+
+import { FileSystemAdapter } from "../abstractions/filesystem";
+import { GlobAdapter } from "../abstractions/glob";
+import {
+  CodebaseView,
+  CodebaseViewFileEntry,
+  CodebaseViewReferenceGroup,
+  PatternValidationResult,
+} from "../types";
+import { loadAlexandriaIgnore } from "./ignore";
+
+export interface ResolvedReferenceGroups {
+  /** Files of each reference group after conflicts are resolved; explicit files first, in their listed order */
+  files: Record<string, string[]>;
+  validation: PatternValidationResult;
+}
+
+interface Claim {
+  group: string;
+  /** The file path, pattern or directory that matched */
+  source: string;
+  priority: number;
+  explicit: boolean;
+}
+
+/**
+ * Path of a reference group file entry, with or without an anchor.
+ */
+export function getFileEntryPath(entry: CodebaseViewFileEntry): string {
+  return typeof entry === "string" ? entry : entry.path;
+}
+
+/**
+ * Paths of a reference group's explicit files.
+ */
+export function getReferenceGroupFilePaths(
+  group: CodebaseViewReferenceGroup,
+): string[] {
+  return Array.isArray(group.files) ? group.files.map(getFileEntryPath) : [];
+}
+
+/** A pattern or directory of a reference group, with the glob it expands to */
+export interface ReferenceGroupPattern {
+  field: "patterns" | "directories";
+  index: number;
+  /** The entry as written in the view */
+  source: string;
+  pattern: string;
+}
+
+/**
+ * Glob patterns of a reference group: its `patterns`, and a pattern matching
+ * everything inside each of its `directories`.
+ */
+export function getReferenceGroupPatterns(
+  group: CodebaseViewReferenceGroup,
+): ReferenceGroupPattern[] {
+  const patterns = "patterns" in group ? (group.patterns ?? []) : [];
+  const directories = "directories" in group ? (group.directories ?? []) : [];
+  return [
+    ...patterns.map((pattern, index) => ({
+      field: "patterns" as const,
+      index,
+      source: pattern,
+      pattern,
+    })),
+    ...directories.map((directory, index) => ({
+      field: "directories" as const,
+      index,
+      source: directory,
+      pattern: `${directory.replace(/^\.\//, "").replace(/\/+$/, "")}/**`,
+    })),
+  ];
+}
+
+/**
+ * Resolve the files of every reference group in a view.
+ *
+ * Explicit `files` are taken as they are and win over pattern matches of
+ * any priority; patterns and directories are expanded relative to the
+ * repository root, skipping files ignored by `.gitignore` or
+ * `.alexandriaignore`. Patterns and directories that match nothing are
+ * reported in `validation.unmatchedPatterns`. Files listed explicitly in
+ * several groups are not conflicts here; file list validation reports those.
+ */
+export async function resolveReferenceGroups(
+  view: CodebaseView,
+  globAdapter: GlobAdapter,
+  fs: FileSystemAdapter,
+  repositoryRoot: string,
+): Promise<ResolvedReferenceGroups> {
+  const claims = new Map<string, Claim[]>();
+  const unmatchedPatterns: string[] = [];
+  const claim = (path: string, entry: Claim) => {
+    const existing = claims.get(path);
+    if (existing) {
+      existing.push(entry);
+    } else {
+      claims.set(path, [entry]);
+    }
+  };
+
+  const files: Record<string, string[]> = {};
+  const patternMatches: Array<{ matches: string[]; claim: Claim }> = [];
+  for (const [groupName, group] of Object.entries(view.referenceGroups ?? {})) {
+    files[groupName] = [];
+    const priority = group.priority ?? 0;
+
+    for (const file of getReferenceGroupFilePaths(group)) {
+      claim(file, { group: groupName, source: file, priority, explicit: true });
+    }
+
+    for (const { source, pattern } of getReferenceGroupPatterns(group)) {
+      const matches = await globAdapter.findFiles([pattern], {
+        cwd: repositoryRoot,
+        onlyFiles: true,
+        gitignore: true,
+      });
+      patternMatches.push({
+        matches,
+        claim: { group: groupName, source, priority, explicit: false },
+      });
+    }
+  }
+
+  // Skip what the lint engine's file scan skips
+  const ignore = loadAlexandriaIgnore(
+    fs,
+    repositoryRoot,
+    patternMatches.flatMap(({ matches }) => matches),
+  );
+  for (const { matches, claim: entry } of patternMatches) {
+    const kept = ignore.filter(matches);
+    if (kept.length === 0) {
+      unmatchedPatterns.push(entry.source);
+    }
+    for (const match of kept) {
+      claim(match, entry);
+    }
+  }
+
+  const conflicts: NonNullable<PatternValidationResult["conflicts"]> = [];
+  for (const [path, pathClaims] of claims) {
+    const explicit = pathClaims.filter((c) => c.explicit);
+    const highest = Math.max(...pathClaims.map((c) => c.priority));
+    const winners =
+      explicit.length > 0
+        ? explicit
+        : pathClaims.filter((c) => c.priority === highest);
+    const groups = [...new Set(winners.map((c) => c.group))];
+
+    for (const group of groups) {
+      files[group].push(path);
+    }
+    if (groups.length > 1 && winners.some((c) => !c.explicit)) {
+      conflicts.push({
+        path,
+        patterns: [...new Set(winners.map((c) => c.source))],
+        referenceGroups: groups,
+      });
+    }
+  }
+
+  return {
+    files,
+    validation: {
+      valid: unmatchedPatterns.length === 0 && conflicts.length === 0,
+      matchedPaths: [...claims.keys()].sort(),
+      unmatchedPatterns,
+      conflicts,
+    },
+  };
+}
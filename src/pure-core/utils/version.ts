@@ -0,0 +1,23 @@
+/**
+ * Dotted numeric versions, as used by config and view schema versions.
+ * Pure JavaScript so it works in every environment.
+ */
+
+/** Versions like "1", "1.2" or "1.2.3" */
+export const VERSION_PATTERN = /^\d+(\.\d+){0,2}$/;
+
+/**
+ * Compare dotted numeric versions; missing parts count as 0.
+ * Returns a negative number when `a` is older, positive when newer.
+ */
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split(".").map(Number);
+  const partsB = b.split(".").map(Number);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const difference = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
@@ -0,0 +1,249 @@
+/**
+ * View link graph
+ *
+ * Views link to other views by id, from the view itself (`links`) or from
+ * one of its reference groups. ViewGraph is the directed graph of those
+ * links, for navigating between views and finding broken, circular and
+ * missing links.
+ */
+
+import { CodebaseView } from "../types";
+
+/** A link from one view to another */
+export interface ViewLink {
+  /** Id of the linking view */
+  from: string;
+  /** Id of the linked view; may name a view that does not exist */
+  to: string;
+  /** Label of the link */
+  label: string;
+  /** Reference group the link is declared on; absent for view-level links */
+  referenceGroup?: string;
+}
+
+/**
+ * Directed graph of the links between views. Nodes are the ids of the given
+ * views; links to other ids are kept but only reported by getBrokenLinks().
+ */
+export class ViewGraph {
+  private viewIds: string[];
+  private links: ViewLink[] = [];
+  private outgoing = new Map<string, ViewLink[]>();
+  private incoming = new Map<string, ViewLink[]>();
+
+  constructor(views: CodebaseView[]) {
+    this.viewIds = views.map((view) => view.id);
+    for (const id of this.viewIds) {
+      this.outgoing.set(id, []);
+      this.incoming.set(id, []);
+    }
+
+    for (const view of views) {
+      const addLinks = (
+        links: CodebaseView["links"],
+        referenceGroup?: string,
+      ) => {
+        for (const [to, label] of Object.entries(links ?? {})) {
+          const link: ViewLink = { from: view.id, to, label };
+          if (referenceGroup !== undefined) {
+            link.referenceGroup = referenceGroup;
+          }
+          this.links.push(link);
+          this.outgoing.get(view.id)!.push(link);
+          this.incoming.get(to)?.push(link);
+        }
+      };
+
+      addLinks(view.links);
+      for (const [groupName, group] of Object.entries(
+        view.referenceGroups ?? {},
+      )) {
+        addLinks(group.links, groupName);
+      }
+    }
+  }
+
+  /** Ids of the views in the graph, in the order they were given */
+  getViewIds(): string[] {
+    return [...this.viewIds];
+  }
+
+  hasView(viewId: string): boolean {
+    return this.outgoing.has(viewId);
+  }
+
+  /** Every link, including broken ones */
+  getLinks(): ViewLink[] {
+    return [...this.links];
+  }
+
+  /** Links declared by a view and its reference groups */
+  getOutgoingLinks(viewId: string): ViewLink[] {
+    return [...(this.outgoing.get(viewId) ?? [])];
+  }
+
+  /** Links to a view from any view, including itself */
+  getIncomingLinks(viewId: string): ViewLink[] {
+    return [...(this.incoming.get(viewId) ?? [])];
+  }
+
+  /**
+   * Existing views a view links to
+   */
+  getNeighbors(viewId: string): string[] {
+    return unique(
+      this.getOutgoingLinks(viewId)
+        .map((link) => link.to)
+        .filter((to) => this.hasView(to)),
+    );
+  }
+
+  /**
+   * Views that link to a view
+   */
+  getBacklinks(viewId: string): string[] {
+    return unique(this.getIncomingLinks(viewId).map((link) => link.from));
+  }
+
+  /** Links to view ids that are not in the graph */
+  getBrokenLinks(): ViewLink[] {
+    return this.links.filter((link) => !this.hasView(link.to));
+  }
+
+  /**
+   * Views no other view links to. Links from a view to itself do not count.
+   */
+  getUnlinkedViews(): string[] {
+    return this.viewIds.filter((id) =>
+      this.getIncomingLinks(id).every((link) => link.from === id),
+    );
+  }
+
+  /**
+   * Shortest chain of links from one view to another, following link
+   * direction, as the ids of the views on it from `from` to `to`.
+   *
+   * @returns null when either view is missing or `to` cannot be reached
+   */
+  findShortestPath(from: string, to: string): string[] | null {
+    if (!this.hasView(from) || !this.hasView(to)) {
+      return null;
+    }
+
+    const previous = new Map<string, string | null>([[from, null]]);
+    const queue = [from];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (current === to) {
+        const path: string[] = [];
+        for (let id: string | null = to; id !== null; id = previous.get(id)!) {
+          path.unshift(id);
+        }
+        return path;
+      }
+      for (const next of this.getNeighbors(current)) {
+        if (!previous.has(next)) {
+          previous.set(next, current);
+          queue.push(next);
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Groups of views connected by links in either direction. Each group lists
+   * its views in the graph's order; groups are ordered by their first view.
+   */
+  getConnectedComponents(): string[][] {
+    const undirected = new Map<string, Set<string>>(
+      this.viewIds.map((id) => [id, new Set<string>()]),
+    );
+    for (const link of this.links) {
+      if (this.hasView(link.to)) {
+        undirected.get(link.from)!.add(link.to);
+        undirected.get(link.to)!.add(link.from);
+      }
+    }
+
+    const seen = new Set<string>();
+    const components: string[][] = [];
+    for (const id of this.viewIds) {
+      if (seen.has(id)) continue;
+
+      const members = new Set<string>([id]);
+      const stack = [id];
+      seen.add(id);
+      while (stack.length > 0) {
+        for (const next of undirected.get(stack.pop()!)!) {
+          if (!seen.has(next)) {
+            seen.add(next);
+            members.add(next);
+            stack.push(next);
+          }
+        }
+      }
+      components.push(this.viewIds.filter((view) => members.has(view)));
+    }
+    return components;
+  }
+
+  /**
+   * Groups of views that link to each other in a circle, found as the
+   * strongly connected components with more than one view, or a single view
+   * that links to itself.
+   */
+  findCycles(): string[][] {
+    // Tarjan's algorithm
+    let counter = 0;
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const cycles: string[][] = [];
+
+    const visit = (id: string) => {
+      index.set(id, counter);
+      lowLink.set(id, counter);
+      counter++;
+      stack.push(id);
+      onStack.add(id);
+
+      for (const next of this.getNeighbors(id)) {
+        if (!index.has(next)) {
+          visit(next);
+          lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(next)!));
+        } else if (onStack.has(next)) {
+          lowLink.set(id, Math.min(lowLink.get(id)!, index.get(next)!));
+        }
+      }
+
+      if (lowLink.get(id) === index.get(id)) {
+        const members = new Set<string>();
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          members.add(member);
+        } while (member !== id);
+
+        if (members.size > 1 || this.getNeighbors(id).includes(id)) {
+          cycles.push(this.viewIds.filter((view) => members.has(view)));
+        }
+      }
+    };
+
+    for (const id of this.viewIds) {
+      if (!index.has(id)) {
+        visit(id);
+      }
+    }
+    return cycles.sort(
+      (a, b) => this.viewIds.indexOf(a[0]) - this.viewIds.indexOf(b[0]),
+    );
+  }
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
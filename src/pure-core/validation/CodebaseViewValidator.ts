@@ -2,11 +2,21 @@
  * CodebaseView Validation - Platform-agnostic validation logic
  *
  * This module provides essential validation for CodebaseView objects,
- * focusing on required fields and file path validation.
+ * focusing on required fields, file path validation and the line ranges of
+ * anchored file references.
  */
 
 import { FileSystemAdapter } from "../abstractions/filesystem";
 import { CodebaseView, ValidatedRepositoryPath } from "../types";
+import {
+  checkLineRange,
+  countLines,
+  isAnchorFingerprint,
+  isLineRange,
+} from "../utils/anchors";
+import { getFileEntryPath } from "../utils/referenceGroups";
+import { VERSION_PATTERN } from "../utils/version";
+import { CURRENT_VIEW_VERSION } from "../stores/CodebaseViewMigrations";
 
 export type ValidationSeverity = "error" | "warning" | "info";
 
@@ -157,6 +167,14 @@ export class CodebaseViewValidator {
         message: "View version must be a string if provided",
         location: "view.version",
       });
+    } else if (view.version && !VERSION_PATTERN.test(view.version)) {
+      issues.push({
+        severity: "error",
+        type: "invalid_version",
+        message: `View version "${view.version}" is not a valid version, so the view cannot be migrated`,
+        location: "view.version",
+        context: `Use a version like "${CURRENT_VIEW_VERSION}"`,
+      });
     }
 
     // Description is required
@@ -226,31 +244,73 @@ export class CodebaseViewValidator {
           });
         }
 
-        // Reference group must have files array
-        if (!referenceGroup.files || !Array.isArray(referenceGroup.files)) {
+        // Reference group must have a files array, unless it matches files
+        // through patterns or directories
+        const matchesByPattern =
+          "patterns" in referenceGroup || "directories" in referenceGroup;
+        if (
+          !matchesByPattern &&
+          (!referenceGroup.files || !Array.isArray(referenceGroup.files))
+        ) {
           issues.push({
             severity: "error",
             type: "missing_reference_group_files",
-            message: "Reference group must have files array",
+            message:
+              "Reference group must have a files, patterns or directories array",
             location: `${location}.files`,
           });
-        } else {
-          // Validate file paths are strings and relative
-          referenceGroup.files.forEach((filePath, index) => {
-            if (typeof filePath !== "string") {
+          return;
+        }
+
+        // Validate paths are strings and relative
+        const lists: Array<[string, unknown]> = [
+          ["files", referenceGroup.files],
+        ];
+        if ("patterns" in referenceGroup) {
+          lists.push(["patterns", referenceGroup.patterns]);
+        }
+        if ("directories" in referenceGroup) {
+          lists.push(["directories", referenceGroup.directories]);
+        }
+        for (const [key, entries] of lists) {
+          if (entries === undefined) {
+            continue;
+          }
+          if (!Array.isArray(entries)) {
+            issues.push({
+              severity: "error",
+              type: "invalid_field_type",
+              message: `Reference group ${key} must be an array`,
+              location: `${location}.${key}`,
+            });
+            continue;
+          }
+          entries.forEach((entry: unknown, index) => {
+            let entryLocation = `${location}.${key}[${index}]`;
+            let path = entry;
+
+            // Files can be anchored: { path, lines?, symbol? }
+            if (key === "files" && typeof entry === "object" && entry) {
+              const reference = entry as Record<string, unknown>;
+              this.validateAnchor(reference, entryLocation, issues);
+              entryLocation = `${entryLocation}.path`;
+              path = reference.path;
+            }
+
+            if (typeof path !== "string") {
               issues.push({
                 severity: "error",
                 type: "invalid_file_path",
                 message: "File path must be a string",
-                location: `${location}.files[${index}]`,
+                location: entryLocation,
               });
-            } else if (filePath.startsWith("/")) {
+            } else if (path.startsWith("/")) {
               issues.push({
                 severity: "error",
                 type: "absolute_file_path",
                 message: "File paths must be relative to repository root",
-                location: `${location}.files[${index}]`,
-                context: `Found: "${filePath}"`,
+                location: entryLocation,
+                context: `Found: "${path}"`,
               });
             }
           });
@@ -272,6 +332,49 @@ export class CodebaseViewValidator {
     }
   }
 
+  /**
+   * Validate the line range, fingerprint and symbol of an anchored file reference
+   */
+  private validateAnchor(
+    reference: Record<string, unknown>,
+    location: string,
+    issues: ValidationIssue[],
+  ): void {
+    if (reference.lines !== undefined && !isLineRange(reference.lines)) {
+      issues.push({
+        severity: "error",
+        type: "invalid_line_range",
+        message: "Line range must be [start, end] with 1 <= start <= end",
+        location: `${location}.lines`,
+        context: `Found: ${JSON.stringify(reference.lines)}`,
+      });
+    }
+    if (
+      reference.symbol !== undefined &&
+      (typeof reference.symbol !== "string" || !reference.symbol.trim())
+    ) {
+      issues.push({
+        severity: "error",
+        type: "invalid_field_type",
+        message: "Symbol must be a non-empty string",
+        location: `${location}.symbol`,
+      });
+    }
+    if (
+      reference.fingerprint !== undefined &&
+      isLineRange(reference.lines) &&
+      !isAnchorFingerprint(reference.fingerprint, reference.lines)
+    ) {
+      issues.push({
+        severity: "error",
+        type: "invalid_fingerprint",
+        message:
+          "Fingerprint does not match the line range; remove it to fingerprint the range again",
+        location: `${location}.fingerprint`,
+      });
+    }
+  }
+
   /**
    * Validate that referenced files exist in the repository
    */
@@ -299,7 +402,9 @@ export class CodebaseViewValidator {
       Object.entries(view.referenceGroups).forEach(
         ([groupName, referenceGroup]) => {
           if (referenceGroup.files && Array.isArray(referenceGroup.files)) {
-            referenceGroup.files.forEach((filePath, index) => {
+            referenceGroup.files.forEach((entry, index) => {
+              const filePath = entry && getFileEntryPath(entry);
+              const location = `view.referenceGroups.${groupName}.files[${index}]`;
               if (typeof filePath === "string" && !filePath.startsWith("/")) {
                 const fullPath = this.fs.join(repositoryPath, filePath);
                 if (!this.fs.exists(fullPath)) {
@@ -307,10 +412,49 @@ export class CodebaseViewValidator {
                     severity: "warning",
                     type: "missing_reference_group_file",
                     message: `File not found: ${filePath}`,
-                    location: `view.referenceGroups.${groupName}.files[${index}]`,
+                    location,
                     context:
                       "Missing files will not appear in the visualization",
                   });
+                } else if (
+                  typeof entry === "object" &&
+                  isLineRange(entry.lines)
+                ) {
+                  const problem = checkLineRange(
+                    entry.lines,
+                    countLines(this.fs.readFile(fullPath)),
+                  );
+                  if (problem) {
+                    issues.push({
+                      severity: "warning",
+                      type: "line_range_out_of_bounds",
+                      message: `${problem}: ${filePath}`,
+                      location: `${location}.lines`,
+                    });
+                  }
+                }
+              }
+            });
+          }
+          if (
+            "directories" in referenceGroup &&
+            Array.isArray(referenceGroup.directories)
+          ) {
+            referenceGroup.directories.forEach((directory, index) => {
+              if (typeof directory === "string" && !directory.startsWith("/")) {
+                const fullPath = this.fs.join(repositoryPath, directory);
+                if (
+                  !this.fs.exists(fullPath) ||
+                  !this.fs.isDirectory(fullPath)
+                ) {
+                  issues.push({
+                    severity: "warning",
+                    type: "missing_reference_group_directory",
+                    message: `Directory not found: ${directory}`,
+                    location: `view.referenceGroups.${groupName}.directories[${index}]`,
+                    context:
+                      "The reference group will not match any files from it",
+                  });
                 }
               }
             });
@@ -357,7 +501,8 @@ export class CodebaseViewValidator {
       Object.entries(view.referenceGroups).forEach(
         ([groupName, referenceGroup]) => {
           if (referenceGroup.files && Array.isArray(referenceGroup.files)) {
-            referenceGroup.files.forEach((filePath) => {
+            referenceGroup.files.forEach((entry) => {
+              const filePath = entry && getFileEntryPath(entry);
               if (typeof filePath === "string" && !filePath.startsWith("/")) {
                 // Check if file is within scope
                 if (
@@ -0,0 +1,351 @@
+/**
+ * Formatters that turn a LibraryLintResult into report text.
+ *
+ * Each formatter is a pure function with no I/O so it can run in any
+ * environment; LintReporter decides where the output goes.
+ */
+
+import { ReportingFormat } from "../config/types";
+import {
+  LibraryLintResult,
+  LibraryRule,
+  LibraryRuleSeverity,
+  LibraryRuleViolation,
+} from "../rules/types";
+
+export interface LintFormatOptions {
+  /** Include rule impact descriptions in human-readable output */
+  verbose?: boolean;
+  /** Registered rules, used for rule metadata in SARIF output */
+  rules?: LibraryRule[];
+  /** Version reported as the tool version in SARIF output */
+  toolVersion?: string;
+}
+
+export type LintFormatter = (
+  result: LibraryLintResult,
+  options?: LintFormatOptions,
+) => string;
+
+const TOOL_NAME = "alexandria";
+const TOOL_URI = "https://github.com/principal-ai/alexandria-core-library";
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+
+/**
+ * Human-readable description of a violation's location.
+ */
+function formatLocation(violation: LibraryRuleViolation): string {
+  if (!violation.file) {
+    return "(project)";
+  }
+  if (violation.line === undefined) {
+    return violation.file;
+  }
+  return violation.column !== undefined
+    ? `${violation.file}:${violation.line}:${violation.column}`
+    : `${violation.file}:${violation.line}`;
+}
+
+function formatSummary(result: LibraryLintResult): string {
+  const total = result.violations.length;
+  const summary =
+    total === 0
+      ? `No ${result.baseline ? "new " : ""}problems found`
+      : `${total} ${result.baseline ? "new " : ""}problem${total === 1 ? "" : "s"} ` +
+        `(${result.errorCount} error${result.errorCount === 1 ? "" : "s"}, ` +
+        `${result.warningCount} warning${result.warningCount === 1 ? "" : "s"}, ` +
+        `${result.infoCount} info)` +
+        (result.fixableCount > 0
+          ? `, ${result.fixableCount} potentially fixable`
+          : "");
+  return summary + formatBaselineSummary(result);
+}
+
+function formatBaselineSummary(result: LibraryLintResult): string {
+  if (!result.baseline) {
+    return "";
+  }
+  const { matched, resolved } = result.baseline;
+  const resolvedCount = resolved.reduce((sum, entry) => sum + entry.count, 0);
+  return (
+    `; ${matched} baselined` +
+    (resolvedCount > 0
+      ? `, ${resolvedCount} no longer reported (update the baseline to remove them)`
+      : "")
+  );
+}
+
+/**
+ * Group violations by file, keeping project-level violations first.
+ */
+function groupByFile(
+  violations: LibraryRuleViolation[],
+): Map<string, LibraryRuleViolation[]> {
+  const groups = new Map<string, LibraryRuleViolation[]>();
+  for (const violation of violations) {
+    const key = violation.file ?? "";
+    const group = groups.get(key) ?? [];
+    group.push(violation);
+    groups.set(key, group);
+  }
+  return new Map([...groups.entries()].sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Plain text report, grouped by file.
+ */
+export const formatText: LintFormatter = (result, options = {}) => {
+  const lines: string[] = [];
+
+  for (const [file, violations] of groupByFile(result.violations)) {
+    lines.push(file || "(project)");
+    for (const violation of violations) {
+      const position =
+        violation.line === undefined
+          ? "-"
+          : violation.column === undefined
+            ? `${violation.line}`
+            : `${violation.line}:${violation.column}`;
+      lines.push(
+        `  ${position.padEnd(8)}${violation.severity.padEnd(9)}${violation.message}  ${violation.ruleId}`,
+      );
+      if (options.verbose) {
+        lines.push(`        impact: ${violation.impact}`);
+      }
+    }
+    lines.push("");
+  }
+
+  lines.push(formatSummary(result));
+  return lines.join("\n") + "\n";
+};
+
+/**
+ * The lint result as pretty-printed JSON.
+ */
+export const formatJson: LintFormatter = (result) => {
+  return JSON.stringify(result, null, 2) + "\n";
+};
+
+/**
+ * Self-contained HTML report with one table row per violation.
+ */
+export const formatHtml: LintFormatter = (result, options = {}) => {
+  const rows = result.violations
+    .map((violation) => {
+      const cells = [
+        `<td class="severity ${violation.severity}">${violation.severity}</td>`,
+        `<td>${escapeXml(formatLocation(violation))}</td>`,
+        `<td>${escapeXml(violation.message)}${
+          options.verbose
+            ? `<div class="impact">${escapeXml(violation.impact)}</div>`
+            : ""
+        }</td>`,
+        `<td><code>${escapeXml(violation.ruleId)}</code></td>`,
+      ];
+      return `      <tr>${cells.join("")}</tr>`;
+    })
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Alexandria Lint Report</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { border-bottom: 1px solid #ddd; padding: 0.4rem; text-align: left; vertical-align: top; }
+    .error { color: #c62828; }
+    .warning { color: #ef6c00; }
+    .info { color: #1565c0; }
+    .impact { color: #666; font-size: 0.9em; }
+  </style>
+</head>
+<body>
+  <h1>Alexandria Lint Report</h1>
+  <p>${escapeXml(formatSummary(result))}</p>
+  <table>
+    <thead>
+      <tr><th>Severity</th><th>Location</th><th>Message</th><th>Rule</th></tr>
+    </thead>
+    <tbody>
+${rows}
+    </tbody>
+  </table>
+</body>
+</html>
+`;
+};
+
+function toSarifLevel(severity: LibraryRuleSeverity): string {
+  switch (severity) {
+    case "error":
+      return "error";
+    case "warning":
+      return "warning";
+    default:
+      return "note";
+  }
+}
+
+/**
+ * SARIF 2.1.0 log suitable for code-scanning upload.
+ */
+export const formatSarif: LintFormatter = (result, options = {}) => {
+  const ruleIds = new Set(result.violations.map((v) => v.ruleId));
+  for (const rule of options.rules ?? []) {
+    ruleIds.add(rule.id);
+  }
+  const ruleList = [...ruleIds].sort();
+  const ruleIndex = new Map(ruleList.map((id, index) => [id, index]));
+  const rulesById = new Map((options.rules ?? []).map((r) => [r.id, r]));
+
+  const sarif = {
+    $schema: SARIF_SCHEMA,
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: TOOL_NAME,
+            informationUri: TOOL_URI,
+            ...(options.toolVersion && { version: options.toolVersion }),
+            rules: ruleList.map((id) => {
+              const rule = rulesById.get(id);
+              return {
+                id,
+                ...(rule && {
+                  name: rule.name,
+                  shortDescription: { text: rule.description },
+                  fullDescription: { text: rule.impact },
+                  defaultConfiguration: { level: toSarifLevel(rule.severity) },
+                  properties: { category: rule.category },
+                }),
+              };
+            }),
+          },
+        },
+        results: result.violations.map((violation) => ({
+          ruleId: violation.ruleId,
+          ruleIndex: ruleIndex.get(violation.ruleId),
+          level: toSarifLevel(violation.severity),
+          message: { text: violation.message },
+          ...(violation.file && {
+            locations: [
+              {
+                physicalLocation: {
+                  artifactLocation: { uri: violation.file },
+                  ...(violation.line !== undefined && {
+                    region: {
+                      startLine: violation.line,
+                      ...(violation.column !== undefined && {
+                        startColumn: violation.column,
+                      }),
+                    },
+                  }),
+                },
+              },
+            ],
+          }),
+        })),
+      },
+    ],
+  };
+
+  return JSON.stringify(sarif, null, 2) + "\n";
+};
+
+/**
+ * JUnit XML report with one test suite per rule and one failing test case
+ * per error or warning. Info violations are recorded as passing cases.
+ */
+export const formatJunit: LintFormatter = (result) => {
+  const byRule = new Map<string, LibraryRuleViolation[]>();
+  for (const violation of result.violations) {
+    const group = byRule.get(violation.ruleId) ?? [];
+    group.push(violation);
+    byRule.set(violation.ruleId, group);
+  }
+
+  const failureCount = result.errorCount + result.warningCount;
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${TOOL_NAME}" tests="${result.violations.length}" failures="${failureCount}">`,
+  ];
+
+  for (const [ruleId, violations] of [...byRule.entries()].sort(([a], [b]) =>
+    a.localeCompare(b),
+  )) {
+    const failures = violations.filter((v) => v.severity !== "info").length;
+    lines.push(
+      `  <testsuite name="${escapeXml(ruleId)}" tests="${violations.length}" failures="${failures}">`,
+    );
+    for (const violation of violations) {
+      const name = escapeXml(formatLocation(violation));
+      lines.push(
+        `    <testcase classname="${escapeXml(ruleId)}" name="${name}">`,
+      );
+      if (violation.severity === "info") {
+        lines.push(
+          `      <system-out>${escapeXml(violation.message)}</system-out>`,
+        );
+      } else {
+        lines.push(
+          `      <failure type="${violation.severity}" message="${escapeXml(violation.message)}">${escapeXml(violation.impact)}</failure>`,
+        );
+      }
+      lines.push("    </testcase>");
+    }
+    lines.push("  </testsuite>");
+  }
+
+  lines.push("</testsuites>");
+  return lines.join("\n") + "\n";
+};
+
+/**
+ * Formatters keyed by the `reporting.format` value they implement.
+ */
+export const LINT_FORMATTERS: Record<ReportingFormat, LintFormatter> = {
+  text: formatText,
+  json: formatJson,
+  html: formatHtml,
+  sarif: formatSarif,
+  junit: formatJunit,
+};
+
+/**
+ * File extension used when a report of the given format is written to disk.
+ */
+export const REPORT_FILE_EXTENSIONS: Record<ReportingFormat, string> = {
+  text: "txt",
+  json: "json",
+  html: "html",
+  sarif: "sarif",
+  junit: "xml",
+};
+
+/**
+ * Format a lint result in the requested report format.
+ */
+export function formatLintResult(
+  result: LibraryLintResult,
+  format: ReportingFormat,
+  options: LintFormatOptions = {},
+): string {
+  const formatter = LINT_FORMATTERS[format];
+  if (!formatter) {
+    throw new Error(`Unsupported report format: ${format}`);
+  }
+  return formatter(result, options);
+}
@@ -0,0 +1,97 @@
+/**
+ * LintReporter - Delivers formatted lint results according to `reporting` config
+ *
+ * Console output goes through an injectable writer and file output goes
+ * through the FileSystemAdapter, so the reporter works in any environment.
+ */
+
+import { FileSystemAdapter } from "../pure-core/abstractions/filesystem";
+import { AlexandriaConfig, ReportingFormat } from "../config/types";
+import { DEFAULT_CONFIG } from "../config/schema";
+import { LibraryLintResult, LibraryRule } from "../rules/types";
+import { formatLintResult, REPORT_FILE_EXTENSIONS } from "./formatters";
+
+export type ReportingConfig = NonNullable<AlexandriaConfig["reporting"]>;
+
+export interface LintReporterOptions {
+  /** Receives console output. Defaults to console.log */
+  write?: (text: string) => void;
+  /** Registered rules, used for rule metadata in SARIF output */
+  rules?: LibraryRule[];
+  /** Version reported as the tool version in SARIF output */
+  toolVersion?: string;
+}
+
+export interface LintReport {
+  format: ReportingFormat;
+  content: string;
+  /** Absolute path the report was written to, if file output was requested */
+  filePath?: string;
+}
+
+/**
+ * Default report file name for a format, relative to the project root.
+ */
+export function getDefaultReportPath(format: ReportingFormat): string {
+  return `alexandria-report.${REPORT_FILE_EXTENSIONS[format]}`;
+}
+
+export class LintReporter {
+  private fs: FileSystemAdapter;
+  private reporting: ReportingConfig;
+  private options: LintReporterOptions;
+
+  constructor(
+    fsAdapter: FileSystemAdapter,
+    reporting: AlexandriaConfig["reporting"] = {},
+    options: LintReporterOptions = {},
+  ) {
+    this.fs = fsAdapter;
+    this.reporting = { ...DEFAULT_CONFIG.reporting, ...reporting };
+    this.options = options;
+  }
+
+  /**
+   * Format a lint result without delivering it.
+   */
+  format(result: LibraryLintResult, format?: ReportingFormat): string {
+    return formatLintResult(result, format ?? this.reporting.format ?? "text", {
+      verbose: this.reporting.verbose,
+      rules: this.options.rules,
+      toolVersion: this.options.toolVersion,
+    });
+  }
+
+  /**
+   * Format a lint result and deliver it to the configured outputs.
+   *
+   * @param result - The lint result to report
+   * @param projectRoot - Base directory for relative `reporting.path` values
+   */
+  report(result: LibraryLintResult, projectRoot: string): LintReport {
+    const format = this.reporting.format ?? "text";
+    const output = this.reporting.output ?? "console";
+    const content = this.format(result, format);
+    const report: LintReport = { format, content };
+
+    if (output === "console" || output === "both") {
+      (this.options.write ?? console.log)(content);
+    }
+
+    if (output === "file" || output === "both") {
+      const reportPath = this.reporting.path ?? getDefaultReportPath(format);
+      const filePath = this.fs.isAbsolute(reportPath)
+        ? reportPath
+        : this.fs.join(projectRoot, reportPath);
+
+      const dir = this.fs.dirname(filePath);
+      if (!this.fs.exists(dir)) {
+        this.fs.createDir(dir);
+      }
+      this.fs.writeFile(filePath, content);
+      report.filePath = filePath;
+    }
+
+    return report;
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * LintBaseline - Known violations that should not fail lint
+ *
+ * The baseline is stored in `.alexandria/baseline.json` and is meant to be
+ * committed. Each entry is a fingerprint of rule id, file and normalized
+ * message, so entries survive line shifts and changing counts, dates or
+ * elapsed times in messages. Entries for violations that no longer occur are reported so the
+ * baseline can be shrunk.
+ */
+
+import { FileSystemAdapter } from "../pure-core/abstractions/filesystem";
+import { ValidatedRepositoryPath } from "../pure-core/types";
+import { hashContent } from "../pure-core/utils/hash";
+import { getAlexandriaDir } from "../utils/alexandria-paths";
+import { LibraryBaselineEntry, LibraryRuleViolation } from "./types";
+
+export const BASELINE_FILENAME = "baseline.json";
+
+// Bump when the file layout or fingerprint derivation changes
+const BASELINE_VERSION = 1;
+
+// Elapsed time in stale-references messages, once numbers are normalized:
+// "was modified just after", "has not been updated for <n> days since"
+const ELAPSED_TIME_PATTERN =
+  /\b(?:was modified (?:just|<n> minutes?) after|has not been updated for <n> (?:minute|hour|day)s? since)/g;
+
+interface LintBaselineData {
+  version: number;
+  violations: LibraryBaselineEntry[];
+}
+
+/**
+ * Normalize a violation message so it stays stable as line numbers, counts,
+ * dates, elapsed times and commit hashes change.
+ */
+export function normalizeViolationMessage(message: string): string {
+  return message
+    .replace(/\b(?=[0-9a-f]*\d)[0-9a-f]{7,40}\b/gi, "<hash>")
+    .replace(/\d+(\.\d+)?/g, "<n>")
+    .replace(ELAPSED_TIME_PATTERN, "<elapsed>")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Stable identity of a violation for baseline matching.
+ */
+export function fingerprintViolation(violation: LibraryRuleViolation): string {
+  return hashContent(
+    [
+      violation.ruleId,
+      violation.file ?? "",
+      normalizeViolationMessage(violation.message),
+    ].join("\n"),
+  );
+}
+
+export class LintBaseline {
+  private fs: FileSystemAdapter;
+  readonly filePath: string;
+  private entries: LibraryBaselineEntry[];
+
+  /**
+   * @throws Error when the baseline file exists but can't be parsed
+   */
+  constructor(
+    fsAdapter: FileSystemAdapter,
+    projectRoot: ValidatedRepositoryPath,
+  ) {
+    this.fs = fsAdapter;
+    this.filePath = this.fs.join(
+      getAlexandriaDir(this.fs, projectRoot),
+      BASELINE_FILENAME,
+    );
+    this.entries = this.load();
+  }
+
+  /**
+   * Split violations into new ones and ones recorded in the baseline.
+   * Each entry covers at most `count` violations with its fingerprint.
+   *
+   * @param ranRules - Rules that ran; entries of other rules are never reported as resolved
+   */
+  compare(
+    violations: LibraryRuleViolation[],
+    ranRules: Set<string>,
+  ): {
+    newViolations: LibraryRuleViolation[];
+    matched: number;
+    resolved: LibraryBaselineEntry[];
+  } {
+    const remaining = new Map(
+      this.entries.map((entry) => [entry.fingerprint, entry.count]),
+    );
+
+    const newViolations = violations.filter((violation) => {
+      const fingerprint = fingerprintViolation(violation);
+      const count = remaining.get(fingerprint) ?? 0;
+      if (count === 0) {
+        return true;
+      }
+      remaining.set(fingerprint, count - 1);
+      return false;
+    });
+
+    const resolved = this.entries
+      .filter((entry) => ranRules.has(entry.ruleId))
+      .filter((entry) => remaining.get(entry.fingerprint)! > 0)
+      .map((entry) => ({
+        ...entry,
+        count: remaining.get(entry.fingerprint)!,
+      }));
+
+    return {
+      newViolations,
+      matched: violations.length - newViolations.length,
+      resolved,
+    };
+  }
+
+  /**
+   * Record the current violations of the rules that ran, keeping entries of
+   * rules that did not run.
+   */
+  update(violations: LibraryRuleViolation[], ranRules: Set<string>): void {
+    const entries = new Map<string, LibraryBaselineEntry>();
+    for (const violation of violations) {
+      const fingerprint = fingerprintViolation(violation);
+      const entry = entries.get(fingerprint);
+      if (entry) {
+        entry.count++;
+      } else {
+        entries.set(fingerprint, {
+          fingerprint,
+          ruleId: violation.ruleId,
+          ...(violation.file !== undefined && { file: violation.file }),
+          message: violation.message,
+          count: 1,
+        });
+      }
+    }
+
+    this.entries = [
+      ...this.entries.filter((entry) => !ranRules.has(entry.ruleId)),
+      ...entries.values(),
+    ].sort(
+      (a, b) =>
+        (a.file ?? "").localeCompare(b.file ?? "") ||
+        a.ruleId.localeCompare(b.ruleId) ||
+        a.message.localeCompare(b.message),
+    );
+  }
+
+  /**
+   * Write the baseline to disk, formatted for readable diffs.
+   */
+  save(): void {
+    const dir = this.fs.dirname(this.filePath);
+    if (!this.fs.exists(dir)) {
+      this.fs.createDir(dir);
+    }
+    const data: LintBaselineData = {
+      version: BASELINE_VERSION,
+      violations: this.entries,
+    };
+    this.fs.writeFile(this.filePath, JSON.stringify(data, null, 2) + "\n");
+  }
+
+  private load(): LibraryBaselineEntry[] {
+    if (!this.fs.exists(this.filePath)) {
+      return [];
+    }
+
+    let data: LintBaselineData;
+    try {
+      data = JSON.parse(this.fs.readFile(this.filePath)) as LintBaselineData;
+    } catch (error) {
+      throw new Error(
+        `Invalid baseline file ${this.filePath}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    if (data?.version !== BASELINE_VERSION || !Array.isArray(data.violations)) {
+      throw new Error(
+        `Invalid baseline file ${this.filePath}: expected version ${BASELINE_VERSION} with a violations array`,
+      );
+    }
+    return data.violations;
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * LintCache - Persistent rule results for incremental lint
+ *
+ * Results are stored as JSON under `.alexandria/cache`. Each entry is keyed on
+ * a hash of the configs of every package and the rule's declared inputs, so an outdated, corrupt
+ * or deleted cache only ever costs a re-run.
+ */
+
+import { FileSystemAdapter } from "../pure-core/abstractions/filesystem";
+import { ValidatedRepositoryPath } from "../pure-core/types";
+import { AlexandriaConfig } from "../config/types";
+import { hashContent } from "../pure-core/utils/hash";
+import { getCacheDir, getViewsDir } from "../utils/alexandria-paths";
+import {
+  FileInfo,
+  LibraryRule,
+  LibraryRuleContext,
+  LibraryRuleInput,
+  LibraryRuleViolation,
+} from "./types";
+
+export const LINT_CACHE_FILENAME = "lint-cache.json";
+
+// Bump when the cache layout or key derivation changes
+const LINT_CACHE_VERSION = 1;
+
+interface LintCacheEntry {
+  key: string;
+  violations: LibraryRuleViolation[];
+}
+
+interface LintCacheData {
+  version: number;
+  rules: Record<string, LintCacheEntry>;
+}
+
+export class LintCache {
+  private fs: FileSystemAdapter;
+  private filePath: string;
+  private data: LintCacheData;
+  private fingerprints = new Map<LibraryRuleInput, string>();
+
+  constructor(
+    fsAdapter: FileSystemAdapter,
+    projectRoot: ValidatedRepositoryPath,
+  ) {
+    this.fs = fsAdapter;
+    this.filePath = this.fs.join(
+      getCacheDir(this.fs, projectRoot),
+      LINT_CACHE_FILENAME,
+    );
+    this.data = this.load();
+  }
+
+  /**
+   * Cache key for a rule run, or undefined if the rule declares no inputs
+   * and therefore can't be cached.
+   *
+   * @param configs - Effective configs of the project's files and views, so
+   *                  a change to any package config invalidates the entry
+   */
+  getKey(
+    rule: LibraryRule,
+    context: LibraryRuleContext,
+    configs: Array<AlexandriaConfig | null>,
+  ): string | undefined {
+    if (!rule.inputs || rule.inputs.length === 0) {
+      return undefined;
+    }
+
+    const parts = [
+      `version:${LINT_CACHE_VERSION}`,
+      `rule:${rule.id}`,
+      `options:${JSON.stringify(rule.options ?? null)}`,
+      `configs:${JSON.stringify(configs)}`,
+      ...[...new Set(rule.inputs)]
+        .sort()
+        .map((input) => `${input}:${this.getFingerprint(input, context)}`),
+    ];
+    return hashContent(parts.join("\n"));
+  }
+
+  /**
+   * Violations recorded for a rule under the given key, if any.
+   */
+  get(ruleId: string, key: string): LibraryRuleViolation[] | undefined {
+    const entry = this.data.rules[ruleId];
+    if (!entry || entry.key !== key) {
+      return undefined;
+    }
+    return entry.violations.map((violation) => ({ ...violation }));
+  }
+
+  set(ruleId: string, key: string, violations: LibraryRuleViolation[]): void {
+    this.data.rules[ruleId] = {
+      key,
+      violations: violations.map((violation) => ({ ...violation })),
+    };
+  }
+
+  /**
+   * Write the cache to disk. Failures are reported but never fail the lint.
+   */
+  save(): void {
+    try {
+      const dir = this.fs.dirname(this.filePath);
+      if (!this.fs.exists(dir)) {
+        this.fs.createDir(dir);
+      }
+      this.fs.writeFile(this.filePath, JSON.stringify(this.data));
+    } catch (error) {
+      console.warn(`Unable to write lint cache ${this.filePath}:`, error);
+    }
+  }
+
+  private load(): LintCacheData {
+    const empty: LintCacheData = { version: LINT_CACHE_VERSION, rules: {} };
+    try {
+      if (!this.fs.exists(this.filePath)) {
+        return empty;
+      }
+      const data = JSON.parse(this.fs.readFile(this.filePath)) as LintCacheData;
+      if (
+        data?.version !== LINT_CACHE_VERSION ||
+        typeof data.rules !== "object"
+      ) {
+        return empty;
+      }
+      return data;
+    } catch {
+      // A corrupt cache is treated as empty
+      return empty;
+    }
+  }
+
+  /**
+   * Hash of one input, computed at most once per cache instance.
+   */
+  private getFingerprint(
+    input: LibraryRuleInput,
+    context: LibraryRuleContext,
+  ): string {
+    let fingerprint = this.fingerprints.get(input);
+    if (fingerprint === undefined) {
+      switch (input) {
+        case "views":
+          fingerprint = this.fingerprintViews(context.projectRoot);
+          break;
+        case "markdown":
+          fingerprint = this.fingerprintFiles(context.markdownFiles);
+          break;
+        case "files":
+          fingerprint = this.fingerprintFiles(context.files, context);
+          break;
+      }
+      this.fingerprints.set(input, fingerprint);
+    }
+    return fingerprint;
+  }
+
+  private fingerprintViews(projectRoot: ValidatedRepositoryPath): string {
+    const viewsDir = getViewsDir(this.fs, projectRoot);
+    if (!this.fs.exists(viewsDir)) {
+      return hashContent("");
+    }
+
+    const lines = this.fs
+      .readDir(viewsDir)
+      .filter((name) => name.endsWith(".json"))
+      .sort()
+      .map((name) => `${name}\0${this.hashFile(this.fs.join(viewsDir, name))}`);
+    return hashContent(lines.join("\n"));
+  }
+
+  private fingerprintFiles(
+    files: FileInfo[],
+    context?: LibraryRuleContext,
+  ): string {
+    const lines = files
+      .map((file) => {
+        const commit =
+          context?.gitHistory?.get(file.relativePath)?.lastCommitHash ?? "";
+        const modified = file.lastModified?.getTime() ?? "";
+        return `${file.relativePath}\0${this.hashFile(file.path)}\0${commit}\0${modified}`;
+      })
+      .sort();
+    return hashContent(lines.join("\n"));
+  }
+
+  private hashFile(path: string): string {
+    try {
+      return hashContent(this.fs.readFile(path));
+    } catch {
+      return "unreadable";
+    }
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * ConfigScopes - Effective config for each file and view
+ *
+ * In a monorepo, a package's `.alexandriarc.json` cascades over the configs
+ * above it for files under the package directory. A view is governed by the
+ * config of its overview document's directory.
+ */
+
+import { AlexandriaConfig } from "../config/types";
+import { ConfigLoader } from "../config/loader";
+import { ALEXANDRIA_DIRS } from "../constants/paths";
+import { FileSystemAdapter } from "../pure-core/abstractions/filesystem";
+import { CodebaseView, ValidatedRepositoryPath } from "../pure-core/types";
+import { LibraryRuleViolation } from "./types";
+
+const VIEW_FILE_PREFIX = `${ALEXANDRIA_DIRS.PRIMARY}/${ALEXANDRIA_DIRS.VIEWS}/`;
+
+export class ConfigScopes {
+  private fs: FileSystemAdapter;
+  private loader: ConfigLoader | undefined;
+  private projectRoot: ValidatedRepositoryPath;
+  private rootConfig: AlexandriaConfig | null;
+  private views: Map<string, CodebaseView>;
+  private directories = new Map<string, AlexandriaConfig | null>();
+
+  /**
+   * @param loader - Loads the cascade for each directory. Without it, the
+   *                 root config applies everywhere.
+   */
+  constructor(
+    fsAdapter: FileSystemAdapter,
+    projectRoot: ValidatedRepositoryPath,
+    rootConfig: AlexandriaConfig | null,
+    views: CodebaseView[],
+    loader?: ConfigLoader,
+  ) {
+    this.fs = fsAdapter;
+    this.projectRoot = projectRoot;
+    this.rootConfig = rootConfig;
+    this.views = new Map(views.map((view) => [view.id, view]));
+    this.loader = loader;
+  }
+
+  /**
+   * Effective config for a project-relative file path or a view.
+   * Files inside `.alexandria/views` are treated as their view.
+   */
+  getConfig(target: string | CodebaseView): AlexandriaConfig | null {
+    const view = typeof target === "string" ? this.getView(target) : target;
+    if (view) {
+      return view.overviewPath
+        ? this.getDirectoryConfig(this.fs.dirname(view.overviewPath))
+        : this.rootConfig;
+    }
+    return this.getDirectoryConfig(this.fs.dirname(target as string));
+  }
+
+  /**
+   * Config governing a violation: its file's config, or the root config for
+   * project-wide violations.
+   */
+  getViolationConfig(violation: LibraryRuleViolation): AlexandriaConfig | null {
+    return violation.file ? this.getConfig(violation.file) : this.rootConfig;
+  }
+
+  /**
+   * Distinct effective configs of the given files and views, starting with
+   * the root config.
+   */
+  collect(
+    targets: Array<string | CodebaseView>,
+  ): Array<AlexandriaConfig | null> {
+    const configs = new Set<AlexandriaConfig | null>([this.rootConfig]);
+    for (const target of targets) {
+      configs.add(this.getConfig(target));
+    }
+    return [...configs];
+  }
+
+  private getView(path: string): CodebaseView | undefined {
+    if (!path.startsWith(VIEW_FILE_PREFIX) || !path.endsWith(".json")) {
+      return undefined;
+    }
+    return this.views.get(path.slice(VIEW_FILE_PREFIX.length, -5));
+  }
+
+  private getDirectoryConfig(dir: string): AlexandriaConfig | null {
+    if (!this.loader || dir === "." || dir === "" || dir === "/") {
+      return this.rootConfig;
+    }
+
+    if (!this.directories.has(dir)) {
+      const config = this.loader.loadConfig(
+        this.fs.join(this.projectRoot, dir),
+      );
+      // Configs that fail to load have been reported; fall back to the root
+      this.directories.set(dir, config ?? this.rootConfig);
+    }
+    return this.directories.get(dir)!;
+  }
+}
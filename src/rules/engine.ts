@@ -4,42 +4,130 @@ import {
   LibraryRuleViolation,
   LibraryLintResult,
   LibraryRuleSet,
+  LibraryFixFailure,
+  LibraryFixPlan,
+  LibraryFixPlanResult,
+  LibraryLintCacheSummary,
+  LibraryWatchResult,
   FileInfo,
+  GitFileHistory,
 } from "./types";
 import { requireReferences } from "./implementations/require-references";
 import { orphanedReferences } from "./implementations/orphaned-references";
 import { staleReferences } from "./implementations/stale-references";
+import { brokenAnchors } from "./implementations/broken-anchors";
+import { anchorDrift } from "./implementations/anchor-drift";
+import { brokenViewLinks } from "./implementations/broken-view-links";
+import { unlinkedViews } from "./implementations/unlinked-views";
+import { brokenDocLinks } from "./implementations/broken-doc-links";
 import { documentOrganization } from "./implementations/document-organization";
 import { filenameConvention } from "./implementations/filename-convention";
 import { codebaseCoverage } from "./implementations/codebase-coverage";
 import { minimumReferences } from "./implementations/minimum-references";
-import { AlexandriaConfig, RuleSeverity } from "../config/types";
+import {
+  AlexandriaConfig,
+  PriorityPattern,
+  RuleOptions,
+  RuleSeverity,
+} from "../config/types";
 import { ConfigLoader } from "../config/loader";
+import { getConfigFormat } from "../config/formats";
+import { CONFIG_FILENAMES } from "../config/schema";
 import { ValidatedRepositoryPath } from "../pure-core/types";
 import { MemoryPalace } from "../MemoryPalace";
 import { GlobAdapter } from "../pure-core/abstractions/glob";
-import { FileSystemAdapter } from "../pure-core/abstractions/filesystem";
+import {
+  FileSystemAdapter,
+  FileWatcher,
+} from "../pure-core/abstractions/filesystem";
+import { GitAdapter } from "../pure-core/abstractions/git";
+import { PluginLoader } from "../pure-core/abstractions/plugins";
+import { loadAlexandriaIgnore } from "../pure-core/utils/ignore";
+import { ALEXANDRIA_DIRS } from "../constants/paths";
+import { LintCache } from "./cache";
+import { resolveRuleOptions } from "./options";
+import {
+  applySuppressions,
+  collectSuppressions,
+  MISSING_SUPPRESSION_REASON_RULE_ID,
+  UNUSED_SUPPRESSION_RULE_ID,
+} from "./suppressions";
+import { LintBaseline } from "./baseline";
+import { ConfigScopes } from "./config-scopes";
+import {
+  DEFAULT_PRIORITY,
+  getPathPriority,
+  maxSeverity,
+} from "./utils/priority";
+import {
+  createPluginErrorViolation,
+  loadPlugin,
+  LoadedPlugin,
+  PLUGIN_ERROR_RULE_ID,
+  validatePluginViolations,
+} from "./plugins";
+
+const MARKDOWN_FILE_PATTERN = /\.mdx?$/;
+
+/** Where a rule runs with one set of settings */
+interface RuleScope {
+  /** Config the severity override is read from */
+  config: AlexandriaConfig | null;
+  options: RuleOptions;
+  /** Configs whose files keep this run's violations; everywhere when unset */
+  configs?: Set<AlexandriaConfig | null>;
+}
 
 export class LibraryRulesEngine {
   private rules: Map<string, LibraryRule> = new Map();
   private configLoader: ConfigLoader;
   private fsAdapter: FileSystemAdapter;
   private globAdapter: GlobAdapter;
+  private gitAdapter?: GitAdapter;
+  private pluginLoader?: PluginLoader;
+  // Plugins are loaded once per project root and specifier
+  private plugins = new Map<string, Promise<LoadedPlugin>>();
+  // Plugin that registered each plugin rule
+  private pluginRules = new Map<string, string>();
 
-  constructor(fsAdapter: FileSystemAdapter, globAdapter: GlobAdapter) {
+  /**
+   * @param fsAdapter - Filesystem access (required)
+   * @param globAdapter - File pattern matching (required)
+   * @param gitAdapter - Optional git history source. When provided, file
+   *                     modification times come from the last commit touching each file.
+   * @param pluginLoader - Optional loader for the rule plugins listed in the
+   *                       config's `plugins`, also used to evaluate
+   *                       alexandria.config.js configs. Without it, configured
+   *                       plugins are reported as plugin errors.
+   */
+  constructor(
+    fsAdapter: FileSystemAdapter,
+    globAdapter: GlobAdapter,
+    gitAdapter?: GitAdapter,
+    pluginLoader?: PluginLoader,
+  ) {
     // Require both adapters - no defaults
     this.fsAdapter = fsAdapter;
-    this.configLoader = new ConfigLoader(this.fsAdapter);
+    this.configLoader = new ConfigLoader(this.fsAdapter, {
+      moduleLoader: pluginLoader,
+    });
     this.globAdapter = globAdapter;
+    this.gitAdapter = gitAdapter;
+    this.pluginLoader = pluginLoader;
 
     // Register built-in rules
     this.registerRule(requireReferences);
     this.registerRule(orphanedReferences);
     this.registerRule(staleReferences);
+    this.registerRule(brokenAnchors);
+    this.registerRule(anchorDrift);
     this.registerRule(documentOrganization);
     this.registerRule(filenameConvention);
     this.registerRule(codebaseCoverage);
     this.registerRule(minimumReferences);
+    this.registerRule(brokenViewLinks);
+    this.registerRule(unlinkedViews);
+    this.registerRule(brokenDocLinks);
   }
 
   registerRule(rule: LibraryRule): void {
@@ -54,55 +142,61 @@ export class LibraryRulesEngine {
     projectRoot: ValidatedRepositoryPath,
     useGitignore: boolean = true,
     excludePatterns: string[] = [],
+    scope: {
+      includePatterns?: string[];
+      priorityPatterns?: PriorityPattern[];
+      maxDepth?: number;
+      followSymlinks?: boolean;
+    } = {},
   ): Promise<{ files: FileInfo[]; markdownFiles: FileInfo[] }> {
     const files: FileInfo[] = [];
     const markdownFiles: FileInfo[] = [];
 
     try {
-      // Get all files using glob adapter (respecting gitignore if enabled)
-      const allFilePaths = await this.globAdapter.findFiles(["**/*"], {
-        cwd: projectRoot,
-        gitignore: useGitignore,
-        dot: false,
-        onlyFiles: true,
-        ignore: excludePatterns,
-      });
-
-      // Get markdown files specifically
-      const markdownFilePaths = await this.globAdapter.findFiles(
-        ["**/*.md", "**/*.mdx"],
+      // Get all files in a single pass using glob adapter (respecting gitignore if enabled).
+      // The cache directory is never scanned so rules can't see their own cached output.
+      const allFilePaths = await this.globAdapter.findFiles(
+        scope.includePatterns?.length ? scope.includePatterns : ["**/*"],
         {
           cwd: projectRoot,
           gitignore: useGitignore,
           dot: false,
           onlyFiles: true,
-          ignore: excludePatterns,
+          ignore: [
+            ...excludePatterns,
+            `${ALEXANDRIA_DIRS.PRIMARY}/${ALEXANDRIA_DIRS.CACHE}/**`,
+          ],
+          ...(scope.maxDepth !== undefined && { maxDepth: scope.maxDepth }),
+          ...(scope.followSymlinks !== undefined && {
+            followSymbolicLinks: scope.followSymlinks,
+          }),
         },
       );
 
-      // Create a set of markdown paths for quick lookup
-      const markdownPathSet = new Set(markdownFilePaths);
+      const ignore = loadAlexandriaIgnore(
+        this.fsAdapter,
+        projectRoot,
+        allFilePaths,
+      );
 
-      // Convert all file paths to FileInfo objects
-      for (const relativePath of allFilePaths) {
+      // Convert all file paths to FileInfo objects, sharing them with the markdown list
+      for (const relativePath of ignore.filter(allFilePaths)) {
+        const priority = getPathPriority(
+          this.globAdapter,
+          scope.priorityPatterns,
+          relativePath,
+        );
         const fileInfo: FileInfo = {
           path: `${projectRoot}/${relativePath}`, // Simple concatenation, no path.join needed
           relativePath,
           exists: true,
-          isMarkdown: markdownPathSet.has(relativePath),
+          isMarkdown: MARKDOWN_FILE_PATTERN.test(relativePath),
+          ...(priority && { priority }),
         };
         files.push(fileInfo);
-      }
-
-      // Create FileInfo objects for markdown files
-      for (const relativePath of markdownFilePaths) {
-        const fileInfo: FileInfo = {
-          path: `${projectRoot}/${relativePath}`,
-          relativePath,
-          exists: true,
-          isMarkdown: true,
-        };
-        markdownFiles.push(fileInfo);
+        if (fileInfo.isMarkdown) {
+          markdownFiles.push(fileInfo);
+        }
       }
     } catch (error) {
       console.error(`Error scanning files in ${projectRoot}:`, error);
@@ -112,11 +206,63 @@ export class LibraryRulesEngine {
     return { files, markdownFiles };
   }
 
+  /**
+   * Look up the last commit for each scanned file and record it as the file's
+   * modification time. Markdown FileInfo objects are shared with `files`, so
+   * they are updated too. Returns undefined when no git adapter is configured
+   * or the project is not a git repository.
+   */
+  private async loadGitHistory(
+    projectRoot: ValidatedRepositoryPath,
+    files: FileInfo[],
+  ): Promise<Map<string, GitFileHistory> | undefined> {
+    if (!this.gitAdapter) {
+      return undefined;
+    }
+
+    try {
+      if (!(await this.gitAdapter.isRepository(projectRoot))) {
+        return undefined;
+      }
+
+      const commits = await this.gitAdapter.getLastCommits(
+        projectRoot,
+        files.map((file) => file.relativePath),
+      );
+
+      const gitHistory = new Map<string, GitFileHistory>();
+      for (const [path, commit] of commits) {
+        gitHistory.set(path, {
+          path,
+          lastModified: commit.date,
+          lastCommitHash: commit.hash,
+          lastCommitMessage: commit.message,
+        });
+      }
+
+      for (const file of files) {
+        const history = gitHistory.get(file.relativePath);
+        if (history) {
+          file.lastModified = history.lastModified;
+        }
+      }
+
+      return gitHistory;
+    } catch (error) {
+      console.warn(`Unable to read git history in ${projectRoot}:`, error);
+      return undefined;
+    }
+  }
+
   /**
    * Lint a project for library rule violations.
    *
    * @param projectRoot - The root path of the project to lint (required)
-   * @param options - Linting options
+   * @param options - Linting options. With `incremental`, rules that declare
+   *                  their inputs reuse results cached under `.alexandria/cache`
+   *                  until those inputs or the config change. With `baseline`,
+   *                  violations recorded in `.alexandria/baseline.json` are left
+   *                  out of the result; `updateBaseline` records the current ones.
    */
   async lint(
     projectRoot: string,
@@ -125,17 +271,441 @@ export class LibraryRulesEngine {
       enabledRules?: string[];
       disabledRules?: string[];
       fix?: boolean;
+      incremental?: boolean;
+      baseline?: boolean;
+      updateBaseline?: boolean;
     } = {},
   ): Promise<LibraryLintResult> {
+    const {
+      validatedPath,
+      config,
+      context,
+      rulesToRun,
+      rulePlans,
+      getFixOptions,
+      ruleViolations,
+      violations,
+      cache,
+    } = await this.check(projectRoot, options);
+
+    if (!options.fix) {
+      return {
+        ...this.compareWithBaseline(
+          validatedPath,
+          violations,
+          rulesToRun,
+          options,
+        ),
+        ...(cache && { cache }),
+      };
+    }
+
+    // Apply fixes, then re-run the rules whose violations were touched
+    const { attempted, failed } = await this.applyFixes(
+      violations,
+      context,
+      getFixOptions,
+    );
+    const affectedRuleIds = new Set(attempted.map((v) => v.ruleId));
+
+    let finalViolations = violations;
+    if (affectedRuleIds.size > 0) {
+      const freshContext = await this.buildContext(validatedPath, config);
+      const freshScopes = this.createScopes(
+        validatedPath,
+        config,
+        freshContext,
+        !options.config,
+      );
+      const rechecked = ruleViolations.filter(
+        (v) => !affectedRuleIds.has(v.ruleId),
+      );
+      for (const rule of rulesToRun) {
+        if (affectedRuleIds.has(rule.id)) {
+          rechecked.push(
+            ...(await this.runScopedRule(
+              rule,
+              freshContext,
+              freshScopes,
+              rulePlans.get(rule)!,
+            )),
+          );
+        }
+      }
+      finalViolations = this.suppress(
+        rechecked,
+        freshContext,
+        config,
+        rulesToRun,
+      );
+    }
+
+    // A fix only counts once the re-check no longer reports the violation
+    const remaining = new Set(finalViolations.map(violationKey));
+    const fixed: LibraryRuleViolation[] = [];
+    for (const violation of attempted) {
+      if (remaining.has(violationKey(violation))) {
+        failed.push({
+          violation,
+          reason: "Violation is still reported after the fix was applied",
+        });
+      } else {
+        fixed.push(violation);
+      }
+    }
+
+    return {
+      ...this.compareWithBaseline(
+        validatedPath,
+        finalViolations,
+        rulesToRun,
+        options,
+      ),
+      fixes: { fixed, failed },
+      ...(cache && { cache }),
+    };
+  }
+
+  /**
+   * Preview the fixes `lint({ fix: true })` would apply, without writing anything.
+   *
+   * @param projectRoot - The root path of the project to lint (required)
+   * @param options - Linting options
+   */
+  async planFixes(
+    projectRoot: string,
+    options: {
+      config?: AlexandriaConfig;
+      enabledRules?: string[];
+      disabledRules?: string[];
+    } = {},
+  ): Promise<LibraryFixPlanResult> {
+    const { context, getFixOptions, violations } = await this.check(
+      projectRoot,
+      options,
+    );
+
+    const plans: LibraryFixPlan[] = [];
+    const failed: LibraryFixFailure[] = [];
+
+    for (const violation of violations) {
+      if (!violation.fixable) {
+        continue;
+      }
+
+      const rule = this.rules.get(violation.ruleId);
+      if (!rule?.planFix) {
+        failed.push({
+          violation,
+          reason: `Rule "${violation.ruleId}" cannot preview its fix`,
+        });
+        continue;
+      }
+
+      try {
+        plans.push({
+          violation,
+          preview: await rule.planFix(
+            violation,
+            context,
+            getFixOptions(violation),
+          ),
+        });
+      } catch (error) {
+        failed.push({
+          violation,
+          reason: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return { plans, failed };
+  }
+
+  /**
+   * Lint a project, then re-lint whenever files under it change.
+   * `onResult` first receives every current violation as added, then only the
+   * violations added or resolved by each change. Changes are debounced and
+   * runs never overlap. Requires a FileSystemAdapter that implements `watch`.
+   *
+   * @param projectRoot - The root path of the project to watch (required)
+   * @param onResult - Receives the delta after the initial run and each change
+   * @param options - Linting options plus watch timing and error handling
+   * @returns A watcher whose `close` stops watching
+   */
+  async watch(
+    projectRoot: string,
+    onResult: (result: LibraryWatchResult) => void,
+    options: {
+      config?: AlexandriaConfig;
+      enabledRules?: string[];
+      disabledRules?: string[];
+      incremental?: boolean;
+      baseline?: boolean;
+      /** Quiet period after the last change before re-linting. Defaults to 100ms */
+      debounceMs?: number;
+      /** Receives errors from re-lint runs. Defaults to console.error */
+      onError?: (error: unknown) => void;
+    } = {},
+  ): Promise<FileWatcher> {
+    if (!this.fsAdapter.watch) {
+      throw new Error(
+        "The configured FileSystemAdapter does not support watching for changes",
+      );
+    }
+
+    const validatedPath = MemoryPalace.validateRepositoryPath(
+      this.fsAdapter,
+      projectRoot,
+    );
+    const {
+      debounceMs = 100,
+      onError = (error: unknown) => console.error("Watch lint failed:", error),
+      ...lintOptions
+    } = options;
+
+    // Changes here never affect lint results; the cache is written by lint itself
+    const ignoredDirs = [
+      ".git",
+      "node_modules",
+      `${ALEXANDRIA_DIRS.PRIMARY}/${ALEXANDRIA_DIRS.CACHE}`,
+    ].map((dir) => this.fsAdapter.join(validatedPath, dir));
+
+    let previous = new Map<string, LibraryRuleViolation>();
+    const emitDelta = (violations: LibraryRuleViolation[], always = false) => {
+      const current = new Map(violations.map((v) => [violationKey(v), v]));
+      const added = [...current]
+        .filter(([key]) => !previous.has(key))
+        .map(([, violation]) => violation);
+      const resolved = [...previous]
+        .filter(([key]) => !current.has(key))
+        .map(([, violation]) => violation);
+      previous = current;
+
+      if (always || added.length > 0 || resolved.length > 0) {
+        onResult({ added, resolved });
+      }
+    };
+
+    const initial = await this.lint(validatedPath, lintOptions);
+    emitDelta(initial.violations, true);
+
+    let closed = false;
+    let running = false;
+    let pending = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const schedule = (): void => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = undefined;
+        void run();
+      }, debounceMs);
+    };
+
+    const run = async (): Promise<void> => {
+      if (running) {
+        pending = true;
+        return;
+      }
+      running = true;
+      try {
+        const result = await this.lint(validatedPath, lintOptions);
+        if (!closed) emitDelta(result.violations);
+      } catch (error) {
+        if (!closed) onError(error);
+      } finally {
+        running = false;
+        if (pending && !closed) {
+          pending = false;
+          schedule();
+        }
+      }
+    };
+
+    const watcher = this.fsAdapter.watch(validatedPath, (event) => {
+      const ignored = ignoredDirs.some(
+        (dir) => event.path === dir || event.path.startsWith(`${dir}/`),
+      );
+      if (!ignored && !closed) {
+        schedule();
+      }
+    });
+
+    return {
+      close: () => {
+        closed = true;
+        if (timer) clearTimeout(timer);
+        watcher.close();
+      },
+    };
+  }
+
+  /**
+   * Validate the project root, load config, resolve each selected rule's
+   * options per config scope and run the rules, reusing cached results when
+   * `incremental` is set.
+   * `ruleViolations` holds everything the rules reported; `violations` is what
+   * remains after inline suppressions, plus suppression diagnostics.
+   *
+   * @throws Error when configured options for a rule fail its schema
+   */
+  private async check(
+    projectRoot: string,
+    options: {
+      config?: AlexandriaConfig;
+      enabledRules?: string[];
+      disabledRules?: string[];
+      incremental?: boolean;
+    },
+  ): Promise<{
+    validatedPath: ValidatedRepositoryPath;
+    config: AlexandriaConfig | null;
+    context: LibraryRuleContext;
+    rulesToRun: LibraryRule[];
+    rulePlans: Map<LibraryRule, RuleScope[]>;
+    getFixOptions: (violation: LibraryRuleViolation) => RuleOptions;
+    ruleViolations: LibraryRuleViolation[];
+    violations: LibraryRuleViolation[];
+    cache?: LibraryLintCacheSummary;
+  }> {
     // Use the injected filesystem adapter
     const validatedPath = MemoryPalace.validateRepositoryPath(
       this.fsAdapter,
       projectRoot,
     );
-    const memoryPalace = new MemoryPalace(validatedPath, this.fsAdapter);
 
+    // Config files may have changed since the last run of this engine
+    this.configLoader.clearCache();
     // Load configuration (search from the project root)
-    const config = options.config || this.configLoader.loadConfig(validatedPath);
+    const config =
+      options.config ||
+      (await this.configLoader.loadConfigAsync(validatedPath));
+
+    const pluginErrors = await this.loadPlugins(validatedPath, config);
+
+    const context = await this.buildContext(validatedPath, config);
+    if (!options.config) {
+      await this.loadModuleConfigs(validatedPath, context.files);
+    }
+    // An explicit config applies everywhere; otherwise package configs cascade
+    const scopes = this.createScopes(
+      validatedPath,
+      config,
+      context,
+      !options.config,
+    );
+
+    const scopeConfigs = scopes.collect([
+      ...context.files.map((file) => file.relativePath),
+      ...context.views,
+    ]);
+    const rulePlans = this.planRules(scopeConfigs, options);
+    const rulesToRun = [...rulePlans.keys()];
+    // Fixes use the options of the scope that reported the violation
+    const getFixOptions = (violation: LibraryRuleViolation): RuleOptions => {
+      const rule = this.rules.get(violation.ruleId)!;
+      const config = scopes.getViolationConfig(violation);
+      const scope = rulePlans
+        .get(rule)
+        ?.find((scope) => !scope.configs || scope.configs.has(config));
+      return scope ? scope.options : resolveRuleOptions(rule, config);
+    };
+
+    const ruleViolations: LibraryRuleViolation[] = [...pluginErrors];
+    if (!options.incremental) {
+      for (const rule of rulesToRun) {
+        ruleViolations.push(
+          ...(await this.runScopedRule(
+            rule,
+            context,
+            scopes,
+            rulePlans.get(rule)!,
+          )),
+        );
+      }
+      return {
+        validatedPath,
+        config,
+        context,
+        rulesToRun,
+        rulePlans,
+        getFixOptions,
+        ruleViolations,
+        violations: this.suppress(ruleViolations, context, config, rulesToRun),
+      };
+    }
+
+    const lintCache = new LintCache(this.fsAdapter, validatedPath);
+    const cache: LibraryLintCacheSummary = { reused: [], rerun: [] };
+    for (const rule of rulesToRun) {
+      const ruleScopes = rulePlans.get(rule)!;
+      // Rules split across package configs are always re-run
+      const key =
+        ruleScopes.length === 1 && !ruleScopes[0].configs
+          ? lintCache.getKey(rule, context, scopeConfigs)
+          : undefined;
+      const cached =
+        key !== undefined ? lintCache.get(rule.id, key) : undefined;
+      if (cached) {
+        cache.reused.push(rule.id);
+        ruleViolations.push(...cached);
+        continue;
+      }
+
+      const violations = await this.runScopedRule(
+        rule,
+        context,
+        scopes,
+        ruleScopes,
+      );
+      cache.rerun.push(rule.id);
+      ruleViolations.push(...violations);
+      if (key !== undefined) {
+        lintCache.set(rule.id, key, violations);
+      }
+    }
+    lintCache.save();
+
+    return {
+      validatedPath,
+      config,
+      context,
+      rulesToRun,
+      rulePlans,
+      getFixOptions,
+      ruleViolations,
+      violations: this.suppress(ruleViolations, context, config, rulesToRun),
+      cache,
+    };
+  }
+
+  /**
+   * Drop violations silenced by inline suppressions and report suppressions
+   * that are unused, name unknown rules or lack a required reason.
+   */
+  private suppress(
+    violations: LibraryRuleViolation[],
+    context: LibraryRuleContext,
+    config: AlexandriaConfig | null,
+    rulesToRun: LibraryRule[],
+  ): LibraryRuleViolation[] {
+    return applySuppressions(violations, collectSuppressions(context), {
+      ranRules: new Set(rulesToRun.map((rule) => rule.id)),
+      knownRules: new Set(this.rules.keys()),
+      requireReason: config?.context?.suppressions?.requireReason,
+      reportUnused: config?.context?.suppressions?.reportUnused,
+    });
+  }
+
+  /**
+   * Scan the project and assemble the context passed to every rule.
+   */
+  private async buildContext(
+    projectRoot: ValidatedRepositoryPath,
+    config: AlexandriaConfig | null,
+  ): Promise<LibraryRuleContext> {
+    const memoryPalace = new MemoryPalace(projectRoot, this.fsAdapter);
 
     // Determine if we should use gitignore (default to true)
     const useGitignore = config?.context?.useGitignore !== false;
@@ -144,68 +714,407 @@ export class LibraryRulesEngine {
     const excludePatterns = config?.context?.patterns?.exclude ?? [];
 
     const { files, markdownFiles } = await this.scanFiles(
-      validatedPath,
+      projectRoot,
       useGitignore,
       excludePatterns,
+      {
+        includePatterns: config?.context?.patterns?.include,
+        priorityPatterns: config?.context?.patterns?.priority,
+        maxDepth: config?.context?.maxDepth,
+        followSymlinks: config?.context?.followSymlinks,
+      },
     );
+    const gitHistory = await this.loadGitHistory(projectRoot, files);
 
     // Load views using MemoryPalace public API
     const views = memoryPalace.listViews();
 
-    // Build rule context
-    const context: LibraryRuleContext = {
-      projectRoot: validatedPath,
+    return {
+      projectRoot,
       views,
       files,
       markdownFiles,
+      gitHistory,
       config: config || undefined,
       globAdapter: this.globAdapter,
       fsAdapter: this.fsAdapter,
     };
+  }
 
-    // Build a map of rule configuration overrides from config
-    const ruleOverrides = new Map<
-      string,
-      { severity?: RuleSeverity; enabled?: boolean }
-    >();
-    if (config?.context?.rules) {
-      for (const ruleConfig of config.context.rules) {
-        ruleOverrides.set(ruleConfig.id, {
-          severity: ruleConfig.severity,
-          enabled: ruleConfig.enabled,
-        });
+  /**
+   * Evaluate the JavaScript configs of nested packages ahead of time, so the
+   * synchronous per-directory config lookups can read them.
+   */
+  private async loadModuleConfigs(
+    projectRoot: ValidatedRepositoryPath,
+    files: FileInfo[],
+  ): Promise<void> {
+    for (const file of files) {
+      const name = this.fsAdapter.basename(file.relativePath);
+      // The root config was loaded with the project
+      if (
+        file.relativePath.includes("/") &&
+        getConfigFormat(name) === "module" &&
+        CONFIG_FILENAMES.includes(name)
+      ) {
+        await this.configLoader.loadConfigAsync(
+          this.fsAdapter.join(
+            projectRoot,
+            this.fsAdapter.dirname(file.relativePath),
+          ),
+        );
+      }
+    }
+  }
+
+  /**
+   * Track the effective config of each file and view and expose it to rules.
+   *
+   * @param cascade - Load the configs of nested directories; otherwise `config` applies everywhere
+   */
+  private createScopes(
+    projectRoot: ValidatedRepositoryPath,
+    config: AlexandriaConfig | null,
+    context: LibraryRuleContext,
+    cascade: boolean,
+  ): ConfigScopes {
+    const scopes = new ConfigScopes(
+      this.fsAdapter,
+      projectRoot,
+      config,
+      context.views,
+      cascade ? this.configLoader : undefined,
+    );
+    context.getEffectiveConfig = (target) =>
+      scopes.getConfig(target) ?? undefined;
+    return scopes;
+  }
+
+  /**
+   * Decide where each rule runs and with which options. Configs that give a
+   * rule the same severity and options share one run; a rule with one run for
+   * every config runs project-wide.
+   *
+   * @param configs - Distinct effective configs, starting with the root config
+   * @throws Error when a config gives a rule invalid options
+   */
+  private planRules(
+    configs: Array<AlexandriaConfig | null>,
+    options: { enabledRules?: string[]; disabledRules?: string[] },
+  ): Map<LibraryRule, RuleScope[]> {
+    const selections = configs.map(
+      (config) => new Set(this.selectRules(config, options)),
+    );
+
+    const plans = new Map<LibraryRule, RuleScope[]>();
+    for (const rule of this.rules.values()) {
+      const groups = new Map<string, RuleScope>();
+      configs.forEach((config, index) => {
+        if (!selections[index].has(rule)) {
+          return;
+        }
+        const ruleOptions = resolveRuleOptions(rule, config);
+        const settings = JSON.stringify([
+          this.getRuleOverride(config, rule.id)?.severity ?? null,
+          ruleOptions,
+        ]);
+        const group = groups.get(settings);
+        if (group) {
+          group.configs!.add(config);
+        } else {
+          groups.set(settings, {
+            config,
+            options: ruleOptions,
+            configs: new Set([config]),
+          });
+        }
+      });
+
+      const ruleScopes = [...groups.values()];
+      if (ruleScopes.length === 0) {
+        continue;
       }
+      if (
+        ruleScopes.length === 1 &&
+        ruleScopes[0].configs!.size === configs.length
+      ) {
+        delete ruleScopes[0].configs;
+      }
+      plans.set(rule, ruleScopes);
     }
+    return plans;
+  }
 
-    // Run enabled rules
+  /**
+   * Run a rule once per scope, keeping each run's violations only where its
+   * settings apply. Plugin errors are always kept.
+   */
+  private async runScopedRule(
+    rule: LibraryRule,
+    context: LibraryRuleContext,
+    scopes: ConfigScopes,
+    ruleScopes: RuleScope[],
+  ): Promise<LibraryRuleViolation[]> {
     const violations: LibraryRuleViolation[] = [];
+    for (const scope of ruleScopes) {
+      const scoped = await this.runRule(
+        rule,
+        context,
+        scope.config,
+        scope.options,
+      );
+      violations.push(
+        ...scoped.filter(
+          (violation) =>
+            !scope.configs ||
+            violation.ruleId === PLUGIN_ERROR_RULE_ID ||
+            scope.configs.has(scopes.getViolationConfig(violation)),
+        ),
+      );
+    }
+    return violations;
+  }
+
+  /**
+   * Load the plugins listed in the config and register their rules.
+   * Plugin problems are returned as violations so they never abort the lint.
+   */
+  private async loadPlugins(
+    projectRoot: ValidatedRepositoryPath,
+    config: AlexandriaConfig | null,
+  ): Promise<LibraryRuleViolation[]> {
+    const specifiers = config?.plugins ?? [];
+    if (specifiers.length === 0) {
+      return [];
+    }
+    if (!this.pluginLoader) {
+      return [
+        createPluginErrorViolation(
+          `Plugins are configured but LibraryRulesEngine was created without a PluginLoader: ${specifiers.join(", ")}`,
+        ),
+      ];
+    }
+
+    const errors: LibraryRuleViolation[] = [];
+    for (const specifier of specifiers) {
+      const key = `${projectRoot}::${specifier}`;
+      let loading = this.plugins.get(key);
+      if (!loading) {
+        loading = loadPlugin(this.pluginLoader, specifier, projectRoot);
+        this.plugins.set(key, loading);
+      }
+
+      const plugin = await loading;
+      errors.push(...plugin.errors.map(createPluginErrorViolation));
+      for (const rule of plugin.rules) {
+        const existing = this.rules.get(rule.id);
+        if (existing && existing !== rule) {
+          errors.push(
+            createPluginErrorViolation(
+              `Plugin "${specifier}" rule "${rule.id}" conflicts with an already registered rule`,
+            ),
+          );
+          continue;
+        }
+        this.registerRule(rule);
+        this.pluginRules.set(rule.id, specifier);
+      }
+    }
+    return errors;
+  }
+
+  /**
+   * Resolve which registered rules should run for this lint invocation.
+   * Plugin rules only run while their plugin is listed in the config.
+   */
+  private selectRules(
+    config: AlexandriaConfig | null,
+    options: { enabledRules?: string[]; disabledRules?: string[] },
+  ): LibraryRule[] {
+    const selected: LibraryRule[] = [];
     for (const [ruleId, rule] of this.rules) {
+      const plugin = this.pluginRules.get(ruleId);
+      if (plugin !== undefined && !config?.plugins?.includes(plugin)) {
+        continue;
+      }
+
       // Skip disabled rules
       if (options.disabledRules?.includes(ruleId)) {
         continue;
       }
 
+      // Only run enabled rules (or all if no specific list provided)
+      if (options.enabledRules && !options.enabledRules.includes(ruleId)) {
+        continue;
+      }
+
       // Check if rule is enabled (with config override)
-      const override = ruleOverrides.get(ruleId);
-      const isEnabled = override?.enabled ?? rule.enabled;
+      const override = this.getRuleOverride(config, ruleId);
+      if (override?.enabled ?? rule.enabled) {
+        selected.push(rule);
+      }
+    }
+    return selected;
+  }
 
-      // Only run enabled rules (or all if no specific list provided)
-      if (!options.enabledRules || options.enabledRules.includes(ruleId)) {
-        if (isEnabled) {
-          const ruleViolations = await rule.check(context);
-
-          // Apply severity override from config
-          if (override?.severity) {
-            for (const violation of ruleViolations) {
-              violation.severity = override.severity;
-            }
-          }
-
-          violations.push(...ruleViolations);
+  private getRuleOverride(
+    config: AlexandriaConfig | null | undefined,
+    ruleId: string,
+  ): { severity?: RuleSeverity; enabled?: boolean } | undefined {
+    const ruleConfig = config?.context?.rules?.find((r) => r.id === ruleId);
+    if (!ruleConfig) {
+      return undefined;
+    }
+    return { severity: ruleConfig.severity, enabled: ruleConfig.enabled };
+  }
+
+  /**
+   * Run a single rule with its resolved options and apply the severity override
+   * and priority escalation from config.
+   * Errors thrown by plugin rules, and results that are not valid violations,
+   * are reported as plugin errors instead of aborting the lint.
+   */
+  private async runRule(
+    rule: LibraryRule,
+    context: LibraryRuleContext,
+    config: AlexandriaConfig | null,
+    options: RuleOptions,
+  ): Promise<LibraryRuleViolation[]> {
+    let ruleViolations: LibraryRuleViolation[];
+    const plugin = this.pluginRules.get(rule.id);
+    if (plugin === undefined) {
+      ruleViolations = await rule.check(context, options);
+    } else {
+      try {
+        ruleViolations = await rule.check(context, options);
+      } catch (error) {
+        return [
+          createPluginErrorViolation(
+            `Rule "${rule.id}" from plugin "${plugin}" failed: ${error instanceof Error ? error.message : String(error)}`,
+          ),
+        ];
+      }
+      const problem = validatePluginViolations(ruleViolations);
+      if (problem) {
+        return [
+          createPluginErrorViolation(
+            `Rule "${rule.id}" from plugin "${plugin}" returned ${problem}`,
+          ),
+        ];
+      }
+    }
+
+    const override = this.getRuleOverride(config, rule.id);
+    if (override?.severity) {
+      for (const violation of ruleViolations) {
+        violation.severity = override.severity;
+      }
+    }
+
+    // Raise violations on important files to the configured minimum
+    const escalation = config?.context?.escalateSeverity;
+    if (escalation) {
+      for (const violation of ruleViolations) {
+        const priority = violation.file
+          ? (getPathPriority(
+              this.globAdapter,
+              config?.context?.patterns?.priority,
+              violation.file,
+            ) ?? DEFAULT_PRIORITY)
+          : undefined;
+        const minimum = priority && escalation[priority];
+        if (minimum) {
+          violation.severity = maxSeverity(violation.severity, minimum);
         }
       }
     }
 
+    return ruleViolations;
+  }
+
+  /**
+   * Call each fixable rule's fix for its violations.
+   * Returns the violations whose fix ran without error and those that could not be fixed.
+   */
+  private async applyFixes(
+    violations: LibraryRuleViolation[],
+    context: LibraryRuleContext,
+    getFixOptions: (violation: LibraryRuleViolation) => RuleOptions,
+  ): Promise<{
+    attempted: LibraryRuleViolation[];
+    failed: LibraryFixFailure[];
+  }> {
+    const attempted: LibraryRuleViolation[] = [];
+    const failed: LibraryFixFailure[] = [];
+
+    for (const violation of violations) {
+      if (!violation.fixable) {
+        continue;
+      }
+
+      const rule = this.rules.get(violation.ruleId);
+      if (!rule?.fix) {
+        failed.push({
+          violation,
+          reason: `Rule "${violation.ruleId}" does not implement a fix`,
+        });
+        continue;
+      }
+
+      try {
+        await rule.fix(violation, context, getFixOptions(violation));
+        attempted.push(violation);
+      } catch (error) {
+        failed.push({
+          violation,
+          reason: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return { attempted, failed };
+  }
+
+  /**
+   * Summarize the violations, leaving out those recorded in the baseline when
+   * `baseline` is set. `updateBaseline` first rewrites the baseline so every
+   * current violation is recorded.
+   */
+  private compareWithBaseline(
+    projectRoot: ValidatedRepositoryPath,
+    violations: LibraryRuleViolation[],
+    rulesToRun: LibraryRule[],
+    options: { baseline?: boolean; updateBaseline?: boolean },
+  ): LibraryLintResult {
+    if (!options.baseline && !options.updateBaseline) {
+      return this.summarize(violations);
+    }
+
+    // Suppression and plugin diagnostics depend on the rules that ran, so
+    // they are baselined along with them
+    const ranRules = new Set([
+      ...rulesToRun.map((rule) => rule.id),
+      UNUSED_SUPPRESSION_RULE_ID,
+      MISSING_SUPPRESSION_REASON_RULE_ID,
+      PLUGIN_ERROR_RULE_ID,
+    ]);
+    const baseline = new LintBaseline(this.fsAdapter, projectRoot);
+    if (options.updateBaseline) {
+      baseline.update(violations, ranRules);
+      baseline.save();
+    }
+
+    const { newViolations, matched, resolved } = baseline.compare(
+      violations,
+      ranRules,
+    );
+    return {
+      ...this.summarize(newViolations),
+      baseline: { matched, resolved, updated: !!options.updateBaseline },
+    };
+  }
+
+  private summarize(violations: LibraryRuleViolation[]): LibraryLintResult {
     // Count violations by severity
     let errorCount = 0;
     let warningCount = 0;
@@ -229,12 +1138,6 @@ export class LibraryRulesEngine {
       }
     }
 
-    // Apply fixes if requested
-    if (options.fix && fixableCount > 0) {
-      // TODO: Implement fix application
-      console.log(`Would fix ${fixableCount} violations (not yet implemented)`);
-    }
-
     return {
       violations,
       errorCount,
@@ -253,3 +1156,10 @@ export class LibraryRulesEngine {
     };
   }
 }
+
+/**
+ * Identity of a violation used to tell whether a fix resolved it.
+ */
+function violationKey(violation: LibraryRuleViolation): string {
+  return `${violation.ruleId}::${violation.file ?? ""}::${violation.message}`;
+}
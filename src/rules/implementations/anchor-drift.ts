@@ -0,0 +1,173 @@
+import {
+  LibraryRule,
+  LibraryRuleViolation,
+  LibraryRuleContext,
+} from "../types";
+import { NO_OPTIONS_SCHEMA } from "../../config/rule-options";
+import { locateInView, ViewFileLocation } from "../utils/json-locator";
+import {
+  AnchorDrift,
+  detectAnchorDrift,
+  reanchorView,
+} from "../../pure-core/utils/anchors";
+import { getViewsDir } from "../../utils/alexandria-paths";
+import { CodebaseView } from "../../pure-core/types";
+import { AutoFixPreview } from "../../pure-core/autofixes/types";
+import { createUnifiedDiff } from "../../pure-core/utils/diff";
+
+export const anchorDrift: LibraryRule = {
+  id: "anchor-drift",
+  name: "Anchor Drift",
+  severity: "warning",
+  category: "critical",
+  description:
+    "Anchored line ranges whose content moved, changed or was deleted since the view was saved",
+  impact:
+    "AI agents reading the anchored lines will see code the reference is not about",
+  fixable: true,
+  enabled: true,
+  inputs: ["views", "files"],
+  optionsSchema: NO_OPTIONS_SCHEMA,
+
+  async check(context: LibraryRuleContext): Promise<LibraryRuleViolation[]> {
+    return findDrift(context).map(({ view, drift, location }) => ({
+      ruleId: this.id,
+      severity: this.severity,
+      ...location,
+      message: `View "${view.name}" reference group "${drift.referenceGroup}" ${describeDrift(drift)}`,
+      impact: this.impact,
+      fixable: drift.status !== "deleted",
+    }));
+  },
+
+  async fix(
+    violation: LibraryRuleViolation,
+    context: LibraryRuleContext,
+  ): Promise<void> {
+    const update = buildReanchorUpdate(violation, context);
+    context.fsAdapter!.writeFile(update.fullPath, update.after);
+  },
+
+  async planFix(
+    violation: LibraryRuleViolation,
+    context: LibraryRuleContext,
+  ): Promise<AutoFixPreview> {
+    const update = buildReanchorUpdate(violation, context);
+    const [start, end] = update.drift.lines!;
+    return {
+      description: `Re-anchor ${update.drift.path} to lines ${start}-${end} in ${update.path}`,
+      changes: [
+        {
+          type: "file_updated",
+          path: update.path,
+          before: update.before,
+          after: update.after,
+          diff: createUnifiedDiff(
+            update.path,
+            update.path,
+            update.before,
+            update.after,
+          ),
+        },
+      ],
+      risk: update.drift.status === "moved" ? "safe" : "moderate",
+    };
+  },
+};
+
+interface LocatedDrift {
+  view: CodebaseView;
+  drift: AnchorDrift;
+  location: ViewFileLocation;
+}
+
+// Anchors of every view whose content is no longer where the view says
+function findDrift(context: LibraryRuleContext): LocatedDrift[] {
+  const { views, projectRoot, fsAdapter } = context;
+  if (!fsAdapter) {
+    throw new Error("anchor-drift rule requires fsAdapter in context");
+  }
+
+  const readFile = (path: string) => {
+    const fullPath = fsAdapter.join(projectRoot, path);
+    return fsAdapter.exists(fullPath) ? fsAdapter.readFile(fullPath) : null;
+  };
+
+  const found: LocatedDrift[] = [];
+  for (const view of views) {
+    for (const drift of detectAnchorDrift(view, readFile)) {
+      if (drift.status === "intact") continue;
+      const location = locateInView(fsAdapter, projectRoot, view, [
+        "referenceGroups",
+        drift.referenceGroup,
+        "files",
+        drift.index,
+        "lines",
+      ]);
+      found.push({ view, drift, location });
+    }
+  }
+  return found;
+}
+
+function describeDrift(drift: AnchorDrift): string {
+  const anchored = `anchors ${drift.path} lines ${drift.anchoredLines[0]}-${drift.anchoredLines[1]}`;
+  const [start, end] = drift.lines ?? [0, 0];
+  switch (drift.status) {
+    case "moved":
+      return `${anchored}, whose content moved to lines ${start}-${end}`;
+    case "changed":
+      return `${anchored}, whose content changed; the closest match is lines ${start}-${end} (${Math.round(drift.similarity * 100)}% of the lines)`;
+    default:
+      return `${anchored}, whose content is no longer in the file`;
+  }
+}
+
+// The view file rewritten with the violation's anchor moved to its content
+function buildReanchorUpdate(
+  violation: LibraryRuleViolation,
+  context: LibraryRuleContext,
+): {
+  drift: AnchorDrift;
+  path: string;
+  fullPath: string;
+  before: string;
+  after: string;
+} {
+  const match = findDrift(context).find(
+    ({ location }) =>
+      location.file === violation.file &&
+      location.jsonPointer === violation.jsonPointer,
+  );
+  if (!match) {
+    throw new Error(
+      `anchor-drift fix found no drifted anchor at ${violation.file} ${violation.jsonPointer}`,
+    );
+  }
+  if (!match.drift.lines) {
+    throw new Error(
+      `Cannot re-anchor ${match.drift.path}: the anchored content was deleted`,
+    );
+  }
+
+  const fsAdapter = context.fsAdapter!;
+  const fullPath = fsAdapter.join(
+    getViewsDir(fsAdapter, context.projectRoot),
+    `${match.view.id}.json`,
+  );
+  // Start from the file on disk so earlier fixes to the same view are kept
+  const before = fsAdapter.exists(fullPath)
+    ? fsAdapter.readFile(fullPath)
+    : JSON.stringify(match.view, null, 2);
+  const updated = reanchorView(JSON.parse(before) as CodebaseView, [
+    match.drift,
+  ]);
+
+  return {
+    drift: match.drift,
+    path: fsAdapter.relative(context.projectRoot, fullPath),
+    fullPath,
+    before,
+    after: JSON.stringify(updated, null, 2),
+  };
+}
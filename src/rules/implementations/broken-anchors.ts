@@ -0,0 +1,92 @@
+import {
+  LibraryRule,
+  LibraryRuleViolation,
+  LibraryRuleContext,
+} from "../types";
+import { NO_OPTIONS_SCHEMA } from "../../config/rule-options";
+import { locateInView } from "../utils/json-locator";
+import {
+  checkLineRange,
+  countLines,
+  findSymbolDeclarations,
+  isAnchorFingerprint,
+} from "../../pure-core/utils/anchors";
+
+export const brokenAnchors: LibraryRule = {
+  id: "broken-anchors",
+  name: "Broken Anchors",
+  severity: "warning",
+  category: "critical",
+  description:
+    "File references anchor a symbol that no longer exists or a line range outside the file",
+  impact:
+    "AI agents will look for code at the wrong place, or for code that is gone",
+  fixable: false,
+  enabled: true,
+  inputs: ["views", "files"],
+  optionsSchema: NO_OPTIONS_SCHEMA,
+
+  async check(context: LibraryRuleContext): Promise<LibraryRuleViolation[]> {
+    const violations: LibraryRuleViolation[] = [];
+    const { views, projectRoot, fsAdapter } = context;
+
+    if (!fsAdapter) {
+      throw new Error("broken-anchors rule requires fsAdapter in context");
+    }
+
+    for (const view of views) {
+      for (const [groupName, referenceGroup] of Object.entries(
+        view.referenceGroups ?? {},
+      )) {
+        if (!Array.isArray(referenceGroup.files)) continue;
+
+        referenceGroup.files.forEach((entry, index) => {
+          // Plain paths have no anchor; missing files are orphaned-references' job
+          if (typeof entry !== "object" || entry === null) return;
+          const fullPath = fsAdapter.join(projectRoot, entry.path);
+          if (!fsAdapter.exists(fullPath)) return;
+
+          const content = fsAdapter.readFile(fullPath);
+          const report = (field: "lines" | "symbol", problem: string) => {
+            const location = locateInView(fsAdapter, projectRoot, view, [
+              "referenceGroups",
+              groupName,
+              "files",
+              index,
+              field,
+            ]);
+            violations.push({
+              ruleId: this.id,
+              severity: this.severity,
+              ...location,
+              message: `View "${view.name}" reference group "${groupName}" ${problem}`,
+              impact: this.impact,
+              fixable: this.fixable,
+            });
+          };
+
+          if (
+            typeof entry.symbol === "string" &&
+            findSymbolDeclarations(content, entry.symbol).length === 0
+          ) {
+            report(
+              "symbol",
+              `references symbol "${entry.symbol}", which is no longer declared in ${entry.path}`,
+            );
+          }
+
+          // Fingerprinted ranges are re-anchored by anchor-drift instead
+          const rangeProblem =
+            entry.lines && isAnchorFingerprint(entry.fingerprint, entry.lines)
+              ? null
+              : checkLineRange(entry.lines, countLines(content));
+          if (rangeProblem) {
+            report("lines", `references ${entry.path}: ${rangeProblem}`);
+          }
+        });
+      }
+    }
+
+    return violations;
+  },
+};
@@ -0,0 +1,198 @@
+import {
+  LibraryRule,
+  LibraryRuleViolation,
+  LibraryRuleContext,
+} from "../types";
+import { NO_OPTIONS_SCHEMA } from "../../config/rule-options";
+import {
+  BrokenMarkdownLink,
+  findBrokenMarkdownLinks,
+  findClosestAnchor,
+  findClosestPath,
+  relativeLinkPath,
+} from "../../pure-core/utils/markdownLinks";
+import { AutoFixPreview } from "../../pure-core/autofixes/types";
+import { createUnifiedDiff } from "../../pure-core/utils/diff";
+
+export const brokenDocLinks: LibraryRule = {
+  id: "broken-doc-links",
+  name: "Broken Doc Links",
+  severity: "warning",
+  category: "critical",
+  description: "Overview documents link to files or headings that do not exist",
+  impact:
+    "AI agents following links in documentation will look for files and sections that are gone",
+  fixable: true,
+  enabled: true,
+  inputs: ["views", "markdown", "files"],
+  optionsSchema: NO_OPTIONS_SCHEMA,
+
+  async check(context: LibraryRuleContext): Promise<LibraryRuleViolation[]> {
+    return findBrokenLinks(context).map(({ document, broken, suggestion }) => {
+      const { target, line, column } = broken.link;
+      const problem =
+        broken.reason === "missing_file"
+          ? `${broken.path}, which does not exist`
+          : `heading "#${broken.anchor}", which is not in ${broken.path}`;
+
+      return {
+        ruleId: this.id,
+        severity: this.severity,
+        file: document,
+        line,
+        column,
+        message: `Link to "${target}" points to ${problem}${suggestion ? `; did you mean "${suggestion}"?` : ""}`,
+        impact: this.impact,
+        fixable: suggestion !== undefined,
+      };
+    });
+  },
+
+  async fix(
+    violation: LibraryRuleViolation,
+    context: LibraryRuleContext,
+  ): Promise<void> {
+    const update = buildLinkUpdate(violation, context);
+    context.fsAdapter!.writeFile(update.fullPath, update.after);
+  },
+
+  async planFix(
+    violation: LibraryRuleViolation,
+    context: LibraryRuleContext,
+  ): Promise<AutoFixPreview> {
+    const update = buildLinkUpdate(violation, context);
+    return {
+      description: `Change link "${update.target}" to "${update.suggestion}" in ${update.path}`,
+      changes: [
+        {
+          type: "file_updated",
+          path: update.path,
+          before: update.before,
+          after: update.after,
+          diff: createUnifiedDiff(
+            update.path,
+            update.path,
+            update.before,
+            update.after,
+          ),
+        },
+      ],
+      risk: "moderate",
+    };
+  },
+};
+
+interface LocatedBrokenLink {
+  /** Overview document relative to the project root */
+  document: string;
+  content: string;
+  broken: BrokenMarkdownLink;
+  /** Link target that points at the closest existing path or heading */
+  suggestion?: string;
+}
+
+// Broken links in the overview documents of every view
+function findBrokenLinks(context: LibraryRuleContext): LocatedBrokenLink[] {
+  const { views, files, projectRoot, fsAdapter } = context;
+  if (!fsAdapter) {
+    throw new Error("broken-doc-links rule requires fsAdapter in context");
+  }
+
+  const candidates = files.map((file) => file.relativePath);
+  const documents = new Set(
+    views
+      .map((view) => view.overviewPath)
+      .filter((path) => typeof path === "string" && path !== ""),
+  );
+
+  const found: LocatedBrokenLink[] = [];
+  for (const document of documents) {
+    // Missing overviews are reported by other rules
+    const fullPath = fsAdapter.join(projectRoot, document);
+    if (!fsAdapter.exists(fullPath)) continue;
+
+    const content = fsAdapter.readFile(fullPath);
+    for (const broken of findBrokenMarkdownLinks(
+      fsAdapter,
+      projectRoot,
+      document,
+      content,
+    )) {
+      found.push({
+        document,
+        content,
+        broken,
+        suggestion: suggestTarget(document, broken, candidates),
+      });
+    }
+  }
+  return found;
+}
+
+// The link target rewritten to the closest renamed path or heading
+function suggestTarget(
+  document: string,
+  broken: BrokenMarkdownLink,
+  candidates: string[],
+): string | undefined {
+  const { target } = broken.link;
+  const hash = target.indexOf("#");
+  const pathPart = hash === -1 ? target : target.slice(0, hash);
+  const anchorPart = hash === -1 ? "" : target.slice(hash);
+
+  if (broken.reason === "missing_anchor") {
+    const anchor = findClosestAnchor(broken.anchor!, broken.headings ?? []);
+    return anchor ? `${pathPart}#${anchor}` : undefined;
+  }
+
+  const path = findClosestPath(broken.path, candidates);
+  if (!path) return undefined;
+  const linked = target.startsWith("/")
+    ? `/${path}`
+    : relativeLinkPath(document, path);
+  return linked.replace(/ /g, "%20") + anchorPart;
+}
+
+// The overview rewritten with the violation's link pointing at its suggestion
+function buildLinkUpdate(
+  violation: LibraryRuleViolation,
+  context: LibraryRuleContext,
+): {
+  path: string;
+  fullPath: string;
+  target: string;
+  suggestion: string;
+  before: string;
+  after: string;
+} {
+  const match = findBrokenLinks(context).find(
+    ({ document, broken }) =>
+      document === violation.file &&
+      broken.link.line === violation.line &&
+      broken.link.column === violation.column,
+  );
+  if (!match) {
+    throw new Error(
+      `broken-doc-links fix found no broken link at ${violation.file}:${violation.line}:${violation.column}`,
+    );
+  }
+  if (match.suggestion === undefined) {
+    throw new Error(
+      `No existing path or heading resembles "${match.broken.link.target}"`,
+    );
+  }
+
+  const { target, targetOffset } = match.broken.link;
+  const before = match.content;
+  return {
+    path: match.document,
+    fullPath: context.fsAdapter!.join(context.projectRoot, match.document),
+    target,
+    suggestion: match.suggestion,
+    before,
+    after:
+      before.slice(0, targetOffset) +
+      match.suggestion +
+      before.slice(targetOffset + target.length),
+  };
+}
@@ -0,0 +1,54 @@
+import {
+  LibraryRule,
+  LibraryRuleViolation,
+  LibraryRuleContext,
+} from "../types";
+import { NO_OPTIONS_SCHEMA } from "../../config/rule-options";
+import { ALEXANDRIA_DIRS } from "../../constants/paths";
+import { locateInView } from "../utils/json-locator";
+import { ViewGraph } from "../../pure-core/utils/viewGraph";
+
+export const brokenViewLinks: LibraryRule = {
+  id: "broken-view-links",
+  name: "Broken View Links",
+  severity: "error",
+  category: "critical",
+  description: "Views or reference groups link to view ids that do not exist",
+  impact: "AI agents following links between views will reach a dead end",
+  fixable: false,
+  enabled: true,
+  inputs: ["views"],
+  optionsSchema: NO_OPTIONS_SCHEMA,
+
+  async check(context: LibraryRuleContext): Promise<LibraryRuleViolation[]> {
+    const { views, projectRoot, fsAdapter } = context;
+    const viewsById = new Map(views.map((view) => [view.id, view]));
+
+    return new ViewGraph(views).getBrokenLinks().map((link) => {
+      const view = viewsById.get(link.from)!;
+      const segments =
+        link.referenceGroup === undefined
+          ? ["links", link.to]
+          : ["referenceGroups", link.referenceGroup, "links", link.to];
+      // Point at the link when the view file can be read
+      const location = fsAdapter
+        ? locateInView(fsAdapter, projectRoot, view, segments)
+        : {
+            file: `${ALEXANDRIA_DIRS.PRIMARY}/${ALEXANDRIA_DIRS.VIEWS}/${view.id}.json`,
+          };
+      const source =
+        link.referenceGroup === undefined
+          ? `View "${view.name}"`
+          : `View "${view.name}" reference group "${link.referenceGroup}"`;
+
+      return {
+        ruleId: this.id,
+        severity: this.severity,
+        ...location,
+        message: `${source} links to view "${link.to}", which does not exist`,
+        impact: this.impact,
+        fixable: this.fixable,
+      };
+    });
+  },
+};
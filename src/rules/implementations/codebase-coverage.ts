@@ -1,12 +1,16 @@
 import {
+  FileInfo,
   LibraryRule,
   LibraryRuleViolation,
   LibraryRuleContext,
 } from "../types";
 import { CodebaseCoverageOptions } from "../../config/types";
+import { CODEBASE_COVERAGE_OPTIONS_SCHEMA } from "../../config/rule-options";
 import { matchesPatterns } from "../utils/patterns";
+import { DEFAULT_PRIORITY, PRIORITY_WEIGHTS } from "../utils/priority";
+import { getReferenceGroupFiles } from "../utils/reference-groups";
 
-export const codebaseCoverage: LibraryRule = {
+export const codebaseCoverage: LibraryRule<CodebaseCoverageOptions> = {
   id: "codebase-coverage",
   name: "Codebase Coverage",
   severity: "warning",
@@ -17,26 +21,23 @@ export const codebaseCoverage: LibraryRule = {
     "Low coverage means AI agents lack context for understanding large portions of the codebase",
   fixable: false,
   enabled: true,
+  inputs: ["files", "views"],
+  optionsSchema: CODEBASE_COVERAGE_OPTIONS_SCHEMA,
   options: {
     minimumCoverage: 70,
     includePatterns: ["**/*.ts", "**/*.js", "**/*.tsx", "**/*.jsx"],
     excludePatterns: ["**/*.test.ts", "**/*.spec.ts", "**/node_modules/**"],
     reportByDirectory: false,
     minimumDirectoryCoverage: 50,
+    weightByPriority: true,
   },
 
-  async check(context: LibraryRuleContext): Promise<LibraryRuleViolation[]> {
+  async check(
+    context: LibraryRuleContext,
+    options: Required<CodebaseCoverageOptions>,
+  ): Promise<LibraryRuleViolation[]> {
     const violations: LibraryRuleViolation[] = [];
-    const { files, views, config, globAdapter } = context;
-
-    // Get options from config
-    const ruleConfig = config?.context?.rules?.find(
-      (r) => r.id === "codebase-coverage",
-    );
-    const options = {
-      ...this.options,
-      ...(ruleConfig?.options as CodebaseCoverageOptions | undefined),
-    } as Required<CodebaseCoverageOptions>;
+    const { files, views, globAdapter } = context;
 
     // Build set of files covered by views
     const coveredFiles = new Set<string>();
@@ -44,10 +45,12 @@ export const codebaseCoverage: LibraryRule = {
       if (view.referenceGroups) {
         for (const groupName in view.referenceGroups) {
           const group = view.referenceGroups[groupName];
-          if ("files" in group && Array.isArray(group.files)) {
-            for (const file of group.files) {
-              coveredFiles.add(file);
-            }
+          for (const file of getReferenceGroupFiles(
+            globAdapter,
+            group,
+            files,
+          )) {
+            coveredFiles.add(file);
           }
         }
       }
@@ -76,20 +79,33 @@ export const codebaseCoverage: LibraryRule = {
       return !excluded;
     });
 
+    // Files matching priority patterns count by their priority's weight
+    const weighted =
+      options.weightByPriority && relevantFiles.some((f) => f.priority);
+    const weightOf = (file: FileInfo) =>
+      weighted ? PRIORITY_WEIGHTS[file.priority ?? DEFAULT_PRIORITY] : 1;
+    const percentOf = (covered: number, total: number) =>
+      total > 0 ? Math.round((covered / total) * 100) : 100;
+    const weightNote = weighted ? ", weighted by priority" : "";
+
     // Calculate overall coverage
     const totalFiles = relevantFiles.length;
     const coveredCount = relevantFiles.filter((f) =>
       coveredFiles.has(f.relativePath),
     ).length;
-    const coveragePercent =
-      totalFiles > 0 ? Math.round((coveredCount / totalFiles) * 100) : 100;
+    const coveragePercent = percentOf(
+      relevantFiles
+        .filter((f) => coveredFiles.has(f.relativePath))
+        .reduce((sum, f) => sum + weightOf(f), 0),
+      relevantFiles.reduce((sum, f) => sum + weightOf(f), 0),
+    );
 
     // Check overall coverage
     if (coveragePercent < options.minimumCoverage) {
       violations.push({
         ruleId: this.id,
         severity: this.severity,
-        message: `Codebase coverage is ${coveragePercent}% (${coveredCount}/${totalFiles} files), below minimum of ${options.minimumCoverage}%`,
+        message: `Codebase coverage is ${coveragePercent}% (${coveredCount}/${totalFiles} files${weightNote}), below minimum of ${options.minimumCoverage}%`,
         impact: this.impact,
         fixable: false,
       });
@@ -97,27 +113,42 @@ export const codebaseCoverage: LibraryRule = {
 
     // Directory-level coverage if requested
     if (options.reportByDirectory) {
-      const dirCoverage = new Map<string, { total: number; covered: number }>();
+      const dirCoverage = new Map<
+        string,
+        {
+          total: number;
+          covered: number;
+          totalWeight: number;
+          coveredWeight: number;
+        }
+      >();
 
       for (const file of relevantFiles) {
         const dir = file.relativePath.split("/").slice(0, -1).join("/") || ".";
-        const stats = dirCoverage.get(dir) || { total: 0, covered: 0 };
+        const stats = dirCoverage.get(dir) || {
+          total: 0,
+          covered: 0,
+          totalWeight: 0,
+          coveredWeight: 0,
+        };
         stats.total++;
+        stats.totalWeight += weightOf(file);
         if (coveredFiles.has(file.relativePath)) {
           stats.covered++;
+          stats.coveredWeight += weightOf(file);
         }
         dirCoverage.set(dir, stats);
       }
 
       // Check each directory
       for (const [dir, stats] of dirCoverage) {
-        const dirPercent = Math.round((stats.covered / stats.total) * 100);
+        const dirPercent = percentOf(stats.coveredWeight, stats.totalWeight);
         if (dirPercent < options.minimumDirectoryCoverage) {
           violations.push({
             ruleId: this.id,
             severity: this.severity,
             file: dir,
-            message: `Directory "${dir}" coverage is ${dirPercent}% (${stats.covered}/${stats.total} files), below minimum of ${options.minimumDirectoryCoverage}%`,
+            message: `Directory "${dir}" coverage is ${dirPercent}% (${stats.covered}/${stats.total} files${weightNote}), below minimum of ${options.minimumDirectoryCoverage}%`,
             impact: this.impact,
             fixable: false,
           });
@@ -4,7 +4,8 @@ import {
   LibraryRuleContext,
 } from "../types";
 import { DocumentOrganizationOptions } from "../../config/types";
-import { matchesPatterns } from "../utils/patterns";
+import { DOCUMENT_ORGANIZATION_OPTIONS_SCHEMA } from "../../config/rule-options";
+import { isExcludedByConfig } from "../utils/patterns";
 import {
   getRootExceptions,
   isLocationBound,
@@ -16,7 +17,7 @@ const DEFAULT_DOC_FOLDERS = ["docs", "documentation", "doc"];
 // Get root exceptions from centralized location-bound files
 const DEFAULT_ROOT_EXCEPTIONS = getRootExceptions();
 
-export const documentOrganization: LibraryRule = {
+export const documentOrganization: LibraryRule<DocumentOrganizationOptions> = {
   id: "document-organization",
   name: "Document Organization",
   severity: "warning",
@@ -27,15 +28,20 @@ export const documentOrganization: LibraryRule = {
     "Disorganized documentation makes it harder for both humans and AI agents to find relevant information",
   fixable: false,
   enabled: true,
+  inputs: ["markdown"],
+  optionsSchema: DOCUMENT_ORGANIZATION_OPTIONS_SCHEMA,
   options: {
     documentFolders: DEFAULT_DOC_FOLDERS,
     rootExceptions: DEFAULT_ROOT_EXCEPTIONS,
     checkNested: true,
-  } as DocumentOrganizationOptions,
+  },
 
-  async check(context: LibraryRuleContext): Promise<LibraryRuleViolation[]> {
+  async check(
+    context: LibraryRuleContext,
+    options,
+  ): Promise<LibraryRuleViolation[]> {
     const violations: LibraryRuleViolation[] = [];
-    const { config, globAdapter, fsAdapter } = context;
+    const { fsAdapter } = context;
 
     // Require fsAdapter for this rule
     if (!fsAdapter) {
@@ -44,34 +50,9 @@ export const documentOrganization: LibraryRule = {
       );
     }
 
-    // Get options from config or use defaults
-    const ruleConfig = config?.context?.rules?.find(
-      (r) => r.id === "document-organization",
-    );
-    const configOptions = ruleConfig?.options as
-      | DocumentOrganizationOptions
-      | undefined;
-    const defaultOptions = this.options as DocumentOrganizationOptions;
-
-    const options: DocumentOrganizationOptions = {
-      documentFolders:
-        configOptions?.documentFolders ||
-        defaultOptions.documentFolders ||
-        DEFAULT_DOC_FOLDERS,
-      rootExceptions:
-        configOptions?.rootExceptions ||
-        defaultOptions.rootExceptions ||
-        DEFAULT_ROOT_EXCEPTIONS,
-      checkNested:
-        configOptions?.checkNested !== undefined
-          ? configOptions.checkNested
-          : defaultOptions.checkNested !== false,
-    };
-
     try {
       // Use markdown files from context instead of re-scanning
       const markdownFiles = context.markdownFiles;
-      const globalExcludePatterns = config?.context?.patterns?.exclude ?? [];
 
       for (const fileInfo of markdownFiles) {
         const file = fileInfo.relativePath;
@@ -80,7 +61,7 @@ export const documentOrganization: LibraryRule = {
         // Split path using "/" since relative paths use forward slashes
         const pathParts = dirName.split("/").filter(Boolean);
 
-        if (matchesPatterns(globAdapter, globalExcludePatterns, file)) {
+        if (isExcludedByConfig(context, file)) {
           continue;
         }
 
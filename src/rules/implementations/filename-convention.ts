@@ -3,9 +3,18 @@ import {
   LibraryRuleViolation,
   LibraryRuleContext,
 } from "../types";
-import { FilenameConventionOptions, FilenameStyle } from "../../config/types";
-import { matchesPatterns } from "../utils/patterns";
+import { FilenameConventionOptions } from "../../config/types";
+import { FILENAME_CONVENTION_OPTIONS_SCHEMA } from "../../config/rule-options";
+import { isExcludedByConfig, matchesPatterns } from "../utils/patterns";
 import { getNamingExemptions } from "../utils/location-bound-files";
+import {
+  getFileEntryPath,
+  getReferenceGroupFilePaths,
+} from "../../pure-core/utils/referenceGroups";
+import { getViewsDir } from "../../utils/alexandria-paths";
+import { CodebaseView } from "../../pure-core/types";
+import { AutoFixChange, AutoFixPreview } from "../../pure-core/autofixes/types";
+import { createUnifiedDiff } from "../../pure-core/utils/diff";
 
 // Get naming exceptions from centralized location-bound files
 const DEFAULT_EXCEPTIONS = getNamingExemptions();
@@ -16,7 +25,10 @@ const DEFAULT_EXTENSIONS = [".md", ".mdx"];
 // Default documentation folders
 const DEFAULT_DOC_FOLDERS = ["docs", "documentation", "doc"];
 
-export const filenameConvention: LibraryRule = {
+// Style used unless a style or a custom separator is configured
+const DEFAULT_STYLE = "kebab-case";
+
+export const filenameConvention: LibraryRule<FilenameConventionOptions> = {
   id: "filename-convention",
   name: "Filename Convention",
   severity: "warning",
@@ -27,54 +39,29 @@ export const filenameConvention: LibraryRule = {
     "Inconsistent filename conventions make it harder to locate and reference documentation, reducing maintainability",
   fixable: true,
   enabled: true,
+  inputs: ["files"],
+  optionsSchema: FILENAME_CONVENTION_OPTIONS_SCHEMA,
   options: {
-    style: "kebab-case" as FilenameStyle,
     extensions: DEFAULT_EXTENSIONS,
+    exclude: [],
     exceptions: DEFAULT_EXCEPTIONS,
     documentFoldersOnly: false,
     autoFix: false,
-  } as FilenameConventionOptions,
+  },
 
-  async check(context: LibraryRuleContext): Promise<LibraryRuleViolation[]> {
+  async check(
+    context: LibraryRuleContext,
+    configuredOptions,
+  ): Promise<LibraryRuleViolation[]> {
     const violations: LibraryRuleViolation[] = [];
-    const { files, markdownFiles, config, globAdapter, fsAdapter } = context;
+    const { files, markdownFiles, globAdapter, fsAdapter } = context;
 
     // Require fsAdapter for this rule
     if (!fsAdapter) {
       throw new Error("filename-convention rule requires fsAdapter in context");
     }
 
-    // Get options from config or use defaults
-    const ruleConfig = config?.context?.rules?.find(
-      (r) => r.id === "filename-convention",
-    );
-    const configOptions = ruleConfig?.options as
-      | FilenameConventionOptions
-      | undefined;
-    const defaultOptions = this.options as FilenameConventionOptions;
-
-    const options: FilenameConventionOptions = {
-      // Only set style if explicitly provided, not when separator is used
-      style:
-        configOptions?.style ||
-        (configOptions?.separator ? undefined : defaultOptions.style),
-      separator: configOptions?.separator,
-      caseStyle: configOptions?.caseStyle,
-      extensions:
-        configOptions?.extensions ||
-        defaultOptions.extensions ||
-        DEFAULT_EXTENSIONS,
-      exclude: configOptions?.exclude || [],
-      exceptions:
-        configOptions?.exceptions ||
-        defaultOptions.exceptions ||
-        DEFAULT_EXCEPTIONS,
-      documentFoldersOnly:
-        configOptions?.documentFoldersOnly !== undefined
-          ? configOptions.documentFoldersOnly
-          : defaultOptions.documentFoldersOnly,
-      autoFix: configOptions?.autoFix || defaultOptions.autoFix,
-    };
+    const options = withDefaultStyle(configuredOptions);
 
     // Determine which files to check based on extensions
     const extensions = options.extensions || DEFAULT_EXTENSIONS;
@@ -85,8 +72,6 @@ export const filenameConvention: LibraryRule = {
             extensions.some((ext) => f.relativePath.endsWith(ext)),
           );
 
-    const globalExcludePatterns = config?.context?.patterns?.exclude ?? [];
-
     for (const fileInfo of filesToCheck) {
       const fileName = fsAdapter.basename(fileInfo.relativePath);
       const fileNameWithoutExt = fsAdapter.basename(
@@ -95,13 +80,7 @@ export const filenameConvention: LibraryRule = {
       );
       const dirName = fsAdapter.dirname(fileInfo.relativePath);
 
-      if (
-        matchesPatterns(
-          globAdapter,
-          globalExcludePatterns,
-          fileInfo.relativePath,
-        )
-      ) {
+      if (isExcludedByConfig(context, fileInfo.relativePath)) {
         continue;
       }
 
@@ -156,63 +135,197 @@ export const filenameConvention: LibraryRule = {
   async fix(
     violation: LibraryRuleViolation,
     context: LibraryRuleContext,
+    options,
   ): Promise<void> {
     if (!violation.file) return;
 
-    const { projectRoot, config, fsAdapter } = context;
+    const { fsAdapter } = context;
 
     // Require fsAdapter for fix
     if (!fsAdapter) {
       throw new Error("filename-convention fix requires fsAdapter in context");
     }
 
-    const ruleConfig = config?.context?.rules?.find(
-      (r) => r.id === "filename-convention",
-    );
-    const configOptions = ruleConfig?.options as
-      | FilenameConventionOptions
-      | undefined;
-    const defaultOptions = this.options as FilenameConventionOptions;
-
-    const options: FilenameConventionOptions = {
-      style: configOptions?.style || defaultOptions.style,
-      separator: configOptions?.separator,
-      caseStyle: configOptions?.caseStyle,
-      autoFix: configOptions?.autoFix || defaultOptions.autoFix,
-    };
-
     if (!options.autoFix) {
-      console.log(
+      throw new Error(
         `Auto-fix is disabled for ${this.id}. Enable it in configuration to fix automatically.`,
       );
-      return;
     }
 
-    const oldPath = fsAdapter.join(projectRoot, violation.file);
-    const fileName = fsAdapter.basename(violation.file);
-    const fileNameWithoutExt = fsAdapter.basename(
+    const plan = buildRenamePlan(
       violation.file,
-      fsAdapter.extname(violation.file),
+      withDefaultStyle(options),
+      context,
     );
-    const dirName = fsAdapter.dirname(violation.file);
-
-    const expectedFileName = convertToConvention(fileNameWithoutExt, options);
-    const expectedFullName = expectedFileName + fsAdapter.extname(violation.file);
-    const newPath = fsAdapter.join(projectRoot, dirName, expectedFullName);
 
     try {
       // Read the file content, write to new location, then delete old file
-      const content = fsAdapter.readFile(oldPath);
-      fsAdapter.writeFile(newPath, content);
-      fsAdapter.deleteFile(oldPath);
-      console.log(`Renamed "${fileName}" to "${expectedFullName}"`);
+      const content = fsAdapter.readFile(plan.oldFullPath);
+      if (plan.newFullPath.toLowerCase() === plan.oldFullPath.toLowerCase()) {
+        // On case-insensitive filesystems both names are the same file, so
+        // move it aside before writing the new name
+        const tempFullPath = `${plan.oldFullPath}.renaming`;
+        fsAdapter.writeFile(tempFullPath, content);
+        fsAdapter.deleteFile(plan.oldFullPath);
+        fsAdapter.writeFile(plan.newFullPath, content);
+        fsAdapter.deleteFile(tempFullPath);
+      } else {
+        fsAdapter.writeFile(plan.newFullPath, content);
+        fsAdapter.deleteFile(plan.oldFullPath);
+      }
+
+      // Keep views pointing at the renamed file
+      for (const update of plan.viewUpdates) {
+        fsAdapter.writeFile(update.fullPath, update.after);
+      }
+      console.log(
+        `Renamed "${fsAdapter.basename(plan.oldPath)}" to "${fsAdapter.basename(plan.newPath)}"`,
+      );
     } catch (error) {
       console.error(`Failed to rename file: ${error}`);
       throw error;
     }
   },
+
+  async planFix(
+    violation: LibraryRuleViolation,
+    context: LibraryRuleContext,
+    options,
+  ): Promise<AutoFixPreview> {
+    if (!violation.file) {
+      throw new Error(
+        "filename-convention fix requires a file on the violation",
+      );
+    }
+
+    if (!context.fsAdapter) {
+      throw new Error("filename-convention fix requires fsAdapter in context");
+    }
+
+    const plan = buildRenamePlan(
+      violation.file,
+      withDefaultStyle(options),
+      context,
+    );
+
+    const changes: AutoFixChange[] = [
+      {
+        type: "file_moved",
+        path: plan.oldPath,
+        before: plan.oldPath,
+        after: plan.newPath,
+        diff: createUnifiedDiff(plan.oldPath, plan.newPath, "", ""),
+      },
+    ];
+
+    for (const update of plan.viewUpdates) {
+      changes.push({
+        type: "file_updated",
+        path: update.path,
+        before: update.before,
+        after: update.after,
+        diff: createUnifiedDiff(
+          update.path,
+          update.path,
+          update.before,
+          update.after,
+        ),
+      });
+    }
+
+    return {
+      description:
+        plan.viewUpdates.length > 0
+          ? `Rename "${plan.oldPath}" to "${plan.newPath}" and update ${plan.viewUpdates.length} view(s)`
+          : `Rename "${plan.oldPath}" to "${plan.newPath}"`,
+      changes,
+      risk: plan.viewUpdates.length > 0 ? "moderate" : "safe",
+    };
+  },
 };
 
+interface RenamePlan {
+  /** Current path relative to the project root */
+  oldPath: string;
+  /** Target path relative to the project root */
+  newPath: string;
+  oldFullPath: string;
+  newFullPath: string;
+  /** View files that reference the old path and their rewritten content */
+  viewUpdates: Array<{
+    path: string;
+    fullPath: string;
+    before: string;
+    after: string;
+  }>;
+}
+
+// A configured separator replaces the default style; an explicit style still wins
+function withDefaultStyle(
+  options: FilenameConventionOptions,
+): FilenameConventionOptions {
+  return {
+    ...options,
+    style: options.style ?? (options.separator ? undefined : DEFAULT_STYLE),
+  };
+}
+
+// Work out the rename target and the view JSON edits that go with it
+function buildRenamePlan(
+  file: string,
+  options: FilenameConventionOptions,
+  context: LibraryRuleContext,
+): RenamePlan {
+  const { projectRoot, views } = context;
+  const fsAdapter = context.fsAdapter!;
+
+  const fileNameWithoutExt = fsAdapter.basename(file, fsAdapter.extname(file));
+  const dirName = fsAdapter.dirname(file);
+  const expectedFullName =
+    convertToConvention(fileNameWithoutExt, options) + fsAdapter.extname(file);
+  const newPath =
+    dirName === "." || dirName === "" || dirName === "/"
+      ? expectedFullName
+      : `${dirName}/${expectedFullName}`;
+
+  const oldFullPath = fsAdapter.join(projectRoot, file);
+  const newFullPath = fsAdapter.join(projectRoot, newPath);
+
+  if (
+    newFullPath.toLowerCase() !== oldFullPath.toLowerCase() &&
+    fsAdapter.exists(newFullPath)
+  ) {
+    throw new Error(`Cannot rename "${file}": "${newPath}" already exists`);
+  }
+
+  const viewUpdates: RenamePlan["viewUpdates"] = [];
+  const viewsDir = getViewsDir(fsAdapter, projectRoot);
+
+  for (const view of views) {
+    const fullPath = fsAdapter.join(viewsDir, `${view.id}.json`);
+    // Patch the file as stored, so its version and any fields this library
+    // does not know are written back unchanged
+    const before = fsAdapter.exists(fullPath)
+      ? fsAdapter.readFile(fullPath)
+      : JSON.stringify(view, null, 2);
+    const updatedView = renameInView(
+      JSON.parse(before) as CodebaseView,
+      file,
+      newPath,
+    );
+    if (!updatedView) continue;
+
+    viewUpdates.push({
+      path: fsAdapter.relative(projectRoot, fullPath),
+      fullPath,
+      before,
+      after: JSON.stringify(updatedView, null, 2),
+    });
+  }
+
+  return { oldPath: file, newPath, oldFullPath, newFullPath, viewUpdates };
+}
+
 // Helper method to convert filename to specified convention
 export function convertToConvention(
   filename: string,
@@ -321,3 +434,38 @@ export function getStyleName(options: FilenameConventionOptions): string {
   }
   return "specified";
 }
+
+// The view with a renamed overview or file, or null when it uses neither
+function renameInView(
+  view: CodebaseView,
+  file: string,
+  newPath: string,
+): CodebaseView | null {
+  let changed = view.overviewPath === file;
+  const referenceGroups: CodebaseView["referenceGroups"] = {};
+  for (const [groupName, group] of Object.entries(view.referenceGroups ?? {})) {
+    if (getReferenceGroupFilePaths(group).includes(file)) {
+      changed = true;
+      referenceGroups[groupName] = {
+        ...group,
+        files: (group.files ?? []).map((entry) =>
+          getFileEntryPath(entry) !== file
+            ? entry
+            : typeof entry === "string"
+              ? newPath
+              : { ...entry, path: newPath },
+        ),
+      };
+    } else {
+      referenceGroups[groupName] = group;
+    }
+  }
+
+  if (!changed) return null;
+
+  return {
+    ...view,
+    ...(view.overviewPath === file && { overviewPath: newPath }),
+    ...(view.referenceGroups && { referenceGroups }),
+  };
+}
@@ -4,8 +4,14 @@ import {
   LibraryRuleContext,
 } from "../types";
 import { MinimumReferencesOptions } from "../../config/types";
+import { MINIMUM_REFERENCES_OPTIONS_SCHEMA } from "../../config/rule-options";
+import { ALEXANDRIA_DIRS } from "../../constants/paths";
+import { locateInView } from "../utils/json-locator";
+import { getReferenceGroupFiles } from "../utils/reference-groups";
 
-export const minimumReferences: LibraryRule = {
+export const minimumReferences: LibraryRule<
+  Required<MinimumReferencesOptions>
+> = {
   id: "minimum-references",
   name: "Minimum References",
   severity: "error",
@@ -16,32 +22,25 @@ export const minimumReferences: LibraryRule = {
     "Views with too few file references may not provide enough context for AI agents to understand the codebase",
   fixable: false,
   enabled: true,
+  inputs: ["views", "files"],
+  optionsSchema: MINIMUM_REFERENCES_OPTIONS_SCHEMA,
   options: {
     minFiles: 1,
     excludeCategories: ["planning", "meta"],
     excludeViews: [],
   },
 
-  async check(context: LibraryRuleContext): Promise<LibraryRuleViolation[]> {
+  async check(
+    context: LibraryRuleContext,
+    options,
+  ): Promise<LibraryRuleViolation[]> {
     const violations: LibraryRuleViolation[] = [];
-    const { views, config } = context;
-
-    // Get options from config
-    const ruleConfig = config?.context?.rules?.find(
-      (r) => r.id === "minimum-references",
-    );
-    const options = {
-      ...this.options,
-      ...(ruleConfig?.options as MinimumReferencesOptions | undefined),
-    } as Required<MinimumReferencesOptions>;
+    const { views, files, projectRoot, fsAdapter, globAdapter } = context;
 
     // Check each view
     for (const view of views) {
       // Check if view is excluded by category
-      if (
-        view.category &&
-        options.excludeCategories.includes(view.category)
-      ) {
+      if (view.category && options.excludeCategories.includes(view.category)) {
         continue;
       }
 
@@ -50,31 +49,39 @@ export const minimumReferences: LibraryRule = {
         continue;
       }
 
-      // Count total files in all reference groups
-      let totalFiles = 0;
+      // Count the distinct files of all reference groups
+      const referencedFiles = new Set<string>();
       if (view.referenceGroups) {
         for (const groupName in view.referenceGroups) {
           const referenceGroup = view.referenceGroups[groupName];
-          // Check if it's a file reference group (has 'files' property)
-          if (
-            typeof referenceGroup === "object" &&
-            referenceGroup !== null &&
-            "files" in referenceGroup &&
-            Array.isArray(referenceGroup.files)
-          ) {
-            totalFiles += referenceGroup.files.length;
+          if (typeof referenceGroup !== "object" || referenceGroup === null) {
+            continue;
+          }
+          // Explicit files, and the scanned files its patterns and directories match
+          for (const file of getReferenceGroupFiles(
+            globAdapter,
+            referenceGroup,
+            files,
+          )) {
+            referencedFiles.add(file);
           }
         }
       }
+      const totalFiles = referencedFiles.size;
 
       // Check if view has enough file references
       if (totalFiles < options.minFiles) {
-        const viewFile = `views/${view.name}.json`;
+        // Point at the view's referenceGroups when the file can be read
+        const location = fsAdapter
+          ? locateInView(fsAdapter, projectRoot, view, ["referenceGroups"])
+          : {
+              file: `${ALEXANDRIA_DIRS.PRIMARY}/${ALEXANDRIA_DIRS.VIEWS}/${view.id}.json`,
+            };
 
         violations.push({
           ruleId: this.id,
           severity: this.severity,
-          file: viewFile,
+          ...location,
           message: `View "${view.name}" has only ${totalFiles} file reference${totalFiles === 1 ? "" : "s"}, below minimum of ${options.minFiles}`,
           impact: this.impact,
           fixable: this.fixable,
@@ -3,23 +3,31 @@ import {
   LibraryRuleViolation,
   LibraryRuleContext,
 } from "../types";
-import { findFileReferenceLineNumber } from "../utils/line-numbers";
-import { getViewsDir } from "../../utils/alexandria-paths";
+import { NO_OPTIONS_SCHEMA } from "../../config/rule-options";
+import { locateInView } from "../utils/json-locator";
+import { matchesPatterns } from "../utils/patterns";
+import {
+  getFileEntryPath,
+  getReferenceGroupPatterns,
+} from "../../pure-core/utils/referenceGroups";
 
 export const orphanedReferences: LibraryRule = {
   id: "orphaned-references",
   name: "Orphaned File References",
   severity: "error",
   category: "critical",
-  description: "Context references files that no longer exist in the codebase",
+  description:
+    "Context references files that no longer exist in the codebase, or patterns and directories that match no files",
   impact:
     "AI agents will reference non-existent files, causing errors and confusion",
   fixable: false,
   enabled: true,
+  inputs: ["views", "files"],
+  optionsSchema: NO_OPTIONS_SCHEMA,
 
   async check(context: LibraryRuleContext): Promise<LibraryRuleViolation[]> {
     const violations: LibraryRuleViolation[] = [];
-    const { views, projectRoot, fsAdapter } = context;
+    const { views, files, projectRoot, fsAdapter, globAdapter } = context;
 
     // Require fsAdapter for this rule
     if (!fsAdapter) {
@@ -36,28 +44,49 @@ export const orphanedReferences: LibraryRule = {
             "files" in referenceGroup &&
             Array.isArray(referenceGroup.files)
           ) {
-            for (const file of referenceGroup.files) {
+            referenceGroup.files.forEach((entry, index) => {
+              const file = getFileEntryPath(entry);
               const fullPath = fsAdapter.join(projectRoot, file);
               if (!fsAdapter.exists(fullPath)) {
-                const viewFilePath = fsAdapter.join(
-                  getViewsDir(fsAdapter, projectRoot),
-                  `${view.name}.json`,
-                );
-                const lineNumber = findFileReferenceLineNumber(
-                  fsAdapter,
-                  viewFilePath,
-                  file,
-                );
+                const location = locateInView(fsAdapter, projectRoot, view, [
+                  "referenceGroups",
+                  groupName,
+                  "files",
+                  index,
+                ]);
                 violations.push({
                   ruleId: this.id,
                   severity: this.severity,
-                  file: `views/${view.name}.json`,
-                  line: lineNumber,
+                  ...location,
                   message: `View "${view.name}" reference group "${groupName}" references non-existent file: ${file}`,
                   impact: this.impact,
                   fixable: this.fixable,
                 });
               }
+            });
+          }
+
+          // Patterns and directories must match at least one file
+          for (const entry of getReferenceGroupPatterns(referenceGroup)) {
+            const matched = files.some((file) =>
+              matchesPatterns(globAdapter, [entry.pattern], file.relativePath),
+            );
+            if (!matched) {
+              const location = locateInView(fsAdapter, projectRoot, view, [
+                "referenceGroups",
+                groupName,
+                entry.field,
+                entry.index,
+              ]);
+              const kind = entry.field === "patterns" ? "pattern" : "directory";
+              violations.push({
+                ruleId: this.id,
+                severity: this.severity,
+                ...location,
+                message: `View "${view.name}" reference group "${groupName}" has a ${kind} that matches no files: ${entry.source}`,
+                impact: this.impact,
+                fixable: this.fixable,
+              });
             }
           }
         }
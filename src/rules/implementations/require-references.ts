@@ -4,10 +4,12 @@ import {
   LibraryRuleContext,
 } from "../types";
 import { RequireReferencesOptions } from "../../config/types";
+import { REQUIRE_REFERENCES_OPTIONS_SCHEMA } from "../../config/rule-options";
 import { ALEXANDRIA_DIRS } from "../../constants/paths";
-import { matchesPatterns } from "../utils/patterns";
+import { isExcludedByConfig, matchesPatterns } from "../utils/patterns";
+import { DEFAULT_PRIORITY, isAtLeastPriority } from "../utils/priority";
 
-export const requireReferences: LibraryRule = {
+export const requireReferences: LibraryRule<RequireReferencesOptions> = {
   id: "require-references",
   name: "Require References",
   severity: "error",
@@ -18,18 +20,15 @@ export const requireReferences: LibraryRule = {
     "AI agents lack structured context for understanding this documentation",
   fixable: false,
   enabled: true,
+  inputs: ["markdown", "views"],
+  optionsSchema: REQUIRE_REFERENCES_OPTIONS_SCHEMA,
 
-  async check(context: LibraryRuleContext): Promise<LibraryRuleViolation[]> {
+  async check(
+    context: LibraryRuleContext,
+    options,
+  ): Promise<LibraryRuleViolation[]> {
     const violations: LibraryRuleViolation[] = [];
-    const { markdownFiles, views, config, globAdapter } = context;
-
-    // Get options from config
-    const ruleConfig = config?.context?.rules?.find(
-      (r) => r.id === "require-references",
-    );
-    const configOptions = ruleConfig?.options as
-      | RequireReferencesOptions
-      | undefined;
+    const { markdownFiles, views, globAdapter } = context;
 
     // Build a set of all markdown files that are associated with views (as overviews only)
     const associatedFiles = new Set<string>();
@@ -46,8 +45,6 @@ export const requireReferences: LibraryRule = {
       }
     }
 
-    const globalExcludePatterns = config?.context?.patterns?.exclude ?? [];
-
     // Find markdown files that are not associated
     for (const mdFile of markdownFiles) {
       const relativePath = mdFile.relativePath;
@@ -57,13 +54,22 @@ export const requireReferences: LibraryRule = {
         continue;
       }
 
-      if (matchesPatterns(globAdapter, globalExcludePatterns, relativePath)) {
+      if (isExcludedByConfig(context, relativePath)) {
         continue;
       }
 
       // Skip files explicitly excluded in config
+      if (matchesPatterns(globAdapter, options.excludeFiles, relativePath)) {
+        continue;
+      }
+
+      // Skip files less important than the configured minimum
       if (
-        matchesPatterns(globAdapter, configOptions?.excludeFiles, relativePath)
+        options.minimumPriority &&
+        !isAtLeastPriority(
+          mdFile.priority ?? DEFAULT_PRIORITY,
+          options.minimumPriority,
+        )
       ) {
         continue;
       }
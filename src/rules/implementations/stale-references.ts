@@ -3,8 +3,11 @@ import {
   LibraryRuleViolation,
   LibraryRuleContext,
 } from "../types";
+import { StaleReferencesOptions } from "../../config/types";
+import { STALE_REFERENCES_OPTIONS_SCHEMA } from "../../config/rule-options";
+import { getReferenceGroupFilePaths } from "../../pure-core/utils/referenceGroups";
 
-export const staleReferences: LibraryRule = {
+export const staleReferences: LibraryRule<StaleReferencesOptions> = {
   id: "stale-references",
   name: "Stale References",
   severity: "warning",
@@ -15,10 +18,15 @@ export const staleReferences: LibraryRule = {
     "AI agents may use outdated patterns and assumptions from stale documentation",
   fixable: false,
   enabled: true,
+  inputs: ["views", "files"],
+  optionsSchema: STALE_REFERENCES_OPTIONS_SCHEMA,
 
-  async check(context: LibraryRuleContext): Promise<LibraryRuleViolation[]> {
+  async check(
+    context: LibraryRuleContext,
+    options,
+  ): Promise<LibraryRuleViolation[]> {
     const violations: LibraryRuleViolation[] = [];
-    const { views, files, fsAdapter } = context;
+    const { views, files, fsAdapter, gitHistory } = context;
 
     // Require fsAdapter for this rule
     if (!fsAdapter) {
@@ -34,9 +42,19 @@ export const staleReferences: LibraryRule = {
         }
       }
 
-      // Helper to get last modification date for a file
-      const getLastModified = (relativePath: string): Date | null => {
-        return fileModMap.get(relativePath) || null;
+      // Helper to get the last change for a file. Git history is preferred so
+      // checkouts and builds don't make files look recently modified.
+      const getLastChange = (
+        relativePath: string,
+      ): { date: Date; commitHash?: string } | null => {
+        if (gitHistory) {
+          const history = gitHistory.get(relativePath);
+          return history
+            ? { date: history.lastModified, commitHash: history.lastCommitHash }
+            : null;
+        }
+        const date = fileModMap.get(relativePath);
+        return date ? { date } : null;
       };
 
       // Check views with overview files
@@ -44,32 +62,36 @@ export const staleReferences: LibraryRule = {
         // Only check views that have an overview file
         if (!view.overviewPath) continue;
 
-        const overviewLastModified = getLastModified(view.overviewPath);
+        const overviewChange = getLastChange(view.overviewPath);
 
-        if (!overviewLastModified) continue;
+        if (!overviewChange) continue;
+        const overviewLastModified = overviewChange.date;
 
         // Check if any referenced files have been modified after the overview
         let newestFileModification: Date | null = null;
         let newestFile: string | null = null;
+        let newestCommitHash: string | undefined;
 
         if (view.referenceGroups) {
           for (const groupName in view.referenceGroups) {
             const referenceGroup = view.referenceGroups[groupName];
-            // Check if it's a file reference group (has 'files' property)
-            if (
-              "files" in referenceGroup &&
-              Array.isArray(referenceGroup.files)
-            ) {
-              for (const file of referenceGroup.files) {
-                const fileModified = getLastModified(file);
-                if (
-                  fileModified &&
-                  (!newestFileModification ||
-                    fileModified > newestFileModification)
-                ) {
-                  newestFileModification = fileModified;
-                  newestFile = file;
-                }
+            for (const file of getReferenceGroupFilePaths(referenceGroup)) {
+              const fileChange = getLastChange(file);
+              // Files committed together with the overview are up to date
+              if (
+                !fileChange ||
+                (fileChange.commitHash !== undefined &&
+                  fileChange.commitHash === overviewChange.commitHash)
+              ) {
+                continue;
+              }
+              if (
+                !newestFileModification ||
+                fileChange.date > newestFileModification
+              ) {
+                newestFileModification = fileChange.date;
+                newestFile = file;
+                newestCommitHash = fileChange.commitHash;
               }
             }
           }
@@ -83,7 +105,12 @@ export const staleReferences: LibraryRule = {
             newestFileModification.getTime() - overviewLastModified.getTime();
 
           // Ignore differences less than 5 seconds (formatting/build tool delays)
-          if (timeDifferenceMs < 5000) {
+          // or within the configured grace period
+          const maxAgeMs =
+            options.maxAgeDays !== undefined
+              ? options.maxAgeDays * 24 * 60 * 60 * 1000
+              : 0;
+          if (timeDifferenceMs < Math.max(5000, maxAgeMs)) {
             continue;
           }
 
@@ -122,7 +149,11 @@ export const staleReferences: LibraryRule = {
             ruleId: this.id,
             severity: this.severity,
             file: view.overviewPath,
-            message: `Overview "${view.overviewPath}" ${timeMessage} "${newestFile}" changed`,
+            message:
+              `Overview "${view.overviewPath}" ${timeMessage} "${newestFile}" changed` +
+              (newestCommitHash
+                ? ` in commit ${newestCommitHash.slice(0, 7)}`
+                : ""),
             impact: this.impact,
             fixable: this.fixable,
           });
@@ -0,0 +1,67 @@
+import {
+  LibraryRule,
+  LibraryRuleViolation,
+  LibraryRuleContext,
+} from "../types";
+import { UnlinkedViewsOptions } from "../../config/types";
+import { UNLINKED_VIEWS_OPTIONS_SCHEMA } from "../../config/rule-options";
+import { ALEXANDRIA_DIRS } from "../../constants/paths";
+import { locateInView } from "../utils/json-locator";
+import { ViewGraph } from "../../pure-core/utils/viewGraph";
+
+export const unlinkedViews: LibraryRule<Required<UnlinkedViewsOptions>> = {
+  id: "unlinked-views",
+  name: "Unlinked Views",
+  severity: "info",
+  category: "structure",
+  description: "Views that no other view links to",
+  impact:
+    "AI agents navigating between views will not find views nothing links to",
+  fixable: false,
+  enabled: true,
+  inputs: ["views"],
+  optionsSchema: UNLINKED_VIEWS_OPTIONS_SCHEMA,
+  options: {
+    excludeCategories: [],
+    excludeViews: [],
+  },
+
+  async check(
+    context: LibraryRuleContext,
+    options,
+  ): Promise<LibraryRuleViolation[]> {
+    const { views, projectRoot, fsAdapter } = context;
+
+    // A single view has nothing to be linked from
+    if (views.length < 2) {
+      return [];
+    }
+
+    const unlinked = new Set(new ViewGraph(views).getUnlinkedViews());
+    return views
+      .filter(
+        (view) =>
+          unlinked.has(view.id) &&
+          !(
+            view.category && options.excludeCategories.includes(view.category)
+          ) &&
+          !options.excludeViews.includes(view.name),
+      )
+      .map((view) => {
+        const location = fsAdapter
+          ? locateInView(fsAdapter, projectRoot, view, ["id"])
+          : {
+              file: `${ALEXANDRIA_DIRS.PRIMARY}/${ALEXANDRIA_DIRS.VIEWS}/${view.id}.json`,
+            };
+
+        return {
+          ruleId: this.id,
+          severity: this.severity,
+          ...location,
+          message: `View "${view.name}" is not linked from any other view`,
+          impact: this.impact,
+          fixable: this.fixable,
+        };
+      });
+  },
+};
@@ -6,6 +6,15 @@ export type {
   LibraryRuleContext,
   LibraryRuleSet,
   LibraryLintResult,
+  LibraryFixFailure,
+  LibraryFixSummary,
+  LibraryFixPlan,
+  LibraryFixPlanResult,
+  LibraryLintCacheSummary,
+  LibraryBaselineEntry,
+  LibraryBaselineSummary,
+  LibraryRuleInput,
+  LibraryWatchResult,
   FileInfo,
   GitFileHistory,
 } from "./types";
@@ -14,11 +23,33 @@ export type {
 export type { CodebaseView } from "../pure-core/types";
 
 export { LibraryRulesEngine } from "./engine";
+export { resolveRuleOptions } from "./options";
+export {
+  parseMarkdownSuppressions,
+  getViewSuppressions,
+  applySuppressions,
+  UNUSED_SUPPRESSION_RULE_ID,
+  MISSING_SUPPRESSION_REASON_RULE_ID,
+} from "./suppressions";
+export type { Suppression } from "./suppressions";
+export { PLUGIN_ERROR_RULE_ID, loadPlugin } from "./plugins";
+export type { LoadedPlugin } from "./plugins";
+export {
+  LintBaseline,
+  BASELINE_FILENAME,
+  fingerprintViolation,
+  normalizeViolationMessage,
+} from "./baseline";
 export { requireReferences } from "./implementations/require-references";
 export { orphanedReferences } from "./implementations/orphaned-references";
 export { staleReferences } from "./implementations/stale-references";
+export { brokenAnchors } from "./implementations/broken-anchors";
+export { anchorDrift } from "./implementations/anchor-drift";
 export { codebaseCoverage } from "./implementations/codebase-coverage";
 export { minimumReferences } from "./implementations/minimum-references";
+export { brokenViewLinks } from "./implementations/broken-view-links";
+export { unlinkedViews } from "./implementations/unlinked-views";
+export { brokenDocLinks } from "./implementations/broken-doc-links";
 
 // Location-bound files utilities
 export type {
@@ -0,0 +1,36 @@
+import { AlexandriaConfig } from "../config/types";
+import { validateRuleOptions } from "../config/rule-options";
+import { LibraryRule } from "./types";
+
+/**
+ * Resolve the options a rule runs with: its defaults overlaid with the
+ * options configured for it in `context.rules`.
+ * Configured options are validated against the rule's `optionsSchema`.
+ *
+ * @throws Error listing every invalid option when validation fails
+ */
+export function resolveRuleOptions<TOptions extends object>(
+  rule: LibraryRule<TOptions>,
+  config: AlexandriaConfig | null | undefined,
+): TOptions {
+  const rules = config?.context?.rules ?? [];
+  const index = rules.findIndex((r) => r.id === rule.id);
+  const configured = index >= 0 ? rules[index].options : undefined;
+
+  if (configured !== undefined && rule.optionsSchema) {
+    const errors = validateRuleOptions(
+      rule.optionsSchema,
+      configured,
+      `context.rules[${index}].options`,
+    );
+    if (errors.length > 0) {
+      throw new Error(
+        `Invalid options for rule "${rule.id}": ${errors
+          .map((error) => `${error.path}: ${error.message}`)
+          .join("; ")}`,
+      );
+    }
+  }
+
+  return { ...rule.options, ...configured } as TOptions;
+}
@@ -0,0 +1,189 @@
+/**
+ * Rule plugins - Third-party rules listed in the config's `plugins`
+ *
+ * A plugin is a module whose default export, or `rules` export, is an array
+ * of LibraryRule objects. Plugin rule ids must be namespaced (`myorg/rule-id`)
+ * so they can't collide with built-in rules. Problems with a plugin are
+ * reported as `plugin-error` violations instead of aborting the lint.
+ */
+
+import { PluginLoader } from "../pure-core/abstractions/plugins";
+import { LibraryRule, LibraryRuleViolation } from "./types";
+
+export const PLUGIN_ERROR_RULE_ID = "plugin-error";
+
+const NAMESPACED_RULE_ID = /^@?[\w.-]+\/[\w.-]+$/;
+const SEVERITIES = ["error", "warning", "info"];
+
+export interface LoadedPlugin {
+  specifier: string;
+  /** Rules that passed validation */
+  rules: LibraryRule[];
+  /** Why the plugin or some of its rules were rejected */
+  errors: string[];
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Find the rule array a plugin module exports.
+ */
+function getExportedRules(exports: unknown): unknown[] | undefined {
+  if (Array.isArray(exports)) {
+    return exports;
+  }
+  if (typeof exports !== "object" || exports === null) {
+    return undefined;
+  }
+
+  const { default: defaultExport, rules } = exports as {
+    default?: unknown;
+    rules?: unknown;
+  };
+  if (Array.isArray(rules)) {
+    return rules;
+  }
+  if (Array.isArray(defaultExport)) {
+    return defaultExport;
+  }
+  // CommonJS modules imported as ESM expose module.exports as the default
+  return defaultExport !== exports
+    ? getExportedRules(defaultExport)
+    : undefined;
+}
+
+/**
+ * Reason a plugin export can't be used as a rule, if any.
+ */
+function validatePluginRule(rule: unknown): string | undefined {
+  if (typeof rule !== "object" || rule === null) {
+    return "is not an object";
+  }
+  const { id, name, severity, check } = rule as Record<string, unknown>;
+  if (typeof id !== "string" || !NAMESPACED_RULE_ID.test(id)) {
+    return `has id ${JSON.stringify(id)}; plugin rule ids must be namespaced like "myorg/rule-id"`;
+  }
+  if (typeof name !== "string") {
+    return "has no name";
+  }
+  if (!SEVERITIES.includes(severity as string)) {
+    return `has invalid severity ${JSON.stringify(severity)}`;
+  }
+  if (typeof check !== "function") {
+    return "has no check function";
+  }
+  return undefined;
+}
+
+/**
+ * Reason a violation returned by a plugin rule can't be used, if any.
+ */
+function validatePluginViolation(violation: unknown): string | undefined {
+  if (typeof violation !== "object" || violation === null) {
+    return "is not an object";
+  }
+  const { ruleId, severity, message, impact, fixable, file, line, column } =
+    violation as Record<string, unknown>;
+  if (typeof ruleId !== "string") {
+    return "has no ruleId";
+  }
+  if (!SEVERITIES.includes(severity as string)) {
+    return `has invalid severity ${JSON.stringify(severity)}`;
+  }
+  if (typeof message !== "string" || typeof impact !== "string") {
+    return "needs a message and an impact";
+  }
+  if (typeof fixable !== "boolean") {
+    return "has no fixable flag";
+  }
+  if (
+    (file !== undefined && typeof file !== "string") ||
+    (line !== undefined && typeof line !== "number") ||
+    (column !== undefined && typeof column !== "number")
+  ) {
+    return "has an invalid location";
+  }
+  return undefined;
+}
+
+/**
+ * Reason a plugin rule's check result can't be used as violations, if any.
+ */
+export function validatePluginViolations(result: unknown): string | undefined {
+  if (!Array.isArray(result)) {
+    return `${result === null ? "null" : typeof result} instead of an array of violations`;
+  }
+  for (const [index, violation] of result.entries()) {
+    const problem = validatePluginViolation(violation);
+    if (problem) {
+      return `violation #${index + 1} that ${problem}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Load a plugin and validate its rules. Never throws; load failures and
+ * invalid rules are returned as errors.
+ *
+ * @param loader - Imports the plugin module
+ * @param specifier - Package name or path relative to the project root
+ * @param projectRoot - Directory the specifier is resolved from
+ */
+export async function loadPlugin(
+  loader: PluginLoader,
+  specifier: string,
+  projectRoot: string,
+): Promise<LoadedPlugin> {
+  let exports: unknown;
+  try {
+    exports = await loader.load(specifier, projectRoot);
+  } catch (error) {
+    return {
+      specifier,
+      rules: [],
+      errors: [`Failed to load plugin "${specifier}": ${describeError(error)}`],
+    };
+  }
+
+  const exported = getExportedRules(exports);
+  if (!exported) {
+    return {
+      specifier,
+      rules: [],
+      errors: [
+        `Plugin "${specifier}" must export an array of rules as its default export or as "rules"`,
+      ],
+    };
+  }
+
+  const rules: LibraryRule[] = [];
+  const errors: string[] = [];
+  exported.forEach((rule, index) => {
+    const problem = validatePluginRule(rule);
+    if (problem) {
+      errors.push(`Plugin "${specifier}" rule #${index + 1} ${problem}`);
+    } else {
+      rules.push(rule as LibraryRule);
+    }
+  });
+
+  return { specifier, rules, errors };
+}
+
+/**
+ * Violation reporting a broken plugin or a plugin rule that failed.
+ */
+export function createPluginErrorViolation(
+  message: string,
+): LibraryRuleViolation {
+  return {
+    ruleId: PLUGIN_ERROR_RULE_ID,
+    severity: "error",
+    message,
+    impact: "Rules from this plugin did not run, so their checks are missing",
+    fixable: false,
+  };
+}
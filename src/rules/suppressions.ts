@@ -0,0 +1,312 @@
+/**
+ * Inline suppressions - Silence rules for a single document or view
+ *
+ * Markdown files use HTML comments:
+ *   <!-- alexandria-disable stale-references -- reviewed for 2.0 -->
+ *   <!-- alexandria-disable-next-line broken-doc-links -->
+ * `alexandria-disable` applies to the whole file and `alexandria-disable-next-line`
+ * to violations reported on the following line. Omitting the rule list
+ * suppresses every rule; the text after `--` is the reason.
+ *
+ * Views list suppressions in `experimentalMetadata.alexandriaDisable`, either as
+ * rule ids or as `{ "rule": "...", "reason": "..." }` objects. They apply to
+ * violations reported on the view file and on its overview document.
+ */
+
+import { FileSystemAdapter } from "../pure-core/abstractions/filesystem";
+import { CodebaseView, ValidatedRepositoryPath } from "../pure-core/types";
+import { LibraryRuleContext, LibraryRuleViolation } from "./types";
+import { locateInView } from "./utils/json-locator";
+
+export const UNUSED_SUPPRESSION_RULE_ID = "unused-suppression";
+export const MISSING_SUPPRESSION_REASON_RULE_ID = "missing-suppression-reason";
+
+export const VIEW_SUPPRESSIONS_KEY = "alexandriaDisable";
+
+export interface Suppression {
+  /** File the directive is written in, relative to the project root */
+  file: string;
+  line?: number;
+  column?: number;
+  jsonPointer?: string;
+  /** Files whose violations the directive applies to */
+  appliesTo: string[];
+  /** Only violations on this line are suppressed; file-wide when absent */
+  targetLine?: number;
+  /** Suppressed rule ids; empty means every rule */
+  rules: string[];
+  reason?: string;
+}
+
+export interface ApplySuppressionsOptions {
+  /** Rules that ran; unused suppressions are only reported for these */
+  ranRules: Set<string>;
+  /** Registered rules; suppressions naming anything else are reported */
+  knownRules: Set<string>;
+  /** Ignore and report suppressions without a reason */
+  requireReason?: boolean;
+  /** Report suppressions that matched no violation (default: true) */
+  reportUnused?: boolean;
+}
+
+const DIRECTIVE_PATTERN =
+  /<!--\s*alexandria-disable(-next-line)?(?=\s|-->)([\s\S]*?)-->/g;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+/**
+ * Find suppression directives in markdown content, skipping fenced code blocks.
+ *
+ * @param content - Markdown source
+ * @param file - Path of the markdown file relative to the project root
+ */
+export function parseMarkdownSuppressions(
+  content: string,
+  file: string,
+): Suppression[] {
+  const suppressions: Suppression[] = [];
+  const lines = content.split("\n");
+
+  // Blank out fenced code so examples of directives are not picked up
+  let fence: string | undefined;
+  const prose = lines.map((line) => {
+    const marker = FENCE_PATTERN.exec(line)?.[1];
+    if (fence) {
+      if (marker === fence) {
+        fence = undefined;
+      }
+      return "";
+    }
+    if (marker) {
+      fence = marker;
+      return "";
+    }
+    return line;
+  });
+  const text = prose.join("\n");
+
+  for (const match of text.matchAll(DIRECTIVE_PATTERN)) {
+    const before = text.slice(0, match.index);
+    const line = before.split("\n").length;
+    const column = match.index! - before.lastIndexOf("\n");
+    const endLine = line + match[0].split("\n").length - 1;
+    const [ruleList, ...reasonParts] = match[2].split("--");
+    const reason = reasonParts.join("--").trim();
+
+    suppressions.push({
+      file,
+      line,
+      column,
+      appliesTo: [file],
+      targetLine: match[1] ? endLine + 1 : undefined,
+      rules: ruleList.split(/[\s,]+/).filter(Boolean),
+      reason: reason || undefined,
+    });
+  }
+
+  return suppressions;
+}
+
+/**
+ * Read the suppressions listed in a view's `experimentalMetadata.alexandriaDisable`.
+ * Entries that are neither rule ids nor `{ rule, reason }` objects are skipped.
+ */
+export function getViewSuppressions(
+  fs: FileSystemAdapter,
+  projectRoot: ValidatedRepositoryPath,
+  view: CodebaseView,
+): Suppression[] {
+  const entries = view.experimentalMetadata?.[VIEW_SUPPRESSIONS_KEY];
+  if (!Array.isArray(entries)) {
+    return [];
+  }
+
+  const suppressions: Suppression[] = [];
+  entries.forEach((entry: unknown, index) => {
+    const { rule, reason } = (
+      typeof entry === "string"
+        ? { rule: entry }
+        : typeof entry === "object" && entry !== null
+          ? entry
+          : {}
+    ) as { rule?: unknown; reason?: unknown };
+    if (typeof rule !== "string" || rule === "") {
+      return;
+    }
+
+    const location = locateInView(fs, projectRoot, view, [
+      "experimentalMetadata",
+      VIEW_SUPPRESSIONS_KEY,
+      index,
+    ]);
+    suppressions.push({
+      ...location,
+      appliesTo: view.overviewPath
+        ? [location.file, view.overviewPath]
+        : [location.file],
+      rules: [rule],
+      reason: typeof reason === "string" && reason.trim() ? reason : undefined,
+    });
+  });
+
+  return suppressions;
+}
+
+/**
+ * Collect the suppressions in every scanned markdown file and every view.
+ */
+export function collectSuppressions(
+  context: LibraryRuleContext,
+): Suppression[] {
+  const { fsAdapter, projectRoot } = context;
+  if (!fsAdapter) {
+    return [];
+  }
+
+  const suppressions: Suppression[] = [];
+  for (const file of context.markdownFiles) {
+    let content: string;
+    try {
+      content = fsAdapter.readFile(file.path);
+    } catch {
+      continue;
+    }
+    if (content.includes("alexandria-disable")) {
+      suppressions.push(
+        ...parseMarkdownSuppressions(content, file.relativePath),
+      );
+    }
+  }
+
+  for (const view of context.views) {
+    suppressions.push(...getViewSuppressions(fsAdapter, projectRoot, view));
+  }
+
+  return suppressions;
+}
+
+function suppresses(
+  suppression: Suppression,
+  violation: LibraryRuleViolation,
+): boolean {
+  return (
+    violation.file !== undefined &&
+    suppression.appliesTo.includes(violation.file) &&
+    (suppression.targetLine === undefined ||
+      violation.line === suppression.targetLine) &&
+    (suppression.rules.length === 0 ||
+      suppression.rules.includes(violation.ruleId))
+  );
+}
+
+function describeSuppression(suppression: Suppression): string {
+  const kind = suppression.targetLine !== undefined ? "next line" : "file";
+  return suppression.rules.length > 0
+    ? `Suppression of ${suppression.rules.join(", ")} (${kind})`
+    : `Suppression of all rules (${kind})`;
+}
+
+function reportAt(
+  suppression: Suppression,
+  ruleId: string,
+  severity: LibraryRuleViolation["severity"],
+  message: string,
+  impact: string,
+): LibraryRuleViolation {
+  return {
+    ruleId,
+    severity,
+    file: suppression.file,
+    line: suppression.line,
+    column: suppression.column,
+    ...(suppression.jsonPointer && { jsonPointer: suppression.jsonPointer }),
+    message,
+    impact,
+    fixable: false,
+  };
+}
+
+/**
+ * Remove suppressed violations and report suppressions that are unused,
+ * name unknown rules or lack a required reason.
+ *
+ * @returns The remaining violations followed by suppression diagnostics
+ */
+export function applySuppressions(
+  violations: LibraryRuleViolation[],
+  suppressions: Suppression[],
+  options: ApplySuppressionsOptions,
+): LibraryRuleViolation[] {
+  const diagnostics: LibraryRuleViolation[] = [];
+
+  const active = suppressions.filter((suppression) => {
+    if (options.requireReason && !suppression.reason) {
+      diagnostics.push(
+        reportAt(
+          suppression,
+          MISSING_SUPPRESSION_REASON_RULE_ID,
+          "warning",
+          `${describeSuppression(suppression)} has no reason and was ignored`,
+          "Suppressions without a reason hide problems without explaining why they are acceptable",
+        ),
+      );
+      return false;
+    }
+    return true;
+  });
+
+  // Rule ids each suppression actually silenced ("*" for rule-less directives)
+  const used = new Map<Suppression, Set<string>>();
+  const remaining = violations.filter((violation) => {
+    const matching = active.filter((suppression) =>
+      suppresses(suppression, violation),
+    );
+    for (const suppression of matching) {
+      const rules = used.get(suppression) ?? new Set<string>();
+      rules.add(suppression.rules.length > 0 ? violation.ruleId : "*");
+      used.set(suppression, rules);
+    }
+    return matching.length === 0;
+  });
+
+  if (options.reportUnused !== false) {
+    for (const suppression of active) {
+      const usedRules = used.get(suppression);
+      const unused =
+        suppression.rules.length === 0
+          ? usedRules
+            ? []
+            : ["*"]
+          : suppression.rules.filter((rule) => !usedRules?.has(rule));
+
+      for (const rule of unused) {
+        if (rule !== "*" && !options.knownRules.has(rule)) {
+          diagnostics.push(
+            reportAt(
+              suppression,
+              UNUSED_SUPPRESSION_RULE_ID,
+              "info",
+              `Suppression names unknown rule "${rule}"`,
+              "Suppressions for rules that do not exist have no effect",
+            ),
+          );
+        } else if (
+          rule === "*" ? options.ranRules.size > 0 : options.ranRules.has(rule)
+        ) {
+          diagnostics.push(
+            reportAt(
+              suppression,
+              UNUSED_SUPPRESSION_RULE_ID,
+              "info",
+              rule === "*"
+                ? `${describeSuppression(suppression)} is unused`
+                : `Suppression of ${rule} is unused`,
+              "Unused suppressions can hide future problems and should be removed",
+            ),
+          );
+        }
+      }
+    }
+  }
+
+  return [...remaining, ...diagnostics];
+}
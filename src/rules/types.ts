@@ -1,7 +1,9 @@
 import { ValidatedRepositoryPath, CodebaseView } from "../pure-core/types";
-import { AlexandriaConfig, RuleOptions } from "../config/types";
+import { AlexandriaConfig, PriorityLevel, RuleOptions } from "../config/types";
 import { GlobAdapter } from "../pure-core/abstractions/glob";
 import { FileSystemAdapter } from "../pure-core/abstractions/filesystem";
+import { AutoFixPreview } from "../pure-core/autofixes/types";
+import { RuleOptionsSchema } from "../config/rule-options";
 
 export type LibraryRuleSeverity = "error" | "warning" | "info";
 export type LibraryRuleCategory =
@@ -10,11 +12,24 @@ export type LibraryRuleCategory =
   | "performance"
   | "structure";
 
+/**
+ * Parts of the project a rule reads. Incremental lint re-runs a rule only
+ * when one of its inputs (or the config) changed.
+ * - views: the view JSON files
+ * - markdown: markdown file paths and contents
+ * - files: every scanned file path, its content and git history
+ */
+export type LibraryRuleInput = "views" | "markdown" | "files";
+
 export interface LibraryRuleViolation {
   ruleId: string;
   severity: LibraryRuleSeverity;
   file?: string;
   line?: number;
+  /** 1-indexed column of the offending entry, when known */
+  column?: number;
+  /** Path of the offending entry inside a JSON file, e.g. "referenceGroups.core.files[3]" */
+  jsonPointer?: string;
   message: string;
   impact: string;
   fixable: boolean;
@@ -27,6 +42,8 @@ export interface FileInfo {
   lastModified?: Date;
   size?: number;
   isMarkdown: boolean;
+  /** Level of the most important `context.patterns.priority` entry matching the file */
+  priority?: PriorityLevel;
 }
 
 export interface GitFileHistory {
@@ -43,11 +60,22 @@ export interface LibraryRuleContext {
   markdownFiles: FileInfo[];
   gitHistory?: Map<string, GitFileHistory>;
   config?: AlexandriaConfig;
+  /**
+   * Effective config for a project-relative file path or a view, including
+   * configs of nested packages. `config` is the project root's config.
+   */
+  getEffectiveConfig?: (
+    target: string | CodebaseView,
+  ) => AlexandriaConfig | undefined;
   globAdapter?: GlobAdapter;
   fsAdapter?: FileSystemAdapter;
 }
 
-export interface LibraryRule {
+/**
+ * A lint rule. `TOptions` is the shape of the options the engine resolves
+ * from the rule's defaults and the project config and passes to each call.
+ */
+export interface LibraryRule<TOptions extends object = RuleOptions> {
   id: string;
   name: string;
   severity: LibraryRuleSeverity;
@@ -56,12 +84,26 @@ export interface LibraryRule {
   impact: string;
   fixable: boolean;
   enabled: boolean;
-  options?: RuleOptions; // Default options for the rule
-  check: (context: LibraryRuleContext) => Promise<LibraryRuleViolation[]>;
-  fix?: (
+  options?: TOptions; // Default options for the rule
+  /** Options the rule accepts. Configured options are validated against it before the rule runs. */
+  optionsSchema?: RuleOptionsSchema;
+  /** Inputs the rule depends on. Rules without inputs are never cached. */
+  inputs?: LibraryRuleInput[];
+  check(
+    context: LibraryRuleContext,
+    options: TOptions,
+  ): Promise<LibraryRuleViolation[]>;
+  fix?(
+    violation: LibraryRuleViolation,
+    context: LibraryRuleContext,
+    options: TOptions,
+  ): Promise<void>;
+  /** Describe what `fix` would change without writing anything */
+  planFix?(
     violation: LibraryRuleViolation,
     context: LibraryRuleContext,
-  ) => Promise<void>;
+    options: TOptions,
+  ): Promise<AutoFixPreview>;
 }
 
 export interface LibraryRuleSet {
@@ -71,10 +113,77 @@ export interface LibraryRuleSet {
   severityOverrides?: Record<string, LibraryRuleSeverity>;
 }
 
+export interface LibraryFixFailure {
+  violation: LibraryRuleViolation;
+  /** Why the fix could not be applied */
+  reason: string;
+}
+
+export interface LibraryFixSummary {
+  /** Violations whose fix was applied and no longer reported on re-check */
+  fixed: LibraryRuleViolation[];
+  /** Violations whose fix threw, was unavailable, or did not resolve them */
+  failed: LibraryFixFailure[];
+}
+
+export interface LibraryFixPlan {
+  violation: LibraryRuleViolation;
+  preview: AutoFixPreview;
+}
+
+export interface LibraryFixPlanResult {
+  /** Previews for every fixable violation whose rule could plan a fix */
+  plans: LibraryFixPlan[];
+  /** Fixable violations that could not be planned, with the reason */
+  failed: LibraryFixFailure[];
+}
+
 export interface LibraryLintResult {
   violations: LibraryRuleViolation[];
   errorCount: number;
   warningCount: number;
   infoCount: number;
   fixableCount: number;
+  /** Present only when lint was run with `fix: true` */
+  fixes?: LibraryFixSummary;
+  /** Present only when lint was run with `incremental: true` */
+  cache?: LibraryLintCacheSummary;
+  /** Present only when lint was run with `baseline` or `updateBaseline` */
+  baseline?: LibraryBaselineSummary;
+}
+
+/**
+ * A known violation recorded in the baseline file.
+ */
+export interface LibraryBaselineEntry {
+  /** Hash of rule id, file and normalized message */
+  fingerprint: string;
+  ruleId: string;
+  file?: string;
+  message: string;
+  /** Number of violations with this fingerprint */
+  count: number;
+}
+
+export interface LibraryBaselineSummary {
+  /** Violations left out of the result because the baseline records them */
+  matched: number;
+  /** Baseline entries that no longer occur and can be removed */
+  resolved: LibraryBaselineEntry[];
+  /** Whether the baseline file was rewritten from this run */
+  updated: boolean;
+}
+
+export interface LibraryWatchResult {
+  /** Violations reported now that were not reported by the previous run */
+  added: LibraryRuleViolation[];
+  /** Violations reported by the previous run that are no longer reported */
+  resolved: LibraryRuleViolation[];
+}
+
+export interface LibraryLintCacheSummary {
+  /** Rules whose violations were reused from the cache */
+  reused: string[];
+  /** Rules that were run because their inputs changed or they declare none */
+  rerun: string[];
 }
@@ -0,0 +1,226 @@
+import { FileSystemAdapter } from "../../pure-core/abstractions/filesystem";
+import { CodebaseView, ValidatedRepositoryPath } from "../../pure-core/types";
+import { getViewsDir } from "../../utils/alexandria-paths";
+
+/**
+ * Position of a JSON value within its source text (1-indexed).
+ */
+export interface JsonLocation {
+  line: number;
+  column: number;
+}
+
+/**
+ * A path into a JSON document, e.g. ["referenceGroups", "core", "files", 3].
+ */
+export type JsonPathSegment = string | number;
+
+/**
+ * Where a violation points inside a view file.
+ */
+export interface ViewFileLocation {
+  /** View file path relative to the project root */
+  file: string;
+  line?: number;
+  column?: number;
+  /** Path of the entry inside the view, e.g. "referenceGroups.core.files[3]" */
+  jsonPointer: string;
+}
+
+/**
+ * Format path segments as "referenceGroups.core.files[3]".
+ * Keys that are not plain identifiers are quoted: `links["other-view"]`.
+ */
+export function formatJsonPath(segments: JsonPathSegment[]): string {
+  let result = "";
+  for (const segment of segments) {
+    if (typeof segment === "number") {
+      result += `[${segment}]`;
+    } else if (/^[A-Za-z_$][\w$]*$/.test(segment)) {
+      result += result ? `.${segment}` : segment;
+    } else {
+      result += `[${JSON.stringify(segment)}]`;
+    }
+  }
+  return result;
+}
+
+/**
+ * Scan JSON text and record the location of every value, keyed by its formatted path.
+ * Object members are located at their key so editors land on the property line.
+ * Throws on malformed JSON.
+ */
+export function locateJsonPaths(content: string): Map<string, JsonLocation> {
+  const locations = new Map<string, JsonLocation>();
+  let index = 0;
+  let line = 1;
+  let column = 1;
+
+  const advance = (): string => {
+    const char = content[index++];
+    if (char === "\n") {
+      line++;
+      column = 1;
+    } else {
+      column++;
+    }
+    return char;
+  };
+
+  const skipWhitespace = (): void => {
+    while (index < content.length && /\s/.test(content[index])) {
+      advance();
+    }
+  };
+
+  const fail = (message: string): never => {
+    throw new Error(`${message} at line ${line}, column ${column}`);
+  };
+
+  const consume = (char: string): void => {
+    if (content[index] !== char) {
+      fail(`Expected "${char}"`);
+    }
+    advance();
+  };
+
+  const readString = (): string => {
+    const start = index;
+    consume('"');
+    while (index < content.length && content[index] !== '"') {
+      if (advance() === "\\") {
+        advance();
+      }
+    }
+    consume('"');
+    return JSON.parse(content.slice(start, index)) as string;
+  };
+
+  const skipLiteral = (): void => {
+    const start = index;
+    while (index < content.length && /[^\s,\]}]/.test(content[index])) {
+      advance();
+    }
+    if (start === index) {
+      fail("Unexpected token");
+    }
+  };
+
+  const readValue = (path: JsonPathSegment[], record: boolean): void => {
+    skipWhitespace();
+    if (record) {
+      locations.set(formatJsonPath(path), { line, column });
+    }
+
+    const char = content[index];
+    if (char === "{") {
+      advance();
+      skipWhitespace();
+      if (content[index] === "}") {
+        advance();
+        return;
+      }
+      for (;;) {
+        skipWhitespace();
+        const keyLocation = { line, column };
+        const key = readString();
+        const memberPath = [...path, key];
+        locations.set(formatJsonPath(memberPath), keyLocation);
+        skipWhitespace();
+        consume(":");
+        readValue(memberPath, false);
+        skipWhitespace();
+        if (content[index] === ",") {
+          advance();
+          continue;
+        }
+        consume("}");
+        return;
+      }
+    } else if (char === "[") {
+      advance();
+      skipWhitespace();
+      if (content[index] === "]") {
+        advance();
+        return;
+      }
+      for (let i = 0; ; i++) {
+        readValue([...path, i], true);
+        skipWhitespace();
+        if (content[index] === ",") {
+          advance();
+          continue;
+        }
+        consume("]");
+        return;
+      }
+    } else if (char === '"') {
+      readString();
+    } else {
+      skipLiteral();
+    }
+  };
+
+  readValue([], true);
+  return locations;
+}
+
+/**
+ * Find the location of a path inside a JSON file.
+ * Falls back to the closest located ancestor when the exact path is absent.
+ *
+ * @returns Location (1-indexed) or undefined if the file can't be read or parsed
+ */
+export function findJsonPathLocation(
+  fs: FileSystemAdapter,
+  filePath: string,
+  segments: JsonPathSegment[],
+): JsonLocation | undefined {
+  let locations: Map<string, JsonLocation>;
+  try {
+    locations = locateJsonPaths(fs.readFile(filePath));
+  } catch {
+    return undefined;
+  }
+
+  for (let length = segments.length; length >= 0; length--) {
+    const location = locations.get(formatJsonPath(segments.slice(0, length)));
+    if (location) {
+      return location;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Absolute path of the JSON file a view is stored in.
+ */
+export function getViewFilePath(
+  fs: FileSystemAdapter,
+  projectRoot: ValidatedRepositoryPath,
+  view: CodebaseView,
+): string {
+  return fs.join(getViewsDir(fs, projectRoot), `${view.id}.json`);
+}
+
+/**
+ * Locate an entry inside a view's JSON file for use in a violation.
+ *
+ * @param segments - Path inside the view, e.g. ["referenceGroups", "core", "files", 3]
+ */
+export function locateInView(
+  fs: FileSystemAdapter,
+  projectRoot: ValidatedRepositoryPath,
+  view: CodebaseView,
+  segments: JsonPathSegment[],
+): ViewFileLocation {
+  const viewFilePath = getViewFilePath(fs, projectRoot, view);
+  const location = findJsonPathLocation(fs, viewFilePath, segments);
+
+  return {
+    file: fs.relative(projectRoot, viewFilePath),
+    line: location?.line,
+    column: location?.column,
+    jsonPointer: formatJsonPath(segments),
+  };
+}
@@ -1,5 +1,6 @@
 import { GlobAdapter } from "../../pure-core/abstractions/glob";
 import { AlexandriaConfig } from "../../config/types";
+import { LibraryRuleContext } from "../types";
 
 /**
  * Utility helper for rules to determine if a path matches any provided patterns.
@@ -31,6 +32,28 @@ export function getExcludePatterns(
   return config?.context?.patterns?.exclude ?? [];
 }
 
+/**
+ * Whether the effective config for a file leaves it out: the file matches
+ * the config's exclude patterns, or a package config has include patterns
+ * and the file matches none of them. The root config's include patterns
+ * already limited the scan.
+ */
+export function isExcludedByConfig(
+  context: LibraryRuleContext,
+  path: string,
+): boolean {
+  const config = context.getEffectiveConfig?.(path) ?? context.config;
+  const patterns = config?.context?.patterns;
+  if (matchesPatterns(context.globAdapter, patterns?.exclude, path)) {
+    return true;
+  }
+  return (
+    config !== context.config &&
+    !!patterns?.include?.length &&
+    !matchesPatterns(context.globAdapter, patterns.include, path)
+  );
+}
+
 /**
  * Filter a list of file paths by exclude patterns.
  * Uses the GlobAdapter for pattern matching when available.
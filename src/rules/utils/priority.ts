@@ -0,0 +1,70 @@
+import { GlobAdapter } from "../../pure-core/abstractions/glob";
+import {
+  PriorityLevel,
+  PriorityPattern,
+  RuleSeverity,
+} from "../../config/types";
+import { matchesPatterns } from "./patterns";
+
+/** Priority levels from most to least important */
+export const PRIORITY_LEVELS: readonly PriorityLevel[] = [
+  "critical",
+  "high",
+  "medium",
+  "low",
+];
+
+/** Priority of files that match no `context.patterns.priority` entry */
+export const DEFAULT_PRIORITY: PriorityLevel = "medium";
+
+/** How much a file of each priority counts in weighted metrics */
+export const PRIORITY_WEIGHTS: Record<PriorityLevel, number> = {
+  critical: 4,
+  high: 2,
+  medium: 1,
+  low: 0.5,
+};
+
+const SEVERITY_RANK: Record<RuleSeverity, number> = {
+  info: 0,
+  warning: 1,
+  error: 2,
+};
+
+/**
+ * Whether `priority` is as important as `minimum` or more.
+ */
+export function isAtLeastPriority(
+  priority: PriorityLevel,
+  minimum: PriorityLevel,
+): boolean {
+  return PRIORITY_LEVELS.indexOf(priority) <= PRIORITY_LEVELS.indexOf(minimum);
+}
+
+/**
+ * Priority of a project-relative path. When several patterns match, the most
+ * important level wins. Returns undefined when no pattern matches.
+ */
+export function getPathPriority(
+  globAdapter: GlobAdapter | undefined,
+  patterns: PriorityPattern[] | undefined,
+  candidate: string,
+): PriorityLevel | undefined {
+  let priority: PriorityLevel | undefined;
+  for (const entry of patterns ?? []) {
+    if (
+      (!priority || !isAtLeastPriority(priority, entry.priority)) &&
+      matchesPatterns(globAdapter, [entry.pattern], candidate)
+    ) {
+      priority = entry.priority;
+    }
+  }
+  return priority;
+}
+
+/**
+ * The more severe of two severities.
+ */
+export function maxSeverity(a: RuleSeverity, b: RuleSeverity): RuleSeverity {
+  return SEVERITY_RANK[b] > SEVERITY_RANK[a] ? b : a;
+}
@@ -0,0 +1,29 @@
+import { GlobAdapter } from "../../pure-core/abstractions/glob";
+import { CodebaseViewReferenceGroup } from "../../pure-core/types";
+import {
+  getReferenceGroupFilePaths,
+  getReferenceGroupPatterns,
+} from "../../pure-core/utils/referenceGroups";
+import { FileInfo } from "../types";
+import { matchesPatterns } from "./patterns";
+
+/**
+ * Files a reference group refers to: its explicit files, followed by the
+ * scanned files matching its patterns or directories.
+ */
+export function getReferenceGroupFiles(
+  globAdapter: GlobAdapter | undefined,
+  group: CodebaseViewReferenceGroup,
+  files: FileInfo[],
+): string[] {
+  const referenced = new Set(getReferenceGroupFilePaths(group));
+  const patterns = getReferenceGroupPatterns(group).map((p) => p.pattern);
+  if (patterns.length > 0) {
+    for (const file of files) {
+      if (matchesPatterns(globAdapter, patterns, file.relativePath)) {
+        referenced.add(file.relativePath);
+      }
+    }
+  }
+  return [...referenced];
+}
@@ -4,13 +4,33 @@
  * making them faster and more reliable.
  */
 
-import { FileSystemAdapter } from "../../src/pure-core/abstractions/filesystem";
+import {
+  FileSystemAdapter,
+  FileWatchEvent,
+  FileWatchEventType,
+  FileWatcher,
+} from "../../src/pure-core/abstractions/filesystem";
+
+export interface InMemoryFileSystemOptions {
+  /**
+   * Match file paths regardless of letter case, like the default filesystems
+   * of macOS and Windows. Files keep the case they were created with.
+   */
+  caseInsensitive?: boolean;
+}
 
 export class InMemoryFileSystemAdapter implements FileSystemAdapter {
   private files = new Map<string, string>();
   private binaryFiles = new Map<string, Uint8Array>();
+  private watchers = new Set<{
+    path: string;
+    listener: (event: FileWatchEvent) => void;
+  }>();
+
+  constructor(private options: InMemoryFileSystemOptions = {}) {}
 
   exists(path: string): boolean {
+    path = this.resolveFilePath(path);
     return (
       this.files.has(path) ||
       this.binaryFiles.has(path) ||
@@ -19,6 +39,7 @@ export class InMemoryFileSystemAdapter implements FileSystemAdapter {
   }
 
   readFile(path: string): string {
+    path = this.resolveFilePath(path);
     if (!this.files.has(path)) {
       throw new Error(`File not found: ${path}`);
     }
@@ -26,17 +47,25 @@ export class InMemoryFileSystemAdapter implements FileSystemAdapter {
   }
 
   writeFile(path: string, content: string): void {
+    path = this.resolveFilePath(path);
     // Ensure parent directory exists in our tracking
     const dir = this.dirname(path);
     if (dir && dir !== "/" && dir !== path) {
       this.createDir(dir);
     }
+    const existed = this.files.has(path);
     this.files.set(path, content);
+    this.notify(existed ? "changed" : "created", path);
   }
 
   deleteFile(path: string): void {
+    path = this.resolveFilePath(path);
+    const existed = this.files.has(path) || this.binaryFiles.has(path);
     this.files.delete(path);
     this.binaryFiles.delete(path);
+    if (existed) {
+      this.notify("deleted", path);
+    }
   }
 
   readBinaryFile(path: string): Uint8Array {
@@ -52,7 +81,9 @@ export class InMemoryFileSystemAdapter implements FileSystemAdapter {
     if (dir && dir !== "/" && dir !== path) {
       this.createDir(dir);
     }
+    const existed = this.binaryFiles.has(path);
     this.binaryFiles.set(path, content);
+    this.notify(existed ? "changed" : "created", path);
   }
 
   createDir(path: string): void {
@@ -128,16 +159,22 @@ export class InMemoryFileSystemAdapter implements FileSystemAdapter {
   deleteDir(path: string): void {
     // In memory, just remove all files in the directory
     const prefix = `${path}/`;
+    const deleted: string[] = [];
     for (const filePath of this.files.keys()) {
       if (filePath.startsWith(prefix) || filePath === path + "/.dir") {
         this.files.delete(filePath);
+        if (!filePath.endsWith("/.dir")) {
+          deleted.push(filePath);
+        }
       }
     }
     for (const filePath of this.binaryFiles.keys()) {
       if (filePath.startsWith(prefix)) {
         this.binaryFiles.delete(filePath);
+        deleted.push(filePath);
       }
     }
+    deleted.forEach((filePath) => this.notify("deleted", filePath));
   }
 
   join(...paths: string[]): string {
@@ -222,6 +259,34 @@ export class InMemoryFileSystemAdapter implements FileSystemAdapter {
     return segments[segments.length - 1] || "root";
   }
 
+  // Change notifications, delivered synchronously for the affected files
+  watch(path: string, listener: (event: FileWatchEvent) => void): FileWatcher {
+    const watcher = { path, listener };
+    this.watchers.add(watcher);
+    return { close: () => this.watchers.delete(watcher) };
+  }
+
+  // The stored path of an existing file that differs only in case
+  private resolveFilePath(path: string): string {
+    if (!this.options.caseInsensitive || this.files.has(path)) return path;
+    const lower = path.toLowerCase();
+    for (const filePath of [...this.files.keys(), ...this.binaryFiles.keys()]) {
+      if (filePath.toLowerCase() === lower) return filePath;
+    }
+    return path;
+  }
+
+  private notify(type: FileWatchEventType, path: string): void {
+    for (const watcher of this.watchers) {
+      const prefix = watcher.path.endsWith("/")
+        ? watcher.path
+        : `${watcher.path}/`;
+      if (path === watcher.path || path.startsWith(prefix)) {
+        watcher.listener({ type, path });
+      }
+    }
+  }
+
   // Test utilities
   clear(): void {
     this.files.clear();
@@ -0,0 +1,77 @@
+/**
+ * In-memory implementation of GitAdapter for testing
+ *
+ * Commits are recorded explicitly with `commit()`, so tests can describe a
+ * repository history without running git.
+ */
+
+import { GitAdapter, GitCommitInfo } from "../pure-core/abstractions/git";
+
+interface InMemoryCommit extends GitCommitInfo {
+  files: string[];
+}
+
+export class InMemoryGitAdapter implements GitAdapter {
+  private commits: InMemoryCommit[] = [];
+  private commitCounter = 0;
+
+  /**
+   * @param repositoryPaths - Directories treated as git repositories.
+   *                          When omitted, every path is a repository.
+   */
+  constructor(private repositoryPaths?: string[]) {}
+
+  /**
+   * Record a commit touching the given files (paths relative to the repository root).
+   * @returns The recorded commit
+   */
+  commit(
+    files: string[],
+    options: { date: Date; message?: string; hash?: string },
+  ): GitCommitInfo {
+    this.commitCounter++;
+    const commit: InMemoryCommit = {
+      hash: options.hash ?? this.commitCounter.toString(16).padStart(40, "0"),
+      date: options.date,
+      message: options.message ?? `Commit ${this.commitCounter}`,
+      files: [...files],
+    };
+    this.commits.push(commit);
+    return { hash: commit.hash, date: commit.date, message: commit.message };
+  }
+
+  async isRepository(repositoryPath: string): Promise<boolean> {
+    return (
+      !this.repositoryPaths || this.repositoryPaths.includes(repositoryPath)
+    );
+  }
+
+  async getLastCommits(
+    _repositoryPath: string,
+    relativePaths: string[],
+  ): Promise<Map<string, GitCommitInfo>> {
+    const result = new Map<string, GitCommitInfo>();
+
+    for (const path of relativePaths) {
+      let latest: InMemoryCommit | undefined;
+      for (const commit of this.commits) {
+        // Later commits win ties, matching the order they were recorded
+        if (
+          commit.files.includes(path) &&
+          (!latest || commit.date >= latest.date)
+        ) {
+          latest = commit;
+        }
+      }
+      if (latest) {
+        result.set(path, {
+          hash: latest.hash,
+          date: latest.date,
+          message: latest.message,
+        });
+      }
+    }
+
+    return result;
+  }
+}
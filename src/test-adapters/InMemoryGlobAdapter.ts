@@ -22,6 +22,7 @@ export class InMemoryGlobAdapter implements GlobAdapter {
     const ignore = options?.ignore || [];
     const onlyFiles = options?.onlyFiles !== false;
     const dot = options?.dot || false;
+    const maxDepth = options?.maxDepth ?? Infinity;
 
     // Convert patterns to regex
     const patternRegexes = patterns.map((pattern) => this.globToRegex(pattern));
@@ -50,6 +51,11 @@ export class InMemoryGlobAdapter implements GlobAdapter {
         return false;
       }
 
+      // Check depth (number of directories between cwd and the entry)
+      if (relativePath.split("/").length - 1 > maxDepth) {
+        return false;
+      }
+
       // Check if it matches any of the patterns
       return patternRegexes.some((regex) => regex.test(relativePath));
     });
@@ -0,0 +1,35 @@
+/**
+ * In-memory implementation of PluginLoader for testing
+ *
+ * Modules are registered explicitly with `register()`, so tests can describe
+ * plugins without writing files or installing packages.
+ */
+
+import { PluginLoader } from "../pure-core/abstractions/plugins";
+
+export class InMemoryPluginLoader implements PluginLoader {
+  private modules = new Map<string, unknown>();
+  private loads: string[] = [];
+
+  /**
+   * Make `exports` available under `specifier`.
+   */
+  register(specifier: string, exports: unknown): void {
+    this.modules.set(specifier, exports);
+  }
+
+  /**
+   * Specifiers passed to `load`, in call order.
+   */
+  getLoads(): string[] {
+    return [...this.loads];
+  }
+
+  async load(specifier: string, _fromDirectory: string): Promise<unknown> {
+    this.loads.push(specifier);
+    if (!this.modules.has(specifier)) {
+      throw new Error(`Cannot find module '${specifier}'`);
+    }
+    return this.modules.get(specifier);
+  }
+}
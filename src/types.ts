@@ -16,6 +16,10 @@ export type {
   CodebaseView,
   CodebaseViewCell,
   CodebaseViewFileCell,
+  CodebaseViewFileReference,
+  CodebaseViewFileEntry,
+  CodebaseViewPatternCell,
+  CodebaseViewReferenceGroup,
   CodebaseViewScope,
   CodebaseViewLinks,
   ViewValidationResult,
@@ -45,10 +49,18 @@ export type {
 export type { ValidationResult as ConfigValidationResult } from "./config/types.js";
 
 // Filesystem adapter for dependency injection
-export type { FileSystemAdapter } from "./pure-core/abstractions/filesystem.js";
+export type {
+  FileSystemAdapter,
+  FileWatchEvent,
+  FileWatchEventType,
+  FileWatcher,
+} from "./pure-core/abstractions/filesystem.js";
 
 // Glob adapter for pattern matching
-export type { GlobAdapter, GlobOptions } from "./pure-core/abstractions/glob.js";
+export type {
+  GlobAdapter,
+  GlobOptions,
+} from "./pure-core/abstractions/glob.js";
 
 // Workspace management types
 export type {
@@ -65,6 +77,13 @@ export type { Topic, TopicsData } from "./projects-core/types.js";
 export type { DrawingMetadata } from "./pure-core/stores/DrawingStore.js";
 export type { ExcalidrawData } from "./pure-core/types/drawing.js";
 
+// Auto-fix preview types
+export type {
+  AutoFixChange,
+  AutoFixPreview,
+  AutoFixSeverity,
+} from "./pure-core/autofixes/types.js";
+
 // Rule types
 export type {
   LibraryRule,
@@ -74,6 +93,15 @@ export type {
   LibraryRuleContext,
   LibraryRuleSet,
   LibraryLintResult,
+  LibraryFixFailure,
+  LibraryFixSummary,
+  LibraryFixPlan,
+  LibraryFixPlanResult,
+  LibraryLintCacheSummary,
+  LibraryBaselineEntry,
+  LibraryBaselineSummary,
+  LibraryRuleInput,
+  LibraryWatchResult,
   FileInfo,
   GitFileHistory,
 } from "./rules/types.js";
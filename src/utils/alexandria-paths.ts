@@ -42,3 +42,13 @@ export function getOverviewsDir(
 ): string {
   return getAlexandriaSubdir(fs, projectRoot, ALEXANDRIA_DIRS.OVERVIEWS);
 }
+
+/**
+ * Gets the cache directory. Its contents can be deleted at any time.
+ */
+export function getCacheDir(
+  fs: FileSystemAdapter,
+  projectRoot: ValidatedRepositoryPath,
+): string {
+  return getAlexandriaSubdir(fs, projectRoot, ALEXANDRIA_DIRS.CACHE);
+}
@@ -221,6 +221,39 @@ describe("MemoryPalace - getDocumentsOverview", () => {
     expect(docs[0].associatedFiles).toContain("src/main.test.ts");
   });
 
+  test("should include files matched by pattern reference groups", async () => {
+    fs.writeFile(`${repoPath}/docs/feature.md`, "# Feature");
+    fs.writeFile(`${repoPath}/src/main.ts`, "");
+    fs.writeFile(`${repoPath}/src/feature/a.ts`, "");
+    fs.writeFile(`${repoPath}/src/feature/b.ts`, "");
+
+    const view: CodebaseView = {
+      id: "feature-view",
+      version: "1.0.0",
+      name: "Feature",
+      description: "Feature doc",
+      overviewPath: "docs/feature.md",
+      category: "feature",
+      displayOrder: 0,
+      referenceGroups: {
+        main: {
+          coordinates: [0, 0],
+          files: ["src/main.ts"],
+          directories: ["src/feature"],
+        },
+      },
+    };
+    palace.saveView(view);
+
+    const docs = await palace.getDocumentsOverview(globAdapter);
+
+    expect(docs[0].associatedFiles?.sort()).toEqual([
+      "src/feature/a.ts",
+      "src/feature/b.ts",
+      "src/main.ts",
+    ]);
+  });
+
   test("should sort results by relativePath", async () => {
     fs.writeFile(`${repoPath}/z-last.md`, "# Last");
     fs.writeFile(`${repoPath}/a-first.md`, "# First");
@@ -247,4 +280,18 @@ describe("MemoryPalace - getDocumentsOverview", () => {
       "guide.md",
     ]);
   });
+
+  test("should skip documents matched by .alexandriaignore", async () => {
+    fs.writeFile(`${repoPath}/.alexandriaignore`, "docs/*\n!docs/guide.md\n");
+    fs.writeFile(`${repoPath}/docs/guide.md`, "# Guide");
+    fs.writeFile(`${repoPath}/docs/scratch.md`, "# Scratch");
+    fs.writeFile(`${repoPath}/README.md`, "# README");
+
+    const docs = await palace.getDocumentsOverview(globAdapter);
+
+    expect(docs.map((d) => d.relativePath)).toEqual([
+      "docs/guide.md",
+      "README.md",
+    ]);
+  });
 });
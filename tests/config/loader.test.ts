@@ -1,7 +1,8 @@
-import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { describe, test, expect, beforeEach, afterEach, spyOn } from "bun:test";
 import { ConfigLoader } from "../../src/config/loader";
+import { ConfigMigrationRegistry } from "../../src/config/migrations";
 import { join } from "path";
-import { InMemoryFileSystemAdapter } from "../../src";
+import { InMemoryFileSystemAdapter, InMemoryPluginLoader } from "../../src";
 
 describe("ConfigLoader", () => {
   let testDir: string;
@@ -172,4 +173,660 @@ describe("ConfigLoader", () => {
       expect(config3?.project.name).toBe("updated");
     });
   });
+
+  describe("extends", () => {
+    const writeConfig = (path: string, config: object) =>
+      fsAdapter.writeFile(path, JSON.stringify(config));
+
+    test("merges rules from an extended file by id", () => {
+      writeConfig(join(testDir, "configs/base.json"), {
+        version: "1.0.0",
+        context: {
+          rules: [
+            {
+              id: "stale-references",
+              name: "Stale References",
+              severity: "warning",
+              options: { maxAgeDays: 30 },
+            },
+            { id: "require-references", name: "Require", severity: "error" },
+          ],
+        },
+      });
+      const configPath = join(testDir, "app/.alexandriarc.json");
+      writeConfig(configPath, {
+        version: "1.0.0",
+        extends: "../configs/base.json",
+        context: {
+          rules: [{ id: "stale-references", severity: "error" }],
+        },
+      });
+
+      const config = loader.loadConfig(configPath);
+
+      expect(config?.extends).toBeUndefined();
+      expect(config?.context?.rules).toEqual([
+        {
+          id: "stale-references",
+          name: "Stale References",
+          severity: "error",
+          options: { maxAgeDays: 30 },
+        },
+        { id: "require-references", name: "Require", severity: "error" },
+      ]);
+    });
+
+    test("combines patterns and replaces default excludes", () => {
+      writeConfig(join(testDir, "base.json"), {
+        version: "1.0.0",
+        context: {
+          patterns: { exclude: ["**/vendor/**"], include: ["src/**"] },
+        },
+      });
+      const configPath = join(testDir, ".alexandriarc.json");
+      writeConfig(configPath, {
+        version: "1.0.0",
+        extends: ["./base.json"],
+        context: {
+          patterns: { exclude: ["**/generated/**", "**/vendor/**"] },
+        },
+      });
+
+      const config = loader.loadConfig(configPath);
+
+      expect(config?.context?.patterns?.exclude).toEqual([
+        "**/vendor/**",
+        "**/generated/**",
+      ]);
+      expect(config?.context?.patterns?.include).toEqual(["src/**"]);
+      expect(config?.context?.maxDepth).toBe(10);
+    });
+
+    test("applies built-in presets", () => {
+      const configPath = join(testDir, ".alexandriarc.json");
+      writeConfig(configPath, {
+        version: "1.0.0",
+        extends: "alexandria:strict",
+        context: {
+          rules: [{ id: "stale-references", severity: "warning" }],
+        },
+      });
+
+      const config = loader.loadConfig(configPath);
+      const rules = config?.context?.rules ?? [];
+
+      expect(rules.find((r) => r.id === "stale-references")?.severity).toBe(
+        "warning",
+      );
+      expect(rules.find((r) => r.id === "require-references")?.severity).toBe(
+        "error",
+      );
+      expect(config?.context?.suppressions?.requireReason).toBe(true);
+    });
+
+    test("resolves configs from packages in node_modules", () => {
+      const packageDir = join(testDir, "node_modules/@myorg/alexandria-config");
+      writeConfig(join(packageDir, "package.json"), {
+        name: "@myorg/alexandria-config",
+        main: "./config.json",
+      });
+      writeConfig(join(packageDir, "config.json"), {
+        version: "1.0.0",
+        reporting: { format: "json" },
+      });
+      const configPath = join(testDir, "packages/app/.alexandriarc.json");
+      writeConfig(configPath, {
+        version: "1.0.0",
+        extends: "@myorg/alexandria-config",
+      });
+
+      const config = loader.loadConfig(configPath);
+
+      expect(config?.reporting?.format).toBe("json");
+      expect(config?.reporting?.output).toBe("console");
+    });
+
+    test("reports the source of each setting", () => {
+      const basePath = join(testDir, "base.json");
+      writeConfig(basePath, {
+        version: "1.0.0",
+        reporting: { format: "json" },
+        context: { patterns: { exclude: ["**/vendor/**"] } },
+      });
+      const configPath = join(testDir, ".alexandriarc.json");
+      writeConfig(configPath, {
+        version: "1.0.0",
+        extends: ["alexandria:recommended", "./base.json"],
+        context: {
+          rules: [{ id: "stale-references", severity: "error" }],
+        },
+      });
+
+      const loaded = loader.loadConfigWithProvenance(configPath);
+
+      expect(loaded?.provenance).toMatchObject({
+        "reporting.format": basePath,
+        "reporting.output": "defaults",
+        "context.maxDepth": "defaults",
+        "context.patterns.exclude[**/vendor/**]": basePath,
+        "context.rules[stale-references].severity": configPath,
+        "context.rules[stale-references].name": "alexandria:recommended",
+      });
+      expect(loaded?.provenance["context.patterns.exclude[**/dist/**]"]).toBe(
+        undefined,
+      );
+    });
+
+    test("fails on circular extends", () => {
+      const errorSpy = spyOn(console, "error").mockImplementation(() => {});
+      writeConfig(join(testDir, "a.json"), {
+        version: "1.0.0",
+        extends: "./b.json",
+      });
+      writeConfig(join(testDir, "b.json"), {
+        version: "1.0.0",
+        extends: "./a.json",
+      });
+
+      expect(loader.loadConfig(join(testDir, "a.json"))).toBeNull();
+      expect(String(errorSpy.mock.calls[0][1])).toContain(
+        "Circular extends: /test-dir/a.json -> /test-dir/b.json -> /test-dir/a.json",
+      );
+      errorSpy.mockRestore();
+    });
+
+    test("fails on unknown presets", () => {
+      const errorSpy = spyOn(console, "error").mockImplementation(() => {});
+      const configPath = join(testDir, ".alexandriarc.json");
+      writeConfig(configPath, {
+        version: "1.0.0",
+        extends: "alexandria:lenient",
+      });
+
+      expect(loader.loadConfig(configPath)).toBeNull();
+      expect(String(errorSpy.mock.calls[0][1])).toContain(
+        'Unknown preset "alexandria:lenient"',
+      );
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe("cascade", () => {
+    const writeConfig = (dir: string, config: object) =>
+      fsAdapter.writeFile(
+        join(dir, ".alexandriarc.json"),
+        JSON.stringify({ version: "1.0.0", ...config }),
+      );
+
+    test("merges configs from parent directories", () => {
+      const packageDir = join(testDir, "packages/app");
+      writeConfig(testDir, {
+        reporting: { format: "json" },
+        context: { patterns: { exclude: ["**/vendor/**"] } },
+      });
+      writeConfig(packageDir, {
+        reporting: { verbose: true },
+        context: { patterns: { exclude: ["**/fixtures/**"] } },
+      });
+
+      expect(loader.findConfigFiles(join(packageDir, "src"))).toEqual([
+        join(testDir, ".alexandriarc.json"),
+        join(packageDir, ".alexandriarc.json"),
+      ]);
+
+      const config = loader.loadConfig(join(packageDir, "src"));
+      expect(config?.reporting?.format).toBe("json");
+      expect(config?.reporting?.verbose).toBe(true);
+      expect(config?.context?.patterns?.exclude).toEqual([
+        "**/vendor/**",
+        "**/fixtures/**",
+      ]);
+      expect(config?.root).toBeUndefined();
+    });
+
+    test("stops at a config with root: true", () => {
+      writeConfig("/", { reporting: { format: "html" } });
+      writeConfig(testDir, { root: true });
+
+      expect(loader.findConfigFiles(testDir)).toEqual([
+        join(testDir, ".alexandriarc.json"),
+      ]);
+      expect(loader.loadConfig(testDir)?.reporting?.format).toBe("text");
+    });
+
+    test("only loads the given file when passed a config path", () => {
+      writeConfig(testDir, { reporting: { format: "json" } });
+      writeConfig(join(testDir, "app"), {});
+
+      const config = loader.loadConfig(join(testDir, "app/.alexandriarc.json"));
+      expect(config?.reporting?.format).toBe("text");
+    });
+  });
+
+  describe("config formats", () => {
+    test("loads YAML configs", () => {
+      fsAdapter.writeFile(
+        join(testDir, ".alexandriarc.yaml"),
+        [
+          "version: 1.0.0",
+          "extends: ./base.yml",
+          "context:",
+          "  rules:",
+          "    - id: require-references",
+          "      severity: warning",
+        ].join("\n"),
+      );
+      fsAdapter.writeFile(
+        join(testDir, "base.yml"),
+        "version: 1.0.0\nreporting:\n  format: json\n",
+      );
+
+      const config = loader.loadConfig(testDir);
+      expect(config?.reporting?.format).toBe("json");
+      expect(config?.context?.rules).toEqual([
+        { id: "require-references", severity: "warning" },
+      ]);
+    });
+
+    test("reports YAML syntax errors with their location", () => {
+      const errorSpy = spyOn(console, "error").mockImplementation(() => {});
+      fsAdapter.writeFile(
+        join(testDir, ".alexandriarc.yml"),
+        "version: 1.0.0\ncontext:\n  rules: [\n",
+      );
+
+      expect(loader.loadConfig(testDir)).toBeNull();
+      expect(String(errorSpy.mock.calls[0][1])).toContain(
+        "/test-dir/.alexandriarc.yml:4:1:",
+      );
+      errorSpy.mockRestore();
+    });
+
+    test("loads a JavaScript config object asynchronously", async () => {
+      const configPath = join(testDir, "alexandria.config.js");
+      fsAdapter.writeFile(configPath, "");
+      const moduleLoader = new InMemoryPluginLoader();
+      moduleLoader.register(configPath, {
+        default: { version: "1.0.0", reporting: { format: "json" } },
+      });
+      loader = new ConfigLoader(fsAdapter, { moduleLoader });
+
+      const config = await loader.loadConfigAsync(testDir);
+      expect(config?.reporting?.format).toBe("json");
+      // Once evaluated, the module is available to synchronous loads too
+      expect(loader.loadConfig(testDir)?.reporting?.format).toBe("json");
+    });
+
+    test("calls a JavaScript config function with the environment", async () => {
+      const configPath = join(testDir, "alexandria.config.mjs");
+      fsAdapter.writeFile(configPath, "");
+      const moduleLoader = new InMemoryPluginLoader();
+      moduleLoader.register(configPath, {
+        default: ({
+          env,
+          configPath,
+        }: {
+          env: Record<string, string>;
+          configPath: string;
+        }) => ({
+          version: "1.0.0",
+          project: { name: configPath },
+          reporting: { verbose: env.CI === "true" },
+        }),
+      });
+      loader = new ConfigLoader(fsAdapter, {
+        moduleLoader,
+        env: { CI: "true" },
+      });
+
+      const config = await loader.loadConfigAsync(testDir);
+      expect(config?.reporting?.verbose).toBe(true);
+      expect(config?.project?.name).toBe(configPath);
+    });
+
+    test("reports JavaScript configs that cannot be loaded synchronously", () => {
+      const errorSpy = spyOn(console, "error").mockImplementation(() => {});
+      fsAdapter.writeFile(join(testDir, "alexandria.config.js"), "");
+
+      expect(loader.loadConfig(testDir)).toBeNull();
+      expect(String(errorSpy.mock.calls[0][1])).toContain("loadConfigAsync()");
+      errorSpy.mockRestore();
+    });
+
+    test("reports JavaScript configs without a module loader", async () => {
+      const errorSpy = spyOn(console, "error").mockImplementation(() => {});
+      fsAdapter.writeFile(join(testDir, "alexandria.config.js"), "");
+
+      expect(await loader.loadConfigAsync(testDir)).toBeNull();
+      expect(String(errorSpy.mock.calls[0][1])).toContain(
+        "without a module loader",
+      );
+      errorSpy.mockRestore();
+    });
+
+    test("rejects JavaScript configs that do not export an object", async () => {
+      const configPath = join(testDir, "alexandria.config.js");
+      fsAdapter.writeFile(configPath, "");
+      const moduleLoader = new InMemoryPluginLoader();
+      moduleLoader.register(configPath, { default: "strict" });
+      loader = new ConfigLoader(fsAdapter, { moduleLoader });
+
+      const result = await loader.validateConfigFile(configPath);
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].message).toContain(
+        "must export a config object or a function returning one",
+      );
+    });
+  });
+
+  describe("validateConfigFile", () => {
+    test("maps YAML syntax errors to a line and column", async () => {
+      const configPath = join(testDir, ".alexandriarc.yaml");
+      fsAdapter.writeFile(
+        configPath,
+        "version: 1.0.0\nreporting:\n  format: json\n verbose: true\n",
+      );
+
+      const result = await loader.validateConfigFile(configPath);
+      expect(result.valid).toBe(false);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]).toMatchObject({
+        path: "root",
+        file: configPath,
+        line: 4,
+        column: 1,
+      });
+    });
+
+    test("validates parsed YAML with ConfigValidator", async () => {
+      const configPath = join(testDir, ".alexandriarc.yaml");
+      fsAdapter.writeFile(
+        configPath,
+        "version: 1.0.0\nreporting:\n  format: pdf\n",
+      );
+
+      const result = await loader.validateConfigFile(configPath);
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toMatchObject({
+        path: "reporting.format",
+        file: configPath,
+      });
+    });
+
+    test("reports configs from a newer version", async () => {
+      const configPath = join(testDir, ".alexandriarc.json");
+      fsAdapter.writeFile(configPath, JSON.stringify({ version: "3.1.0" }));
+
+      const result = await loader.validateConfigFile(configPath);
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].path).toBe("version");
+      expect(result.errors[0].message).toContain(
+        "Config version 3.1.0 is newer than 1.0.0",
+      );
+    });
+
+    test("accepts a valid JSON config", async () => {
+      const configPath = join(testDir, ".alexandriarc.json");
+      fsAdapter.writeFile(configPath, JSON.stringify({ version: "1.0.0" }));
+
+      const result = await loader.validateConfigFile(configPath);
+      expect(result.valid).toBe(true);
+      expect(result.errors).toEqual([]);
+    });
+  });
+
+  describe("migrate", () => {
+    const createLoader = () =>
+      new ConfigLoader(fsAdapter, {
+        migrations: new ConfigMigrationRegistry([
+          {
+            from: "0.9.0",
+            to: "1.0.0",
+            description: "excludeFiles moved into the rule options",
+            migrate(config) {
+              const { excludeFiles, ...rest } = config;
+              return {
+                ...rest,
+                context: {
+                  rules: [
+                    { id: "require-references", options: { excludeFiles } },
+                  ],
+                },
+              };
+            },
+          },
+        ]),
+      });
+
+    test("upgrades old configs in memory when loading", () => {
+      const warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+      const configPath = join(testDir, ".alexandriarc.json");
+      fsAdapter.writeFile(
+        configPath,
+        JSON.stringify({ version: "0.9.0", excludeFiles: ["CHANGELOG.md"] }),
+      );
+      loader = createLoader();
+
+      const config = loader.loadConfig(testDir);
+      expect(config?.version).toBe("1.0.0");
+      expect(config?.context?.rules?.[0].options).toEqual({
+        excludeFiles: ["CHANGELOG.md"],
+      });
+      expect(String(warnSpy.mock.calls[0][0])).toBe(
+        `${configPath}: Migrated config from 0.9.0 to 1.0.0: excludeFiles moved into the rule options`,
+      );
+      // The file itself is unchanged
+      expect(fsAdapter.readFile(configPath)).toContain('"0.9.0"');
+      warnSpy.mockRestore();
+    });
+
+    test("reports configs from a newer version", () => {
+      const errorSpy = spyOn(console, "error").mockImplementation(() => {});
+      fsAdapter.writeFile(
+        join(testDir, ".alexandriarc.json"),
+        JSON.stringify({ version: "2.0.0" }),
+      );
+
+      expect(loader.loadConfig(testDir)).toBeNull();
+      expect(String(errorSpy.mock.calls[0][1])).toContain(
+        "Config version 2.0.0 is newer than 1.0.0",
+      );
+      errorSpy.mockRestore();
+    });
+
+    test("returns the migrated config without writing by default", () => {
+      const configPath = join(testDir, ".alexandriarc.json");
+      const original = JSON.stringify({ version: "0.9.0", excludeFiles: [] });
+      fsAdapter.writeFile(configPath, original);
+      loader = createLoader();
+
+      const result = loader.migrate(configPath);
+      expect(result.migrated).toBe(true);
+      expect(result.config.version).toBe("1.0.0");
+      expect(fsAdapter.readFile(configPath)).toBe(original);
+    });
+
+    test("writes JSON back keeping key order and indentation", () => {
+      const configPath = join(testDir, ".alexandriarc.json");
+      fsAdapter.writeFile(
+        configPath,
+        JSON.stringify(
+          {
+            reporting: { format: "json" },
+            version: "0.9.0",
+            excludeFiles: ["CHANGELOG.md"],
+          },
+          null,
+          4,
+        ) + "\n",
+      );
+      loader = createLoader();
+
+      loader.migrate(configPath, { write: true });
+
+      const written = fsAdapter.readFile(configPath);
+      expect(written).toBe(
+        JSON.stringify(
+          {
+            reporting: { format: "json" },
+            version: "1.0.0",
+            context: {
+              rules: [
+                {
+                  id: "require-references",
+                  options: { excludeFiles: ["CHANGELOG.md"] },
+                },
+              ],
+            },
+          },
+          null,
+          4,
+        ) + "\n",
+      );
+    });
+
+    test("writes YAML back", () => {
+      const configPath = join(testDir, ".alexandriarc.yaml");
+      fsAdapter.writeFile(
+        configPath,
+        "version: 0.9.0\nexcludeFiles:\n  - CHANGELOG.md\n",
+      );
+      loader = createLoader();
+
+      loader.migrate(configPath, { write: true });
+
+      expect(fsAdapter.readFile(configPath)).toBe(
+        [
+          "version: 1.0.0",
+          "context:",
+          "  rules:",
+          "    - id: require-references",
+          "      options:",
+          "        excludeFiles:",
+          "          - CHANGELOG.md",
+          "",
+        ].join("\n"),
+      );
+      expect(loader.loadConfig(testDir)?.version).toBe("1.0.0");
+    });
+
+    test("keeps comments when writing YAML back", () => {
+      const configPath = join(testDir, ".alexandriarc.yaml");
+      fsAdapter.writeFile(
+        configPath,
+        [
+          "# Project config",
+          "version: 0.9.0 # bumped by migrate",
+          "",
+          "# Reports for CI",
+          "reporting:",
+          "  format: json # machine readable",
+          "excludeFiles:",
+          "  - CHANGELOG.md",
+          "",
+        ].join("\n"),
+      );
+      loader = createLoader();
+
+      loader.migrate(configPath, { write: true });
+
+      const written = fsAdapter.readFile(configPath);
+      expect(written).toStartWith(
+        [
+          "# Project config",
+          "version: 1.0.0 # bumped by migrate",
+          "",
+          "# Reports for CI",
+          "reporting:",
+          "  format: json # machine readable",
+          "context:",
+        ].join("\n"),
+      );
+      expect(written).not.toContain("excludeFiles:\n  - CHANGELOG.md");
+      expect(loader.loadConfig(testDir)?.context?.rules?.[0].options).toEqual({
+        excludeFiles: ["CHANGELOG.md"],
+      });
+    });
+
+    test("does not rewrite JavaScript configs", () => {
+      const configPath = join(testDir, "alexandria.config.js");
+      fsAdapter.writeFile(configPath, "");
+
+      expect(() => loader.migrate(configPath, { write: true })).toThrow(
+        "update JavaScript configs by hand",
+      );
+    });
+  });
+
+  describe("overrides", () => {
+    beforeEach(() => {
+      fsAdapter.writeFile(
+        join(testDir, ".alexandriarc.json"),
+        JSON.stringify({
+          version: "1.0.0",
+          context: {
+            rules: [
+              {
+                id: "codebase-coverage",
+                severity: "warning",
+                options: { minimumCoverage: 60 },
+              },
+            ],
+          },
+          reporting: { format: "text" },
+        }),
+      );
+    });
+
+    test("applies environment variables and overrides with provenance", () => {
+      loader = new ConfigLoader(fsAdapter, {
+        env: {
+          ALEXANDRIA_RULES_CODEBASE_COVERAGE_MINIMUM_COVERAGE: "80",
+          ALEXANDRIA_REPORTING_FORMAT: "json",
+        },
+        overrides: { "reporting.format": "sarif" },
+      });
+
+      const loaded = loader.loadConfigWithProvenance(testDir);
+
+      expect(loaded?.config.context?.rules?.[0]).toEqual({
+        id: "codebase-coverage",
+        severity: "warning",
+        options: { minimumCoverage: 80 },
+      });
+      expect(loaded?.config.reporting?.format).toBe("sarif");
+      expect(
+        loaded?.provenance[
+          "context.rules[codebase-coverage].options.minimumCoverage"
+        ],
+      ).toBe("env:ALEXANDRIA_RULES_CODEBASE_COVERAGE_MINIMUM_COVERAGE");
+      expect(
+        loaded?.provenance["context.rules[codebase-coverage].severity"],
+      ).toBe(join(testDir, ".alexandriarc.json"));
+      expect(loaded?.provenance["reporting.format"]).toBe(
+        "override:reporting.format",
+      );
+    });
+
+    test("skips invalid overrides and keeps the config files", () => {
+      const warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+      loader = new ConfigLoader(fsAdapter, {
+        env: { ALEXANDRIA_REPORTING_VERBOSE: "yes" },
+      });
+
+      const loaded = loader.loadConfigWithProvenance(testDir);
+
+      expect(loaded?.config.reporting?.format).toBe("text");
+      expect(loaded?.config.context?.rules?.[0].options).toEqual({
+        minimumCoverage: 60,
+      });
+      expect(loaded?.provenance["reporting.verbose"]).not.toBe(
+        "env:ALEXANDRIA_REPORTING_VERBOSE",
+      );
+      expect(warnSpy).toHaveBeenCalledWith(
+        "env:ALEXANDRIA_REPORTING_VERBOSE: verbose must be a boolean; ignored",
+      );
+      warnSpy.mockRestore();
+    });
+  });
 });
@@ -0,0 +1,132 @@
+import { describe, test, expect } from "bun:test";
+import {
+  ConfigMigration,
+  ConfigMigrationRegistry,
+  CURRENT_CONFIG_VERSION,
+  compareVersions,
+  renameConfigKey,
+} from "../../src/config/migrations";
+
+const renameOutput: ConfigMigration = {
+  from: "0.8.0",
+  to: "0.9.0",
+  description: "reporting.output is now reporting.destination",
+  migrate(config) {
+    const reporting = config.reporting as Record<string, unknown> | undefined;
+    if (reporting) renameConfigKey(reporting, "output", "destination");
+  },
+};
+
+const restoreOutput: ConfigMigration = {
+  from: "0.9.0",
+  to: "1.0.0",
+  description: "reporting.destination is back to reporting.output",
+  migrate(config, warnings) {
+    const reporting = config.reporting as Record<string, unknown> | undefined;
+    if (reporting) renameConfigKey(reporting, "destination", "output");
+    warnings.push("Check that reporting.output still points where you expect");
+  },
+};
+
+describe("ConfigMigrationRegistry", () => {
+  test("leaves current configs and configs without a version unchanged", () => {
+    const registry = new ConfigMigrationRegistry();
+
+    for (const config of [{ version: CURRENT_CONFIG_VERSION }, {}]) {
+      const result = registry.migrate(config);
+      expect(result.migrated).toBe(false);
+      expect(result.config).toEqual(config);
+      expect(result.warnings).toEqual([]);
+    }
+  });
+
+  test("chains migrations up to the current version", () => {
+    const registry = new ConfigMigrationRegistry([renameOutput, restoreOutput]);
+    const config = {
+      version: "0.8.0",
+      reporting: { output: "console", format: "json" },
+    };
+
+    const result = registry.migrate(config);
+
+    expect(result).toMatchObject({
+      fromVersion: "0.8.0",
+      toVersion: "1.0.0",
+      migrated: true,
+    });
+    expect(result.config).toEqual({
+      version: "1.0.0",
+      reporting: { output: "console", format: "json" },
+    });
+    expect(result.warnings).toEqual([
+      "Migrated config from 0.8.0 to 0.9.0: reporting.output is now reporting.destination",
+      "Migrated config from 0.9.0 to 1.0.0: reporting.destination is back to reporting.output",
+      "Check that reporting.output still points where you expect",
+    ]);
+    // The input is not modified
+    expect(config.version).toBe("0.8.0");
+  });
+
+  test("migrates to an older target version", () => {
+    const registry = new ConfigMigrationRegistry([renameOutput, restoreOutput]);
+
+    const result = registry.migrate(
+      { version: "0.8.0", reporting: { output: "console" } },
+      "0.9.0",
+    );
+
+    expect(result.config).toEqual({
+      version: "0.9.0",
+      reporting: { destination: "console" },
+    });
+  });
+
+  test("rejects versions newer than the library supports", () => {
+    const registry = new ConfigMigrationRegistry();
+
+    expect(() => registry.migrate({ version: "2.0.0" })).toThrow(
+      "Config version 2.0.0 is newer than 1.0.0",
+    );
+  });
+
+  test("rejects invalid versions and missing migration paths", () => {
+    const registry = new ConfigMigrationRegistry([restoreOutput]);
+
+    expect(() => registry.migrate({ version: "latest" })).toThrow(
+      'Invalid config version "latest"',
+    );
+    expect(() => registry.migrate({ version: "0.8.0" })).toThrow(
+      "No config migration from version 0.8.0 towards 1.0.0",
+    );
+  });
+
+  test("allows one migration per version", () => {
+    const registry = new ConfigMigrationRegistry([renameOutput]);
+
+    expect(() => registry.register({ ...renameOutput, to: "1.0.0" })).toThrow(
+      "A config migration from 0.8.0 is already registered",
+    );
+    expect(() =>
+      registry.register({ ...renameOutput, from: "1.0.0", to: "0.9.0" }),
+    ).toThrow("must upgrade to a newer version");
+  });
+});
+
+describe("compareVersions", () => {
+  test("compares numerically and pads missing parts", () => {
+    expect(compareVersions("1.10.0", "1.9.0")).toBeGreaterThan(0);
+    expect(compareVersions("0.9", "1.0.0")).toBeLessThan(0);
+    expect(compareVersions("1.0", "1.0.0")).toBe(0);
+  });
+});
+
+describe("renameConfigKey", () => {
+  test("keeps the key's position", () => {
+    const object = { a: 1, b: 2, c: 3 };
+
+    renameConfigKey(object, "b", "renamed");
+
+    expect(Object.keys(object)).toEqual(["a", "renamed", "c"]);
+    expect(object).toEqual({ a: 1, renamed: 2, c: 3 });
+  });
+});
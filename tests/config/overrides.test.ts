@@ -0,0 +1,123 @@
+import { describe, test, expect } from "bun:test";
+import { buildOverrideLayers, toEnvName } from "../../src/config/overrides";
+
+describe("toEnvName", () => {
+  test("names variables after setting paths", () => {
+    expect(toEnvName("reporting.format")).toBe("ALEXANDRIA_REPORTING_FORMAT");
+    expect(toEnvName("context.maxDepth")).toBe("ALEXANDRIA_CONTEXT_MAX_DEPTH");
+    expect(
+      toEnvName("context.rules[codebase-coverage].options.minimumCoverage"),
+    ).toBe("ALEXANDRIA_RULES_CODEBASE_COVERAGE_MINIMUM_COVERAGE");
+    expect(toEnvName("context.rules[stale-references].severity")).toBe(
+      "ALEXANDRIA_RULES_STALE_REFERENCES_SEVERITY",
+    );
+  });
+});
+
+describe("buildOverrideLayers", () => {
+  test("parses environment variables to the setting's type", () => {
+    const { layers, warnings } = buildOverrideLayers({
+      ALEXANDRIA_REPORTING_VERBOSE: "true",
+      ALEXANDRIA_CONTEXT_MAX_DEPTH: "4",
+      ALEXANDRIA_CONTEXT_PATTERNS_EXCLUDE: "vendor/**, tmp/**",
+      ALEXANDRIA_RULES_CODEBASE_COVERAGE_MINIMUM_COVERAGE: "85",
+      PATH: "/usr/bin",
+    });
+
+    expect(warnings).toEqual([]);
+    expect(layers).toEqual([
+      {
+        source: "env:ALEXANDRIA_REPORTING_VERBOSE",
+        config: { reporting: { verbose: true } },
+      },
+      {
+        source: "env:ALEXANDRIA_CONTEXT_MAX_DEPTH",
+        config: { context: { maxDepth: 4 } },
+      },
+      {
+        source: "env:ALEXANDRIA_CONTEXT_PATTERNS_EXCLUDE",
+        config: { context: { patterns: { exclude: ["vendor/**", "tmp/**"] } } },
+      },
+      {
+        source: "env:ALEXANDRIA_RULES_CODEBASE_COVERAGE_MINIMUM_COVERAGE",
+        config: {
+          context: {
+            rules: [
+              { id: "codebase-coverage", options: { minimumCoverage: 85 } },
+            ],
+          },
+        },
+      },
+    ]);
+  });
+
+  test("applies the override map after the environment", () => {
+    const { layers } = buildOverrideLayers(
+      { ALEXANDRIA_REPORTING_FORMAT: "json" },
+      {
+        "reporting.format": "sarif",
+        "context.rules[stale-references].enabled": false,
+      },
+    );
+
+    expect(layers.map((layer) => layer.source)).toEqual([
+      "env:ALEXANDRIA_REPORTING_FORMAT",
+      "override:reporting.format",
+      "override:context.rules[stale-references].enabled",
+    ]);
+    expect(layers[2].config).toEqual({
+      context: { rules: [{ id: "stale-references", enabled: false }] },
+    });
+  });
+
+  test("accepts options of rules that are not built in", () => {
+    const { layers } = buildOverrideLayers(
+      {},
+      { "context.rules[my-plugin/rule].options.limit": "3" },
+    );
+
+    expect(layers[0].config).toEqual({
+      context: { rules: [{ id: "my-plugin/rule", options: { limit: 3 } }] },
+    });
+  });
+
+  test("warns about variables that name no setting", () => {
+    const { layers, warnings } = buildOverrideLayers({
+      ALEXANDRIA_REPORTING_COLOR: "red",
+    });
+
+    expect(layers).toEqual([]);
+    expect(warnings).toEqual([
+      "ALEXANDRIA_REPORTING_COLOR does not name a config setting and is ignored",
+    ]);
+  });
+
+  test("skips unknown settings and values of the wrong type", () => {
+    const { layers, warnings } = buildOverrideLayers(
+      {
+        ALEXANDRIA_CONTEXT_MAX_DEPTH: "deep",
+        ALEXANDRIA_REPORTING_FORMAT: "pdf",
+        ALEXANDRIA_REPORTING_VERBOSE: "true",
+      },
+      {
+        "reporting.colour": "red",
+        "context.rules[codebase-coverage].options.minimumCoverage": 120,
+        "context.rules[codebase-coverage].options.unknown": "x",
+      },
+    );
+
+    expect(layers).toEqual([
+      {
+        source: "env:ALEXANDRIA_REPORTING_VERBOSE",
+        config: { reporting: { verbose: true } },
+      },
+    ]);
+    expect(warnings).toEqual([
+      "env:ALEXANDRIA_CONTEXT_MAX_DEPTH: maxDepth must be a number; ignored",
+      "env:ALEXANDRIA_REPORTING_FORMAT: Invalid format. Must be one of: text, json, html, sarif, junit; ignored",
+      'override:reporting.colour: Unknown setting "reporting.colour"; ignored',
+      "override:context.rules[codebase-coverage].options.minimumCoverage: minimumCoverage must be at least 0 and at most 100; ignored",
+      'override:context.rules[codebase-coverage].options.unknown: Unknown setting "context.rules[codebase-coverage].options.unknown"; ignored',
+    ]);
+  });
+});
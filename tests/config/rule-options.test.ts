@@ -0,0 +1,67 @@
+import { describe, test, expect } from "bun:test";
+import {
+  FILENAME_CONVENTION_OPTIONS_SCHEMA,
+  NO_OPTIONS_SCHEMA,
+  validateRuleOptions,
+} from "../../src/config/rule-options";
+
+describe("validateRuleOptions", () => {
+  const path = "context.rules[0].options";
+
+  test("accepts valid options", () => {
+    const errors = validateRuleOptions(
+      FILENAME_CONVENTION_OPTIONS_SCHEMA,
+      { style: "snake_case", exclude: ["README.md"], autoFix: true },
+      path,
+    );
+    expect(errors).toHaveLength(0);
+  });
+
+  test("rejects options that are not an object", () => {
+    const errors = validateRuleOptions(NO_OPTIONS_SCHEMA, "strict", path);
+    expect(errors).toEqual([
+      { path, message: "Rule options must be an object" },
+    ]);
+  });
+
+  test("reports unknown options", () => {
+    const errors = validateRuleOptions(NO_OPTIONS_SCHEMA, { foo: 1 }, path);
+    expect(errors[0].path).toBe(`${path}.foo`);
+    expect(errors[0].message).toBe(
+      'Unknown option "foo". This rule has no options',
+    );
+  });
+
+  test("reports values of the wrong type", () => {
+    const errors = validateRuleOptions(
+      FILENAME_CONVENTION_OPTIONS_SCHEMA,
+      { autoFix: "yes", extensions: [".md", 1] },
+      path,
+    );
+    expect(errors.map((e) => e.message)).toEqual([
+      "autoFix must be a boolean",
+      "extensions must be an array of strings",
+    ]);
+  });
+
+  test("reports values outside an enum", () => {
+    const errors = validateRuleOptions(
+      FILENAME_CONVENTION_OPTIONS_SCHEMA,
+      { style: "SCREAMING" },
+      path,
+    );
+    expect(errors[0].message).toContain("Invalid style. Must be one of:");
+    expect(errors[0].value).toBe("SCREAMING");
+  });
+
+  test("reports numbers outside their bounds", () => {
+    const errors = validateRuleOptions(
+      { percent: { type: "number", minimum: 0, maximum: 100 } },
+      { percent: 120 },
+      path,
+    );
+    expect(errors[0].message).toBe(
+      "percent must be at least 0 and at most 100",
+    );
+  });
+});
@@ -192,5 +192,158 @@ describe("ConfigValidator", () => {
       const versionError = result.errors.find((e) => e.path === "version");
       expect(versionError?.value).toBe("3.0.0");
     });
+
+    test("rejects unknown options for built-in rules", () => {
+      const config = {
+        version: "1.0.0",
+        context: {
+          rules: [
+            {
+              id: "stale-references",
+              name: "Stale References",
+              severity: "warning",
+              options: { maxAge: 30 },
+            },
+          ],
+        },
+      };
+
+      const result = validator.validate(config);
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].path).toBe("context.rules[0].options.maxAge");
+      expect(result.errors[0].message).toContain('Unknown option "maxAge"');
+    });
+
+    test("rejects ill-typed options for built-in rules", () => {
+      const config = {
+        version: "1.0.0",
+        context: {
+          rules: [
+            {
+              id: "codebase-coverage",
+              name: "Codebase Coverage",
+              severity: "warning",
+              options: { minimumCoverage: "80", excludePatterns: "dist/**" },
+            },
+          ],
+        },
+      };
+
+      const result = validator.validate(config);
+      expect(result.errors.map((e) => e.path)).toEqual([
+        "context.rules[0].options.minimumCoverage",
+        "context.rules[0].options.excludePatterns",
+      ]);
+      expect(result.errors[0].message).toBe("minimumCoverage must be a number");
+    });
+
+    test("rejects non-boolean suppression settings", () => {
+      const result = validator.validate({
+        version: "1.0.0",
+        context: { suppressions: { requireReason: "yes" } },
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].path).toBe("context.suppressions.requireReason");
+    });
+
+    test("accepts plugins and rejects non-string entries", () => {
+      const result = validator.validate({
+        version: "1.0.0",
+        plugins: ["@acme/alexandria-plugin", "./lint/rules.js", 42],
+      });
+
+      expect(result.warnings).toHaveLength(0);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].path).toBe("plugins[2]");
+    });
+
+    test("accepts extends and rejects empty entries", () => {
+      const result = validator.validate({
+        version: "1.0.0",
+        extends: ["alexandria:recommended", "./base.json", ""],
+      });
+
+      expect(result.warnings).toHaveLength(0);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].path).toBe("extends[2]");
+    });
+
+    test("validates priority patterns and severity escalation", () => {
+      const result = validator.validate({
+        version: "1.0.0",
+        context: {
+          maxDepth: -1,
+          patterns: {
+            priority: [
+              { pattern: "src/core/**", priority: "critical" },
+              { pattern: "", priority: "urgent" },
+            ],
+          },
+          escalateSeverity: {
+            critical: "error",
+            urgent: "error",
+            high: "fatal",
+          },
+        },
+      });
+
+      expect(result.errors.map((e) => e.path)).toEqual([
+        "context.patterns.priority[1].pattern",
+        "context.patterns.priority[1].priority",
+        "context.maxDepth",
+        "context.escalateSeverity.urgent",
+        "context.escalateSeverity.high",
+      ]);
+    });
+
+    test("requires root to be a boolean", () => {
+      const result = validator.validate({ version: "1.0.0", root: "yes" });
+
+      expect(result.warnings).toHaveLength(0);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].message).toBe("Root must be a boolean");
+    });
+
+    test("allows rule overrides without name or severity when extending", () => {
+      const rules = [{ id: "stale-references", options: { maxAgeDays: 7 } }];
+
+      expect(
+        validator.validate({
+          version: "1.0.0",
+          extends: "alexandria:recommended",
+          context: { rules },
+        }).errors,
+      ).toHaveLength(0);
+      expect(
+        validator.validate({ version: "1.0.0", context: { rules } }).errors,
+      ).toHaveLength(2);
+    });
+
+    test("only checks the shape of options for other rules", () => {
+      const config = {
+        version: "1.0.0",
+        context: {
+          rules: [
+            {
+              id: "custom-rule",
+              name: "Custom Rule",
+              severity: "info",
+              options: { anything: true },
+            },
+            {
+              id: "other-rule",
+              name: "Other Rule",
+              severity: "info",
+              options: ["not", "an", "object"],
+            },
+          ],
+        },
+      };
+
+      const result = validator.validate(config);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].path).toBe("context.rules[1].options");
+    });
   });
 });
@@ -53,6 +53,19 @@ describe("GlobAdapter Implementations", () => {
       expect(withDot).toContain(".hidden/secret.md");
     });
 
+    it("should respect maxDepth", async () => {
+      fsAdapter.writeFile("/project/docs/api/v1/intro.md", "# Intro");
+
+      const files = await globAdapter.findFiles(["**/*.md"], {
+        cwd: "/project",
+        maxDepth: 1,
+      });
+
+      expect(files).toContain("README.md");
+      expect(files).toContain("docs/guide.md");
+      expect(files).not.toContain("docs/api/v1/intro.md");
+    });
+
     it("should handle multiple patterns", async () => {
       const files = await globAdapter.findFiles(["**/*.md", "**/*.ts"], {
         cwd: "/project",
@@ -115,6 +128,39 @@ describe("GlobAdapter Implementations", () => {
       expect(files).not.toContain("src/index.ts");
     });
 
+    it("should respect maxDepth and followSymbolicLinks", async () => {
+      fs.symlinkSync(path.join(testDir, "docs"), path.join(testDir, "linked"));
+
+      const rootOnly = await globAdapter.findFiles(["**/*.md"], {
+        cwd: testDir,
+        maxDepth: 0,
+      });
+      const withoutLinks = await globAdapter.findFiles(["**/*.md"], {
+        cwd: testDir,
+        followSymbolicLinks: false,
+      });
+
+      expect(rootOnly).toEqual(["README.md"]);
+      expect(withoutLinks.sort()).toEqual(["README.md", "docs/guide.md"]);
+    });
+
+    it("should count maxDepth from cwd for patterns with a base directory", async () => {
+      fs.mkdirSync(path.join(testDir, "src", "a"), { recursive: true });
+      fs.writeFileSync(path.join(testDir, "src", "a", "b.ts"), "export {}");
+
+      const files = await globAdapter.findFiles(["src/**/*.ts"], {
+        cwd: testDir,
+        maxDepth: 1,
+      });
+      const syncFiles = globAdapter.findFilesSync(["src/**/*.ts"], {
+        cwd: testDir,
+        maxDepth: 1,
+      });
+
+      expect(files).toEqual(["src/index.ts"]);
+      expect(syncFiles).toEqual(["src/index.ts"]);
+    });
+
     it("should work with sync method", () => {
       const files = globAdapter.findFilesSync(["**/*.md"], {
         cwd: testDir,
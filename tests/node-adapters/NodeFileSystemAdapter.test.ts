@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import * as fs from "fs";
+import * as path from "path";
+import { tmpdir } from "os";
+import { NodeFileSystemAdapter } from "../../src/node-adapters/NodeFileSystemAdapter";
+import {
+  FileWatchEvent,
+  FileWatcher,
+} from "../../src/pure-core/abstractions/filesystem";
+
+describe("NodeFileSystemAdapter", () => {
+  describe("watch", () => {
+    const adapter = new NodeFileSystemAdapter();
+    let dir: string;
+    let watcher: FileWatcher | undefined;
+    let events: FileWatchEvent[];
+
+    const waitFor = async (predicate: () => boolean) => {
+      for (let i = 0; i < 100 && !predicate(); i++) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      return predicate();
+    };
+
+    beforeEach(() => {
+      dir = fs.realpathSync(
+        fs.mkdtempSync(path.join(tmpdir(), "node-fs-watch-")),
+      );
+      fs.mkdirSync(path.join(dir, "docs"));
+      events = [];
+      watcher = adapter.watch(dir, (event) => events.push(event));
+    });
+
+    afterEach(() => {
+      watcher?.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should report created and deleted files in subdirectories", async () => {
+      const file = path.join(dir, "docs", "guide.md");
+
+      fs.writeFileSync(file, "# Guide");
+      expect(
+        await waitFor(() =>
+          events.some((e) => e.path === file && e.type !== "deleted"),
+        ),
+      ).toBe(true);
+
+      fs.unlinkSync(file);
+      expect(
+        await waitFor(() =>
+          events.some((e) => e.path === file && e.type === "deleted"),
+        ),
+      ).toBe(true);
+    });
+
+    it("should not report changes inside node_modules or .git", async () => {
+      fs.mkdirSync(path.join(dir, "node_modules", "pkg"), { recursive: true });
+      fs.writeFileSync(path.join(dir, "node_modules", "pkg", "index.js"), "");
+      fs.mkdirSync(path.join(dir, ".git"));
+      fs.writeFileSync(path.join(dir, ".git", "HEAD"), "");
+      const file = path.join(dir, "docs", "guide.md");
+      fs.writeFileSync(file, "# Guide");
+
+      expect(await waitFor(() => events.some((e) => e.path === file))).toBe(
+        true,
+      );
+      expect(
+        events.filter(
+          (e) => e.path.includes("node_modules") || e.path.includes(".git"),
+        ),
+      ).toEqual([]);
+    });
+
+    it("should watch each directory when recursive watching is unavailable", async () => {
+      watcher?.close();
+      const realWatch = fs.watch;
+      const watchSpy = spyOn(fs, "watch").mockImplementation(((
+        target: fs.PathLike,
+        options: fs.WatchOptions,
+        listener: fs.WatchListener<string>,
+      ) => {
+        if (options.recursive) {
+          throw Object.assign(new Error("recursive watch unavailable"), {
+            code: "ERR_FEATURE_UNAVAILABLE_ON_PLATFORM",
+          });
+        }
+        return realWatch(target, options, listener);
+      }) as typeof fs.watch);
+      fs.mkdirSync(path.join(dir, "node_modules"));
+      try {
+        watcher = adapter.watch(dir, (event) => events.push(event));
+
+        const watched = watchSpy.mock.calls.map(([target]) => String(target));
+        expect(watched).toContain(path.join(dir, "docs"));
+        expect(watched).not.toContain(path.join(dir, "node_modules"));
+
+        const apiDir = path.join(dir, "docs", "api");
+        fs.mkdirSync(apiDir);
+        expect(await waitFor(() => events.some((e) => e.path === apiDir))).toBe(
+          true,
+        );
+        const file = path.join(apiDir, "index.md");
+        fs.writeFileSync(file, "# API");
+        expect(await waitFor(() => events.some((e) => e.path === file))).toBe(
+          true,
+        );
+      } finally {
+        watchSpy.mockRestore();
+      }
+    });
+
+    it("should report watcher errors instead of throwing them", () => {
+      watcher?.close();
+      const realWatch = fs.watch;
+      const created: fs.FSWatcher[] = [];
+      const watchSpy = spyOn(fs, "watch").mockImplementation(((
+        ...args: Parameters<typeof fs.watch>
+      ) => {
+        const fsWatcher = realWatch(...args);
+        created.push(fsWatcher);
+        return fsWatcher;
+      }) as typeof fs.watch);
+      const warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+      try {
+        watcher = adapter.watch(dir, (event) => events.push(event));
+
+        created[0].emit("error", new Error("ENOSPC: System limit reached"));
+        expect(String(warnSpy.mock.calls[0][0])).toBe(
+          `Stopped watching ${dir}:`,
+        );
+      } finally {
+        watchSpy.mockRestore();
+        warnSpy.mockRestore();
+      }
+    });
+
+    it("should stop reporting once closed", async () => {
+      watcher?.close();
+      watcher = undefined;
+
+      fs.writeFileSync(path.join(dir, "late.md"), "# Late");
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(events).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeAll, afterAll, spyOn } from "bun:test";
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import { tmpdir } from "os";
+import { NodeGitAdapter } from "../../src/node-adapters/NodeGitAdapter";
+
+describe("NodeGitAdapter", () => {
+  const adapter = new NodeGitAdapter();
+  let repoDir: string;
+
+  const git = (args: string[], date?: string) =>
+    execFileSync("git", args, {
+      cwd: repoDir,
+      env: {
+        ...process.env,
+        GIT_AUTHOR_NAME: "Test",
+        GIT_AUTHOR_EMAIL: "test@example.com",
+        GIT_COMMITTER_NAME: "Test",
+        GIT_COMMITTER_EMAIL: "test@example.com",
+        ...(date && { GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date }),
+      },
+    })
+      .toString()
+      .trim();
+
+  const commit = (
+    files: Record<string, string>,
+    message: string,
+    date: string,
+  ) => {
+    for (const [file, content] of Object.entries(files)) {
+      fs.mkdirSync(path.dirname(path.join(repoDir, file)), { recursive: true });
+      fs.writeFileSync(path.join(repoDir, file), content);
+    }
+    git(["add", "-A"]);
+    git(["commit", "-q", "--no-verify", "-m", message], date);
+    return git(["rev-parse", "HEAD"]);
+  };
+
+  beforeAll(() => {
+    repoDir = fs.mkdtempSync(path.join(tmpdir(), "git-adapter-test-"));
+    git(["init", "-q"]);
+  });
+
+  afterAll(() => {
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it("should detect git repositories", async () => {
+    expect(await adapter.isRepository(repoDir)).toBe(true);
+
+    const plainDir = fs.mkdtempSync(path.join(tmpdir(), "git-adapter-plain-"));
+    try {
+      expect(await adapter.isRepository(plainDir)).toBe(false);
+    } finally {
+      fs.rmSync(plainDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should return the last commit touching each file", async () => {
+    commit(
+      { "docs/overview.md": "# Overview", "src/index.ts": "export {}" },
+      "Initial commit",
+      "2024-01-01T00:00:00Z",
+    );
+    const second = commit(
+      { "src/index.ts": "export const x = 1;" },
+      "Update index",
+      "2024-01-05T00:00:00Z",
+    );
+    fs.writeFileSync(path.join(repoDir, "untracked.ts"), "");
+
+    const commits = await adapter.getLastCommits(repoDir, [
+      "docs/overview.md",
+      "src/index.ts",
+      "untracked.ts",
+    ]);
+
+    expect(commits.get("src/index.ts")).toEqual({
+      hash: second,
+      date: new Date("2024-01-05T00:00:00Z"),
+      message: "Update index",
+    });
+    expect(commits.get("docs/overview.md")?.date).toEqual(
+      new Date("2024-01-01T00:00:00Z"),
+    );
+    expect(commits.has("untracked.ts")).toBe(false);
+  });
+
+  it("should resolve paths relative to a subdirectory", async () => {
+    const commits = await adapter.getLastCommits(path.join(repoDir, "src"), [
+      "index.ts",
+    ]);
+
+    expect(commits.get("index.ts")?.message).toBe("Update index");
+  });
+
+  it("should match paths literally", async () => {
+    const hash = commit(
+      { "src/[id].ts": "export {}", "src/i.ts": "export {}" },
+      "Add routes",
+      "2024-02-01T00:00:00Z",
+    );
+    commit(
+      { "src/i.ts": "export const i = 1;" },
+      "Update i",
+      "2024-02-02T00:00:00Z",
+    );
+
+    const commits = await adapter.getLastCommits(repoDir, ["src/[id].ts"]);
+
+    expect([...commits.keys()]).toEqual(["src/[id].ts"]);
+    expect(commits.get("src/[id].ts")?.hash).toBe(hash);
+  });
+
+  it("should keep the commits found before git log times out", async () => {
+    // Lists files with the real git, then logs one commit and hangs
+    const slowGit = path.join(repoDir, "slow-git.sh");
+    fs.writeFileSync(
+      slowGit,
+      [
+        "#!/bin/sh",
+        'case "$*" in *ls-files*) exec git "$@";; esac',
+        "printf '\\036abc123\\0001704067200\\000Slow\\nsrc/index.ts\\n'",
+        "sleep 5",
+        "",
+      ].join("\n"),
+      { mode: 0o755 },
+    );
+    const slowAdapter = new NodeGitAdapter(slowGit, 200);
+    const warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+
+    const commits = await slowAdapter.getLastCommits(repoDir, [
+      "src/index.ts",
+      "docs/overview.md",
+    ]);
+
+    expect([...commits.keys()]).toEqual(["src/index.ts"]);
+    expect(commits.get("src/index.ts")?.hash).toBe("abc123");
+    expect(String(warnSpy.mock.calls[0][0])).toContain(
+      "git log timed out after 200ms",
+    );
+    expect(String(warnSpy.mock.calls[0][0])).toContain(
+      "no history for 1 file(s): docs/overview.md",
+    );
+    warnSpy.mockRestore();
+  });
+});
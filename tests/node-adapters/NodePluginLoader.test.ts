@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import * as fs from "fs";
+import * as path from "path";
+import { tmpdir } from "os";
+import { NodePluginLoader } from "../../src/node-adapters/NodePluginLoader";
+
+describe("NodePluginLoader", () => {
+  const loader = new NodePluginLoader();
+  let projectDir: string;
+
+  beforeAll(() => {
+    projectDir = fs.mkdtempSync(path.join(tmpdir(), "alexandria-plugins-"));
+
+    fs.mkdirSync(path.join(projectDir, "lint"));
+    fs.writeFileSync(
+      path.join(projectDir, "lint", "local-plugin.mjs"),
+      'export const rules = [{ id: "local/rule" }];\n',
+    );
+
+    const packageDir = path.join(projectDir, "node_modules", "acme-plugin");
+    fs.mkdirSync(packageDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(packageDir, "package.json"),
+      JSON.stringify({ name: "acme-plugin", main: "index.js" }),
+    );
+    fs.writeFileSync(
+      path.join(packageDir, "index.js"),
+      'module.exports = [{ id: "acme/rule" }];\n',
+    );
+  });
+
+  afterAll(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it("should load local paths relative to the project root", async () => {
+    const exports = (await loader.load(
+      "./lint/local-plugin.mjs",
+      projectDir,
+    )) as { rules: Array<{ id: string }> };
+
+    expect(exports.rules[0].id).toBe("local/rule");
+  });
+
+  it("should resolve packages from the project's node_modules", async () => {
+    const exports = (await loader.load("acme-plugin", projectDir)) as {
+      default: Array<{ id: string }>;
+    };
+
+    expect(exports.default[0].id).toBe("acme/rule");
+  });
+
+  it("should reject modules that can't be resolved", async () => {
+    await expect(loader.load("missing-plugin", projectDir)).rejects.toThrow();
+  });
+});
@@ -211,6 +211,22 @@ describe("AlexandriaOutpostManager", () => {
       expect(untrackedDocs.length).toBe(2);
     });
 
+    it("skips docs matched by .alexandriaignore", async () => {
+      fs.writeFile(`${testRepoPath}/README.md`, "# README");
+      fs.writeFile(`${testRepoPath}/docs/guide.md`, "# Guide");
+      fs.writeFile(`${testRepoPath}/docs/archive/old.md`, "# Old");
+      fs.writeFile(`${testRepoPath}/.alexandriaignore`, "archive/\n");
+
+      await manager.registerRepository(testRepoPath);
+      const entry = manager
+        .getAllEntries()
+        .find((e) => e.path === testRepoPath)!;
+
+      const untrackedDocs = await manager.getUntrackedDocs(entry);
+
+      expect(untrackedDocs.sort()).toEqual(["README.md", "docs/guide.md"]);
+    });
+
     it("handles repository with no markdown files", async () => {
       await manager.registerRepository(testRepoPath);
       const entry = manager
@@ -0,0 +1,150 @@
+import { describe, it, expect } from "bun:test";
+import {
+  CodebaseViewMigration,
+  CodebaseViewMigrationRegistry,
+  CURRENT_VIEW_VERSION,
+} from "../../../src/pure-core/stores/CodebaseViewMigrations";
+
+const legacyView = {
+  id: "legacy",
+  version: "1.0.0",
+  name: "Legacy",
+  description: "Saved before categories",
+  referenceGroups: {},
+};
+
+describe("CodebaseViewMigrationRegistry", () => {
+  it("should fill in fields that legacy views lack", () => {
+    const result = new CodebaseViewMigrationRegistry().migrate(legacyView);
+
+    expect(result.migrated).toBe(true);
+    expect(result.fromVersion).toBe("1.0.0");
+    expect(result.toVersion).toBe(CURRENT_VIEW_VERSION);
+    expect(result.view.version).toBe(CURRENT_VIEW_VERSION);
+    expect(result.view.category).toBe("other");
+    expect(result.view.displayOrder).toBe(0);
+    expect(result.view.overviewPath).toBe("");
+    expect(result.changes).toEqual([
+      'Set category to "other"',
+      "Set displayOrder to 0",
+      'Set overviewPath to ""',
+    ]);
+  });
+
+  it("should keep fields legacy views already have", () => {
+    const result = new CodebaseViewMigrationRegistry().migrate({
+      ...legacyView,
+      category: "guide",
+      overviewPath: "docs/guide.md",
+    });
+
+    expect(result.view.category).toBe("guide");
+    expect(result.view.overviewPath).toBe("docs/guide.md");
+    expect(result.changes).toEqual(["Set displayOrder to 0"]);
+  });
+
+  it("should treat views without a version as legacy", () => {
+    const withoutVersion: Record<string, unknown> = { ...legacyView };
+    delete withoutVersion.version;
+
+    const result = new CodebaseViewMigrationRegistry().migrate(withoutVersion);
+
+    expect(result.fromVersion).toBe("1.0.0");
+    expect(result.view.version).toBe(CURRENT_VIEW_VERSION);
+  });
+
+  it("should not modify the input view", () => {
+    const input = { ...legacyView };
+
+    new CodebaseViewMigrationRegistry().migrate(input);
+
+    expect(input).toEqual(legacyView);
+  });
+
+  it("should leave current views unchanged", () => {
+    const current = {
+      ...legacyView,
+      version: CURRENT_VIEW_VERSION,
+      category: "guide",
+      displayOrder: 2,
+      overviewPath: "README.md",
+    };
+
+    const result = new CodebaseViewMigrationRegistry().migrate(current);
+
+    expect(result.migrated).toBe(false);
+    expect(result.view).toEqual(current);
+  });
+
+  it("should chain registered migrations", () => {
+    const addTags: CodebaseViewMigration = {
+      from: "1.1.0",
+      to: "2.0.0",
+      description: "Add tags",
+      migrate(view, changes) {
+        view.tags = [];
+        changes.push("Set tags to []");
+      },
+    };
+    const registry = new CodebaseViewMigrationRegistry(undefined, "2.0.0");
+    registry.register(addTags);
+
+    const result = registry.migrate(legacyView);
+
+    expect(result.toVersion).toBe("2.0.0");
+    expect(result.view.category).toBe("other");
+    expect((result.view as unknown as { tags: string[] }).tags).toEqual([]);
+  });
+
+  it("should reject duplicate and non-upgrading migrations", () => {
+    const registry = new CodebaseViewMigrationRegistry();
+    const migrate = () => undefined;
+
+    expect(() =>
+      registry.register({
+        from: "1.0.0",
+        to: "1.1.0",
+        description: "",
+        migrate,
+      }),
+    ).toThrow("already registered");
+    expect(() =>
+      registry.register({
+        from: "2.0.0",
+        to: "1.5.0",
+        description: "",
+        migrate,
+      }),
+    ).toThrow("must upgrade to a newer version");
+  });
+
+  it("should refuse views from newer versions", () => {
+    const registry = new CodebaseViewMigrationRegistry();
+    const newer = { ...legacyView, version: "9.0.0" };
+
+    expect(registry.isNewer(newer)).toBe(true);
+    expect(registry.isNewer(legacyView)).toBe(false);
+    expect(() => registry.migrate(newer)).toThrow(
+      `newer than ${CURRENT_VIEW_VERSION}`,
+    );
+  });
+
+  it("should reject invalid versions and missing migration paths", () => {
+    const registry = new CodebaseViewMigrationRegistry([]);
+
+    expect(() => registry.migrate({ ...legacyView, version: "beta" })).toThrow(
+      "invalid version",
+    );
+    expect(() => registry.migrate(legacyView)).toThrow(
+      "No view migration from version 1.0.0",
+    );
+  });
+
+  it("should reject views without the fields readers rely on", () => {
+    const registry = new CodebaseViewMigrationRegistry();
+
+    expect(() =>
+      registry.migrate({ id: "broken", version: "1.0.0", name: "Broken" }),
+    ).toThrow('View "broken" is not a valid view');
+  });
+});
@@ -8,6 +8,7 @@ import {
   CodebaseViewsStore,
   generateViewIdFromName,
 } from "../../../src/pure-core/stores/CodebaseViewsStore";
+import { CURRENT_VIEW_VERSION } from "../../../src/pure-core/stores/CodebaseViewMigrations";
 import { InMemoryFileSystemAdapter } from "../../../src/test-adapters/InMemoryFileSystemAdapter";
 import {
   CodebaseView,
@@ -203,6 +204,132 @@ describe("Pure CodebaseViewsStore", () => {
     const parsedContent = JSON.parse(fileContent!);
     expect(parsedContent.id).toBe("test-view");
   });
+
+  describe("migrations", () => {
+    const viewsDir = "/test-repo/.alexandria/views";
+    const legacyView = {
+      id: "legacy",
+      version: "1.0.0",
+      name: "Legacy View",
+      description: "Saved before categories",
+      referenceGroups: {},
+    };
+
+    beforeEach(() => {
+      fs.createDir(viewsDir);
+      fs.writeFile(`${viewsDir}/legacy.json`, JSON.stringify(legacyView));
+    });
+
+    it("should upgrade legacy views on read without rewriting them", () => {
+      const view = store.getView(validatedRepoPath, "legacy");
+
+      expect(view?.version).toBe(CURRENT_VIEW_VERSION);
+      expect(view?.category).toBe("other");
+      expect(view?.displayOrder).toBe(0);
+      expect(view?.overviewPath).toBe("");
+      expect(JSON.parse(fs.readFile(`${viewsDir}/legacy.json`))).toEqual(
+        legacyView,
+      );
+    });
+
+    it("should upgrade legacy views in async reads and listings", async () => {
+      const view = await store.getViewAsync(validatedRepoPath, "legacy");
+      const [listed] = await store.listViewsAsync(validatedRepoPath);
+
+      expect(view?.category).toBe("other");
+      expect(listed.version).toBe(CURRENT_VIEW_VERSION);
+    });
+
+    it("should report changes without writing in a dry run", () => {
+      const report = store.migrateAllViews(validatedRepoPath, {
+        dryRun: true,
+      });
+
+      expect(report.dryRun).toBe(true);
+      expect(report.views).toEqual([
+        {
+          viewId: "legacy",
+          fromVersion: "1.0.0",
+          toVersion: CURRENT_VIEW_VERSION,
+          migrated: true,
+          changes: [
+            'Set category to "other"',
+            "Set displayOrder to 0",
+            'Set overviewPath to ""',
+          ],
+        },
+      ]);
+      expect(JSON.parse(fs.readFile(`${viewsDir}/legacy.json`))).toEqual(
+        legacyView,
+      );
+    });
+
+    it("should rewrite migrated views and leave current ones alone", () => {
+      store.saveView(validatedRepoPath, {
+        ...sampleView,
+        version: CURRENT_VIEW_VERSION,
+        category: "guide",
+      });
+      const currentContent = fs.readFile(`${viewsDir}/test-view.json`);
+
+      const report = store.migrateAllViews(validatedRepoPath);
+
+      expect(report.views.map((v) => [v.viewId, v.migrated])).toEqual([
+        ["legacy", true],
+        ["test-view", false],
+      ]);
+      const written = JSON.parse(fs.readFile(`${viewsDir}/legacy.json`));
+      expect(written.version).toBe(CURRENT_VIEW_VERSION);
+      expect(written.category).toBe("other");
+      expect(fs.readFile(`${viewsDir}/test-view.json`)).toBe(currentContent);
+      expect(store.migrateAllViews(validatedRepoPath).views[0].migrated).toBe(
+        false,
+      );
+    });
+
+    it("should list views with an invalid version and report them", () => {
+      const invalidView = {
+        ...legacyView,
+        id: "invalid",
+        version: "beta",
+        overviewPath: "docs/invalid.md",
+        category: "guide",
+        displayOrder: 1,
+      };
+      fs.writeFile(`${viewsDir}/invalid.json`, JSON.stringify(invalidView));
+
+      expect(store.getView(validatedRepoPath, "invalid")).toEqual(invalidView);
+      expect(store.listViews(validatedRepoPath).map((v) => v.id)).toContain(
+        "invalid",
+      );
+
+      const report = store.migrateAllViews(validatedRepoPath);
+      const entry = report.views.find((v) => v.viewId === "invalid");
+      expect(entry?.migrated).toBe(false);
+      expect(entry?.error).toContain('invalid version "beta"');
+    });
+
+    it("should read but refuse to write views from a newer version", () => {
+      const newerView = { ...legacyView, id: "newer", version: "99.0.0" };
+      const newerContent = JSON.stringify(newerView);
+      fs.writeFile(`${viewsDir}/newer.json`, newerContent);
+
+      expect(store.getView(validatedRepoPath, "newer")?.version).toBe("99.0.0");
+      expect(() =>
+        store.updateView(validatedRepoPath, "newer", { name: "Renamed" }),
+      ).toThrow("newer than");
+      expect(() =>
+        store.saveView(validatedRepoPath, newerView as CodebaseView),
+      ).toThrow("Upgrade @principal-ai/alexandria-core-library");
+
+      const report = store.migrateAllViews(validatedRepoPath);
+      const entry = report.views.find((v) => v.viewId === "newer");
+      expect(entry?.migrated).toBe(false);
+      expect(entry?.fromVersion).toBe("99.0.0");
+      expect(entry?.error).toContain("newer than");
+      expect(fs.readFile(`${viewsDir}/newer.json`)).toBe(newerContent);
+    });
+  });
 });
 
 describe("generateViewIdFromName", () => {
@@ -0,0 +1,254 @@
+import { describe, it, expect } from "bun:test";
+import {
+  checkLineRange,
+  countLines,
+  detectAnchorDrift,
+  findSymbolDeclarations,
+  fingerprintAnchors,
+  fingerprintLines,
+  isAnchorFingerprint,
+  isLineRange,
+  locateAnchor,
+  reanchorView,
+} from "../../../src/pure-core/utils/anchors";
+import { CodebaseView } from "../../../src/pure-core/types";
+
+describe("countLines", () => {
+  it("should not count a trailing newline as a line", () => {
+    expect(countLines("")).toBe(0);
+    expect(countLines("a")).toBe(1);
+    expect(countLines("a\nb")).toBe(2);
+    expect(countLines("a\nb\n")).toBe(2);
+  });
+});
+
+describe("isLineRange", () => {
+  it("should accept ordered pairs of 1-based line numbers", () => {
+    expect(isLineRange([1, 1])).toBe(true);
+    expect(isLineRange([40, 92])).toBe(true);
+  });
+
+  it("should reject anything else", () => {
+    expect(isLineRange([0, 3])).toBe(false);
+    expect(isLineRange([5, 2])).toBe(false);
+    expect(isLineRange([1.5, 2])).toBe(false);
+    expect(isLineRange([1])).toBe(false);
+    expect(isLineRange("1-2")).toBe(false);
+  });
+});
+
+describe("checkLineRange", () => {
+  it("should accept a missing range or one inside the file", () => {
+    expect(checkLineRange(undefined, 10)).toBeNull();
+    expect(checkLineRange([3, 10], 10)).toBeNull();
+  });
+
+  it("should explain a range past the end of the file", () => {
+    expect(checkLineRange([40, 92], 50)).toBe(
+      "Line range 40-92 is outside the file, which has 50 lines",
+    );
+    expect(checkLineRange([1, 2], 1)).toBe(
+      "Line range 1-2 is outside the file, which has 1 line",
+    );
+  });
+
+  it("should explain a malformed range", () => {
+    expect(checkLineRange([3, 1], 10)).toContain("must be [start, end]");
+  });
+});
+
+describe("findSymbolDeclarations", () => {
+  const source = [
+    "import { refreshToken } from './tokens';",
+    "",
+    "export class AuthService {",
+    "  private cache = new Map();",
+    "",
+    "  async refreshToken(user: User): Promise<string> {",
+    "    return refreshToken(user);",
+    "  }",
+    "}",
+    "",
+    "export function createSession(user: User) {",
+    "  const token = refreshToken(user);",
+    "}",
+    "",
+    "export const validate = async (token: string) => token.length > 0;",
+  ].join("\n");
+
+  it("should find functions, classes and assigned functions", () => {
+    expect(findSymbolDeclarations(source, "createSession")).toEqual([11]);
+    expect(findSymbolDeclarations(source, "AuthService")).toEqual([3]);
+    expect(findSymbolDeclarations(source, "validate")).toEqual([15]);
+  });
+
+  it("should find class methods but not calls or imports", () => {
+    expect(findSymbolDeclarations(source, "refreshToken")).toEqual([6]);
+  });
+
+  it("should find methods declared after their class", () => {
+    expect(findSymbolDeclarations(source, "AuthService.refreshToken")).toEqual([
+      6,
+    ]);
+    expect(findSymbolDeclarations(source, "Missing.refreshToken")).toEqual([]);
+  });
+
+  it("should find declarations in other languages", () => {
+    const python = "class Auth:\n    def refresh_token(self):\n        pass\n";
+    const go = "func (s *Service) Refresh(ctx context.Context) error {\n}\n";
+
+    expect(findSymbolDeclarations(python, "Auth.refresh_token")).toEqual([2]);
+    expect(findSymbolDeclarations(go, "Refresh")).toEqual([1]);
+  });
+
+  it("should return nothing when the symbol is not declared", () => {
+    expect(findSymbolDeclarations(source, "logout")).toEqual([]);
+    expect(findSymbolDeclarations(source, "")).toEqual([]);
+  });
+});
+
+describe("anchor fingerprints", () => {
+  const original = [
+    "import { db } from './db';",
+    "",
+    "export function refreshToken(user: User) {",
+    "  const token = db.tokens.find(user.id);",
+    "  if (!token) throw new Error('No token');",
+    "  return token.refresh();",
+    "}",
+    "",
+    "export function logout(user: User) {",
+    "  db.sessions.delete(user.id);",
+    "}",
+    "",
+  ].join("\n");
+  const anchored = {
+    path: "src/auth.ts",
+    lines: [3, 7] as [number, number],
+    fingerprint: fingerprintLines(original, [3, 7]),
+  };
+
+  it("should hash each line of the range", () => {
+    expect(anchored.fingerprint).toHaveLength(5 * 8);
+    expect(isAnchorFingerprint(anchored.fingerprint, [3, 7])).toBe(true);
+    expect(isAnchorFingerprint(anchored.fingerprint, [3, 8])).toBe(false);
+    expect(isAnchorFingerprint("not a fingerprint", [1, 1])).toBe(false);
+  });
+
+  it("should ignore whitespace changes within lines", () => {
+    const reindented = original.replace("  return token", "    return  token");
+
+    expect(locateAnchor(reindented, anchored)).toEqual({
+      status: "intact",
+      lines: [3, 7],
+      similarity: 1,
+    });
+  });
+
+  it("should find content that moved", () => {
+    const moved = "// Session handling\n\n\n" + original;
+
+    expect(locateAnchor(moved, anchored)).toEqual({
+      status: "moved",
+      lines: [6, 10],
+      similarity: 1,
+    });
+  });
+
+  it("should find the closest region when the content changed", () => {
+    const changed =
+      "// Tokens\n" +
+      original.replace(
+        "  if (!token) throw new Error('No token');",
+        "  log(user);\n  if (!token) return null;",
+      );
+
+    const location = locateAnchor(changed, anchored);
+    expect(location?.status).toBe("changed");
+    expect(location?.lines).toEqual([4, 9]);
+    expect(location?.similarity).toBe(0.8);
+  });
+
+  it("should report content that is gone as deleted", () => {
+    const rewritten = original
+      .split("\n")
+      .filter((_, index) => index < 2 || index > 6)
+      .join("\n");
+
+    expect(locateAnchor(rewritten, anchored)?.status).toBe("deleted");
+    expect(locateAnchor(rewritten, anchored)?.lines).toBeUndefined();
+  });
+
+  it("should not locate anchors without a fingerprint", () => {
+    expect(locateAnchor(original, { path: "src/auth.ts", lines: [3, 7] })).toBe(
+      null,
+    );
+  });
+
+  describe("views", () => {
+    const view = (files: CodebaseView["referenceGroups"][string]["files"]) =>
+      ({
+        id: "auth",
+        name: "auth",
+        title: "Auth",
+        description: "Authentication",
+        overviewPath: "docs/auth.md",
+        referenceGroups: { tokens: { coordinates: [0, 0], files } },
+      }) as CodebaseView;
+    const moved = "\n\n" + original;
+
+    it("should fingerprint ranges that have none", () => {
+      const result = fingerprintAnchors(
+        view([
+          "src/auth.ts",
+          { path: "src/auth.ts", lines: [3, 7] },
+          { path: "src/auth.ts", lines: [3, 70] },
+          { path: "src/missing.ts", lines: [1, 2] },
+        ]),
+        (path) => (path === "src/auth.ts" ? original : null),
+      );
+
+      expect(result.referenceGroups.tokens.files).toEqual([
+        "src/auth.ts",
+        anchored,
+        { path: "src/auth.ts", lines: [3, 70] },
+        { path: "src/missing.ts", lines: [1, 2] },
+      ]);
+    });
+
+    it("should report the drift of every fingerprinted anchor", () => {
+      const drifts = detectAnchorDrift(
+        view(["src/auth.ts", { path: "src/auth.ts", lines: [1, 1] }, anchored]),
+        () => moved,
+      );
+
+      expect(drifts).toEqual([
+        {
+          referenceGroup: "tokens",
+          index: 2,
+          path: "src/auth.ts",
+          anchoredLines: [3, 7],
+          status: "moved",
+          lines: [5, 9],
+          similarity: 1,
+          fingerprint: anchored.fingerprint,
+        },
+      ]);
+    });
+
+    it("should move anchors to their content", () => {
+      const original = view([{ ...anchored, symbol: "refreshToken" }]);
+      const drifts = detectAnchorDrift(original, () => moved);
+
+      const result = reanchorView(original, drifts);
+
+      expect(result.referenceGroups.tokens.files).toEqual([
+        { ...anchored, symbol: "refreshToken", lines: [5, 9] },
+      ]);
+      expect(original.referenceGroups.tokens.files[0]).toEqual({
+        ...anchored,
+        symbol: "refreshToken",
+      });
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "bun:test";
+import { createUnifiedDiff } from "../../../src/pure-core/utils/diff";
+
+describe("createUnifiedDiff", () => {
+  it("should return only the header for identical content", () => {
+    const diff = createUnifiedDiff("a.md", "b.md", "same\n", "same\n");
+
+    expect(diff).toBe("--- a/a.md\n+++ b/b.md\n");
+  });
+
+  it("should diff a single changed line with context", () => {
+    const before = ["one", "two", "three", "four", "five"].join("\n") + "\n";
+    const after = ["one", "two", "THREE", "four", "five"].join("\n") + "\n";
+
+    const diff = createUnifiedDiff("file.txt", "file.txt", before, after);
+
+    expect(diff).toBe(
+      [
+        "--- a/file.txt",
+        "+++ b/file.txt",
+        "@@ -1,5 +1,5 @@",
+        " one",
+        " two",
+        "-three",
+        "+THREE",
+        " four",
+        " five",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should use /dev/null for created files", () => {
+    const diff = createUnifiedDiff(null, "new.md", "", "# Title\nBody\n");
+
+    expect(diff).toBe(
+      [
+        "--- /dev/null",
+        "+++ b/new.md",
+        "@@ -0,0 +1,2 @@",
+        "+# Title",
+        "+Body",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should split distant changes into separate hunks", () => {
+    const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const changed = [...lines];
+    changed[1] = "changed 2";
+    changed[17] = "changed 18";
+
+    const diff = createUnifiedDiff(
+      "f.txt",
+      "f.txt",
+      lines.join("\n"),
+      changed.join("\n"),
+      2,
+    );
+
+    const hunkHeaders = diff.split("\n").filter((l) => l.startsWith("@@"));
+    expect(hunkHeaders).toEqual(["@@ -1,4 +1,4 @@", "@@ -16,5 +16,5 @@"]);
+  });
+
+  it("should report insertions at the preceding line", () => {
+    const diff = createUnifiedDiff("f.txt", "f.txt", "a\nb\n", "a\nb\nc\n", 0);
+
+    expect(diff).toContain("@@ -2,0 +3,1 @@\n+c\n");
+  });
+});
@@ -0,0 +1,17 @@
+import { describe, it, expect } from "bun:test";
+import { hashContent } from "../../../src/pure-core/utils/hash";
+
+describe("hashContent", () => {
+  it("should return a stable 16 character hex digest", () => {
+    const hash = hashContent("export const x = 1;\n");
+
+    expect(hash).toMatch(/^[0-9a-f]{16}$/);
+    expect(hashContent("export const x = 1;\n")).toBe(hash);
+  });
+
+  it("should change when the content changes", () => {
+    expect(hashContent("a")).not.toBe(hashContent("b"));
+    expect(hashContent("")).not.toBe(hashContent(" "));
+    expect(hashContent("ab")).not.toBe(hashContent("ba"));
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import {
+  IgnoreMatcher,
+  loadAlexandriaIgnore,
+} from "../../../src/pure-core/utils/ignore";
+import { InMemoryFileSystemAdapter } from "../../../src/test-adapters/InMemoryFileSystemAdapter";
+
+describe("IgnoreMatcher", () => {
+  it("should ignore nothing without patterns", () => {
+    const matcher = new IgnoreMatcher();
+
+    expect(matcher.ignores("src/index.ts")).toBe(false);
+  });
+
+  it("should skip comments and blank lines", () => {
+    const matcher = new IgnoreMatcher().add("# comment\n\n   \n*.log\n");
+
+    expect(matcher.ignores("# comment")).toBe(false);
+    expect(matcher.ignores("debug.log")).toBe(true);
+  });
+
+  it("should match unanchored patterns at any depth", () => {
+    const matcher = new IgnoreMatcher().add("*.min.js\nfixtures");
+
+    expect(matcher.ignores("app.min.js")).toBe(true);
+    expect(matcher.ignores("public/js/app.min.js")).toBe(true);
+    expect(matcher.ignores("tests/fixtures/data.json")).toBe(true);
+    expect(matcher.ignores("app.js")).toBe(false);
+  });
+
+  it("should anchor patterns containing a slash", () => {
+    const matcher = new IgnoreMatcher().add("/TODO.md\ndocs/api");
+
+    expect(matcher.ignores("TODO.md")).toBe(true);
+    expect(matcher.ignores("src/TODO.md")).toBe(false);
+    expect(matcher.ignores("docs/api/index.md")).toBe(true);
+    expect(matcher.ignores("packages/docs/api/index.md")).toBe(false);
+  });
+
+  it("should only match directories with a trailing slash", () => {
+    const matcher = new IgnoreMatcher().add("build/");
+
+    expect(matcher.ignores("build/out.js")).toBe(true);
+    expect(matcher.ignores("packages/core/build/out.js")).toBe(true);
+    expect(matcher.ignores("scripts/build")).toBe(false);
+    expect(matcher.ignores("build", true)).toBe(true);
+  });
+
+  it("should keep * and ? within a path segment", () => {
+    const matcher = new IgnoreMatcher().add("docs/*.md\nlog?.txt");
+
+    expect(matcher.ignores("docs/guide.md")).toBe(true);
+    expect(matcher.ignores("docs/nested/guide.md")).toBe(false);
+    expect(matcher.ignores("log1.txt")).toBe(true);
+    expect(matcher.ignores("log10.txt")).toBe(false);
+  });
+
+  it("should support ** in leading, middle and trailing positions", () => {
+    const matcher = new IgnoreMatcher().add(
+      "**/generated\nsrc/**/*.snap\nvendor/**",
+    );
+
+    expect(matcher.ignores("generated/a.ts")).toBe(true);
+    expect(matcher.ignores("lib/generated/a.ts")).toBe(true);
+    expect(matcher.ignores("src/a.snap")).toBe(true);
+    expect(matcher.ignores("src/deep/er/a.snap")).toBe(true);
+    expect(matcher.ignores("vendor/lib/index.js")).toBe(true);
+    expect(matcher.ignores("vendor")).toBe(false);
+  });
+
+  it("should support character classes", () => {
+    const matcher = new IgnoreMatcher().add("draft-[0-9].md\nnote[!s].md");
+
+    expect(matcher.ignores("draft-3.md")).toBe(true);
+    expect(matcher.ignores("draft-x.md")).toBe(false);
+    expect(matcher.ignores("notes.md")).toBe(false);
+    expect(matcher.ignores("note1.md")).toBe(true);
+  });
+
+  it("should re-include files with negation, last match winning", () => {
+    const matcher = new IgnoreMatcher().add(
+      "*.md\n!README.md\nlegacy/README.md",
+    );
+
+    expect(matcher.ignores("guide.md")).toBe(true);
+    expect(matcher.ignores("README.md")).toBe(false);
+    expect(matcher.ignores("docs/README.md")).toBe(false);
+    expect(matcher.ignores("legacy/README.md")).toBe(true);
+  });
+
+  it("should not re-include files inside an ignored directory", () => {
+    const matcher = new IgnoreMatcher().add("dist/\n!dist/keep.md");
+
+    expect(matcher.ignores("dist/keep.md")).toBe(true);
+  });
+
+  it("should re-include files when only the contents are ignored", () => {
+    const matcher = new IgnoreMatcher().add("dist/*\n!dist/keep.md");
+
+    expect(matcher.ignores("dist/keep.md")).toBe(false);
+    expect(matcher.ignores("dist/other.md")).toBe(true);
+  });
+
+  it("should treat escaped characters literally", () => {
+    const matcher = new IgnoreMatcher().add("\\#notes.md\n\\!important.md");
+
+    expect(matcher.ignores("#notes.md")).toBe(true);
+    expect(matcher.ignores("!important.md")).toBe(true);
+    expect(matcher.ignores("important.md")).toBe(false);
+  });
+
+  it("should apply patterns relative to their base directory", () => {
+    const matcher = new IgnoreMatcher()
+      .add("*.tmp")
+      .add("/scratch.md\n!keep.tmp", "packages/app");
+
+    expect(matcher.ignores("packages/app/scratch.md")).toBe(true);
+    expect(matcher.ignores("scratch.md")).toBe(false);
+    expect(matcher.ignores("packages/app/keep.tmp")).toBe(false);
+    expect(matcher.ignores("keep.tmp")).toBe(true);
+  });
+
+  it("should filter paths in their original order", () => {
+    const matcher = new IgnoreMatcher().add("*.log");
+
+    expect(matcher.filter(["b.md", "a.log", "a.md", "./c.log"])).toEqual([
+      "b.md",
+      "a.md",
+    ]);
+  });
+});
+
+describe("loadAlexandriaIgnore", () => {
+  let fs: InMemoryFileSystemAdapter;
+  const repoPath = "/repo";
+
+  beforeEach(() => {
+    fs = new InMemoryFileSystemAdapter();
+    fs.createDir(repoPath);
+    fs.createDir(`${repoPath}/packages`);
+    fs.createDir(`${repoPath}/packages/app`);
+  });
+
+  it("should return an empty matcher without ignore files", () => {
+    const matcher = loadAlexandriaIgnore(fs, repoPath, ["README.md"]);
+
+    expect(matcher.ignores("README.md")).toBe(false);
+  });
+
+  it("should combine the root and nested ignore files", () => {
+    fs.writeFile(`${repoPath}/.alexandriaignore`, "*.draft.md\n");
+    fs.writeFile(
+      `${repoPath}/packages/app/.alexandriaignore`,
+      "!plan.draft.md\nnotes/\n",
+    );
+    const paths = [
+      "idea.draft.md",
+      "packages/app/plan.draft.md",
+      "packages/app/notes/today.md",
+      "packages/app/README.md",
+      "notes/keep.md",
+    ];
+
+    const matcher = loadAlexandriaIgnore(fs, repoPath, paths);
+
+    expect(matcher.filter(paths)).toEqual([
+      "packages/app/plan.draft.md",
+      "packages/app/README.md",
+      "notes/keep.md",
+    ]);
+  });
+});
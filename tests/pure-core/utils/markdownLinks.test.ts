@@ -0,0 +1,251 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import {
+  extractInlineCode,
+  extractMarkdownLinks,
+  findBrokenMarkdownLinks,
+  findClosestAnchor,
+  findClosestPath,
+  getMarkdownAnchors,
+  getMarkdownHeadings,
+  isExternalLink,
+  relativeLinkPath,
+  resolveLinkPath,
+  slugifyHeading,
+} from "../../../src/pure-core/utils/markdownLinks";
+import { InMemoryFileSystemAdapter } from "../../../src/test-adapters/InMemoryFileSystemAdapter";
+
+describe("extractMarkdownLinks", () => {
+  it("should find links, images and reference definitions", () => {
+    const content = [
+      "# Auth",
+      'See [the tokens](../src/tokens.ts) and ![diagram](<img/auth flow.png> "Flow").',
+      "",
+      "[guide]: ./guide.md#setup",
+    ].join("\n");
+
+    const links = extractMarkdownLinks(content);
+
+    expect(links).toEqual([
+      {
+        text: "the tokens",
+        target: "../src/tokens.ts",
+        image: false,
+        line: 2,
+        column: 5,
+        targetOffset: content.indexOf("../src/tokens.ts"),
+      },
+      {
+        text: "diagram",
+        target: "img/auth flow.png",
+        image: true,
+        line: 2,
+        column: 41,
+        targetOffset: content.indexOf("img/auth flow.png"),
+      },
+      {
+        text: "guide",
+        target: "./guide.md#setup",
+        image: false,
+        line: 4,
+        column: 1,
+        targetOffset: content.indexOf("./guide.md#setup"),
+      },
+    ]);
+  });
+
+  it("should find images inside links", () => {
+    const links = extractMarkdownLinks("[![badge](badge.svg)](ci.md)");
+
+    expect(links.map((link) => link.target)).toEqual(["ci.md", "badge.svg"]);
+  });
+
+  it("should skip code and footnotes", () => {
+    const content = [
+      "Use `[x](not-a-link.md)` inline.",
+      "```md",
+      "[example](missing.md)",
+      "```",
+      "[^1]: A footnote",
+    ].join("\n");
+
+    expect(extractMarkdownLinks(content)).toEqual([]);
+  });
+});
+
+describe("getMarkdownAnchors", () => {
+  it("should slug headings the way GitHub does", () => {
+    const content = [
+      "# Getting Started",
+      "## API: `MemoryPalace.getView()`",
+      "## Getting Started",
+      "Setext Heading",
+      "--------------",
+      '<a id="custom-anchor"></a>',
+      "```",
+      "# Not a heading",
+      "```",
+    ].join("\n");
+
+    expect(getMarkdownAnchors(content)).toEqual([
+      "getting-started",
+      "api-memorypalacegetview",
+      "getting-started-1",
+      "setext-heading",
+      "custom-anchor",
+    ]);
+  });
+
+  it("should reduce links in headings to their text", () => {
+    expect(slugifyHeading("See [the guide](guide.md) now")).toBe(
+      "see-the-guide-now",
+    );
+  });
+});
+
+describe("getMarkdownHeadings", () => {
+  it("should give each heading its level, line and anchor", () => {
+    const content = [
+      "# Auth",
+      "## Tokens",
+      "Setext Heading",
+      "==============",
+      "### Tokens",
+    ].join("\n");
+
+    expect(getMarkdownHeadings(content)).toEqual([
+      { text: "Auth", level: 1, line: 1, anchor: "auth" },
+      { text: "Tokens", level: 2, line: 2, anchor: "tokens" },
+      { text: "Setext Heading", level: 1, line: 3, anchor: "setext-heading" },
+      { text: "Tokens", level: 3, line: 5, anchor: "tokens-1" },
+    ]);
+  });
+});
+
+describe("extractInlineCode", () => {
+  it("should find code spans outside code blocks", () => {
+    const content = [
+      "Tokens live in `src/tokens.ts` and ``a ` b``.",
+      "```",
+      "`src/ignored.ts`",
+      "```",
+    ].join("\n");
+
+    expect(extractInlineCode(content)).toEqual([
+      { code: "src/tokens.ts", line: 1, column: 16 },
+      { code: "a ` b", line: 1, column: 36 },
+    ]);
+  });
+});
+
+describe("link paths", () => {
+  it("should resolve links relative to the document", () => {
+    expect(resolveLinkPath("docs/auth.md", "../src/a.ts")).toBe("src/a.ts");
+    expect(resolveLinkPath("docs/auth.md", "./guide.md")).toBe("docs/guide.md");
+    expect(resolveLinkPath("docs/auth.md", "/README.md")).toBe("README.md");
+    expect(resolveLinkPath("docs/auth.md", "../../outside.md")).toBeNull();
+  });
+
+  it("should build relative links", () => {
+    expect(relativeLinkPath("docs/auth.md", "src/auth/a.ts")).toBe(
+      "../src/auth/a.ts",
+    );
+    expect(relativeLinkPath("docs/auth.md", "docs/guide.md")).toBe("guide.md");
+    expect(relativeLinkPath("README.md", "docs/guide.md")).toBe(
+      "docs/guide.md",
+    );
+  });
+
+  it("should tell external links apart", () => {
+    expect(isExternalLink("https://example.com")).toBe(true);
+    expect(isExternalLink("mailto:team@example.com")).toBe(true);
+    expect(isExternalLink("//cdn.example.com/x.js")).toBe(true);
+    expect(isExternalLink("../src/a.ts")).toBe(false);
+  });
+});
+
+describe("closest matches", () => {
+  const files = [
+    "src/auth/tokens.ts",
+    "lib/tokens.ts",
+    "src/auth/session-store.ts",
+    "docs/guide.md",
+  ];
+
+  it("should prefer a file with the same name in related directories", () => {
+    expect(findClosestPath("src/tokens.ts", files)).toBe("src/auth/tokens.ts");
+  });
+
+  it("should find renamed files a few edits away", () => {
+    expect(findClosestPath("src/auth/sessionStore.ts", files)).toBe(
+      "src/auth/session-store.ts",
+    );
+    expect(findClosestPath("src/billing.ts", files)).toBeNull();
+  });
+
+  it("should find renamed headings", () => {
+    expect(findClosestAnchor("instalation", ["installation", "usage"])).toBe(
+      "installation",
+    );
+    expect(findClosestAnchor("faq", ["installation", "usage"])).toBeNull();
+  });
+});
+
+describe("findBrokenMarkdownLinks", () => {
+  let fs: InMemoryFileSystemAdapter;
+
+  beforeEach(() => {
+    fs = new InMemoryFileSystemAdapter();
+    fs.writeFile("/repo/src/auth.ts", "export {};");
+    fs.writeFile("/repo/docs/guide.md", "# Guide\n\n## Setup\n");
+  });
+
+  it("should report missing files and headings", () => {
+    const content = [
+      "# Auth",
+      "- [Auth](../src/auth.ts)",
+      "- [Old](../src/login.ts)",
+      "- [Setup](guide.md#setup)",
+      "- [Install](guide.md#install)",
+      "- [Top](#auth)",
+      "- [Missing](#overview)",
+      "- [Site](https://example.com/missing)",
+      "- [Docs](../)",
+    ].join("\n");
+
+    const broken = findBrokenMarkdownLinks(
+      fs,
+      "/repo",
+      "docs/auth.md",
+      content,
+    );
+
+    expect(
+      broken.map(({ link, reason, path, anchor }) => ({
+        target: link.target,
+        reason,
+        path,
+        anchor,
+      })),
+    ).toEqual([
+      {
+        target: "../src/login.ts",
+        reason: "missing_file",
+        path: "src/login.ts",
+        anchor: undefined,
+      },
+      {
+        target: "guide.md#install",
+        reason: "missing_anchor",
+        path: "docs/guide.md",
+        anchor: "install",
+      },
+      {
+        target: "#overview",
+        reason: "missing_anchor",
+        path: "docs/auth.md",
+        anchor: "overview",
+      },
+    ]);
+    expect(broken[1].headings).toEqual(["guide", "setup"]);
+  });
+});
@@ -0,0 +1,224 @@
+import { describe, it, expect } from "bun:test";
+import { proposeViewSync } from "../../../src/pure-core/utils/overviewSync";
+import { CodebaseView } from "../../../src/pure-core/types";
+
+const FILES = new Set([
+  "src/auth/login.ts",
+  "src/auth/logout.ts",
+  "src/auth/session.ts",
+  "src/tokens/jwt.ts",
+  "src/tokens/refresh.ts",
+  "src/config.ts",
+  "src/a b.ts",
+  "docs/diagram.png",
+  "docs/guide.md",
+  "docs/other.md",
+]);
+const fileExists = (path: string) => FILES.has(path);
+
+function authView(): CodebaseView {
+  return {
+    id: "auth",
+    name: "Auth",
+    description: "Authentication",
+    overviewPath: "docs/auth.md",
+    category: "core",
+    displayOrder: 0,
+    rows: 2,
+    cols: 1,
+    referenceGroups: {
+      Login: {
+        coordinates: [0, 0],
+        files: ["src/auth/login.ts", "src/auth/logout.ts"],
+      },
+      Config: { coordinates: [1, 0], files: ["src/config.ts"] },
+    },
+  };
+}
+
+const OVERVIEW = [
+  "# Auth",
+  "Configured in `src/config.ts`.",
+  "",
+  "## Login",
+  "Starts in [login](../src/auth/login.ts#L10) and keeps a",
+  "`src/auth/session.ts:12` for each user.",
+  "",
+  "### Details",
+  "![diagram](diagram.png) and [more docs](other.md).",
+  "",
+  "## Tokens",
+  "See `src/tokens/jwt.ts`, [refresh](../src/tokens/refresh.ts) and",
+  "`src/tokens/missing.ts`.",
+].join("\n");
+
+describe("proposeViewSync", () => {
+  it("should add mentioned files to the group of their section", () => {
+    const proposal = proposeViewSync(
+      authView(),
+      "docs/auth.md",
+      OVERVIEW,
+      fileExists,
+    );
+
+    expect(proposal.changes).toEqual([
+      {
+        type: "add_file",
+        referenceGroup: "Login",
+        path: "src/auth/session.ts",
+        line: 6,
+        heading: "Login",
+      },
+      {
+        type: "add_file",
+        referenceGroup: "tokens",
+        path: "src/tokens/jwt.ts",
+        line: 12,
+        newGroup: true,
+        heading: "Tokens",
+      },
+      {
+        type: "add_file",
+        referenceGroup: "tokens",
+        path: "src/tokens/refresh.ts",
+        line: 12,
+        newGroup: true,
+        heading: "Tokens",
+      },
+      {
+        type: "remove_file",
+        referenceGroup: "Login",
+        path: "src/auth/logout.ts",
+      },
+    ]);
+  });
+
+  it("should return the view with the changes applied", () => {
+    const { view } = proposeViewSync(
+      authView(),
+      "docs/auth.md",
+      OVERVIEW,
+      fileExists,
+    );
+
+    expect(view.rows).toBe(3);
+    expect(view.referenceGroups).toEqual({
+      Login: {
+        coordinates: [0, 0],
+        files: ["src/auth/login.ts", "src/auth/session.ts"],
+      },
+      Config: { coordinates: [1, 0], files: ["src/config.ts"] },
+      tokens: {
+        coordinates: [2, 0],
+        files: ["src/tokens/jwt.ts", "src/tokens/refresh.ts"],
+      },
+    });
+  });
+
+  it("should leave groups without a section alone", () => {
+    const view = authView();
+    const { changes } = proposeViewSync(
+      view,
+      "docs/auth.md",
+      "## Login\nOnly `src/auth/login.ts` here.",
+      fileExists,
+    );
+
+    // Config is not a section, so its file stays
+    expect(changes).toEqual([
+      {
+        type: "remove_file",
+        referenceGroup: "Login",
+        path: "src/auth/logout.ts",
+      },
+    ]);
+  });
+
+  it("should put files before the first section in an overview group", () => {
+    const view: CodebaseView = { ...authView(), referenceGroups: {} };
+    const { changes, view: synced } = proposeViewSync(
+      view,
+      "docs/auth.md",
+      "Everything is in `src/config.ts`.",
+      fileExists,
+    );
+
+    expect(changes).toEqual([
+      {
+        type: "add_file",
+        referenceGroup: "overview",
+        path: "src/config.ts",
+        line: 1,
+        newGroup: true,
+      },
+    ]);
+    expect(synced.referenceGroups.overview.coordinates).toEqual([0, 0]);
+  });
+
+  it("should count files inside a group's directories as listed", () => {
+    const view: CodebaseView = {
+      ...authView(),
+      referenceGroups: {
+        Tokens: { coordinates: [0, 0], directories: ["src/tokens/"] },
+      },
+    };
+    const { changes } = proposeViewSync(
+      view,
+      "docs/auth.md",
+      "## Tokens\n`src/tokens/jwt.ts`",
+      fileExists,
+    );
+
+    expect(changes).toEqual([]);
+  });
+
+  it("should keep markdown files and decode link targets", () => {
+    const view: CodebaseView = {
+      ...authView(),
+      referenceGroups: {
+        Setup: { coordinates: [0, 0], files: ["docs/guide.md", "src/a b.ts"] },
+      },
+    };
+    const { changes } = proposeViewSync(
+      view,
+      "docs/auth.md",
+      "## Setup\nSee the [guide](guide.md) and [a b](../src/a%20b.ts).",
+      fileExists,
+    );
+
+    expect(changes).toEqual([]);
+  });
+
+  it("should preview the change to the view file", () => {
+    const view = authView();
+    const { preview } = proposeViewSync(
+      view,
+      "docs/auth.md",
+      OVERVIEW,
+      fileExists,
+    );
+
+    expect(preview.changes).toHaveLength(1);
+    expect(preview.changes[0]).toMatchObject({
+      type: "file_updated",
+      path: ".alexandria/views/auth.json",
+      before: JSON.stringify(view, null, 2),
+    });
+    expect(preview.changes[0].diff).toContain('+        "src/tokens/jwt.ts"');
+    expect(preview.description).toBe(
+      'Add 3 and remove 1 files in view "auth" to match docs/auth.md',
+    );
+  });
+
+  it("should preview nothing when the view matches", () => {
+    const { changes, preview } = proposeViewSync(
+      authView(),
+      "docs/auth.md",
+      "## Login\n`src/auth/login.ts` and `src/auth/logout.ts`",
+      fileExists,
+    );
+
+    expect(changes).toEqual([]);
+    expect(preview.changes).toEqual([]);
+  });
+});
@@ -0,0 +1,231 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import {
+  getReferenceGroupPatterns,
+  resolveReferenceGroups,
+} from "../../../src/pure-core/utils/referenceGroups";
+import { InMemoryFileSystemAdapter } from "../../../src/test-adapters/InMemoryFileSystemAdapter";
+import { InMemoryGlobAdapter } from "../../../src/test-adapters/InMemoryGlobAdapter";
+import { CodebaseView } from "../../../src/pure-core/types";
+
+describe("getReferenceGroupPatterns", () => {
+  it("should expand directories to everything inside them", () => {
+    const patterns = getReferenceGroupPatterns({
+      coordinates: [0, 0],
+      patterns: ["src/*.ts"],
+      directories: ["./docs/", "scripts"],
+    });
+
+    expect(patterns).toEqual([
+      { field: "patterns", index: 0, source: "src/*.ts", pattern: "src/*.ts" },
+      { field: "directories", index: 0, source: "./docs/", pattern: "docs/**" },
+      {
+        field: "directories",
+        index: 1,
+        source: "scripts",
+        pattern: "scripts/**",
+      },
+    ]);
+  });
+
+  it("should return nothing for file cells", () => {
+    expect(
+      getReferenceGroupPatterns({ coordinates: [0, 0], files: ["a.ts"] }),
+    ).toEqual([]);
+  });
+});
+
+describe("resolveReferenceGroups", () => {
+  const repoPath = "/repo";
+  let fs: InMemoryFileSystemAdapter;
+  let globAdapter: InMemoryGlobAdapter;
+
+  const createView = (
+    referenceGroups: CodebaseView["referenceGroups"],
+  ): CodebaseView => ({
+    id: "rules",
+    version: "1.1.0",
+    name: "Rules",
+    description: "How rules work",
+    overviewPath: "docs/rules.md",
+    category: "guide",
+    displayOrder: 0,
+    referenceGroups,
+  });
+
+  beforeEach(() => {
+    fs = new InMemoryFileSystemAdapter();
+    for (const file of [
+      "src/index.ts",
+      "src/rules/engine.ts",
+      "src/rules/utils/patterns.ts",
+      "src/rules/utils/priority.ts",
+      "docs/rules.md",
+    ]) {
+      fs.writeFile(`${repoPath}/${file}`, "");
+    }
+    globAdapter = new InMemoryGlobAdapter(fs);
+  });
+
+  it("should combine explicit files, patterns and directories", async () => {
+    const view = createView({
+      rules: {
+        coordinates: [0, 0],
+        files: ["src/index.ts"],
+        patterns: ["src/rules/*.ts"],
+        directories: ["src/rules/utils"],
+      },
+    });
+
+    const resolved = await resolveReferenceGroups(
+      view,
+      globAdapter,
+      fs,
+      repoPath,
+    );
+
+    expect(resolved.files.rules.sort()).toEqual([
+      "src/index.ts",
+      "src/rules/engine.ts",
+      "src/rules/utils/patterns.ts",
+      "src/rules/utils/priority.ts",
+    ]);
+    expect(resolved.validation.valid).toBe(true);
+    expect(resolved.validation.matchedPaths).toHaveLength(4);
+  });
+
+  it("should report patterns and directories that match nothing", async () => {
+    const view = createView({
+      rules: {
+        coordinates: [0, 0],
+        patterns: ["src/**/*.rs"],
+        directories: ["src/missing"],
+      },
+    });
+
+    const resolved = await resolveReferenceGroups(
+      view,
+      globAdapter,
+      fs,
+      repoPath,
+    );
+
+    expect(resolved.files.rules).toEqual([]);
+    expect(resolved.validation.valid).toBe(false);
+    expect(resolved.validation.unmatchedPatterns).toEqual([
+      "src/**/*.rs",
+      "src/missing",
+    ]);
+  });
+
+  it("should give files matched by several groups to the highest priority", async () => {
+    const view = createView({
+      all: { coordinates: [0, 0], directories: ["src"] },
+      utils: {
+        coordinates: [0, 1],
+        directories: ["src/rules/utils"],
+        priority: 1,
+      },
+    });
+
+    const resolved = await resolveReferenceGroups(
+      view,
+      globAdapter,
+      fs,
+      repoPath,
+    );
+
+    expect(resolved.files.all.sort()).toEqual([
+      "src/index.ts",
+      "src/rules/engine.ts",
+    ]);
+    expect(resolved.files.utils.sort()).toEqual([
+      "src/rules/utils/patterns.ts",
+      "src/rules/utils/priority.ts",
+    ]);
+    expect(resolved.validation.conflicts).toEqual([]);
+  });
+
+  it("should keep tied files in each group and report a conflict", async () => {
+    const view = createView({
+      engine: { coordinates: [0, 0], patterns: ["src/rules/engine.ts"] },
+      rules: { coordinates: [0, 1], patterns: ["src/rules/*.ts"] },
+    });
+
+    const resolved = await resolveReferenceGroups(
+      view,
+      globAdapter,
+      fs,
+      repoPath,
+    );
+
+    expect(resolved.files.engine).toEqual(["src/rules/engine.ts"]);
+    expect(resolved.files.rules).toEqual(["src/rules/engine.ts"]);
+    expect(resolved.validation.valid).toBe(false);
+    expect(resolved.validation.conflicts).toEqual([
+      {
+        path: "src/rules/engine.ts",
+        patterns: ["src/rules/engine.ts", "src/rules/*.ts"],
+        referenceGroups: ["engine", "rules"],
+      },
+    ]);
+  });
+
+  it("should keep explicit files in their group over any pattern", async () => {
+    const view = createView({
+      engine: { coordinates: [0, 0], files: ["src/rules/engine.ts"] },
+      rules: {
+        coordinates: [0, 1],
+        patterns: ["src/rules/*.ts"],
+        priority: 1,
+      },
+    });
+
+    const resolved = await resolveReferenceGroups(
+      view,
+      globAdapter,
+      fs,
+      repoPath,
+    );
+
+    expect(resolved.files.engine).toEqual(["src/rules/engine.ts"]);
+    expect(resolved.files.rules).toEqual([]);
+    expect(resolved.validation.conflicts).toEqual([]);
+  });
+
+  it("should skip files ignored by .alexandriaignore", async () => {
+    fs.writeFile(`${repoPath}/src/rules/.alexandriaignore`, "utils/\n");
+    const view = createView({
+      rules: { coordinates: [0, 0], directories: ["src/rules"] },
+      utils: { coordinates: [0, 1], directories: ["src/rules/utils"] },
+    });
+
+    const resolved = await resolveReferenceGroups(
+      view,
+      globAdapter,
+      fs,
+      repoPath,
+    );
+
+    expect(resolved.files.rules).toEqual(["src/rules/engine.ts"]);
+    expect(resolved.files.utils).toEqual([]);
+    expect(resolved.validation.unmatchedPatterns).toEqual(["src/rules/utils"]);
+  });
+
+  it("should not report files listed explicitly in several groups", async () => {
+    const view = createView({
+      a: { coordinates: [0, 0], files: ["src/index.ts"] },
+      b: { coordinates: [0, 1], files: ["src/index.ts"] },
+    });
+
+    const resolved = await resolveReferenceGroups(
+      view,
+      globAdapter,
+      fs,
+      repoPath,
+    );
+
+    expect(resolved.files.a).toEqual(["src/index.ts"]);
+    expect(resolved.files.b).toEqual(["src/index.ts"]);
+    expect(resolved.validation.conflicts).toEqual([]);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "bun:test";
+import { ViewGraph } from "../../../src/pure-core/utils/viewGraph";
+import { CodebaseView } from "../../../src/pure-core/types";
+
+function view(
+  id: string,
+  links: Record<string, string> = {},
+  groupLinks: Record<string, string> = {},
+): CodebaseView {
+  return {
+    id,
+    name: id,
+    title: id,
+    description: `${id} view`,
+    overviewPath: `docs/${id}.md`,
+    links,
+    referenceGroups: {
+      main: { coordinates: [0, 0], files: [], links: groupLinks },
+    },
+  };
+}
+
+describe("ViewGraph", () => {
+  // overview -> auth -> tokens -> auth, overview -> billing, docs alone
+  const graph = new ViewGraph([
+    view("overview", { auth: "Authentication", billing: "Billing" }),
+    view("auth", {}, { tokens: "Token handling", missing: "Gone" }),
+    view("tokens", { auth: "Back to auth" }),
+    view("billing"),
+    view("docs", { docs: "Itself" }),
+  ]);
+
+  it("should collect view and reference group links", () => {
+    expect(graph.getOutgoingLinks("auth")).toEqual([
+      {
+        from: "auth",
+        to: "tokens",
+        label: "Token handling",
+        referenceGroup: "main",
+      },
+      { from: "auth", to: "missing", label: "Gone", referenceGroup: "main" },
+    ]);
+    expect(graph.getLinks()).toHaveLength(6);
+  });
+
+  it("should return neighbors and backlinks", () => {
+    expect(graph.getNeighbors("overview")).toEqual(["auth", "billing"]);
+    expect(graph.getNeighbors("auth")).toEqual(["tokens"]);
+    expect(graph.getBacklinks("auth")).toEqual(["overview", "tokens"]);
+    expect(graph.getBacklinks("overview")).toEqual([]);
+    expect(graph.getNeighbors("unknown")).toEqual([]);
+  });
+
+  it("should report links to views that do not exist", () => {
+    expect(graph.getBrokenLinks()).toEqual([
+      { from: "auth", to: "missing", label: "Gone", referenceGroup: "main" },
+    ]);
+  });
+
+  it("should report views no other view links to", () => {
+    expect(graph.getUnlinkedViews()).toEqual(["overview", "docs"]);
+  });
+
+  it("should find the shortest path following link direction", () => {
+    expect(graph.findShortestPath("overview", "tokens")).toEqual([
+      "overview",
+      "auth",
+      "tokens",
+    ]);
+    expect(graph.findShortestPath("auth", "auth")).toEqual(["auth"]);
+    expect(graph.findShortestPath("tokens", "overview")).toBeNull();
+    expect(graph.findShortestPath("overview", "missing")).toBeNull();
+  });
+
+  it("should group views connected in either direction", () => {
+    expect(graph.getConnectedComponents()).toEqual([
+      ["overview", "auth", "tokens", "billing"],
+      ["docs"],
+    ]);
+  });
+
+  it("should find views that link in a circle", () => {
+    expect(graph.findCycles()).toEqual([["auth", "tokens"], ["docs"]]);
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect } from "bun:test";
+import {
+  formatLintResult,
+  formatText,
+  formatJson,
+  formatHtml,
+  formatSarif,
+  formatJunit,
+} from "../../src/reporting/formatters";
+import { LibraryLintResult } from "../../src/rules/types";
+import { orphanedReferences } from "../../src/rules/implementations/orphaned-references";
+
+describe("lint formatters", () => {
+  const result: LibraryLintResult = {
+    violations: [
+      {
+        ruleId: "orphaned-references",
+        severity: "error",
+        file: ".alexandria/views/core.json",
+        line: 12,
+        column: 7,
+        message: 'References missing file: src/<old>.ts & "friends"',
+        impact: "Agents reference missing files",
+        fixable: false,
+      },
+      {
+        ruleId: "codebase-coverage",
+        severity: "warning",
+        message: "Codebase coverage is 40%",
+        impact: "Low coverage",
+        fixable: false,
+      },
+      {
+        ruleId: "filename-convention",
+        severity: "info",
+        file: "docs/My_Guide.md",
+        message: "Rename to my-guide.md",
+        impact: "Inconsistent names",
+        fixable: true,
+      },
+    ],
+    errorCount: 1,
+    warningCount: 1,
+    infoCount: 1,
+    fixableCount: 1,
+  };
+
+  describe("formatText", () => {
+    it("should group violations by file and end with a summary", () => {
+      const text = formatText(result);
+
+      expect(text).toContain("(project)\n");
+      expect(text).toContain(".alexandria/views/core.json\n  12:7    error");
+      expect(text).toContain("docs/My_Guide.md\n  -       info");
+      expect(text.trimEnd().split("\n").pop()).toBe(
+        "3 problems (1 error, 1 warning, 1 info), 1 potentially fixable",
+      );
+    });
+
+    it("should include impact only when verbose", () => {
+      expect(formatText(result)).not.toContain("impact:");
+      expect(formatText(result, { verbose: true })).toContain(
+        "impact: Low coverage",
+      );
+    });
+
+    it("should report when there are no problems", () => {
+      const empty: LibraryLintResult = {
+        violations: [],
+        errorCount: 0,
+        warningCount: 0,
+        infoCount: 0,
+        fixableCount: 0,
+      };
+      expect(formatText(empty)).toBe("No problems found\n");
+    });
+
+    it("should summarize baselined and resolved problems", () => {
+      const baselined: LibraryLintResult = {
+        violations: [],
+        errorCount: 0,
+        warningCount: 0,
+        infoCount: 0,
+        fixableCount: 0,
+        baseline: {
+          matched: 4,
+          resolved: [
+            {
+              fingerprint: "abc",
+              ruleId: "stale-references",
+              file: "docs/a.md",
+              message: "Stale",
+              count: 2,
+            },
+          ],
+          updated: false,
+        },
+      };
+      expect(formatText(baselined)).toBe(
+        "No new problems found; 4 baselined, 2 no longer reported (update the baseline to remove them)\n",
+      );
+    });
+  });
+
+  it("formatJson should round-trip the result", () => {
+    expect(JSON.parse(formatJson(result))).toEqual(result);
+  });
+
+  it("formatHtml should escape violation content", () => {
+    const html = formatHtml(result);
+
+    expect(html).toStartWith("<!DOCTYPE html>");
+    expect(html).toContain("src/&lt;old&gt;.ts &amp; &quot;friends&quot;");
+    expect(html).not.toContain("src/<old>.ts");
+  });
+
+  describe("formatSarif", () => {
+    it("should produce a SARIF 2.1.0 log with locations and levels", () => {
+      const sarif = JSON.parse(
+        formatSarif(result, {
+          rules: [orphanedReferences],
+          toolVersion: "1.2.3",
+        }),
+      );
+
+      expect(sarif.version).toBe("2.1.0");
+      const run = sarif.runs[0];
+      expect(run.tool.driver.version).toBe("1.2.3");
+      expect(run.results.map((r: { level: string }) => r.level)).toEqual([
+        "error",
+        "warning",
+        "note",
+      ]);
+      expect(run.results[0].locations[0].physicalLocation).toEqual({
+        artifactLocation: { uri: ".alexandria/views/core.json" },
+        region: { startLine: 12, startColumn: 7 },
+      });
+      expect(run.results[1].locations).toBeUndefined();
+
+      const rule = run.tool.driver.rules[run.results[0].ruleIndex];
+      expect(rule.id).toBe("orphaned-references");
+      expect(rule.name).toBe(orphanedReferences.name);
+    });
+  });
+
+  describe("formatJunit", () => {
+    it("should emit a suite per rule with failures for errors and warnings", () => {
+      const xml = formatJunit(result);
+
+      expect(xml).toStartWith('<?xml version="1.0" encoding="UTF-8"?>');
+      expect(xml).toContain(
+        '<testsuites name="alexandria" tests="3" failures="2">',
+      );
+      expect(xml).toContain(
+        '<testsuite name="orphaned-references" tests="1" failures="1">',
+      );
+      expect(xml).toContain('<failure type="error" message="References');
+      expect(xml).toContain(
+        '<testsuite name="filename-convention" tests="1" failures="0">',
+      );
+      expect(xml).toContain("<system-out>Rename to my-guide.md</system-out>");
+    });
+  });
+
+  it("formatLintResult should reject unknown formats", () => {
+    expect(() => formatLintResult(result, "pdf" as unknown as "text")).toThrow(
+      "Unsupported report format: pdf",
+    );
+  });
+});
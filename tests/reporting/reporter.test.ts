@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { LintReporter } from "../../src/reporting/reporter";
+import { InMemoryFileSystemAdapter } from "../../src/test-adapters/InMemoryFileSystemAdapter";
+import { LibraryLintResult } from "../../src/rules/types";
+
+describe("LintReporter", () => {
+  let fs: InMemoryFileSystemAdapter;
+  let written: string[];
+  const projectRoot = "/test-repo";
+
+  const result: LibraryLintResult = {
+    violations: [
+      {
+        ruleId: "require-references",
+        severity: "error",
+        file: "docs/orphan.md",
+        message: "Not used as an overview",
+        impact: "Missing context",
+        fixable: false,
+      },
+    ],
+    errorCount: 1,
+    warningCount: 0,
+    infoCount: 0,
+    fixableCount: 0,
+  };
+
+  beforeEach(() => {
+    fs = new InMemoryFileSystemAdapter();
+    fs.createDir(projectRoot);
+    written = [];
+  });
+
+  it("should write text to the console by default", () => {
+    const reporter = new LintReporter(fs, undefined, {
+      write: (text) => written.push(text),
+    });
+
+    const report = reporter.report(result, projectRoot);
+
+    expect(report.format).toBe("text");
+    expect(report.filePath).toBeUndefined();
+    expect(written).toHaveLength(1);
+    expect(written[0]).toContain("docs/orphan.md");
+  });
+
+  it("should write to reporting.path relative to the project root", () => {
+    const reporter = new LintReporter(
+      fs,
+      { output: "file", format: "junit", path: "reports/lint.xml" },
+      { write: (text) => written.push(text) },
+    );
+
+    const report = reporter.report(result, projectRoot);
+
+    expect(report.filePath).toBe(`${projectRoot}/reports/lint.xml`);
+    expect(fs.readFile(`${projectRoot}/reports/lint.xml`)).toContain(
+      "<testsuites",
+    );
+    expect(written).toHaveLength(0);
+  });
+
+  it("should use a default file name per format", () => {
+    const reporter = new LintReporter(fs, { output: "file", format: "sarif" });
+
+    const report = reporter.report(result, projectRoot);
+
+    expect(report.filePath).toBe(`${projectRoot}/alexandria-report.sarif`);
+  });
+
+  it("should write to both outputs when configured", () => {
+    const reporter = new LintReporter(
+      fs,
+      { output: "both", format: "json", path: "/tmp/out/report.json" },
+      { write: (text) => written.push(text) },
+    );
+
+    const report = reporter.report(result, projectRoot);
+
+    expect(report.filePath).toBe("/tmp/out/report.json");
+    expect(JSON.parse(fs.readFile("/tmp/out/report.json"))).toEqual(result);
+    expect(written).toEqual([report.content]);
+  });
+});
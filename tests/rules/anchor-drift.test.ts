@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { anchorDrift } from "../../src/rules/implementations/anchor-drift";
+import { LibraryRuleContext } from "../../src/rules/types";
+import {
+  CodebaseView,
+  CodebaseViewFileEntry,
+  ValidatedRepositoryPath,
+} from "../../src/pure-core/types";
+import { fingerprintLines } from "../../src/pure-core/utils/anchors";
+import { InMemoryFileSystemAdapter } from "../../src/test-adapters/InMemoryFileSystemAdapter";
+
+describe("anchor-drift rule", () => {
+  let mockContext: LibraryRuleContext;
+  let fsAdapter: InMemoryFileSystemAdapter;
+
+  const source = [
+    "export class AuthService {",
+    "  async refreshToken() {",
+    "    return 'token';",
+    "  }",
+    "}",
+    "",
+  ].join("\n");
+  const anchor = {
+    path: "src/auth.ts",
+    lines: [2, 4] as [number, number],
+    fingerprint: fingerprintLines(source, [2, 4]),
+  };
+  const viewPath = "/test/project/.alexandria/views/auth.json";
+
+  const addView = (files: CodebaseViewFileEntry[]) => {
+    const view: CodebaseView = {
+      id: "auth",
+      version: "1.1.0",
+      name: "auth",
+      title: "Auth",
+      description: "Authentication",
+      overviewPath: "docs/auth.md",
+      category: "other",
+      displayOrder: 0,
+      referenceGroups: {
+        tokens: { coordinates: [0, 0], files },
+      },
+    };
+    fsAdapter.writeFile(viewPath, JSON.stringify(view, null, 2));
+    mockContext.views = [view];
+  };
+
+  beforeEach(() => {
+    fsAdapter = new InMemoryFileSystemAdapter();
+    fsAdapter.createDir("/test/project/.alexandria/views");
+
+    mockContext = {
+      projectRoot: "/test/project" as ValidatedRepositoryPath,
+      views: [],
+      files: [],
+      markdownFiles: [],
+      fsAdapter,
+    };
+  });
+
+  it("should not report anchors whose content is still in place", async () => {
+    fsAdapter.writeFile("/test/project/src/auth.ts", source);
+    addView([anchor, "src/auth.ts", { path: "src/auth.ts", lines: [1, 2] }]);
+
+    const violations = await anchorDrift.check(mockContext, {});
+    expect(violations).toHaveLength(0);
+  });
+
+  it("should report content that moved", async () => {
+    fsAdapter.writeFile(
+      "/test/project/src/auth.ts",
+      "import { db } from './db';\n\n" + source,
+    );
+    addView([anchor]);
+
+    const violations = await anchorDrift.check(mockContext, {});
+    expect(violations).toHaveLength(1);
+    expect(violations[0].message).toBe(
+      'View "auth" reference group "tokens" anchors src/auth.ts lines 2-4, whose content moved to lines 4-6',
+    );
+    expect(violations[0].file).toBe(".alexandria/views/auth.json");
+    expect(violations[0].jsonPointer).toBe(
+      "referenceGroups.tokens.files[0].lines",
+    );
+    expect(violations[0].fixable).toBe(true);
+  });
+
+  it("should report content that changed", async () => {
+    fsAdapter.writeFile(
+      "/test/project/src/auth.ts",
+      source.replace("return 'token';", "return fetchToken();"),
+    );
+    addView([anchor]);
+
+    const violations = await anchorDrift.check(mockContext, {});
+    expect(violations).toHaveLength(1);
+    expect(violations[0].message).toContain(
+      "whose content changed; the closest match is lines 2-4 (67% of the lines)",
+    );
+  });
+
+  it("should report deleted content as not fixable", async () => {
+    fsAdapter.writeFile(
+      "/test/project/src/auth.ts",
+      "export class AuthService {\n  logout() {}\n}\n",
+    );
+    addView([anchor]);
+
+    const violations = await anchorDrift.check(mockContext, {});
+    expect(violations).toHaveLength(1);
+    expect(violations[0].message).toContain("no longer in the file");
+    expect(violations[0].fixable).toBe(false);
+  });
+
+  it("should rewrite the range in the view file", async () => {
+    const moved = "import { db } from './db';\n\n" + source;
+    fsAdapter.writeFile("/test/project/src/auth.ts", moved);
+    addView([{ ...anchor, symbol: "refreshToken" }]);
+    const [violation] = await anchorDrift.check(mockContext, {});
+
+    const preview = await anchorDrift.planFix!(violation, mockContext, {});
+    expect(preview.description).toBe(
+      "Re-anchor src/auth.ts to lines 4-6 in .alexandria/views/auth.json",
+    );
+    expect(preview.risk).toBe("safe");
+
+    await anchorDrift.fix!(violation, mockContext, {});
+
+    const saved = JSON.parse(fsAdapter.readFile(viewPath)) as CodebaseView;
+    expect(saved.referenceGroups.tokens.files).toEqual([
+      {
+        path: "src/auth.ts",
+        lines: [4, 6],
+        fingerprint: fingerprintLines(moved, [4, 6]),
+        symbol: "refreshToken",
+      },
+    ]);
+  });
+
+  it("should require fsAdapter", async () => {
+    mockContext.fsAdapter = undefined;
+
+    await expect(anchorDrift.check(mockContext, {})).rejects.toThrow(
+      "anchor-drift rule requires fsAdapter in context",
+    );
+  });
+});
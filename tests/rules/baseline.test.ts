@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import {
+  fingerprintViolation,
+  LintBaseline,
+  normalizeViolationMessage,
+} from "../../src/rules/baseline";
+import { LibraryRuleViolation } from "../../src/rules/types";
+import { ValidatedRepositoryPath } from "../../src/pure-core/types";
+import { InMemoryFileSystemAdapter } from "../../src/test-adapters/InMemoryFileSystemAdapter";
+
+const projectRoot = "/repo" as ValidatedRepositoryPath;
+const baselinePath = "/repo/.alexandria/baseline.json";
+
+const createViolation = (
+  ruleId: string,
+  file: string,
+  message: string,
+  line?: number,
+): LibraryRuleViolation => ({
+  ruleId,
+  severity: "error",
+  file,
+  line,
+  message,
+  impact: "Test impact",
+  fixable: false,
+});
+
+describe("LintBaseline", () => {
+  let fs: InMemoryFileSystemAdapter;
+
+  beforeEach(() => {
+    fs = new InMemoryFileSystemAdapter();
+    fs.createDir("/repo");
+  });
+
+  describe("fingerprintViolation", () => {
+    it("should ignore line shifts, numbers and commit hashes", () => {
+      const before = createViolation(
+        "stale-references",
+        "docs/core.md",
+        "Overview is 12 days older than src/a.ts in commit 1a2b3c4",
+        4,
+      );
+      const after = createViolation(
+        "stale-references",
+        "docs/core.md",
+        "Overview is 30 days older than src/a.ts in commit 9f8e7d6",
+        10,
+      );
+
+      expect(fingerprintViolation(after)).toBe(fingerprintViolation(before));
+    });
+
+    it("should distinguish rules, files and wording", () => {
+      const base = createViolation("rule-a", "a.md", "Missing reference");
+
+      expect(
+        new Set([
+          fingerprintViolation(base),
+          fingerprintViolation({ ...base, ruleId: "rule-b" }),
+          fingerprintViolation({ ...base, file: "b.md" }),
+          fingerprintViolation({ ...base, message: "Missing overview" }),
+        ]).size,
+      ).toBe(4);
+    });
+
+    it("should ignore how long ago an overview went stale", () => {
+      const message = (elapsed: string) =>
+        `Overview "docs/a.md" ${elapsed} "src/a.ts" changed in commit abc1234`;
+      const normalized = new Set(
+        [
+          "was modified just after",
+          "was modified 12 minutes after",
+          "has not been updated for 1 hour since",
+          "has not been updated for 5 hours since",
+          "has not been updated for 1 day since",
+          "has not been updated for 30 days since",
+        ].map((elapsed) => normalizeViolationMessage(message(elapsed))),
+      );
+
+      expect([...normalized]).toEqual([
+        'Overview "docs/a.md" <elapsed> "src/a.ts" changed in commit <hash>',
+      ]);
+    });
+
+    it("should normalize whitespace", () => {
+      expect(normalizeViolationMessage("  Found   3\nfiles ")).toBe(
+        "Found <n> files",
+      );
+    });
+  });
+
+  it("should treat a missing baseline as empty", () => {
+    const baseline = new LintBaseline(fs, projectRoot);
+    const violation = createViolation("rule-a", "a.md", "Problem");
+
+    expect(baseline.compare([violation], new Set(["rule-a"]))).toEqual({
+      newViolations: [violation],
+      matched: 0,
+      resolved: [],
+    });
+  });
+
+  it("should round-trip entries and match them by count", () => {
+    const first = new LintBaseline(fs, projectRoot);
+    first.update(
+      [
+        createViolation("rule-a", "a.md", "Problem"),
+        createViolation("rule-a", "a.md", "Problem"),
+        createViolation("rule-b", "b.md", "Other problem"),
+      ],
+      new Set(["rule-a", "rule-b"]),
+    );
+    first.save();
+
+    const saved = JSON.parse(fs.readFile(baselinePath));
+    expect(saved.version).toBe(1);
+    expect(saved.violations.map((e: { count: number }) => e.count)).toEqual([
+      2, 1,
+    ]);
+
+    const extra = createViolation("rule-a", "a.md", "Problem");
+    const { newViolations, matched, resolved } = new LintBaseline(
+      fs,
+      projectRoot,
+    ).compare(
+      [
+        createViolation("rule-a", "a.md", "Problem"),
+        createViolation("rule-a", "a.md", "Problem"),
+        extra,
+      ],
+      new Set(["rule-a", "rule-b"]),
+    );
+
+    expect(newViolations).toEqual([extra]);
+    expect(matched).toBe(2);
+    expect(resolved).toHaveLength(1);
+    expect(resolved[0]).toMatchObject({
+      ruleId: "rule-b",
+      file: "b.md",
+      count: 1,
+    });
+  });
+
+  it("should keep entries of rules that did not run", () => {
+    const baseline = new LintBaseline(fs, projectRoot);
+    baseline.update(
+      [
+        createViolation("rule-a", "a.md", "Problem"),
+        createViolation("rule-b", "b.md", "Problem"),
+      ],
+      new Set(["rule-a", "rule-b"]),
+    );
+    baseline.update([], new Set(["rule-a"]));
+
+    expect(baseline.compare([], new Set(["rule-a"])).resolved).toEqual([]);
+    expect(
+      baseline.compare([], new Set(["rule-b"])).resolved.map((e) => e.ruleId),
+    ).toEqual(["rule-b"]);
+  });
+
+  it("should reject a corrupt baseline file", () => {
+    fs.createDir("/repo/.alexandria");
+    fs.writeFile(baselinePath, "{ not json");
+
+    expect(() => new LintBaseline(fs, projectRoot)).toThrow(
+      "Invalid baseline file",
+    );
+  });
+});
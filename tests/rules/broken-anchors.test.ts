@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { brokenAnchors } from "../../src/rules/implementations/broken-anchors";
+import { LibraryRuleContext } from "../../src/rules/types";
+import {
+  CodebaseViewFileEntry,
+  ValidatedRepositoryPath,
+} from "../../src/pure-core/types";
+import { InMemoryFileSystemAdapter } from "../../src/test-adapters/InMemoryFileSystemAdapter";
+
+describe("broken-anchors rule", () => {
+  let mockContext: LibraryRuleContext;
+  let fsAdapter: InMemoryFileSystemAdapter;
+
+  const viewWithFiles = (files: CodebaseViewFileEntry[]) => ({
+    id: "auth",
+    name: "auth",
+    title: "Auth",
+    description: "Authentication",
+    overviewPath: "docs/auth.md",
+    referenceGroups: {
+      tokens: {
+        coordinates: [0, 0] as [number, number],
+        files,
+      },
+    },
+  });
+
+  beforeEach(() => {
+    fsAdapter = new InMemoryFileSystemAdapter();
+    fsAdapter.writeFile(
+      "/test/project/src/auth.ts",
+      [
+        "export class AuthService {",
+        "  async refreshToken() {",
+        "    return 'token';",
+        "  }",
+        "}",
+        "",
+      ].join("\n"),
+    );
+
+    mockContext = {
+      projectRoot: "/test/project" as ValidatedRepositoryPath,
+      views: [],
+      files: [],
+      markdownFiles: [],
+      fsAdapter,
+    };
+  });
+
+  it("should not report anchors that still match the file", async () => {
+    mockContext.views = [
+      viewWithFiles([
+        { path: "src/auth.ts", lines: [1, 5], symbol: "refreshToken" },
+        { path: "src/auth.ts", symbol: "AuthService.refreshToken" },
+      ]),
+    ];
+
+    const violations = await brokenAnchors.check(mockContext);
+    expect(violations).toHaveLength(0);
+  });
+
+  it("should report a symbol that is no longer declared", async () => {
+    mockContext.views = [
+      viewWithFiles([{ path: "src/auth.ts", symbol: "revokeToken" }]),
+    ];
+
+    const violations = await brokenAnchors.check(mockContext);
+    expect(violations).toHaveLength(1);
+    expect(violations[0].message).toBe(
+      'View "auth" reference group "tokens" references symbol "revokeToken", which is no longer declared in src/auth.ts',
+    );
+    expect(violations[0].file).toBe(".alexandria/views/auth.json");
+  });
+
+  it("should report a line range outside the file", async () => {
+    mockContext.views = [
+      viewWithFiles([{ path: "src/auth.ts", lines: [3, 40] }]),
+    ];
+
+    const violations = await brokenAnchors.check(mockContext);
+    expect(violations).toHaveLength(1);
+    expect(violations[0].message).toContain(
+      "Line range 3-40 is outside the file, which has 5 lines",
+    );
+  });
+
+  it("should leave fingerprinted ranges to anchor-drift", async () => {
+    mockContext.views = [
+      viewWithFiles([
+        { path: "src/auth.ts", lines: [4, 6], fingerprint: "0".repeat(24) },
+      ]),
+    ];
+
+    const violations = await brokenAnchors.check(mockContext);
+    expect(violations).toHaveLength(0);
+  });
+
+  it("should skip plain paths and files that do not exist", async () => {
+    mockContext.views = [
+      viewWithFiles([
+        "src/auth.ts",
+        { path: "src/missing.ts", lines: [1, 400], symbol: "gone" },
+      ]),
+    ];
+
+    const violations = await brokenAnchors.check(mockContext);
+    expect(violations).toHaveLength(0);
+  });
+
+  it("should require fsAdapter", async () => {
+    mockContext.fsAdapter = undefined;
+
+    await expect(brokenAnchors.check(mockContext)).rejects.toThrow(
+      "broken-anchors rule requires fsAdapter in context",
+    );
+  });
+});
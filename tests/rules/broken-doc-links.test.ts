@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { brokenDocLinks } from "../../src/rules/implementations/broken-doc-links";
+import { FileInfo, LibraryRuleContext } from "../../src/rules/types";
+import {
+  CodebaseView,
+  ValidatedRepositoryPath,
+} from "../../src/pure-core/types";
+import { InMemoryFileSystemAdapter } from "../../src/test-adapters/InMemoryFileSystemAdapter";
+
+describe("broken-doc-links rule", () => {
+  let mockContext: LibraryRuleContext;
+  let fsAdapter: InMemoryFileSystemAdapter;
+
+  const view = (overviewPath: string): CodebaseView => ({
+    id: "auth",
+    name: "auth",
+    title: "Auth",
+    description: "Authentication",
+    overviewPath,
+    referenceGroups: {},
+  });
+
+  const fileInfo = (relativePath: string): FileInfo => ({
+    path: `/test/project/${relativePath}`,
+    relativePath,
+    exists: true,
+    isMarkdown: relativePath.endsWith(".md"),
+  });
+
+  beforeEach(() => {
+    fsAdapter = new InMemoryFileSystemAdapter();
+    fsAdapter.writeFile("/test/project/src/auth/tokens.ts", "export {};");
+    fsAdapter.writeFile(
+      "/test/project/docs/guide.md",
+      "# Guide\n\n## Installation\n",
+    );
+
+    mockContext = {
+      projectRoot: "/test/project" as ValidatedRepositoryPath,
+      views: [],
+      files: [fileInfo("src/auth/tokens.ts"), fileInfo("docs/guide.md")],
+      markdownFiles: [fileInfo("docs/guide.md")],
+      fsAdapter,
+    };
+  });
+
+  it("should not report links that resolve", async () => {
+    fsAdapter.writeFile(
+      "/test/project/docs/auth.md",
+      "# Auth\n\n[Tokens](../src/auth/tokens.ts) and [install](guide.md#installation)\n",
+    );
+    mockContext.views = [view("docs/auth.md")];
+
+    const violations = await brokenDocLinks.check(mockContext, {});
+    expect(violations).toHaveLength(0);
+  });
+
+  it("should report broken links with the closest renamed path", async () => {
+    fsAdapter.writeFile(
+      "/test/project/docs/auth.md",
+      "# Auth\n\nSee [Tokens](../src/tokens.ts) and [FAQ](faq.md).\n",
+    );
+    mockContext.views = [view("docs/auth.md")];
+
+    const violations = await brokenDocLinks.check(mockContext, {});
+    expect(violations).toHaveLength(2);
+    expect(violations[0]).toMatchObject({
+      ruleId: "broken-doc-links",
+      file: "docs/auth.md",
+      line: 3,
+      column: 5,
+      message:
+        'Link to "../src/tokens.ts" points to src/tokens.ts, which does not exist; did you mean "../src/auth/tokens.ts"?',
+      fixable: true,
+    });
+    expect(violations[1].message).toBe(
+      'Link to "faq.md" points to docs/faq.md, which does not exist',
+    );
+    expect(violations[1].fixable).toBe(false);
+  });
+
+  it("should report missing headings", async () => {
+    fsAdapter.writeFile(
+      "/test/project/docs/auth.md",
+      "# Auth\n\n[Install](guide.md#instalation)\n",
+    );
+    mockContext.views = [view("docs/auth.md")];
+
+    const violations = await brokenDocLinks.check(mockContext, {});
+    expect(violations).toHaveLength(1);
+    expect(violations[0].message).toBe(
+      'Link to "guide.md#instalation" points to heading "#instalation", which is not in docs/guide.md; did you mean "guide.md#installation"?',
+    );
+  });
+
+  it("should rewrite the link to the suggestion", async () => {
+    fsAdapter.writeFile(
+      "/test/project/docs/auth.md",
+      "# Auth\n\nSee [Tokens](../src/tokens.ts#L10) here.\n",
+    );
+    mockContext.views = [view("docs/auth.md")];
+    const [violation] = await brokenDocLinks.check(mockContext, {});
+
+    const preview = await brokenDocLinks.planFix!(violation, mockContext, {});
+    expect(preview.description).toBe(
+      'Change link "../src/tokens.ts#L10" to "../src/auth/tokens.ts#L10" in docs/auth.md',
+    );
+
+    await brokenDocLinks.fix!(violation, mockContext, {});
+    expect(fsAdapter.readFile("/test/project/docs/auth.md")).toBe(
+      "# Auth\n\nSee [Tokens](../src/auth/tokens.ts#L10) here.\n",
+    );
+  });
+
+  it("should skip views whose overview does not exist", async () => {
+    mockContext.views = [view("docs/missing.md")];
+
+    const violations = await brokenDocLinks.check(mockContext, {});
+    expect(violations).toHaveLength(0);
+  });
+});
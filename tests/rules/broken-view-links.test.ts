@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { brokenViewLinks } from "../../src/rules/implementations/broken-view-links";
+import { LibraryRuleContext } from "../../src/rules/types";
+import {
+  CodebaseView,
+  ValidatedRepositoryPath,
+} from "../../src/pure-core/types";
+import { InMemoryFileSystemAdapter } from "../../src/test-adapters/InMemoryFileSystemAdapter";
+
+describe("broken-view-links rule", () => {
+  let mockContext: LibraryRuleContext;
+  let fsAdapter: InMemoryFileSystemAdapter;
+
+  const view = (
+    id: string,
+    links: Record<string, string>,
+    groupLinks: Record<string, string> = {},
+  ): CodebaseView => ({
+    id,
+    name: id,
+    title: id,
+    description: `${id} view`,
+    overviewPath: `docs/${id}.md`,
+    links,
+    referenceGroups: {
+      main: { coordinates: [0, 0], files: [], links: groupLinks },
+    },
+  });
+
+  beforeEach(() => {
+    fsAdapter = new InMemoryFileSystemAdapter();
+
+    mockContext = {
+      projectRoot: "/test/project" as ValidatedRepositoryPath,
+      views: [],
+      files: [],
+      markdownFiles: [],
+      fsAdapter,
+    };
+  });
+
+  it("should not report links to existing views", async () => {
+    mockContext.views = [
+      view("overview", { auth: "Authentication" }),
+      view("auth", {}, { overview: "Back" }),
+    ];
+
+    const violations = await brokenViewLinks.check(mockContext, {});
+    expect(violations).toHaveLength(0);
+  });
+
+  it("should report view and reference group links to missing views", async () => {
+    const overview = view("overview", { billing: "Billing" }, { auth: "Auth" });
+    fsAdapter.writeFile(
+      "/test/project/.alexandria/views/overview.json",
+      JSON.stringify(overview, null, 2),
+    );
+    mockContext.views = [overview];
+
+    const violations = await brokenViewLinks.check(mockContext, {});
+    expect(violations.map((v) => v.message)).toEqual([
+      'View "overview" links to view "billing", which does not exist',
+      'View "overview" reference group "main" links to view "auth", which does not exist',
+    ]);
+    expect(violations[0].file).toBe(".alexandria/views/overview.json");
+    expect(violations[0].jsonPointer).toBe("links.billing");
+    expect(violations[0].line).toBeDefined();
+    expect(violations[1].jsonPointer).toBe("referenceGroups.main.links.auth");
+  });
+});
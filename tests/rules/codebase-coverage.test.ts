@@ -10,6 +10,13 @@ import {
   GlobAdapter,
   GlobOptions,
 } from "../../src/pure-core/abstractions/glob";
+import { resolveRuleOptions } from "../../src/rules/options";
+
+const runCheck = (context: LibraryRuleContext) =>
+  codebaseCoverage.check(
+    context,
+    resolveRuleOptions(codebaseCoverage, context.config),
+  );
 
 describe("codebase-coverage rule", () => {
   let mockContext: LibraryRuleContext;
@@ -107,7 +114,7 @@ describe("codebase-coverage rule", () => {
         },
       };
 
-      const violations = await codebaseCoverage.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
 
@@ -138,7 +145,7 @@ describe("codebase-coverage rule", () => {
         },
       };
 
-      const violations = await codebaseCoverage.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
       expect(violations[0].message).toContain("20%");
       expect(violations[0].message).toContain("1/5 files");
@@ -174,7 +181,7 @@ describe("codebase-coverage rule", () => {
         },
       };
 
-      const violations = await codebaseCoverage.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
       expect(violations[0].message).toContain("50%");
       expect(violations[0].message).toContain("1/2 files");
@@ -208,7 +215,7 @@ describe("codebase-coverage rule", () => {
         },
       };
 
-      const violations = await codebaseCoverage.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
 
@@ -222,7 +229,7 @@ describe("codebase-coverage rule", () => {
         createView("view1", ["src/index.ts"]), // 1 out of 1 non-node_modules file = 100%
       ];
 
-      const violations = await codebaseCoverage.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
   });
@@ -254,7 +261,7 @@ describe("codebase-coverage rule", () => {
         },
       };
 
-      const violations = await codebaseCoverage.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
 
@@ -286,7 +293,7 @@ describe("codebase-coverage rule", () => {
         },
       };
 
-      const violations = await codebaseCoverage.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations.length).toBeGreaterThan(0);
 
       const dirViolations = violations.filter((v) =>
@@ -324,11 +331,72 @@ describe("codebase-coverage rule", () => {
         },
       };
 
-      const violations = await codebaseCoverage.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
   });
 
+  describe("priority weighting", () => {
+    it("should weight files by their priority", async () => {
+      mockContext.files = [
+        { ...createFileInfo("src/core.ts"), priority: "critical" },
+        createFileInfo("src/utils.ts"),
+        createFileInfo("src/helpers.ts"),
+        { ...createFileInfo("src/legacy.ts"), priority: "low" },
+      ];
+
+      // Covered weight 4 of 6.5
+      mockContext.views = [createView("view1", ["src/core.ts"])];
+
+      mockContext.config = {
+        version: "1.0.0",
+        context: {
+          rules: [
+            {
+              id: "codebase-coverage",
+              options: {
+                minimumCoverage: 70,
+              } as CodebaseCoverageOptions,
+            },
+          ],
+        },
+      };
+
+      const violations = await runCheck(mockContext);
+      expect(violations).toHaveLength(1);
+      expect(violations[0].message).toBe(
+        "Codebase coverage is 62% (1/4 files, weighted by priority), below minimum of 70%",
+      );
+    });
+
+    it("should count files equally when weighting is disabled", async () => {
+      mockContext.files = [
+        { ...createFileInfo("src/core.ts"), priority: "critical" },
+        createFileInfo("src/utils.ts"),
+      ];
+
+      mockContext.views = [createView("view1", ["src/core.ts"])];
+
+      mockContext.config = {
+        version: "1.0.0",
+        context: {
+          rules: [
+            {
+              id: "codebase-coverage",
+              options: {
+                minimumCoverage: 70,
+                weightByPriority: false,
+              } as CodebaseCoverageOptions,
+            },
+          ],
+        },
+      };
+
+      const violations = await runCheck(mockContext);
+      expect(violations[0].message).toContain("50% (1/2 files)");
+    });
+  });
+
   describe("files in multiple views", () => {
     it("should count files referenced in any view as covered", async () => {
       mockContext.files = [
@@ -356,7 +424,7 @@ describe("codebase-coverage rule", () => {
         },
       };
 
-      const violations = await codebaseCoverage.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
   });
@@ -380,7 +448,7 @@ describe("codebase-coverage rule", () => {
         },
       };
 
-      const violations = await codebaseCoverage.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
   });
@@ -428,10 +496,56 @@ describe("codebase-coverage rule", () => {
         },
       };
 
-      const violations = await codebaseCoverage.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
 
+    it("should count files matched by patterns and directories as covered", async () => {
+      mockContext.files = [
+        createFileInfo("src/rules/engine.ts"),
+        createFileInfo("src/rules/utils/patterns.ts"),
+        createFileInfo("src/config/loader.ts"),
+        createFileInfo("src/index.ts"),
+      ];
+
+      mockContext.views = [
+        {
+          id: "view1",
+          title: "View 1",
+          description: "Test view",
+          overviewPath: "docs/view1.md",
+          referenceGroups: {
+            rules: {
+              coordinates: [0, 0],
+              patterns: ["src/rules/**/*.ts"],
+            },
+            config: {
+              coordinates: [0, 1],
+              directories: ["src/config"],
+            },
+          },
+        },
+      ];
+
+      mockContext.config = {
+        version: "1.0.0",
+        context: {
+          rules: [
+            {
+              id: "codebase-coverage",
+              options: {
+                minimumCoverage: 100,
+              } as CodebaseCoverageOptions,
+            },
+          ],
+        },
+      };
+
+      const violations = await runCheck(mockContext);
+      expect(violations).toHaveLength(1);
+      expect(violations[0].message).toContain("75% (3/4 files)");
+    });
+
     it("should handle views without reference groups", async () => {
       mockContext.files = [
         createFileInfo("src/index.ts"),
@@ -461,7 +575,7 @@ describe("codebase-coverage rule", () => {
         },
       };
 
-      const violations = await codebaseCoverage.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
       expect(violations[0].message).toContain("0%");
       expect(violations[0].message).toContain("0/2 files");
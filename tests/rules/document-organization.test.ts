@@ -8,6 +8,13 @@ import {
   GlobOptions,
 } from "../../src/pure-core/abstractions/glob";
 import { FileSystemAdapter } from "../../src/pure-core/abstractions/filesystem";
+import { resolveRuleOptions } from "../../src/rules/options";
+
+const runCheck = (context: LibraryRuleContext) =>
+  documentOrganization.check(
+    context,
+    resolveRuleOptions(documentOrganization, context.config),
+  );
 
 describe("document-organization rule", () => {
   let mockContext: LibraryRuleContext;
@@ -116,7 +123,7 @@ describe("document-organization rule", () => {
         createFileInfo("LICENSE.md"),
       ];
 
-      const violations = await documentOrganization.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
 
@@ -126,7 +133,7 @@ describe("document-organization rule", () => {
         createFileInfo("tutorial.md"),
       ];
 
-      const violations = await documentOrganization.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(2);
       expect(violations[0].file).toBe("api-guide.md");
       expect(violations[0].message).toContain(
@@ -142,7 +149,7 @@ describe("document-organization rule", () => {
         createFileInfo("README.MD"),
       ];
 
-      const violations = await documentOrganization.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
   });
@@ -155,7 +162,7 @@ describe("document-organization rule", () => {
         createFileInfo("docs/getting-started.md"),
       ];
 
-      const violations = await documentOrganization.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
 
@@ -166,7 +173,7 @@ describe("document-organization rule", () => {
         createFileInfo("documentation/setup.md"),
       ];
 
-      const violations = await documentOrganization.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
 
@@ -190,7 +197,7 @@ describe("document-organization rule", () => {
         },
       };
 
-      const violations = await documentOrganization.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
   });
@@ -202,21 +209,21 @@ describe("document-organization rule", () => {
         createFileInfo(".github/ISSUE_TEMPLATE.md"),
       ];
 
-      const violations = await documentOrganization.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
 
     it("should allow files in templates directory", async () => {
       mockContext.markdownFiles = [createFileInfo("templates/bug-report.md")];
 
-      const violations = await documentOrganization.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
 
     it("should allow files in examples directory", async () => {
       mockContext.markdownFiles = [createFileInfo("examples/basic-usage.md")];
 
-      const violations = await documentOrganization.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
   });
@@ -242,7 +249,7 @@ describe("document-organization rule", () => {
         },
       };
 
-      const violations = await documentOrganization.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
 
@@ -266,7 +273,7 @@ describe("document-organization rule", () => {
         },
       };
 
-      const violations = await documentOrganization.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0); // Immediate parent is "docs"
     });
 
@@ -288,7 +295,7 @@ describe("document-organization rule", () => {
         },
       };
 
-      const violations = await documentOrganization.check(mockContext);
+      const violations = await runCheck(mockContext);
       // With checkNested: false, only the immediate parent "components" is checked, not "docs"
       expect(violations).toHaveLength(1);
       expect(violations[0].file).toBe("docs/components/guide.md");
@@ -316,7 +323,7 @@ describe("document-organization rule", () => {
         },
       };
 
-      const violations = await documentOrganization.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
       expect(violations[0].file).toBe("ANOTHER_FILE.md");
     });
@@ -338,7 +345,7 @@ describe("document-organization rule", () => {
         },
       };
 
-      const violations = await documentOrganization.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
   });
@@ -351,7 +358,7 @@ describe("document-organization rule", () => {
         createFileInfo("packages/core/README.md"),
       ];
 
-      const violations = await documentOrganization.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
   });
@@ -366,7 +373,7 @@ describe("document-organization rule", () => {
         createFileInfo(".github/CONTRIBUTING.md"), // valid in special dir
       ];
 
-      const violations = await documentOrganization.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(2);
       expect(violations.map((v) => v.file)).toContain("tutorial.md");
       expect(violations.map((v) => v.file)).toContain("src/guide.md");
@@ -381,7 +388,7 @@ describe("document-organization rule", () => {
         createFileInfo("docs/tutorial.md"),
       ];
 
-      const violations = await documentOrganization.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
   });
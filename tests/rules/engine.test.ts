@@ -2,7 +2,17 @@ import { describe, it, expect, beforeEach } from "bun:test";
 import { LibraryRulesEngine } from "../../src/rules/engine";
 import { InMemoryFileSystemAdapter } from "../../src/test-adapters/InMemoryFileSystemAdapter";
 import { InMemoryGlobAdapter } from "../../src/test-adapters/InMemoryGlobAdapter";
+import { InMemoryGitAdapter } from "../../src/test-adapters/InMemoryGitAdapter";
+import { InMemoryPluginLoader } from "../../src/test-adapters/InMemoryPluginLoader";
 import { AlexandriaConfig } from "../../src/config/types";
+import {
+  LibraryRule,
+  LibraryRuleContext,
+  LibraryRuleViolation,
+  LibraryWatchResult,
+} from "../../src/rules/types";
+import { CodebaseView } from "../../src/pure-core/types";
+import { GlobOptions } from "../../src/pure-core/abstractions/glob";
 
 describe("LibraryRulesEngine", () => {
   let engine: LibraryRulesEngine;
@@ -64,18 +74,9 @@ describe("LibraryRulesEngine", () => {
         enabledRules: ["require-references"],
       });
 
-      // Should have called findFiles for all files and markdown files
-      expect(findFilesCalls.length).toBeGreaterThan(0);
-
-      const allFilesCall = findFilesCalls.find((c) =>
-        c.patterns.includes("**/*"),
-      );
-      const markdownCall = findFilesCalls.find((c) =>
-        c.patterns.some((p) => p.includes("*.md")),
-      );
-
-      expect(allFilesCall).toBeDefined();
-      expect(markdownCall).toBeDefined();
+      // Should glob once for all files and derive markdown files from the result
+      expect(findFilesCalls).toHaveLength(1);
+      expect(findFilesCalls[0].patterns).toEqual(["**/*"]);
 
       // Verify the markdown files were found (not in .git or node_modules)
       expect(result.violations.length).toBeGreaterThanOrEqual(0);
@@ -161,6 +162,116 @@ describe("LibraryRulesEngine", () => {
       expect(callWithIgnore?.options?.ignore).toContain(excludePattern);
     });
 
+    it("should scan only included files up to maxDepth", async () => {
+      fs.writeFile(`${testDir}/docs/guide.md`, "# Guide");
+      fs.writeFile(`${testDir}/docs/api/deep/reference.md`, "# Reference");
+      fs.writeFile(`${testDir}/notes/todo.md`, "# Todo");
+
+      let files: string[] = [];
+      engine.registerRule({
+        id: "scan-recorder",
+        name: "Scan Recorder",
+        severity: "info",
+        category: "quality",
+        description: "Records scanned files",
+        impact: "None",
+        fixable: false,
+        enabled: true,
+        async check(context) {
+          files = context.files.map((file) => file.relativePath);
+          return [];
+        },
+      });
+
+      await engine.lint(testDir, {
+        config: {
+          context: {
+            patterns: { include: ["docs/**"] },
+            maxDepth: 2,
+            followSymlinks: true,
+          },
+        },
+        enabledRules: ["scan-recorder"],
+      });
+
+      expect(files).toEqual(["docs/guide.md"]);
+    });
+
+    it("should pass maxDepth and followSymlinks to the glob adapter", async () => {
+      const calls: GlobOptions[] = [];
+      const originalFindFiles = globAdapter.findFiles.bind(globAdapter);
+      globAdapter.findFiles = async (patterns, options) => {
+        calls.push(options ?? {});
+        return originalFindFiles(patterns, options);
+      };
+
+      await engine.lint(testDir, {
+        config: { context: { maxDepth: 3, followSymlinks: false } },
+        enabledRules: [],
+      });
+
+      expect(calls[0].maxDepth).toBe(3);
+      expect(calls[0].followSymbolicLinks).toBe(false);
+    });
+
+    it("should record the priority of scanned files", async () => {
+      fs.writeFile(`${testDir}/src/core/engine.ts`, "export {}");
+      fs.writeFile(`${testDir}/src/index.ts`, "export {}");
+
+      let priorities: Record<string, string | undefined> = {};
+      engine.registerRule({
+        id: "scan-recorder",
+        name: "Scan Recorder",
+        severity: "info",
+        category: "quality",
+        description: "Records scanned files",
+        impact: "None",
+        fixable: false,
+        enabled: true,
+        async check(context) {
+          priorities = Object.fromEntries(
+            context.files.map((file) => [file.relativePath, file.priority]),
+          );
+          return [];
+        },
+      });
+
+      await engine.lint(testDir, {
+        config: {
+          context: {
+            patterns: {
+              priority: [
+                { pattern: "src/**", priority: "high" },
+                { pattern: "src/core/**", priority: "critical" },
+              ],
+            },
+          },
+        },
+        enabledRules: ["scan-recorder"],
+      });
+
+      expect(priorities["src/core/engine.ts"]).toBe("critical");
+      expect(priorities["src/index.ts"]).toBe("high");
+    });
+
+    it("should skip files matched by .alexandriaignore", async () => {
+      fs.writeFile(`${testDir}/.alexandriaignore`, "drafts/\n*.generated.md\n");
+      fs.writeFile(`${testDir}/docs/.alexandriaignore`, "!api.generated.md\n");
+      fs.writeFile(`${testDir}/README.md`, "# Readme");
+      fs.writeFile(`${testDir}/drafts/idea.md`, "# Idea");
+      fs.writeFile(`${testDir}/schema.generated.md`, "# Schema");
+      fs.writeFile(`${testDir}/docs/api.generated.md`, "# API");
+
+      const result = await engine.lint(testDir, {
+        enabledRules: ["require-references"],
+      });
+
+      expect(result.violations.map((v) => v.file).sort()).toEqual([
+        "README.md",
+        "docs/api.generated.md",
+      ]);
+    });
+
     it("should not use Node.js dependencies for file operations", async () => {
       // This test verifies we're not using Node.js fs.statSync or path.join
       // The test passes if the engine works with our in-memory adapters
@@ -210,14 +321,8 @@ describe("LibraryRulesEngine", () => {
       );
 
       // Check that document-organization did NOT re-scan
-      // Should only have calls from engine's scanFiles
-      const markdownPatternCalls = findFilesCalls.filter((c) =>
-        c.patterns.some((p) => p.includes("*.md")),
-      );
-
-      // Should be exactly 1 call for markdown files (from engine)
-      // not 2 (which would indicate the rule re-scanned)
-      expect(markdownPatternCalls.length).toBe(1);
+      // Should only have the single call from engine's scanFiles
+      expect(findFilesCalls).toHaveLength(1);
     });
   });
 
@@ -332,4 +437,1381 @@ describe("LibraryRulesEngine", () => {
       }
     });
   });
+
+  describe("severity escalation", () => {
+    it("should raise violations on important files to the configured severity", async () => {
+      fs.writeFile(`${testDir}/docs/architecture.md`, "# Architecture");
+      fs.writeFile(`${testDir}/docs/notes.md`, "# Notes");
+
+      const result = await engine.lint(testDir, {
+        config: {
+          context: {
+            rules: [
+              {
+                id: "require-references",
+                name: "Require References",
+                severity: "info",
+              },
+            ],
+            patterns: {
+              priority: [
+                { pattern: "docs/architecture.md", priority: "critical" },
+              ],
+            },
+            escalateSeverity: { critical: "error", low: "info" },
+          },
+        },
+        enabledRules: ["require-references"],
+      });
+
+      const severities = Object.fromEntries(
+        result.violations.map((v) => [v.file, v.severity]),
+      );
+      expect(severities["docs/architecture.md"]).toBe("error");
+      expect(severities["docs/notes.md"]).toBe("info");
+    });
+  });
+
+  describe("rule options", () => {
+    const createOptionsRule = (
+      seen: unknown[],
+    ): LibraryRule<{
+      limit: number;
+      label: string;
+    }> => ({
+      id: "options-rule",
+      name: "Options Rule",
+      severity: "info",
+      category: "quality",
+      description: "Records the options it runs with",
+      impact: "None",
+      fixable: false,
+      enabled: true,
+      optionsSchema: {
+        limit: { type: "number", minimum: 1 },
+        label: { type: "string" },
+      },
+      options: { limit: 1, label: "default" },
+      async check(_context, options) {
+        seen.push(options);
+        return [];
+      },
+    });
+
+    it("should pass defaults merged with configured options to check", async () => {
+      const seen: unknown[] = [];
+      engine.registerRule(createOptionsRule(seen));
+
+      await engine.lint(testDir, {
+        config: {
+          context: {
+            rules: [
+              {
+                id: "options-rule",
+                name: "Options Rule",
+                severity: "info",
+                options: { limit: 5 },
+              },
+            ],
+          },
+        },
+        enabledRules: ["options-rule"],
+      });
+
+      expect(seen).toEqual([{ limit: 5, label: "default" }]);
+    });
+
+    it("should reject invalid options before running any rule", async () => {
+      const seen: unknown[] = [];
+      engine.registerRule(createOptionsRule(seen));
+
+      await expect(
+        engine.lint(testDir, {
+          config: {
+            context: {
+              rules: [
+                {
+                  id: "options-rule",
+                  name: "Options Rule",
+                  severity: "info",
+                  options: { limit: 0, extra: true },
+                },
+              ],
+            },
+          },
+          enabledRules: ["options-rule"],
+        }),
+      ).rejects.toThrow(
+        'Invalid options for rule "options-rule": context.rules[0].options.limit: limit must be at least 1; context.rules[0].options.extra: Unknown option "extra". Expected one of: limit, label',
+      );
+      expect(seen).toHaveLength(0);
+    });
+
+    it("should reject ill-typed options for built-in rules", async () => {
+      await expect(
+        engine.lint(testDir, {
+          config: {
+            context: {
+              rules: [
+                {
+                  id: "minimum-references",
+                  name: "Minimum References",
+                  severity: "error",
+                  options: { minFiles: "2" },
+                },
+              ],
+            },
+          },
+        }),
+      ).rejects.toThrow("minFiles must be a number");
+    });
+  });
+
+  describe("config cascade", () => {
+    const createFileRule = (
+      seen: unknown[],
+    ): LibraryRule<{ label: string }> => ({
+      id: "file-rule",
+      name: "File Rule",
+      severity: "warning",
+      category: "quality",
+      description: "Reports every markdown file with its label",
+      impact: "None",
+      fixable: false,
+      enabled: true,
+      optionsSchema: { label: { type: "string" } },
+      options: { label: "default" },
+      async check(context, options) {
+        seen.push(options);
+        return context.markdownFiles.map((file) => ({
+          ruleId: "file-rule",
+          severity: "warning" as const,
+          file: file.relativePath,
+          message: `${options.label}: ${file.relativePath}`,
+          impact: "None",
+          fixable: false,
+        }));
+      },
+    });
+
+    const writeConfig = (dir: string, config: object) =>
+      fs.writeFile(
+        `${dir}/.alexandriarc.json`,
+        JSON.stringify({ version: "1.0.0", ...config }),
+      );
+
+    beforeEach(() => {
+      fs.writeFile(`${testDir}/docs/guide.md`, "# Guide");
+      fs.writeFile(`${testDir}/packages/app/README.md`, "# App");
+      fs.writeFile(`${testDir}/packages/lib/README.md`, "# Lib");
+      writeConfig(testDir, {
+        root: true,
+        context: {
+          rules: [
+            {
+              id: "file-rule",
+              name: "File Rule",
+              severity: "warning",
+              options: { label: "root" },
+            },
+          ],
+        },
+      });
+    });
+
+    it("should apply package configs to the files under them", async () => {
+      const seen: unknown[] = [];
+      engine.registerRule(createFileRule(seen));
+      writeConfig(`${testDir}/packages/app`, {
+        context: {
+          rules: [
+            {
+              id: "file-rule",
+              name: "File Rule",
+              severity: "error",
+              options: { label: "app" },
+            },
+          ],
+        },
+      });
+      writeConfig(`${testDir}/packages/lib`, {
+        context: {
+          rules: [{ id: "file-rule", name: "File Rule", enabled: false }],
+        },
+      });
+
+      const result = await engine.lint(testDir, {
+        enabledRules: ["file-rule"],
+      });
+
+      expect(seen).toEqual([{ label: "root" }, { label: "app" }]);
+      expect(
+        result.violations.map((v) => `${v.severity} ${v.message}`).sort(),
+      ).toEqual([
+        "error app: packages/app/README.md",
+        "warning root: docs/guide.md",
+      ]);
+    });
+
+    it("should load JavaScript package configs through the plugin loader", async () => {
+      const seen: unknown[] = [];
+      const pluginLoader = new InMemoryPluginLoader();
+      engine = new LibraryRulesEngine(fs, globAdapter, undefined, pluginLoader);
+      engine.registerRule(createFileRule(seen));
+      const configPath = `${testDir}/packages/app/alexandria.config.js`;
+      fs.writeFile(configPath, "");
+      pluginLoader.register(configPath, {
+        default: () => ({
+          version: "1.0.0",
+          context: {
+            rules: [
+              { id: "file-rule", name: "File Rule", options: { label: "js" } },
+            ],
+          },
+        }),
+      });
+
+      const result = await engine.lint(testDir, {
+        enabledRules: ["file-rule"],
+      });
+
+      expect(seen).toEqual([{ label: "root" }, { label: "js" }]);
+      expect(result.violations.map((v) => v.message).sort()).toContain(
+        "js: packages/app/README.md",
+      );
+    });
+
+    it("should run a rule once when package configs don't change it", async () => {
+      const seen: unknown[] = [];
+      engine.registerRule(createFileRule(seen));
+      writeConfig(`${testDir}/packages/app`, {
+        reporting: { verbose: true },
+      });
+
+      const result = await engine.lint(testDir, {
+        enabledRules: ["file-rule"],
+      });
+
+      expect(seen).toEqual([{ label: "root" }]);
+      expect(result.violations).toHaveLength(3);
+    });
+
+    it("should give rules the effective config of files and views", async () => {
+      let context: LibraryRuleContext | undefined;
+      engine.registerRule({
+        ...createFileRule([]),
+        async check(ruleContext) {
+          context = ruleContext;
+          return [];
+        },
+      });
+      writeConfig(`${testDir}/packages/app`, {
+        reporting: { format: "json" },
+      });
+
+      await engine.lint(testDir, { enabledRules: ["file-rule"] });
+
+      const view = {
+        id: "app",
+        overviewPath: "packages/app/docs/overview.md",
+      } as CodebaseView;
+      expect(context?.config?.reporting?.format).toBe("text");
+      expect(
+        context?.getEffectiveConfig?.("packages/app/README.md")?.reporting
+          ?.format,
+      ).toBe("json");
+      expect(context?.getEffectiveConfig?.(view)?.reporting?.format).toBe(
+        "json",
+      );
+      expect(
+        context?.getEffectiveConfig?.("docs/guide.md")?.reporting?.format,
+      ).toBe("text");
+    });
+
+    it("should plan fixes with the options of the violation's package", async () => {
+      const planned: string[] = [];
+      engine.registerRule({
+        ...createFileRule([]),
+        fixable: true,
+        async check(context, options) {
+          const violations = await createFileRule([]).check(context, options);
+          return violations.map((violation) => ({
+            ...violation,
+            fixable: true,
+          }));
+        },
+        async planFix(violation, _context, options) {
+          planned.push(`${options.label}: ${violation.file}`);
+          return { description: "", changes: [], risk: "safe" };
+        },
+      });
+      writeConfig(`${testDir}/packages/app`, {
+        context: {
+          rules: [
+            { id: "file-rule", name: "File Rule", options: { label: "app" } },
+          ],
+        },
+      });
+
+      await engine.planFixes(testDir, { enabledRules: ["file-rule"] });
+
+      expect(planned.sort()).toEqual([
+        "app: packages/app/README.md",
+        "root: docs/guide.md",
+        "root: packages/lib/README.md",
+      ]);
+    });
+
+    it("should apply package exclude patterns in built-in rules", async () => {
+      writeConfig(`${testDir}/packages/app`, {
+        context: { patterns: { exclude: ["packages/app/**"] } },
+      });
+
+      const result = await engine.lint(testDir, {
+        enabledRules: ["require-references"],
+      });
+
+      expect(result.violations.map((v) => v.file).sort()).toEqual([
+        "docs/guide.md",
+        "packages/lib/README.md",
+      ]);
+    });
+
+    it("should apply an explicit config everywhere", async () => {
+      const seen: unknown[] = [];
+      engine.registerRule(createFileRule(seen));
+      writeConfig(`${testDir}/packages/app`, {
+        context: {
+          rules: [{ id: "file-rule", name: "File Rule", enabled: false }],
+        },
+      });
+
+      const result = await engine.lint(testDir, {
+        config: { version: "1.0.0" },
+        enabledRules: ["file-rule"],
+      });
+
+      expect(result.violations).toHaveLength(3);
+    });
+  });
+
+  describe("inline suppressions", () => {
+    const markdownRule: LibraryRule = {
+      id: "markdown-rule",
+      name: "Markdown Rule",
+      severity: "warning",
+      category: "quality",
+      description: "Reports line 3 of every markdown file",
+      impact: "None",
+      fixable: false,
+      enabled: true,
+      async check(context) {
+        return context.markdownFiles.map((file) => ({
+          ruleId: "markdown-rule",
+          severity: "warning" as const,
+          file: file.relativePath,
+          line: 3,
+          message: `Problem in ${file.relativePath}`,
+          impact: "None",
+          fixable: false,
+        }));
+      },
+    };
+
+    beforeEach(() => {
+      engine.registerRule(markdownRule);
+    });
+
+    it("should honor markdown directives and report unused ones", async () => {
+      fs.writeFile(
+        `${testDir}/docs/next-line.md`,
+        "# Title\n<!-- alexandria-disable-next-line markdown-rule -->\nText\n",
+      );
+      fs.writeFile(
+        `${testDir}/docs/wrong-line.md`,
+        "<!-- alexandria-disable-next-line markdown-rule -->\n\nText\n",
+      );
+      fs.writeFile(`${testDir}/docs/plain.md`, "# Plain\n");
+
+      const result = await engine.lint(testDir, {
+        enabledRules: ["markdown-rule"],
+      });
+
+      expect(
+        result.violations.map((v) => `${v.ruleId}:${v.file}:${v.line}`).sort(),
+      ).toEqual([
+        "markdown-rule:docs/plain.md:3",
+        "markdown-rule:docs/wrong-line.md:3",
+        "unused-suppression:docs/wrong-line.md:1",
+      ]);
+      expect(result.infoCount).toBe(1);
+    });
+
+    it("should honor view suppressions", async () => {
+      const view = {
+        id: "core",
+        version: "1.0.0",
+        name: "Core",
+        description: "Core view",
+        overviewPath: "docs/core.md",
+        category: "other",
+        displayOrder: 0,
+        referenceGroups: {
+          main: { coordinates: [0, 0], files: ["src/missing.ts"] },
+        },
+        experimentalMetadata: {
+          alexandriaDisable: [
+            { rule: "orphaned-references", reason: "Files land next sprint" },
+          ],
+        },
+      };
+      fs.createDir(`${testDir}/.alexandria/views`);
+      fs.writeFile(
+        `${testDir}/.alexandria/views/core.json`,
+        JSON.stringify(view, null, 2),
+      );
+
+      const result = await engine.lint(testDir, {
+        enabledRules: ["orphaned-references"],
+        config: {
+          version: "1.0.0",
+          context: { suppressions: { requireReason: true } },
+        },
+      });
+
+      expect(result.violations).toEqual([]);
+
+      view.experimentalMetadata.alexandriaDisable = [
+        { rule: "orphaned-references", reason: "" },
+      ];
+      fs.writeFile(
+        `${testDir}/.alexandria/views/core.json`,
+        JSON.stringify(view, null, 2),
+      );
+
+      const unexplained = await engine.lint(testDir, {
+        enabledRules: ["orphaned-references"],
+        config: {
+          version: "1.0.0",
+          context: { suppressions: { requireReason: true } },
+        },
+      });
+
+      expect(unexplained.violations.map((v) => v.ruleId)).toEqual([
+        "orphaned-references",
+        "missing-suppression-reason",
+      ]);
+    });
+  });
+
+  describe("baseline", () => {
+    const baselineFile = `${testDir}/.alexandria/baseline.json`;
+
+    beforeEach(() => {
+      fs.writeFile(`${testDir}/notes.md`, "# Notes");
+      fs.writeFile(`${testDir}/ideas.md`, "# Ideas");
+    });
+
+    it("should only report violations missing from the baseline", async () => {
+      const options = { enabledRules: ["document-organization"] };
+
+      const recorded = await engine.lint(testDir, {
+        ...options,
+        updateBaseline: true,
+      });
+      expect(fs.exists(baselineFile)).toBe(true);
+      expect(recorded.violations).toEqual([]);
+      expect(recorded.baseline).toEqual({
+        matched: 2,
+        resolved: [],
+        updated: true,
+      });
+
+      fs.writeFile(`${testDir}/todo.md`, "# Todo");
+      const result = await engine.lint(testDir, {
+        ...options,
+        baseline: true,
+      });
+
+      expect(result.violations.map((v) => v.file)).toEqual(["todo.md"]);
+      expect(result.warningCount).toBe(1);
+      expect(result.baseline?.matched).toBe(2);
+    });
+
+    it("should report baselined violations that disappeared", async () => {
+      const options = { enabledRules: ["document-organization"] };
+      await engine.lint(testDir, { ...options, updateBaseline: true });
+
+      fs.deleteFile(`${testDir}/ideas.md`);
+      const result = await engine.lint(testDir, {
+        ...options,
+        baseline: true,
+      });
+
+      expect(result.violations).toEqual([]);
+      expect(result.baseline?.resolved.map((e) => e.file)).toEqual([
+        "ideas.md",
+      ]);
+    });
+  });
+
+  describe("plugins", () => {
+    let pluginLoader: InMemoryPluginLoader;
+
+    const createPluginRule = (
+      id: string,
+      check: LibraryRule["check"],
+    ): LibraryRule => ({
+      id,
+      name: id,
+      severity: "warning",
+      category: "quality",
+      description: "Plugin rule",
+      impact: "None",
+      fixable: false,
+      enabled: true,
+      check,
+    });
+
+    const findingRule = createPluginRule("acme/has-readme", async () => [
+      {
+        ruleId: "acme/has-readme",
+        severity: "warning",
+        message: "Missing README",
+        impact: "None",
+        fixable: false,
+      },
+    ]);
+
+    beforeEach(() => {
+      pluginLoader = new InMemoryPluginLoader();
+      engine = new LibraryRulesEngine(fs, globAdapter, undefined, pluginLoader);
+    });
+
+    it("should run rules from configured plugins with severity overrides", async () => {
+      pluginLoader.register("acme-plugin", { default: [findingRule] });
+
+      const result = await engine.lint(testDir, {
+        config: {
+          version: "1.0.0",
+          plugins: ["acme-plugin"],
+          context: {
+            rules: [
+              {
+                id: "acme/has-readme",
+                name: "Has README",
+                severity: "error",
+              },
+            ],
+          },
+        },
+        enabledRules: ["acme/has-readme"],
+      });
+
+      expect(result.violations).toHaveLength(1);
+      expect(result.violations[0].severity).toBe("error");
+      expect(result.errorCount).toBe(1);
+    });
+
+    it("should load each plugin once and drop its rules when unlisted", async () => {
+      pluginLoader.register("acme-plugin", { rules: [findingRule] });
+      const config: AlexandriaConfig = {
+        version: "1.0.0",
+        plugins: ["acme-plugin"],
+      };
+
+      await engine.lint(testDir, { config, enabledRules: ["acme/has-readme"] });
+      const again = await engine.lint(testDir, {
+        config,
+        enabledRules: ["acme/has-readme"],
+      });
+      const unlisted = await engine.lint(testDir, {
+        config: { version: "1.0.0" },
+        enabledRules: ["acme/has-readme"],
+      });
+
+      expect(pluginLoader.getLoads()).toEqual(["acme-plugin"]);
+      expect(again.violations).toHaveLength(1);
+      expect(unlisted.violations).toHaveLength(0);
+    });
+
+    it("should report broken plugins and rules without aborting the lint", async () => {
+      pluginLoader.register("acme-plugin", [
+        findingRule,
+        createPluginRule("unnamespaced", async () => []),
+        createPluginRule("acme/crashes", async () => {
+          throw new Error("boom");
+        }),
+      ]);
+
+      const result = await engine.lint(testDir, {
+        config: {
+          version: "1.0.0",
+          plugins: ["./missing-plugin.js", "acme-plugin"],
+        },
+        enabledRules: ["acme/has-readme", "acme/crashes"],
+      });
+
+      const pluginErrors = result.violations
+        .filter((v) => v.ruleId === "plugin-error")
+        .map((v) => v.message);
+      expect(pluginErrors).toEqual([
+        `Failed to load plugin "./missing-plugin.js": Cannot find module './missing-plugin.js'`,
+        `Plugin "acme-plugin" rule #2 has id "unnamespaced"; plugin rule ids must be namespaced like "myorg/rule-id"`,
+        `Rule "acme/crashes" from plugin "acme-plugin" failed: boom`,
+      ]);
+      expect(
+        result.violations.some((v) => v.ruleId === "acme/has-readme"),
+      ).toBe(true);
+    });
+
+    it("should report plugin rules that return invalid violations", async () => {
+      pluginLoader.register("acme-plugin", [
+        findingRule,
+        createPluginRule(
+          "acme/returns-nothing",
+          async () => undefined as unknown as LibraryRuleViolation[],
+        ),
+        createPluginRule(
+          "acme/bad-severity",
+          async () =>
+            [
+              { ruleId: "acme/bad-severity", severity: "fatal" },
+            ] as unknown as LibraryRuleViolation[],
+        ),
+      ]);
+
+      const result = await engine.lint(testDir, {
+        config: { version: "1.0.0", plugins: ["acme-plugin"] },
+        enabledRules: [
+          "acme/has-readme",
+          "acme/returns-nothing",
+          "acme/bad-severity",
+        ],
+      });
+
+      expect(
+        result.violations
+          .filter((v) => v.ruleId === "plugin-error")
+          .map((v) => v.message),
+      ).toEqual([
+        `Rule "acme/returns-nothing" from plugin "acme-plugin" returned undefined instead of an array of violations`,
+        `Rule "acme/bad-severity" from plugin "acme-plugin" returned violation #1 that has invalid severity "fatal"`,
+      ]);
+      expect(
+        result.violations.some((v) => v.ruleId === "acme/has-readme"),
+      ).toBe(true);
+    });
+
+    it("should report plugins configured without a loader", async () => {
+      engine = new LibraryRulesEngine(fs, globAdapter);
+
+      const result = await engine.lint(testDir, {
+        config: { version: "1.0.0", plugins: ["acme-plugin"] },
+        enabledRules: [],
+      });
+
+      expect(result.violations).toHaveLength(1);
+      expect(result.violations[0].ruleId).toBe("plugin-error");
+      expect(result.violations[0].message).toContain("without a PluginLoader");
+    });
+  });
+
+  describe("fix application", () => {
+    it("should apply fixes and re-run the affected rules", async () => {
+      fs.writeFile(`${testDir}/docs/My_Guide.md`, "# Guide");
+
+      const config: AlexandriaConfig = {
+        context: {
+          rules: [
+            {
+              id: "filename-convention",
+              enabled: true,
+              options: { autoFix: true },
+            },
+          ],
+        },
+      };
+
+      const result = await engine.lint(testDir, {
+        config,
+        enabledRules: ["filename-convention"],
+        fix: true,
+      });
+
+      expect(fs.exists(`${testDir}/docs/my-guide.md`)).toBe(true);
+      expect(fs.exists(`${testDir}/docs/My_Guide.md`)).toBe(false);
+      expect(result.fixes?.fixed).toHaveLength(1);
+      expect(result.fixes?.fixed[0].file).toBe("docs/My_Guide.md");
+      expect(result.fixes?.failed).toHaveLength(0);
+      expect(
+        result.violations.filter((v) => v.ruleId === "filename-convention"),
+      ).toHaveLength(0);
+    });
+
+    it("should update views that reference a renamed file", async () => {
+      fs.writeFile(`${testDir}/docs/My_Guide.md`, "# Guide");
+      fs.writeFile(
+        `${testDir}/.alexandria/views/guide.json`,
+        JSON.stringify({
+          id: "guide",
+          version: "1.0.0",
+          name: "Guide",
+          description: "Guide view",
+          overviewPath: "docs/My_Guide.md",
+          category: "guide",
+          displayOrder: 0,
+          referenceGroups: {},
+        }),
+      );
+
+      await engine.lint(testDir, {
+        config: {
+          context: {
+            rules: [
+              {
+                id: "filename-convention",
+                enabled: true,
+                options: { autoFix: true },
+              },
+            ],
+          },
+        },
+        enabledRules: ["filename-convention"],
+        fix: true,
+      });
+
+      const view = JSON.parse(
+        fs.readFile(`${testDir}/.alexandria/views/guide.json`),
+      );
+      expect(view.overviewPath).toBe("docs/my-guide.md");
+      // Only the path changes; the view is not migrated on the way
+      expect(view.version).toBe("1.0.0");
+    });
+
+    it("should only change the renamed path in views from a newer version", async () => {
+      fs.writeFile(`${testDir}/docs/My_Guide.md`, "# Guide");
+      const stored = {
+        id: "guide",
+        version: "9.0.0",
+        name: "Guide",
+        overviewPath: "docs/guide.md",
+        referenceGroups: {
+          docs: { coordinates: [0, 0], files: ["docs/My_Guide.md"] },
+        },
+        futureField: { kept: true },
+      };
+      fs.writeFile(
+        `${testDir}/.alexandria/views/guide.json`,
+        JSON.stringify(stored),
+      );
+
+      await engine.lint(testDir, {
+        config: {
+          context: {
+            rules: [
+              {
+                id: "filename-convention",
+                enabled: true,
+                options: { autoFix: true },
+              },
+            ],
+          },
+        },
+        enabledRules: ["filename-convention"],
+        fix: true,
+      });
+
+      expect(
+        JSON.parse(fs.readFile(`${testDir}/.alexandria/views/guide.json`)),
+      ).toEqual({
+        ...stored,
+        referenceGroups: {
+          docs: { coordinates: [0, 0], files: ["docs/my-guide.md"] },
+        },
+      });
+    });
+
+    it("should keep files renamed only in case on case-insensitive filesystems", async () => {
+      fs = new InMemoryFileSystemAdapter({ caseInsensitive: true });
+      fs.setupTestRepo(testDir);
+      fs.writeFile(`${testDir}/docs/Guide.md`, "# Guide");
+      engine = new LibraryRulesEngine(fs, new InMemoryGlobAdapter(fs));
+
+      const result = await engine.lint(testDir, {
+        config: {
+          context: {
+            rules: [
+              {
+                id: "filename-convention",
+                enabled: true,
+                options: { autoFix: true },
+              },
+            ],
+          },
+        },
+        enabledRules: ["filename-convention"],
+        fix: true,
+      });
+
+      expect(result.fixes?.fixed).toHaveLength(1);
+      const docs = [...fs.getFiles().keys()].filter(
+        (path) =>
+          path.startsWith(`${testDir}/docs/`) && !path.endsWith("/.dir"),
+      );
+      expect(docs).toEqual([`${testDir}/docs/guide.md`]);
+      expect(fs.readFile(`${testDir}/docs/guide.md`)).toBe("# Guide");
+    });
+
+    it("should report fixes that fail with the reason", async () => {
+      fs.writeFile(`${testDir}/docs/My_Guide.md`, "# Guide");
+
+      const result = await engine.lint(testDir, {
+        enabledRules: ["filename-convention"],
+        fix: true,
+      });
+
+      expect(fs.exists(`${testDir}/docs/My_Guide.md`)).toBe(true);
+      expect(result.fixes?.fixed).toHaveLength(0);
+      expect(result.fixes?.failed).toHaveLength(1);
+      expect(result.fixes?.failed[0].reason).toContain("Auto-fix is disabled");
+      expect(result.violations).toHaveLength(1);
+    });
+
+    it("should report violations that are still present after the fix", async () => {
+      engine.registerRule({
+        id: "noop-fix",
+        name: "No-op Fix",
+        severity: "warning",
+        category: "quality",
+        description: "Always reports a fixable violation",
+        impact: "None",
+        fixable: true,
+        enabled: true,
+        check: async () => [
+          {
+            ruleId: "noop-fix",
+            severity: "warning",
+            file: "README.md",
+            message: "Always broken",
+            impact: "None",
+            fixable: true,
+          },
+        ],
+        fix: async () => {},
+      });
+
+      const result = await engine.lint(testDir, {
+        enabledRules: ["noop-fix"],
+        fix: true,
+      });
+
+      expect(result.fixes?.fixed).toHaveLength(0);
+      expect(result.fixes?.failed[0].reason).toContain("still reported");
+    });
+
+    it("should not include a fix summary when fix is not requested", async () => {
+      fs.writeFile(`${testDir}/docs/My_Guide.md`, "# Guide");
+
+      const result = await engine.lint(testDir, {
+        enabledRules: ["filename-convention"],
+      });
+
+      expect(result.fixes).toBeUndefined();
+      expect(result.fixableCount).toBe(1);
+    });
+  });
+
+  describe("fix planning", () => {
+    it("should preview renames and view updates without writing", async () => {
+      fs.writeFile(`${testDir}/docs/My_Guide.md`, "# Guide");
+      fs.writeFile(
+        `${testDir}/.alexandria/views/guide.json`,
+        JSON.stringify(
+          {
+            id: "guide",
+            version: "1.0.0",
+            name: "Guide",
+            description: "Guide view",
+            overviewPath: "docs/My_Guide.md",
+            category: "guide",
+            displayOrder: 0,
+            referenceGroups: {},
+          },
+          null,
+          2,
+        ),
+      );
+      const filesBefore = fs.getFiles();
+
+      const result = await engine.planFixes(testDir, {
+        enabledRules: ["filename-convention"],
+      });
+
+      expect(fs.getFiles()).toEqual(filesBefore);
+      expect(result.failed).toHaveLength(0);
+      expect(result.plans).toHaveLength(1);
+
+      const { preview } = result.plans[0];
+      expect(preview.risk).toBe("moderate");
+      expect(preview.changes[0]).toMatchObject({
+        type: "file_moved",
+        before: "docs/My_Guide.md",
+        after: "docs/my-guide.md",
+      });
+      expect(preview.changes[1].type).toBe("file_updated");
+      expect(preview.changes[1].path).toBe(".alexandria/views/guide.json");
+      expect(preview.changes[1].diff).toContain(
+        '-  "overviewPath": "docs/My_Guide.md",',
+      );
+      expect(preview.changes[1].diff).toContain(
+        '+  "overviewPath": "docs/my-guide.md",',
+      );
+    });
+
+    it("should report fixable violations whose rule cannot preview", async () => {
+      engine.registerRule({
+        id: "no-plan",
+        name: "No Plan",
+        severity: "warning",
+        category: "quality",
+        description: "Fixable without a preview",
+        impact: "None",
+        fixable: true,
+        enabled: true,
+        check: async () => [
+          {
+            ruleId: "no-plan",
+            severity: "warning",
+            message: "Needs fixing",
+            impact: "None",
+            fixable: true,
+          },
+        ],
+        fix: async () => {},
+      });
+
+      const result = await engine.planFixes(testDir, {
+        enabledRules: ["no-plan"],
+      });
+
+      expect(result.plans).toHaveLength(0);
+      expect(result.failed[0].reason).toContain("cannot preview");
+    });
+  });
+
+  describe("git history", () => {
+    const writeGuideView = () => {
+      fs.writeFile(`${testDir}/docs/guide.md`, "# Guide");
+      fs.writeFile(`${testDir}/src/index.ts`, "export {}");
+      fs.writeFile(
+        `${testDir}/.alexandria/views/guide.json`,
+        JSON.stringify({
+          id: "guide",
+          version: "1.0.0",
+          name: "Guide",
+          description: "Guide view",
+          overviewPath: "docs/guide.md",
+          category: "guide",
+          displayOrder: 0,
+          referenceGroups: {
+            main: { files: ["src/index.ts"] },
+          },
+        }),
+      );
+    };
+
+    it("should report stale overviews from commit timestamps", async () => {
+      writeGuideView();
+      const git = new InMemoryGitAdapter();
+      git.commit(["docs/guide.md", "src/index.ts"], {
+        date: new Date("2024-01-01T00:00:00Z"),
+      });
+      const change = git.commit(["src/index.ts"], {
+        date: new Date("2024-01-04T00:00:00Z"),
+        message: "Rework index",
+      });
+
+      const result = await new LibraryRulesEngine(fs, globAdapter, git).lint(
+        testDir,
+        { enabledRules: ["stale-references"] },
+      );
+
+      expect(result.violations).toHaveLength(1);
+      expect(result.violations[0].file).toBe("docs/guide.md");
+      expect(result.violations[0].message).toContain("3 days");
+      expect(result.violations[0].message).toContain(
+        `in commit ${change.hash.slice(0, 7)}`,
+      );
+    });
+
+    it("should not report overviews committed after their references", async () => {
+      writeGuideView();
+      const git = new InMemoryGitAdapter();
+      git.commit(["src/index.ts"], { date: new Date("2024-01-01T00:00:00Z") });
+      git.commit(["docs/guide.md"], { date: new Date("2024-01-04T00:00:00Z") });
+
+      const result = await new LibraryRulesEngine(fs, globAdapter, git).lint(
+        testDir,
+        { enabledRules: ["stale-references"] },
+      );
+
+      expect(result.violations).toHaveLength(0);
+    });
+
+    it("should skip git history outside a repository", async () => {
+      writeGuideView();
+      const git = new InMemoryGitAdapter(["/elsewhere"]);
+      git.commit(["docs/guide.md"], { date: new Date("2024-01-01T00:00:00Z") });
+      git.commit(["src/index.ts"], { date: new Date("2024-01-04T00:00:00Z") });
+
+      const result = await new LibraryRulesEngine(fs, globAdapter, git).lint(
+        testDir,
+        { enabledRules: ["stale-references"] },
+      );
+
+      expect(result.violations).toHaveLength(0);
+    });
+  });
+
+  describe("incremental lint", () => {
+    const cacheFile = `${testDir}/.alexandria/cache/lint-cache.json`;
+    const rules = [
+      "broken-view-links",
+      "document-organization",
+      "orphaned-references",
+    ];
+
+    beforeEach(() => {
+      fs.writeFile(`${testDir}/random-doc.md`, "# Random");
+      fs.writeFile(`${testDir}/src/index.ts`, "export {}");
+      fs.writeFile(
+        `${testDir}/.alexandria/views/guide.json`,
+        JSON.stringify({
+          id: "guide",
+          version: "1.0.0",
+          name: "Guide",
+          description: "Guide view",
+          overviewPath: "docs/guide.md",
+          category: "guide",
+          displayOrder: 0,
+          referenceGroups: {
+            main: { files: ["src/index.ts", "src/missing.ts"] },
+          },
+        }),
+      );
+    });
+
+    it("should reuse cached results when nothing changed", async () => {
+      const first = await engine.lint(testDir, {
+        enabledRules: rules,
+        incremental: true,
+      });
+      expect(first.cache?.reused).toEqual([]);
+      expect(first.cache?.rerun.sort()).toEqual([...rules].sort());
+      expect(fs.exists(cacheFile)).toBe(true);
+
+      const second = await engine.lint(testDir, {
+        enabledRules: rules,
+        incremental: true,
+      });
+      expect(second.cache?.reused.sort()).toEqual([...rules].sort());
+      expect(second.cache?.rerun).toEqual([]);
+      expect(second.violations).toEqual(first.violations);
+    });
+
+    it("should only re-run rules whose inputs changed", async () => {
+      await engine.lint(testDir, { enabledRules: rules, incremental: true });
+
+      fs.writeFile(`${testDir}/random-doc.md`, "# Random, edited");
+      const result = await engine.lint(testDir, {
+        enabledRules: rules,
+        incremental: true,
+      });
+
+      // random-doc.md is a markdown file and part of "files", but not a view
+      expect(result.cache?.rerun.sort()).toEqual([
+        "document-organization",
+        "orphaned-references",
+      ]);
+      expect(result.cache?.reused).toEqual(["broken-view-links"]);
+    });
+
+    it("should re-run view rules when a view changes", async () => {
+      await engine.lint(testDir, { enabledRules: rules, incremental: true });
+
+      fs.writeFile(`${testDir}/src/missing.ts`, "export {}");
+      const afterFileAdded = await engine.lint(testDir, {
+        enabledRules: rules,
+        incremental: true,
+      });
+      expect(
+        afterFileAdded.violations.filter(
+          (v) => v.ruleId === "orphaned-references",
+        ),
+      ).toHaveLength(0);
+
+      const view = JSON.parse(
+        fs.readFile(`${testDir}/.alexandria/views/guide.json`),
+      );
+      view.description = "Updated";
+      fs.writeFile(
+        `${testDir}/.alexandria/views/guide.json`,
+        JSON.stringify(view),
+      );
+      const afterViewChanged = await engine.lint(testDir, {
+        enabledRules: rules,
+        incremental: true,
+      });
+      expect(afterViewChanged.cache?.reused).toEqual(["document-organization"]);
+    });
+
+    it("should re-run everything when the config changes", async () => {
+      await engine.lint(testDir, { enabledRules: rules, incremental: true });
+
+      const result = await engine.lint(testDir, {
+        enabledRules: rules,
+        incremental: true,
+        config: {
+          context: {
+            rules: [{ id: "minimum-references", severity: "error" }],
+          },
+        },
+      });
+
+      expect(result.cache?.reused).toEqual([]);
+    });
+
+    it("should re-run rules when a package config changes", async () => {
+      const writePackageConfig = (verbose: boolean) =>
+        fs.writeFile(
+          `${testDir}/packages/app/.alexandriarc.json`,
+          JSON.stringify({ version: "1.0.0", reporting: { verbose } }),
+        );
+      fs.writeFile(`${testDir}/packages/app/index.ts`, "export {}");
+      writePackageConfig(false);
+      await engine.lint(testDir, { enabledRules: rules, incremental: true });
+
+      writePackageConfig(true);
+      const result = await engine.lint(testDir, {
+        enabledRules: rules,
+        incremental: true,
+      });
+
+      // broken-view-links only reads views, which did not change
+      expect(result.cache?.rerun).toContain("broken-view-links");
+      expect(result.cache?.reused).toEqual([]);
+    });
+
+    it("should recover when the cache is deleted or corrupt", async () => {
+      const first = await engine.lint(testDir, {
+        enabledRules: rules,
+        incremental: true,
+      });
+
+      fs.deleteDir(`${testDir}/.alexandria/cache`);
+      const afterDelete = await engine.lint(testDir, {
+        enabledRules: rules,
+        incremental: true,
+      });
+      expect(afterDelete.cache?.reused).toEqual([]);
+      expect(afterDelete.violations).toEqual(first.violations);
+
+      fs.writeFile(cacheFile, "{ not json");
+      const afterCorrupt = await engine.lint(testDir, {
+        enabledRules: rules,
+        incremental: true,
+      });
+      expect(afterCorrupt.cache?.reused).toEqual([]);
+      expect(afterCorrupt.violations).toEqual(first.violations);
+    });
+
+    it("should always run rules that declare no inputs", async () => {
+      let runs = 0;
+      engine.registerRule({
+        id: "custom-rule",
+        name: "Custom Rule",
+        severity: "info",
+        category: "quality",
+        description: "Counts runs",
+        impact: "None",
+        fixable: false,
+        enabled: true,
+        async check() {
+          runs++;
+          return [];
+        },
+      });
+
+      await engine.lint(testDir, {
+        enabledRules: ["custom-rule"],
+        incremental: true,
+      });
+      const result = await engine.lint(testDir, {
+        enabledRules: ["custom-rule"],
+        incremental: true,
+      });
+
+      expect(runs).toBe(2);
+      expect(result.cache?.rerun).toEqual(["custom-rule"]);
+    });
+
+    it("should not report cache information without incremental", async () => {
+      const result = await engine.lint(testDir, { enabledRules: rules });
+
+      expect(result.cache).toBeUndefined();
+      expect(fs.exists(cacheFile)).toBe(false);
+    });
+  });
+
+  describe("watch", () => {
+    const debounceMs = 5;
+    const settle = () => new Promise((resolve) => setTimeout(resolve, 50));
+    const watchOptions = {
+      enabledRules: ["orphaned-references"],
+      debounceMs,
+    };
+
+    beforeEach(() => {
+      fs.writeFile(`${testDir}/src/index.ts`, "export {}");
+      fs.writeFile(
+        `${testDir}/.alexandria/views/guide.json`,
+        JSON.stringify({
+          id: "guide",
+          version: "1.0.0",
+          name: "Guide",
+          description: "Guide view",
+          overviewPath: "docs/guide.md",
+          category: "guide",
+          displayOrder: 0,
+          referenceGroups: {
+            main: { files: ["src/index.ts", "src/missing.ts"] },
+          },
+        }),
+      );
+    });
+
+    it("should emit current violations, then only the delta", async () => {
+      const results: LibraryWatchResult[] = [];
+      const watcher = await engine.watch(
+        testDir,
+        (result) => results.push(result),
+        watchOptions,
+      );
+
+      try {
+        expect(results).toHaveLength(1);
+        expect(results[0].added).toHaveLength(1);
+        expect(results[0].added[0].message).toContain("src/missing.ts");
+
+        fs.writeFile(`${testDir}/src/missing.ts`, "export {}");
+        await settle();
+        expect(results).toHaveLength(2);
+        expect(results[1].added).toHaveLength(0);
+        expect(results[1].resolved).toHaveLength(1);
+
+        fs.deleteFile(`${testDir}/src/index.ts`);
+        await settle();
+        expect(results).toHaveLength(3);
+        expect(results[2].added[0].message).toContain("src/index.ts");
+        expect(results[2].resolved).toHaveLength(0);
+      } finally {
+        watcher.close();
+      }
+    });
+
+    it("should debounce bursts of changes into one run", async () => {
+      const results: LibraryWatchResult[] = [];
+      let lintRuns = 0;
+      const originalLint = engine.lint.bind(engine);
+      engine.lint = async (...args) => {
+        lintRuns++;
+        return originalLint(...args);
+      };
+
+      const watcher = await engine.watch(
+        testDir,
+        (result) => results.push(result),
+        watchOptions,
+      );
+
+      try {
+        fs.writeFile(`${testDir}/src/a.ts`, "export {}");
+        fs.writeFile(`${testDir}/src/b.ts`, "export {}");
+        fs.writeFile(`${testDir}/src/missing.ts`, "export {}");
+        await settle();
+
+        expect(lintRuns).toBe(2);
+        expect(results).toHaveLength(2);
+      } finally {
+        watcher.close();
+      }
+    });
+
+    it("should not emit when a change leaves violations unchanged", async () => {
+      const results: LibraryWatchResult[] = [];
+      const watcher = await engine.watch(
+        testDir,
+        (result) => results.push(result),
+        watchOptions,
+      );
+
+      try {
+        fs.writeFile(`${testDir}/src/index.ts`, "export const x = 1;");
+        await settle();
+        expect(results).toHaveLength(1);
+      } finally {
+        watcher.close();
+      }
+    });
+
+    it("should ignore changes to the lint cache", async () => {
+      let lintRuns = 0;
+      const originalLint = engine.lint.bind(engine);
+      engine.lint = async (...args) => {
+        lintRuns++;
+        return originalLint(...args);
+      };
+
+      const watcher = await engine.watch(testDir, () => {}, {
+        ...watchOptions,
+        incremental: true,
+      });
+
+      try {
+        fs.writeFile(`${testDir}/.alexandria/cache/other.json`, "{}");
+        await settle();
+        expect(lintRuns).toBe(1);
+      } finally {
+        watcher.close();
+      }
+    });
+
+    it("should stop re-linting once closed", async () => {
+      const results: LibraryWatchResult[] = [];
+      const watcher = await engine.watch(
+        testDir,
+        (result) => results.push(result),
+        watchOptions,
+      );
+      watcher.close();
+
+      fs.writeFile(`${testDir}/src/missing.ts`, "export {}");
+      await settle();
+      expect(results).toHaveLength(1);
+    });
+
+    it("should reject adapters without watch support", async () => {
+      const unwatchable = new InMemoryFileSystemAdapter();
+      Object.assign(unwatchable, { watch: undefined });
+      unwatchable.writeFile(`${testDir}/.git/config`, "");
+
+      await expect(
+        new LibraryRulesEngine(unwatchable, globAdapter).watch(
+          testDir,
+          () => {},
+        ),
+      ).rejects.toThrow("does not support watching");
+    });
+  });
 });
@@ -11,6 +11,13 @@ import {
   GlobOptions,
 } from "../../src/pure-core/abstractions/glob";
 import { FileSystemAdapter } from "../../src/pure-core/abstractions/filesystem";
+import { resolveRuleOptions } from "../../src/rules/options";
+
+const runCheck = (context: LibraryRuleContext) =>
+  filenameConvention.check(
+    context,
+    resolveRuleOptions(filenameConvention, context.config),
+  );
 
 describe("filename-convention rule", () => {
   let mockContext: LibraryRuleContext;
@@ -119,7 +126,7 @@ describe("filename-convention rule", () => {
         createFileInfo("docs/user-guide.md"),
       ];
 
-      const violations = await filenameConvention.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
 
@@ -129,7 +136,7 @@ describe("filename-convention rule", () => {
         createFileInfo("getting_started.md"),
       ];
 
-      const violations = await filenameConvention.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(2);
       expect(violations[0].message).toContain("api-reference.md");
       expect(violations[1].message).toContain("getting-started.md");
@@ -141,7 +148,7 @@ describe("filename-convention rule", () => {
         createFileInfo("gettingStarted.md"),
       ];
 
-      const violations = await filenameConvention.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(2);
       expect(violations[0].message).toContain("api-reference.md");
       expect(violations[1].message).toContain("getting-started.md");
@@ -154,7 +161,7 @@ describe("filename-convention rule", () => {
         createFileInfo("docs/API_GUIDE.md"),
       ];
 
-      const violations = await filenameConvention.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
       expect(violations[0].file).toBe("docs/API_GUIDE.md");
     });
@@ -179,7 +186,7 @@ describe("filename-convention rule", () => {
         },
       };
 
-      const violations = await filenameConvention.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
   });
@@ -208,7 +215,7 @@ describe("filename-convention rule", () => {
         },
       };
 
-      const violations = await filenameConvention.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
       expect(violations[0].file).toBe("docs/user-guide.md");
       expect(violations[0].message).toContain("user_guide.md");
@@ -239,7 +246,7 @@ describe("filename-convention rule", () => {
         },
       };
 
-      const violations = await filenameConvention.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
       expect(violations[0].file).toBe("docs/user-guide.md");
       expect(violations[0].message).toContain("userGuide.md");
@@ -270,7 +277,7 @@ describe("filename-convention rule", () => {
         },
       };
 
-      const violations = await filenameConvention.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
       expect(violations[0].file).toBe("docs/user-guide.md");
       expect(violations[0].message).toContain("UserGuide.md");
@@ -306,7 +313,7 @@ describe("filename-convention rule", () => {
         },
       };
 
-      const violations = await filenameConvention.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
       expect(violations[0].file).toBe("docs/user-guide.md");
       expect(violations[0].message).toContain("user_guide.md");
@@ -339,7 +346,7 @@ describe("filename-convention rule", () => {
         },
       };
 
-      const violations = await filenameConvention.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
       expect(violations[0].file).toBe("docs/user_guide.md");
       expect(violations[0].message).toContain("USER_GUIDE.md");
@@ -371,7 +378,7 @@ describe("filename-convention rule", () => {
         },
       };
 
-      const violations = await filenameConvention.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
       expect(violations[0].file).toBe("docs/api_reference.md");
     });
@@ -402,7 +409,7 @@ describe("filename-convention rule", () => {
         },
       };
 
-      const violations = await filenameConvention.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
       expect(violations[0].file).toBe("docs/api_reference.txt");
       expect(violations[0].message).toContain("api-reference.txt");
@@ -435,7 +442,7 @@ describe("filename-convention rule", () => {
         },
       };
 
-      const violations = await filenameConvention.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
       expect(violations[0].file).toBe("docs/api_reference.md");
     });
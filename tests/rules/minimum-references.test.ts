@@ -10,6 +10,15 @@ import {
   GlobAdapter,
   GlobOptions,
 } from "../../src/pure-core/abstractions/glob";
+import { resolveRuleOptions } from "../../src/rules/options";
+import { InMemoryFileSystemAdapter } from "../../src/test-adapters/InMemoryFileSystemAdapter";
+import { InMemoryGlobAdapter } from "../../src/test-adapters/InMemoryGlobAdapter";
+
+const runCheck = (context: LibraryRuleContext) =>
+  minimumReferences.check(
+    context,
+    resolveRuleOptions(minimumReferences, context.config),
+  );
 
 describe("minimum-references rule", () => {
   let mockContext: LibraryRuleContext;
@@ -19,7 +28,10 @@ describe("minimum-references rule", () => {
     fileCount: number,
     category?: string,
   ): CodebaseView => {
-    const files = Array.from({ length: fileCount }, (_, i) => `src/file${i}.ts`);
+    const files = Array.from(
+      { length: fileCount },
+      (_, i) => `src/file${i}.ts`,
+    );
     return {
       id: name,
       name,
@@ -65,7 +77,7 @@ describe("minimum-references rule", () => {
         createView("view3", 10),
       ];
 
-      const violations = await minimumReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
 
@@ -76,16 +88,20 @@ describe("minimum-references rule", () => {
         createView("view3", 0),
       ];
 
-      const violations = await minimumReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(2);
-      expect(violations.map((v) => v.file)).toContain("views/view1.json");
-      expect(violations.map((v) => v.file)).toContain("views/view3.json");
+      expect(violations.map((v) => v.file)).toContain(
+        ".alexandria/views/view1.json",
+      );
+      expect(violations.map((v) => v.file)).toContain(
+        ".alexandria/views/view3.json",
+      );
     });
 
     it("should include correct file count in violation message", async () => {
       mockContext.views = [createView("test-view", 0)];
 
-      const violations = await minimumReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
       expect(violations[0].message).toContain(
         'View "test-view" has only 0 file references, below minimum of 1',
@@ -111,7 +127,7 @@ describe("minimum-references rule", () => {
         },
       };
 
-      const violations = await minimumReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
       expect(violations[0].message).toContain(
         'View "test-view" has only 2 file references, below minimum of 3',
@@ -121,10 +137,7 @@ describe("minimum-references rule", () => {
 
   describe("custom minFiles threshold", () => {
     it("should respect custom minFiles option", async () => {
-      mockContext.views = [
-        createView("view1", 3),
-        createView("view2", 5),
-      ];
+      mockContext.views = [createView("view1", 3), createView("view2", 5)];
 
       mockContext.config = {
         version: "1.0.0",
@@ -142,17 +155,14 @@ describe("minimum-references rule", () => {
         },
       };
 
-      const violations = await minimumReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
-      expect(violations[0].file).toBe("views/view1.json");
+      expect(violations[0].file).toBe(".alexandria/views/view1.json");
       expect(violations[0].message).toContain("below minimum of 5");
     });
 
     it("should work with minFiles of 1", async () => {
-      mockContext.views = [
-        createView("view1", 0),
-        createView("view2", 1),
-      ];
+      mockContext.views = [createView("view1", 0), createView("view2", 1)];
 
       mockContext.config = {
         version: "1.0.0",
@@ -170,9 +180,9 @@ describe("minimum-references rule", () => {
         },
       };
 
-      const violations = await minimumReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
-      expect(violations[0].file).toBe("views/view1.json");
+      expect(violations[0].file).toBe(".alexandria/views/view1.json");
     });
   });
 
@@ -184,9 +194,9 @@ describe("minimum-references rule", () => {
         createView("view3", 0, "implementation"),
       ];
 
-      const violations = await minimumReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
-      expect(violations[0].file).toBe("views/view3.json");
+      expect(violations[0].file).toBe(".alexandria/views/view3.json");
     });
 
     it("should respect custom excludeCategories option", async () => {
@@ -211,9 +221,9 @@ describe("minimum-references rule", () => {
         },
       };
 
-      const violations = await minimumReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
-      expect(violations[0].file).toBe("views/view2.json");
+      expect(violations[0].file).toBe(".alexandria/views/view2.json");
     });
 
     it("should handle views without category", async () => {
@@ -222,9 +232,9 @@ describe("minimum-references rule", () => {
         createView("view2", 3),
       ];
 
-      const violations = await minimumReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
-      expect(violations[0].file).toBe("views/view1.json");
+      expect(violations[0].file).toBe(".alexandria/views/view1.json");
     });
   });
 
@@ -252,9 +262,11 @@ describe("minimum-references rule", () => {
         },
       };
 
-      const violations = await minimumReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
-      expect(violations[0].file).toBe("views/api-implementation.json");
+      expect(violations[0].file).toBe(
+        ".alexandria/views/api-implementation.json",
+      );
     });
   });
 
@@ -284,9 +296,9 @@ describe("minimum-references rule", () => {
         },
       };
 
-      const violations = await minimumReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
-      expect(violations[0].file).toBe("views/normal-view.json");
+      expect(violations[0].file).toBe(".alexandria/views/normal-view.json");
     });
   });
 
@@ -313,10 +325,58 @@ describe("minimum-references rule", () => {
 
       mockContext.views = [view];
 
-      const violations = await minimumReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0); // 4 files total >= 3
     });
 
+    it("should count the scanned files patterns and directories match", async () => {
+      const view: CodebaseView = {
+        id: "pattern-group",
+        name: "pattern-group",
+        description: "View with pattern reference groups",
+        overviewPath: "docs/pattern.md",
+        referenceGroups: {
+          source: {
+            coordinates: [0, 0],
+            files: ["src/index.ts"],
+            patterns: ["src/*.ts"],
+            directories: ["lib"],
+          },
+        },
+      };
+
+      mockContext.views = [view];
+      mockContext.files = [
+        "src/index.ts",
+        "src/a.ts",
+        "lib/b.ts",
+        "docs/c.md",
+      ].map((relativePath) => ({
+        path: `/test/project/${relativePath}`,
+        relativePath,
+        exists: true,
+        isMarkdown: relativePath.endsWith(".md"),
+      }));
+      mockContext.globAdapter = new InMemoryGlobAdapter(
+        new InMemoryFileSystemAdapter(),
+      );
+      mockContext.config = {
+        version: "1.0.0",
+        context: {
+          rules: [
+            {
+              id: "minimum-references",
+              options: { minFiles: 4 } as MinimumReferencesOptions,
+            },
+          ],
+        },
+      };
+
+      const violations = await runCheck(mockContext);
+      expect(violations).toHaveLength(1);
+      expect(violations[0].message).toContain("has only 3 file references");
+    });
+
     it("should handle views with empty reference groups", async () => {
       const view: CodebaseView = {
         id: "empty-group",
@@ -336,7 +396,7 @@ describe("minimum-references rule", () => {
 
       mockContext.views = [view];
 
-      const violations = await minimumReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1); // 0 files total < 1
     });
   });
@@ -353,7 +413,7 @@ describe("minimum-references rule", () => {
 
       mockContext.views = [view];
 
-      const violations = await minimumReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
       expect(violations[0].message).toContain("has only 0 file references");
     });
@@ -372,7 +432,7 @@ describe("minimum-references rule", () => {
 
       mockContext.views = [view];
 
-      const violations = await minimumReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
       expect(violations[0].message).toContain("has only 0 file references");
     });
@@ -382,7 +442,7 @@ describe("minimum-references rule", () => {
     it("should handle no views", async () => {
       mockContext.views = [];
 
-      const violations = await minimumReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
   });
@@ -391,7 +451,7 @@ describe("minimum-references rule", () => {
     it("should report violations with correct severity", async () => {
       mockContext.views = [createView("test", 0)];
 
-      const violations = await minimumReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
       expect(violations[0].severity).toBe("error");
       expect(violations[0].ruleId).toBe("minimum-references");
@@ -3,6 +3,7 @@ import { orphanedReferences } from "../../src/rules/implementations/orphaned-ref
 import { LibraryRuleContext } from "../../src/rules/types";
 import { ValidatedRepositoryPath } from "../../src/pure-core/types";
 import { InMemoryFileSystemAdapter } from "../../src/test-adapters/InMemoryFileSystemAdapter";
+import { InMemoryGlobAdapter } from "../../src/test-adapters/InMemoryGlobAdapter";
 
 describe("orphaned-references rule", () => {
   let mockContext: LibraryRuleContext;
@@ -72,7 +73,7 @@ describe("orphaned-references rule", () => {
       expect(violations).toHaveLength(1);
       expect(violations[0].message).toContain("src/missing.ts");
       expect(violations[0].message).toContain("non-existent file");
-      expect(violations[0].file).toBe("views/view1.json");
+      expect(violations[0].file).toBe(".alexandria/views/view1.json");
     });
 
     it("should report multiple violations for multiple missing files", async () => {
@@ -99,6 +100,38 @@ describe("orphaned-references rule", () => {
       expect(violations[1].message).toContain("src/missing2.ts");
     });
 
+    it("should point at the missing entry inside the view file", async () => {
+      const view = {
+        id: "core-view",
+        name: "Core View",
+        title: "Core",
+        description: "Test view",
+        overviewPath: "docs/core.md",
+        referenceGroups: {
+          primary: {
+            label: "Primary",
+            description: "Primary files",
+            files: ["src/index.ts", "src/missing.ts"],
+          },
+        },
+      };
+      fsAdapter.writeFile("/test/project/src/index.ts", "export {}");
+      fsAdapter.writeFile(
+        "/test/project/.alexandria/views/core-view.json",
+        JSON.stringify(view, null, 2),
+      );
+      mockContext.views = [view];
+
+      const violations = await orphanedReferences.check(mockContext);
+      expect(violations).toHaveLength(1);
+      expect(violations[0].file).toBe(".alexandria/views/core-view.json");
+      expect(violations[0].jsonPointer).toBe(
+        "referenceGroups.primary.files[1]",
+      );
+      expect(violations[0].line).toBe(13);
+      expect(violations[0].column).toBe(9);
+    });
+
     it("should check multiple reference groups in a single view", async () => {
       fsAdapter.writeFile("/test/project/src/index.ts", "export {}");
 
@@ -166,6 +199,39 @@ describe("orphaned-references rule", () => {
       const violations = await orphanedReferences.check(mockContext);
       expect(violations).toHaveLength(0);
     });
+
+    it("should report patterns and directories that match no files", async () => {
+      mockContext.globAdapter = new InMemoryGlobAdapter(fsAdapter);
+      mockContext.files = [
+        {
+          path: "/test/project/src/rules/engine.ts",
+          relativePath: "src/rules/engine.ts",
+          exists: true,
+          isMarkdown: false,
+        },
+      ];
+      mockContext.views = [
+        {
+          id: "view1",
+          name: "view1",
+          description: "Test view",
+          overviewPath: "docs/view1.md",
+          referenceGroups: {
+            rules: {
+              coordinates: [0, 0],
+              patterns: ["src/rules/*.ts", "src/**/*.rs"],
+              directories: ["src/rules", "lib"],
+            },
+          },
+        },
+      ];
+
+      const violations = await orphanedReferences.check(mockContext);
+      expect(violations.map((v) => v.message)).toEqual([
+        'View "view1" reference group "rules" has a pattern that matches no files: src/**/*.rs',
+        'View "view1" reference group "rules" has a directory that matches no files: lib',
+      ]);
+    });
   });
 
   describe("severity and metadata", () => {
@@ -10,6 +10,13 @@ import {
   GlobAdapter,
   GlobOptions,
 } from "../../src/pure-core/abstractions/glob";
+import { resolveRuleOptions } from "../../src/rules/options";
+
+const runCheck = (context: LibraryRuleContext) =>
+  requireReferences.check(
+    context,
+    resolveRuleOptions(requireReferences, context.config),
+  );
 
 describe("require-references rule", () => {
   let mockContext: LibraryRuleContext;
@@ -86,7 +93,7 @@ describe("require-references rule", () => {
         createView("view2", "docs/tutorial.md"),
       ];
 
-      const violations = await requireReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
 
@@ -102,7 +109,7 @@ describe("require-references rule", () => {
         createView("view2", "docs/tutorial.md"),
       ];
 
-      const violations = await requireReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
       expect(violations[0].file).toBe("docs/orphaned.md");
       expect(violations[0].message).toContain("not used as an overview");
@@ -117,7 +124,7 @@ describe("require-references rule", () => {
 
       mockContext.views = [createView("view1", "docs/file1.md")];
 
-      const violations = await requireReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(2);
       expect(violations.map((v) => v.file)).toContain("docs/file2.md");
       expect(violations.map((v) => v.file)).toContain("docs/file3.md");
@@ -134,7 +141,7 @@ describe("require-references rule", () => {
 
       mockContext.views = [createView("view1", "docs/api.md")];
 
-      const violations = await requireReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
 
@@ -146,7 +153,7 @@ describe("require-references rule", () => {
 
       mockContext.views = [createView("view1", "docs/api.md")];
 
-      const violations = await requireReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
   });
@@ -170,7 +177,7 @@ describe("require-references rule", () => {
         },
       };
 
-      const violations = await requireReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
   });
@@ -199,7 +206,7 @@ describe("require-references rule", () => {
         },
       };
 
-      const violations = await requireReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
 
@@ -226,12 +233,43 @@ describe("require-references rule", () => {
         },
       };
 
-      const violations = await requireReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
       expect(violations[0].file).toBe("docs/orphaned.md");
     });
   });
 
+  describe("minimumPriority option", () => {
+    it("should only report files at or above the minimum priority", async () => {
+      mockContext.markdownFiles = [
+        { ...createFileInfo("docs/architecture.md"), priority: "critical" },
+        { ...createFileInfo("docs/setup.md"), priority: "high" },
+        createFileInfo("docs/notes.md"),
+        { ...createFileInfo("docs/scratch.md"), priority: "low" },
+      ];
+
+      mockContext.config = {
+        version: "1.0.0",
+        context: {
+          rules: [
+            {
+              id: "require-references",
+              options: {
+                minimumPriority: "high",
+              } as RequireReferencesOptions,
+            },
+          ],
+        },
+      };
+
+      const violations = await runCheck(mockContext);
+      expect(violations.map((v) => v.file)).toEqual([
+        "docs/architecture.md",
+        "docs/setup.md",
+      ]);
+    });
+  });
+
   describe("combined exclusions", () => {
     it("should apply both global and rule-specific exclusions", async () => {
       mockContext.markdownFiles = [
@@ -261,7 +299,7 @@ describe("require-references rule", () => {
         },
       };
 
-      const violations = await requireReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
       expect(violations[0].file).toBe("docs/orphaned.md");
     });
@@ -279,7 +317,7 @@ describe("require-references rule", () => {
         },
       ];
 
-      const violations = await requireReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
       expect(violations[0].file).toBe("docs/orphaned.md");
     });
@@ -296,7 +334,7 @@ describe("require-references rule", () => {
         } as CodebaseView,
       ];
 
-      const violations = await requireReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
       expect(violations[0].file).toBe("docs/orphaned.md");
     });
@@ -307,7 +345,7 @@ describe("require-references rule", () => {
       mockContext.markdownFiles = [];
       mockContext.views = [];
 
-      const violations = await requireReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
 
@@ -315,7 +353,7 @@ describe("require-references rule", () => {
       mockContext.markdownFiles = [createFileInfo("docs/orphaned.md")];
       mockContext.views = [];
 
-      const violations = await requireReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
       expect(violations[0].file).toBe("docs/orphaned.md");
     });
@@ -330,7 +368,7 @@ describe("require-references rule", () => {
         createView("view2", "docs/shared.md"),
       ];
 
-      const violations = await requireReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
   });
@@ -340,7 +378,7 @@ describe("require-references rule", () => {
       mockContext.markdownFiles = [createFileInfo("docs/orphaned.md")];
       mockContext.views = [];
 
-      const violations = await requireReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
       expect(violations[0].severity).toBe("error");
       expect(violations[0].ruleId).toBe("require-references");
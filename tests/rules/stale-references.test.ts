@@ -1,8 +1,19 @@
 import { describe, it, expect, beforeEach } from "vitest";
 import { staleReferences } from "../../src/rules/implementations/stale-references";
-import { LibraryRuleContext, FileInfo } from "../../src/rules/types";
+import {
+  LibraryRuleContext,
+  FileInfo,
+  GitFileHistory,
+} from "../../src/rules/types";
 import { ValidatedRepositoryPath } from "../../src/pure-core/types";
 import { InMemoryFileSystemAdapter } from "../../src/test-adapters/InMemoryFileSystemAdapter";
+import { resolveRuleOptions } from "../../src/rules/options";
+
+const runCheck = (context: LibraryRuleContext) =>
+  staleReferences.check(
+    context,
+    resolveRuleOptions(staleReferences, context.config),
+  );
 
 describe("stale-references rule", () => {
   let mockContext: LibraryRuleContext;
@@ -59,7 +70,7 @@ describe("stale-references rule", () => {
         },
       ];
 
-      const violations = await staleReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
 
@@ -89,7 +100,7 @@ describe("stale-references rule", () => {
         },
       ];
 
-      const violations = await staleReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
       expect(violations[0].file).toBe("docs/overview.md");
       expect(violations[0].message).toContain("src/index.ts");
@@ -124,7 +135,7 @@ describe("stale-references rule", () => {
         },
       ];
 
-      const violations = await staleReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
       expect(violations[0].message).toContain("src/newest.ts");
     });
@@ -155,7 +166,7 @@ describe("stale-references rule", () => {
         },
       ];
 
-      const violations = await staleReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
 
@@ -176,7 +187,7 @@ describe("stale-references rule", () => {
         },
       ];
 
-      const violations = await staleReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
 
@@ -202,7 +213,87 @@ describe("stale-references rule", () => {
         },
       ];
 
-      const violations = await staleReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
+      expect(violations).toHaveLength(0);
+    });
+  });
+
+  describe("git history", () => {
+    const view = {
+      id: "view1",
+      name: "view1",
+      title: "View 1",
+      description: "Test view",
+      overviewPath: "docs/overview.md",
+      referenceGroups: {
+        primary: {
+          label: "Primary",
+          description: "Primary files",
+          files: ["src/index.ts"],
+        },
+      },
+    };
+
+    const history = (
+      path: string,
+      lastModified: Date,
+      lastCommitHash: string,
+    ): [string, GitFileHistory] => [
+      path,
+      { path, lastModified, lastCommitHash, lastCommitMessage: "change" },
+    ];
+
+    it("should prefer commit timestamps over file modification times", async () => {
+      // File timestamps say the overview is newer, git says otherwise
+      mockContext.files = [
+        createFileInfo("docs/overview.md", new Date("2024-01-20T12:00:00Z")),
+        createFileInfo("src/index.ts", new Date("2024-01-10T12:00:00Z")),
+      ];
+      mockContext.gitHistory = new Map([
+        history(
+          "docs/overview.md",
+          new Date("2024-01-10T12:00:00Z"),
+          "aaa1111",
+        ),
+        history("src/index.ts", new Date("2024-01-12T12:00:00Z"), "bbb2222"),
+      ]);
+      mockContext.views = [view];
+
+      const violations = await runCheck(mockContext);
+      expect(violations).toHaveLength(1);
+      expect(violations[0].message).toContain("2 days");
+      expect(violations[0].message).toContain("in commit bbb2222");
+    });
+
+    it("should treat files committed with the overview as up to date", async () => {
+      mockContext.gitHistory = new Map([
+        history(
+          "docs/overview.md",
+          new Date("2024-01-10T12:00:00Z"),
+          "abc1234",
+        ),
+        history("src/index.ts", new Date("2024-01-12T12:00:00Z"), "abc1234"),
+      ]);
+      mockContext.views = [view];
+
+      const violations = await runCheck(mockContext);
+      expect(violations).toHaveLength(0);
+    });
+
+    it("should ignore files without git history", async () => {
+      mockContext.files = [
+        createFileInfo("src/index.ts", new Date("2024-01-20T12:00:00Z")),
+      ];
+      mockContext.gitHistory = new Map([
+        history(
+          "docs/overview.md",
+          new Date("2024-01-10T12:00:00Z"),
+          "abc1234",
+        ),
+      ]);
+      mockContext.views = [view];
+
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(0);
     });
   });
@@ -234,7 +325,7 @@ describe("stale-references rule", () => {
         },
       ];
 
-      const violations = await staleReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
       expect(violations[0].message).toContain("30 minutes after");
     });
@@ -265,7 +356,7 @@ describe("stale-references rule", () => {
         },
       ];
 
-      const violations = await staleReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
       expect(violations[0].message).toContain("6 hours");
     });
@@ -296,12 +387,52 @@ describe("stale-references rule", () => {
         },
       ];
 
-      const violations = await staleReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
       expect(violations[0].message).toContain("5 days");
     });
   });
 
+  describe("maxAgeDays option", () => {
+    const setup = (fileTime: Date, maxAgeDays: number) => {
+      mockContext.files = [
+        createFileInfo("docs/overview.md", new Date("2024-01-10T12:00:00Z")),
+        createFileInfo("src/index.ts", fileTime),
+      ];
+      mockContext.views = [
+        {
+          id: "view1",
+          name: "view1",
+          description: "Test view",
+          overviewPath: "docs/overview.md",
+          referenceGroups: {
+            primary: { coordinates: [0, 0], files: ["src/index.ts"] },
+          },
+        },
+      ];
+      mockContext.config = {
+        version: "1.0.0",
+        context: {
+          rules: [{ id: "stale-references", options: { maxAgeDays } }],
+        },
+      };
+    };
+
+    it("should not report overviews within maxAgeDays of their references", async () => {
+      setup(new Date("2024-01-15T12:00:00Z"), 7);
+
+      expect(await runCheck(mockContext)).toHaveLength(0);
+    });
+
+    it("should report overviews older than maxAgeDays", async () => {
+      setup(new Date("2024-01-20T12:00:00Z"), 7);
+
+      const violations = await runCheck(mockContext);
+      expect(violations).toHaveLength(1);
+      expect(violations[0].message).toContain("10 days");
+    });
+  });
+
   describe("severity and metadata", () => {
     it("should report violations with correct severity", async () => {
       const overviewTime = new Date("2024-01-10T12:00:00Z");
@@ -329,7 +460,7 @@ describe("stale-references rule", () => {
         },
       ];
 
-      const violations = await staleReferences.check(mockContext);
+      const violations = await runCheck(mockContext);
       expect(violations).toHaveLength(1);
       expect(violations[0].severity).toBe("warning");
       expect(violations[0].ruleId).toBe("stale-references");
@@ -344,7 +475,7 @@ describe("stale-references rule", () => {
         fsAdapter: undefined,
       };
 
-      await expect(staleReferences.check(contextWithoutFs)).rejects.toThrow(
+      await expect(runCheck(contextWithoutFs)).rejects.toThrow(
         "stale-references rule requires fsAdapter in context",
       );
     });
@@ -0,0 +1,245 @@
+import { describe, it, expect } from "bun:test";
+import {
+  applySuppressions,
+  getViewSuppressions,
+  parseMarkdownSuppressions,
+  Suppression,
+} from "../../src/rules/suppressions";
+import { LibraryRuleViolation } from "../../src/rules/types";
+import {
+  CodebaseView,
+  ValidatedRepositoryPath,
+} from "../../src/pure-core/types";
+import { InMemoryFileSystemAdapter } from "../../src/test-adapters/InMemoryFileSystemAdapter";
+
+const createViolation = (
+  ruleId: string,
+  file: string,
+  line?: number,
+): LibraryRuleViolation => ({
+  ruleId,
+  severity: "warning",
+  file,
+  line,
+  message: `${ruleId} in ${file}`,
+  impact: "Test impact",
+  fixable: false,
+});
+
+describe("suppressions", () => {
+  describe("parseMarkdownSuppressions", () => {
+    it("should parse file-wide directives with rules and a reason", () => {
+      const content = [
+        "# Guide",
+        "",
+        "<!-- alexandria-disable stale-references, require-references -- kept for history -->",
+      ].join("\n");
+
+      expect(parseMarkdownSuppressions(content, "docs/guide.md")).toEqual([
+        {
+          file: "docs/guide.md",
+          line: 3,
+          column: 1,
+          appliesTo: ["docs/guide.md"],
+          targetLine: undefined,
+          rules: ["stale-references", "require-references"],
+          reason: "kept for history",
+        },
+      ]);
+    });
+
+    it("should target the line after a next-line directive", () => {
+      const content = [
+        "Intro",
+        "  <!-- alexandria-disable-next-line -->",
+        "[broken](./missing.md)",
+      ].join("\n");
+
+      const [suppression] = parseMarkdownSuppressions(content, "README.md");
+      expect(suppression.line).toBe(2);
+      expect(suppression.column).toBe(3);
+      expect(suppression.targetLine).toBe(3);
+      expect(suppression.rules).toEqual([]);
+      expect(suppression.reason).toBeUndefined();
+    });
+
+    it("should ignore directives inside fenced code blocks", () => {
+      const content = [
+        "```markdown",
+        "<!-- alexandria-disable stale-references -->",
+        "```",
+      ].join("\n");
+
+      expect(parseMarkdownSuppressions(content, "README.md")).toEqual([]);
+    });
+
+    it("should not treat other alexandria comments as directives", () => {
+      expect(
+        parseMarkdownSuppressions(
+          "<!-- alexandria-disabled-section -->",
+          "README.md",
+        ),
+      ).toEqual([]);
+    });
+  });
+
+  describe("getViewSuppressions", () => {
+    it("should read rule ids and reasons from experimentalMetadata", () => {
+      const fs = new InMemoryFileSystemAdapter();
+      const view = {
+        id: "core",
+        name: "Core",
+        description: "Core view",
+        overviewPath: "docs/core.md",
+        referenceGroups: {},
+        experimentalMetadata: {
+          alexandriaDisable: [
+            "orphaned-references",
+            { rule: "stale-references", reason: "Archived" },
+            42,
+          ],
+        },
+      } as unknown as CodebaseView;
+      fs.writeFile(
+        "/repo/.alexandria/views/core.json",
+        JSON.stringify(view, null, 2),
+      );
+
+      const suppressions = getViewSuppressions(
+        fs,
+        "/repo" as ValidatedRepositoryPath,
+        view,
+      );
+
+      expect(suppressions).toHaveLength(2);
+      expect(suppressions[0]).toMatchObject({
+        file: ".alexandria/views/core.json",
+        jsonPointer: "experimentalMetadata.alexandriaDisable[0]",
+        appliesTo: [".alexandria/views/core.json", "docs/core.md"],
+        rules: ["orphaned-references"],
+        reason: undefined,
+      });
+      expect(suppressions[0].line).toBeGreaterThan(1);
+      expect(suppressions[1].rules).toEqual(["stale-references"]);
+      expect(suppressions[1].reason).toBe("Archived");
+    });
+  });
+
+  describe("applySuppressions", () => {
+    const options = {
+      ranRules: new Set(["rule-a", "rule-b"]),
+      knownRules: new Set(["rule-a", "rule-b", "rule-c"]),
+    };
+
+    const fileSuppression = (
+      rules: string[],
+      reason?: string,
+    ): Suppression => ({
+      file: "doc.md",
+      line: 1,
+      column: 1,
+      appliesTo: ["doc.md"],
+      rules,
+      reason,
+    });
+
+    it("should drop violations for suppressed rules in the same file", () => {
+      const result = applySuppressions(
+        [
+          createViolation("rule-a", "doc.md"),
+          createViolation("rule-b", "doc.md"),
+          createViolation("rule-a", "other.md"),
+        ],
+        [fileSuppression(["rule-a"])],
+        options,
+      );
+
+      expect(result.map((v) => `${v.ruleId}:${v.file}`)).toEqual([
+        "rule-b:doc.md",
+        "rule-a:other.md",
+      ]);
+    });
+
+    it("should only suppress the target line of next-line directives", () => {
+      const result = applySuppressions(
+        [
+          createViolation("rule-a", "doc.md", 4),
+          createViolation("rule-a", "doc.md", 5),
+        ],
+        [{ ...fileSuppression([]), targetLine: 4 }],
+        options,
+      );
+
+      expect(result).toHaveLength(1);
+      expect(result[0].line).toBe(5);
+    });
+
+    it("should report unused suppressions as info", () => {
+      const result = applySuppressions(
+        [createViolation("rule-a", "doc.md")],
+        [fileSuppression(["rule-a", "rule-b"])],
+        options,
+      );
+
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject({
+        ruleId: "unused-suppression",
+        severity: "info",
+        file: "doc.md",
+        line: 1,
+        message: "Suppression of rule-b is unused",
+      });
+    });
+
+    it("should not report suppressions for rules that did not run", () => {
+      const result = applySuppressions(
+        [],
+        [fileSuppression(["rule-c"])],
+        options,
+      );
+
+      expect(result).toEqual([]);
+    });
+
+    it("should report suppressions naming unknown rules", () => {
+      const result = applySuppressions(
+        [],
+        [fileSuppression(["no-such-rule"])],
+        options,
+      );
+
+      expect(result[0].message).toBe(
+        'Suppression names unknown rule "no-such-rule"',
+      );
+    });
+
+    it("should not report unused suppressions when disabled", () => {
+      const result = applySuppressions([], [fileSuppression(["rule-a"])], {
+        ...options,
+        reportUnused: false,
+      });
+
+      expect(result).toEqual([]);
+    });
+
+    it("should ignore and report suppressions without a required reason", () => {
+      const result = applySuppressions(
+        [
+          createViolation("rule-a", "doc.md"),
+          createViolation("rule-b", "doc.md"),
+        ],
+        [fileSuppression(["rule-a"]), fileSuppression(["rule-b"], "Legacy")],
+        { ...options, requireReason: true },
+      );
+
+      expect(result.map((v) => v.ruleId)).toEqual([
+        "rule-a",
+        "missing-suppression-reason",
+      ]);
+      expect(result[1].severity).toBe("warning");
+      expect(result[1].message).toBe(
+        "Suppression of rule-a (file) has no reason and was ignored",
+      );
+    });
+  });
+});
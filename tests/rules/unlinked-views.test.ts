@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { unlinkedViews } from "../../src/rules/implementations/unlinked-views";
+import { LibraryRuleContext } from "../../src/rules/types";
+import {
+  CodebaseView,
+  ValidatedRepositoryPath,
+} from "../../src/pure-core/types";
+
+describe("unlinked-views rule", () => {
+  let mockContext: LibraryRuleContext;
+  const defaults = { excludeCategories: [], excludeViews: [] };
+
+  const view = (
+    id: string,
+    links: Record<string, string> = {},
+    category?: string,
+  ): CodebaseView => ({
+    id,
+    name: id,
+    title: id,
+    description: `${id} view`,
+    overviewPath: `docs/${id}.md`,
+    category,
+    links,
+    referenceGroups: {},
+  });
+
+  beforeEach(() => {
+    mockContext = {
+      projectRoot: "/test/project" as ValidatedRepositoryPath,
+      views: [],
+      files: [],
+      markdownFiles: [],
+    };
+  });
+
+  it("should report views no other view links to", async () => {
+    mockContext.views = [
+      view("overview", { auth: "Authentication" }),
+      view("auth", { overview: "Back" }),
+      view("billing", { billing: "Itself" }),
+    ];
+
+    const violations = await unlinkedViews.check(mockContext, defaults);
+    expect(violations).toHaveLength(1);
+    expect(violations[0].message).toBe(
+      'View "billing" is not linked from any other view',
+    );
+    expect(violations[0].file).toBe(".alexandria/views/billing.json");
+  });
+
+  it("should skip excluded views and categories", async () => {
+    mockContext.views = [
+      view("overview", { auth: "Authentication" }),
+      view("auth"),
+      view("roadmap", {}, "planning"),
+    ];
+
+    const violations = await unlinkedViews.check(mockContext, {
+      excludeCategories: ["planning"],
+      excludeViews: ["overview"],
+    });
+    expect(violations).toHaveLength(0);
+  });
+
+  it("should not report a lone view", async () => {
+    mockContext.views = [view("overview")];
+
+    const violations = await unlinkedViews.check(mockContext, defaults);
+    expect(violations).toHaveLength(0);
+  });
+});
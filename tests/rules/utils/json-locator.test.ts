@@ -0,0 +1,125 @@
+import { describe, it, expect } from "bun:test";
+import {
+  formatJsonPath,
+  locateJsonPaths,
+  locateInView,
+} from "../../../src/rules/utils/json-locator";
+import {
+  CodebaseView,
+  ValidatedRepositoryPath,
+} from "../../../src/pure-core/types";
+import { InMemoryFileSystemAdapter } from "../../../src/test-adapters/InMemoryFileSystemAdapter";
+
+describe("json-locator", () => {
+  describe("formatJsonPath", () => {
+    it("should join keys with dots and indices with brackets", () => {
+      expect(formatJsonPath(["referenceGroups", "core", "files", 3])).toBe(
+        "referenceGroups.core.files[3]",
+      );
+    });
+
+    it("should quote keys that are not identifiers", () => {
+      expect(formatJsonPath(["links", "other-view"])).toBe(
+        'links["other-view"]',
+      );
+    });
+
+    it("should format the root as an empty string", () => {
+      expect(formatJsonPath([])).toBe("");
+    });
+  });
+
+  describe("locateJsonPaths", () => {
+    const content = [
+      "{",
+      '  "id": "core",',
+      '  "referenceGroups": {',
+      '    "main": {',
+      '      "files": [',
+      '        "src/a.ts",',
+      '        "src/b.ts"',
+      "      ]",
+      "    }",
+      "  }",
+      "}",
+    ].join("\n");
+
+    it("should locate object members at their key", () => {
+      const locations = locateJsonPaths(content);
+
+      expect(locations.get("id")).toEqual({ line: 2, column: 3 });
+      expect(locations.get("referenceGroups.main")).toEqual({
+        line: 4,
+        column: 5,
+      });
+    });
+
+    it("should locate array items at their value", () => {
+      const locations = locateJsonPaths(content);
+
+      expect(locations.get("referenceGroups.main.files[0]")).toEqual({
+        line: 6,
+        column: 9,
+      });
+      expect(locations.get("referenceGroups.main.files[1]")).toEqual({
+        line: 7,
+        column: 9,
+      });
+    });
+
+    it("should handle escaped quotes inside strings", () => {
+      const locations = locateJsonPaths('{"a": "x\\"y", "b": [1, true, null]}');
+
+      expect(locations.get("b[2]")).toEqual({ line: 1, column: 30 });
+    });
+
+    it("should throw on malformed JSON", () => {
+      expect(() => locateJsonPaths('{"a": 1')).toThrow();
+    });
+  });
+
+  describe("locateInView", () => {
+    const projectRoot = "/repo" as ValidatedRepositoryPath;
+    const view = {
+      id: "core-view",
+      name: "Core",
+      referenceGroups: { main: { files: ["src/a.ts", "src/b.ts"] } },
+    } as unknown as CodebaseView;
+
+    it("should use the view id for the file path", () => {
+      const fs = new InMemoryFileSystemAdapter();
+      fs.writeFile(
+        "/repo/.alexandria/views/core-view.json",
+        JSON.stringify(view, null, 2),
+      );
+
+      const location = locateInView(fs, projectRoot, view, [
+        "referenceGroups",
+        "main",
+        "files",
+        1,
+      ]);
+
+      expect(location).toEqual({
+        file: ".alexandria/views/core-view.json",
+        line: 8,
+        column: 9,
+        jsonPointer: "referenceGroups.main.files[1]",
+      });
+    });
+
+    it("should omit line and column when the view file is missing", () => {
+      const location = locateInView(
+        new InMemoryFileSystemAdapter(),
+        projectRoot,
+        view,
+        ["referenceGroups"],
+      );
+
+      expect(location.file).toBe(".alexandria/views/core-view.json");
+      expect(location.line).toBeUndefined();
+      expect(location.column).toBeUndefined();
+      expect(location.jsonPointer).toBe("referenceGroups");
+    });
+  });
+});